@@ -46,6 +46,12 @@ fi
 if [ -n "$DEEPSEEK_API_KEY" ]; then
     API_KEYS="${API_KEYS},DEEPSEEK_API_KEY=\"$DEEPSEEK_API_KEY\""
 fi
+for VAR in OPENAI_COMPATIBLE_BASE_URL OPENAI_COMPATIBLE_API_KEY OPENAI_COMPATIBLE_MODELS OPENAI_COMPATIBLE_VISION_MODELS; do
+    eval "VAL=\$$VAR"
+    if [ -n "$VAL" ]; then
+        API_KEYS="${API_KEYS},${VAR}=\"$VAL\""
+    fi
+done
 
 # Inject API keys into supervisor backend environment if any are set
 if [ -n "$API_KEYS" ]; then
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { MessagePart, ToolDefinition } from "@vladbot/shared";
+
+vi.mock("../config/env.js", () => ({
+  env: { ANTHROPIC_API_KEY: "test-key" },
+}));
+
+const mockGenerationSettings = vi.fn().mockResolvedValue({ systemPrompt: "SYSTEM", sampling: {} });
+vi.mock("../services/ai/systemPrompt.js", () => ({
+  getGenerationSettings: (...args: unknown[]) => mockGenerationSettings(...args),
+}));
+
+vi.mock("../services/ai/toolResultImages.js", () => ({
+  extractToolResultImage: vi.fn(async (output: string) => ({ text: output })),
+  resolveImageToBase64: vi.fn(async () => null),
+  hasVisionModelAsync: vi.fn().mockResolvedValue(false),
+  storeLatestImage: vi.fn(),
+}));
+
+const mockThinkingBudget = vi.fn().mockResolvedValue(0);
+vi.mock("../services/sessionStore.js", () => ({
+  getSessionThinkingBudget: (...args: unknown[]) => mockThinkingBudget(...args),
+}));
+
+const mockStream = vi.fn();
+const sdkErrors = vi.hoisted(() => {
+  class APIError extends Error {
+    constructor(
+      readonly status: number | undefined,
+      readonly error: unknown,
+      message: string,
+      readonly headers: Record<string, string> = {},
+      readonly request_id: string | null = null,
+    ) {
+      super(message);
+    }
+  }
+  class APIUserAbortError extends APIError {}
+  class APIConnectionTimeoutError extends APIError {}
+  return { APIError, APIUserAbortError, APIConnectionTimeoutError };
+});
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class {
+    static APIError = sdkErrors.APIError;
+    static APIUserAbortError = sdkErrors.APIUserAbortError;
+    static APIConnectionTimeoutError = sdkErrors.APIConnectionTimeoutError;
+    messages = { stream: mockStream };
+  },
+}));
+
+const { AnthropicProvider } = await import("../services/ai/AnthropicProvider.js");
+
+function fakeStream(usage: Record<string, number | null>) {
+  return {
+    async *[Symbol.asyncIterator]() {
+      yield { type: "content_block_delta", delta: { type: "text_delta", text: "Hi" } };
+    },
+    finalMessage: async () => ({ usage }),
+  };
+}
+
+async function collect<T>(iter: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of iter) out.push(item);
+  return out;
+}
+
+const TOOLS: ToolDefinition[] = [
+  { name: "memory", description: "Memory", operations: { search: { params: {} }, save: { params: {} } } },
+] as unknown as ToolDefinition[];
+
+describe("AnthropicProvider prompt caching", () => {
+  beforeEach(() => {
+    mockStream.mockReset();
+  });
+
+  it("adds cache breakpoints on the system prompt, the last tool and the summary pair", async () => {
+    mockStream.mockReturnValue(fakeStream({ input_tokens: 10, output_tokens: 2, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 }));
+    const history: MessagePart[] = [
+      { role: "user", content: "[Summary of conversation prior to the messages below]\nEarlier" },
+      { role: "assistant", content: "Understood.", cacheBreakpoint: true },
+      { role: "user", content: "Next question" },
+    ];
+
+    await collect(new AnthropicProvider().generateStream(history, "claude-sonnet-4-20250514", TOOLS));
+
+    const params = mockStream.mock.calls[0][0];
+    expect(params.system).toEqual([{ type: "text", text: "SYSTEM", cache_control: { type: "ephemeral" } }]);
+    expect(params.tools[0].cache_control).toBeUndefined();
+    expect(params.tools[params.tools.length - 1].cache_control).toEqual({ type: "ephemeral" });
+    expect(params.messages[1].content).toEqual([
+      { type: "text", text: "Understood.", cache_control: { type: "ephemeral" } },
+    ]);
+    expect(params.messages[2].content).toBe("Next question");
+  });
+
+  it("reports cache tokens and folds them into the prompt size", async () => {
+    mockStream.mockReturnValue(fakeStream({
+      input_tokens: 50,
+      output_tokens: 20,
+      cache_creation_input_tokens: 200,
+      cache_read_input_tokens: 3000,
+    }));
+
+    const chunks = await collect(
+      new AnthropicProvider().generateStream([{ role: "user", content: "hi" }], "claude-sonnet-4-20250514"),
+    );
+
+    expect(chunks.find((c) => c.type === "usage")?.usage).toEqual({
+      inputTokens: 3250,
+      outputTokens: 20,
+      cacheCreationInputTokens: 200,
+      cacheReadInputTokens: 3000,
+    });
+  });
+});
+
+describe("AnthropicProvider session settings", () => {
+  beforeEach(() => {
+    mockStream.mockReset();
+    mockStream.mockReturnValue(fakeStream({ input_tokens: 1, output_tokens: 1 }));
+  });
+
+  it("sends the session's system prompt and sampling parameters", async () => {
+    mockGenerationSettings.mockResolvedValueOnce({
+      systemPrompt: "You are a pirate.",
+      sampling: { temperature: 1.5, topP: 0.9, maxOutputTokens: 512 },
+    });
+
+    await collect(new AnthropicProvider().generateStream([{ role: "user", content: "hi" }], "claude-sonnet-4-20250514", undefined, undefined, "s1"));
+
+    expect(mockGenerationSettings).toHaveBeenLastCalledWith("s1");
+    const params = mockStream.mock.calls[0][0];
+    expect(params.system[0].text).toBe("You are a pirate.");
+    // Anthropic caps temperature at 1
+    expect(params.temperature).toBe(1);
+    expect(params.top_p).toBe(0.9);
+    expect(params.max_tokens).toBe(512);
+  });
+
+  it("leaves temperature and top_p out when extended thinking is on", async () => {
+    mockThinkingBudget.mockResolvedValueOnce(2048);
+    mockGenerationSettings.mockResolvedValueOnce({
+      systemPrompt: "SYSTEM",
+      sampling: { temperature: 0.2, topP: 0.5, maxOutputTokens: 1000 },
+    });
+
+    await collect(new AnthropicProvider().generateStream([{ role: "user", content: "hi" }], "claude-sonnet-4-20250514", undefined, undefined, "s1"));
+
+    const params = mockStream.mock.calls[0][0];
+    expect(params.temperature).toBeUndefined();
+    expect(params.top_p).toBeUndefined();
+    expect(params.max_tokens).toBe(3048);
+  });
+});
+
+describe("AnthropicProvider tool calls", () => {
+  beforeEach(() => {
+    mockStream.mockReset();
+  });
+
+  it("streams argument deltas before the complete call", async () => {
+    mockStream.mockReturnValue({
+      async *[Symbol.asyncIterator]() {
+        yield { type: "content_block_start", content_block: { type: "tool_use", id: "tu_1", name: "run_command" } };
+        yield { type: "content_block_delta", delta: { type: "input_json_delta", partial_json: "" } };
+        yield { type: "content_block_delta", delta: { type: "input_json_delta", partial_json: '{"command":' } };
+        yield { type: "content_block_delta", delta: { type: "input_json_delta", partial_json: '"ls"}' } };
+        yield { type: "content_block_stop" };
+      },
+      finalMessage: async () => ({ usage: { input_tokens: 1, output_tokens: 1 } }),
+    });
+
+    const chunks = await collect(
+      new AnthropicProvider().generateStream([{ role: "user", content: "hi" }], "claude-sonnet-4-20250514"),
+    );
+
+    expect(chunks.filter((c) => c.type === "tool_call_delta").map((c) => c.toolCallDelta)).toEqual([
+      { id: "tu_1", name: "run_command", delta: '{"command":' },
+      { id: "tu_1", name: "run_command", delta: '"ls"}' },
+    ]);
+    const callIndex = chunks.findIndex((c) => c.type === "tool_call");
+    expect(callIndex).toBeGreaterThan(chunks.findIndex((c) => c.type === "tool_call_delta"));
+    expect(chunks[callIndex].toolCall).toEqual({ id: "tu_1", name: "run_command", arguments: { command: "ls" } });
+  });
+});
+
+describe("AnthropicProvider errors", () => {
+  beforeEach(() => {
+    mockStream.mockReset();
+  });
+
+  it("converts SDK API errors into ProviderError", async () => {
+    const apiError = new sdkErrors.APIError(
+      529,
+      { type: "error", error: { type: "overloaded_error", message: "Overloaded" } },
+      "529 Overloaded",
+      { "retry-after": "5" },
+      "req_011",
+    );
+    mockStream.mockReturnValue({
+      async *[Symbol.asyncIterator]() {
+        throw apiError;
+      },
+      finalMessage: async () => ({ usage: {} }),
+    });
+
+    await expect(
+      collect(new AnthropicProvider().generateStream([{ role: "user", content: "hi" }], "claude-sonnet-4-20250514")),
+    ).rejects.toMatchObject({
+      name: "ProviderError",
+      message: "Overloaded",
+      provider: "anthropic",
+      status: 529,
+      type: "overloaded_error",
+      retryAfterMs: 5000,
+      requestId: "req_011",
+      cause: apiError,
+    });
+  });
+
+  it("lets user aborts through unchanged", async () => {
+    const abort = new sdkErrors.APIUserAbortError(undefined, undefined, "Request was aborted.");
+    mockStream.mockReturnValue({
+      async *[Symbol.asyncIterator]() {
+        throw abort;
+      },
+      finalMessage: async () => ({ usage: {} }),
+    });
+
+    await expect(
+      collect(new AnthropicProvider().generateStream([{ role: "user", content: "hi" }], "claude-sonnet-4-20250514")),
+    ).rejects.toBe(abort);
+  });
+});
@@ -0,0 +1,177 @@
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, vi } from "vitest";
+import type { ApprovalRule, ToolCall } from "@vladbot/shared";
+
+vi.mock("../services/db.js", () => ({
+  default: { query: vi.fn() },
+}));
+
+import { registerTool } from "../services/tools/ToolExecutor.js";
+import { filesystemTool } from "../services/tools/filesystem.js";
+import { runCommandTool } from "../services/tools/runCommand.js";
+import {
+  approverOf,
+  decideToolCall,
+  globToRegExp,
+  needsHumanApproval,
+  policyDenial,
+  previewForApproval,
+} from "../services/approvalPolicy.js";
+
+registerTool(filesystemTool);
+registerTool(runCommandTool);
+
+let nextId = 0;
+function rule(fields: Partial<ApprovalRule> & Pick<ApprovalRule, "outcome">): ApprovalRule {
+  return {
+    id: `r${++nextId}`,
+    sessionId: null,
+    description: "",
+    tool: "*",
+    operation: "*",
+    args: [],
+    enabled: true,
+    createdAt: "",
+    updatedAt: "",
+    ...fields,
+  };
+}
+
+function call(name: string, args: Record<string, unknown>): ToolCall {
+  return { id: `c${++nextId}`, name, arguments: args };
+}
+
+const home = os.homedir();
+
+// The examples from the approval policy design
+const RULES = [
+  rule({
+    description: "Read projects freely",
+    tool: "filesystem",
+    operation: "read_file",
+    args: [{ param: "path", kind: "glob", pattern: "~/projects/**" }],
+    outcome: "allow",
+  }),
+  rule({
+    description: "Ask before rm or sudo",
+    tool: "run_command",
+    args: [{ param: "command", kind: "regex", pattern: "\\b(rm|sudo)\\b" }],
+    outcome: "ask",
+  }),
+  rule({
+    description: "Never delete outside /tmp",
+    sessionId: "s1",
+    tool: "filesystem",
+    operation: "delete",
+    args: [{ param: "path", kind: "glob", pattern: "/tmp/**", negate: true }],
+    outcome: "deny",
+  }),
+];
+
+describe("globToRegExp", () => {
+  it("keeps * within a segment and lets ** cross segments", () => {
+    expect(globToRegExp("/tmp/*").test("/tmp/a")).toBe(true);
+    expect(globToRegExp("/tmp/*").test("/tmp/a/b")).toBe(false);
+    expect(globToRegExp("/tmp/**/x.txt").test("/tmp/a/b/x.txt")).toBe(true);
+    expect(globToRegExp("/tmp/**/x.txt").test("/tmp/x.txt")).toBe(true);
+    expect(globToRegExp("/tmp/**").test("/tmp")).toBe(true);
+    expect(globToRegExp("/tmp/**").test("/tmpfoo")).toBe(false);
+    expect(globToRegExp("file?.txt").test("file1.txt")).toBe(true);
+    expect(globToRegExp("a.b").test("axb")).toBe(false);
+  });
+});
+
+describe("decideToolCall", () => {
+  it("allows reads under the home-relative directory", () => {
+    const decision = decideToolCall(
+      RULES,
+      call("filesystem_read_file", { path: path.join(home, "projects/app/index.ts") }),
+      false,
+    );
+    expect(decision).toEqual({ outcome: "allow", ruleId: RULES[0].id, reason: "Global rule: Read projects freely" });
+  });
+
+  it("resolves .. before matching paths", () => {
+    const escape = call("filesystem_read_file", { path: path.join(home, "projects/../.ssh/id_rsa") });
+    expect(decideToolCall(RULES, escape, false).outcome).toBe("ask");
+  });
+
+  it("asks for risky commands even with auto-approve on", () => {
+    expect(decideToolCall(RULES, call("run_command_execute", { command: "sudo rm -rf build" }), true)).toMatchObject({
+      outcome: "ask",
+      ruleId: RULES[1].id,
+    });
+    expect(decideToolCall(RULES, call("run_command_execute", { command: "npm run format" }), true).outcome).toBe("allow");
+  });
+
+  it("denies deletes outside /tmp", () => {
+    expect(decideToolCall(RULES, call("filesystem_delete", { path: "/etc/passwd" }), true)).toMatchObject({
+      outcome: "deny",
+      reason: "Chat rule: Never delete outside /tmp",
+    });
+    expect(decideToolCall(RULES, call("filesystem_delete", { path: "/tmp/../etc" }), true).outcome).toBe("deny");
+    expect(decideToolCall(RULES, call("filesystem_delete", { path: "/tmp/scratch" }), true).outcome).toBe("allow");
+  });
+
+  it("picks the most restrictive of several matching rules", () => {
+    const rules = [
+      rule({ tool: "filesystem", outcome: "allow" }),
+      rule({ tool: "filesystem", operation: "write_file", outcome: "deny" }),
+      rule({ tool: "*", outcome: "ask" }),
+    ];
+    expect(decideToolCall(rules, call("filesystem_write_file", { path: "/a", content: "" }), true).ruleId).toBe(rules[1].id);
+    expect(decideToolCall(rules, call("filesystem_stat", { path: "/a" }), true).ruleId).toBe(rules[2].id);
+  });
+
+  it("falls back to the session's auto-approve setting and skips disabled rules", () => {
+    const rules = [rule({ tool: "filesystem", outcome: "deny", enabled: false })];
+    const c = call("filesystem_stat", { path: "/a" });
+    expect(decideToolCall(rules, c, true)).toEqual({ outcome: "allow", reason: "Auto-approve is on for this chat" });
+    expect(decideToolCall(rules, c, false)).toEqual({ outcome: "ask", reason: "No rule matched" });
+  });
+});
+
+describe("round helpers", () => {
+  it("holds a round only when some call asks", () => {
+    expect(needsHumanApproval({ a: { outcome: "allow", reason: "" }, b: { outcome: "deny", reason: "" } })).toBe(false);
+    expect(needsHumanApproval({ a: { outcome: "allow", reason: "" }, b: { outcome: "ask", reason: "" } })).toBe(true);
+  });
+
+  it("turns a denial into an error result", () => {
+    expect(policyDenial("c1", { outcome: "deny", reason: "Global rule: no" })).toEqual({
+      toolCallId: "c1",
+      output: "Denied by approval policy (Global rule: no)",
+      isError: true,
+    });
+  });
+
+  it("credits a call to the approving device, else to the rule or auto-approve that allowed it", () => {
+    const message = {
+      toolCallApprovals: { a: { status: "approved" as const, device: "Firefox on Linux (10.0.0.2)" } },
+      approvalDecisions: {
+        a: { outcome: "ask" as const, reason: "No rule matched" },
+        b: { outcome: "allow" as const, ruleId: "r1", reason: "Global rule: reads" },
+        c: { outcome: "allow" as const, reason: "Auto-approve is on for this chat" },
+      },
+    };
+    expect(approverOf(message, "a")).toEqual({ kind: "user", by: "Firefox on Linux (10.0.0.2)" });
+    expect(approverOf(message, "b")).toEqual({ kind: "rule", by: "Global rule: reads", ruleId: "r1" });
+    expect(approverOf(message, "c")).toEqual({ kind: "auto", by: "Auto-approve is on for this chat" });
+  });
+
+  it("previews only the calls that may still run", async () => {
+    const missing = path.join(os.tmpdir(), "vladbot-no-such-file");
+    const calls = [
+      { ...call("filesystem_delete", { path: missing }), id: "ask" },
+      { ...call("filesystem_delete", { path: missing }), id: "deny" },
+    ];
+    const previews = await previewForApproval("s1", calls, {
+      ask: { outcome: "ask", reason: "No rule matched" },
+      deny: { outcome: "deny", reason: "Global rule: no" },
+    });
+    expect(Object.keys(previews ?? {})).toEqual(["ask"]);
+
+    expect(await previewForApproval("s1", [call("filesystem_read_file", { path: missing })], {})).toBeUndefined();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockQuery = vi.fn();
+
+vi.mock("../services/db.js", () => ({
+  default: { query: mockQuery },
+}));
+
+const { listApprovalRules, updateApprovalRule } = await import("../services/approvalRuleStore.js");
+
+const now = new Date();
+const ROW = {
+  id: "r1",
+  session_id: null,
+  description: "Never delete outside /tmp",
+  tool: "filesystem",
+  operation: "delete",
+  args: [{ param: "path", kind: "glob", pattern: "/tmp/**", negate: true }],
+  outcome: "deny",
+  enabled: true,
+  created_at: now,
+  updated_at: now,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("approvalRuleStore", () => {
+  it("lists global rules, plus a session's own when given", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [ROW] });
+    const [rule] = await listApprovalRules();
+    expect(rule).toEqual({
+      id: "r1",
+      sessionId: null,
+      description: "Never delete outside /tmp",
+      tool: "filesystem",
+      operation: "delete",
+      args: [{ param: "path", kind: "glob", pattern: "/tmp/**", negate: true }],
+      outcome: "deny",
+      enabled: true,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    });
+    expect(mockQuery.mock.calls[0][0]).toContain("WHERE session_id IS NULL ORDER BY");
+
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+    await listApprovalRules("s1");
+    expect(mockQuery.mock.calls[1][0]).toContain("session_id IS NULL OR session_id = $1");
+    expect(mockQuery.mock.calls[1][1]).toEqual(["s1"]);
+  });
+
+  it("updates only the provided fields", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ ...ROW, outcome: "ask" }] });
+    const rule = await updateApprovalRule("r1", { outcome: "ask", args: [] });
+    expect(rule?.outcome).toBe("ask");
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain("args = $1");
+    expect(sql).toContain("outcome = $2");
+    expect(sql).not.toContain("tool =");
+    expect(params).toEqual(["[]", "ask", "r1"]);
+  });
+});
@@ -9,6 +9,8 @@ const {
   mockGetSession,
   mockGetSessionModelInfo,
   mockAtomicApprove,
+  mockAtomicDeny,
+  mockRecordToolCallApprovals,
   mockAddMessage,
   mockUpdateMessage,
   mockUpdateSession,
@@ -24,6 +26,11 @@ const {
   mockGetSession: vi.fn(),
   mockGetSessionModelInfo: vi.fn(),
   mockAtomicApprove: vi.fn(),
+  mockAtomicDeny: vi.fn().mockResolvedValue(true),
+  // Records onto the single call of baseSession() unless a test says otherwise
+  mockRecordToolCallApprovals: vi.fn((_messageId: string, approvals: Record<string, unknown>): Promise<unknown> =>
+    Promise.resolve({ toolCalls: [{ id: "tc-1", name: "test_tool", arguments: {} }], toolCallApprovals: approvals }),
+  ),
   mockAddMessage: vi.fn().mockResolvedValue("new-msg-id"),
   mockUpdateMessage: vi.fn().mockResolvedValue(undefined),
   mockUpdateSession: vi.fn(),
@@ -59,6 +66,8 @@ vi.mock("../services/sessionStore.js", () => ({
   addMessage: (...args: unknown[]) => mockAddMessage(...args),
   updateMessage: (...args: unknown[]) => mockUpdateMessage(...args),
   atomicApprove: (...args: unknown[]) => mockAtomicApprove(...args),
+  atomicDeny: (...args: unknown[]) => mockAtomicDeny(...args),
+  recordToolCallApprovals: (...args: unknown[]) => mockRecordToolCallApprovals(...(args as [string, Record<string, unknown>])),
   getSessionAutoApprove: vi.fn().mockResolvedValue(false),
   updateSessionTokenUsage: vi.fn().mockResolvedValue(undefined),
 }));
@@ -86,6 +95,7 @@ vi.mock("../services/tools/index.js", () => ({
 
 vi.mock("../services/tokenCounter.js", () => ({
   estimateMessageTokens: vi.fn().mockReturnValue(10),
+  reconcileUsage: vi.fn(),
 }));
 
 vi.mock("../services/settingsStore.js", () => ({
@@ -260,7 +270,12 @@ describe("messages.approve — cross-client sync", () => {
     // Other watchers should receive approval_changed so their buttons disappear
     expect(ctx.broadcastToSession).toHaveBeenCalledWith(SESSION_ID, {
       type: "approval_changed",
-      data: { messageId: MESSAGE_ID, approvalStatus: "approved" },
+      data: {
+        messageId: MESSAGE_ID,
+        approvalStatus: "approved",
+        toolCalls: [{ id: "tc-1", name: "test_tool", arguments: {} }],
+        toolCallApprovals: { "tc-1": { status: "approved" } },
+      },
     });
   });
 
@@ -319,7 +334,7 @@ describe("messages.approve — cross-client sync", () => {
         { sessionId: SESSION_ID, messageId: MESSAGE_ID },
         ctx,
       ),
-    ).resolves.toEqual({});
+    ).resolves.toMatchObject({ approvalStatus: "approved" });
   });
 
   it("returns 409 when message was already approved concurrently", async () => {
@@ -336,6 +351,45 @@ describe("messages.approve — cross-client sync", () => {
       ),
     ).rejects.toThrow("Message was already approved by a concurrent request");
   });
+
+  it("keeps the round pending until every call is decided", async () => {
+    const handler = capturedHandlers.get("messages.approve")!;
+    const ctx = makeCtx();
+
+    const toolCalls = [
+      { id: "tc-1", name: "test_tool", arguments: {} },
+      { id: "tc-2", name: "test_tool", arguments: {} },
+    ];
+    mockGetSession.mockResolvedValueOnce({ ...baseSession(), messages: [{ ...baseSession().messages[0], toolCalls }] });
+    mockRecordToolCallApprovals.mockResolvedValueOnce({
+      toolCalls,
+      toolCallApprovals: { "tc-1": { status: "approved" } },
+    });
+
+    const result = await handler({ sessionId: SESSION_ID, messageId: MESSAGE_ID, toolCallId: "tc-1" }, ctx);
+
+    expect(mockRecordToolCallApprovals).toHaveBeenCalledWith(
+      MESSAGE_ID,
+      { "tc-1": { status: "approved" } },
+      ["tc-1"],
+      undefined,
+    );
+    expect(result).toMatchObject({ approvalStatus: "pending", toolCallApprovals: { "tc-1": { status: "approved" } } });
+    expect(ctx.broadcastToSession).toHaveBeenCalledWith(SESSION_ID, { type: "approval_changed", data: result });
+    expect(mockAtomicApprove).not.toHaveBeenCalled();
+    expect(mockExecuteToolRound).not.toHaveBeenCalled();
+  });
+
+  it("returns 409 when the call was already decided on another device", async () => {
+    const handler = capturedHandlers.get("messages.approve")!;
+
+    mockGetSession.mockResolvedValueOnce(baseSession());
+    mockRecordToolCallApprovals.mockResolvedValueOnce(null);
+
+    await expect(
+      handler({ sessionId: SESSION_ID, messageId: MESSAGE_ID, toolCallId: "tc-1" }, makeCtx()),
+    ).rejects.toThrow("Tool call was already approved or denied");
+  });
 });
 
 describe("messages.deny — cross-client sync", () => {
@@ -357,9 +411,33 @@ describe("messages.deny — cross-client sync", () => {
       SESSION_ID,
       {
         type: "approval_changed",
-        data: { messageId: MESSAGE_ID, approvalStatus: "denied" },
+        data: {
+          messageId: MESSAGE_ID,
+          approvalStatus: "denied",
+          toolCalls: [{ id: "tc-1", name: "test_tool", arguments: {} }],
+          toolCallApprovals: { "tc-1": { status: "denied" } },
+        },
       },
     );
+    expect(mockDenyToolRound).toHaveBeenCalledWith(SESSION_ID, MESSAGE_ID);
+  });
+
+  it("records the reason for a single denied call", async () => {
+    const handler = capturedHandlers.get("messages.deny")!;
+
+    mockGetSession.mockResolvedValueOnce(baseSession());
+
+    const result = await handler(
+      { sessionId: SESSION_ID, messageId: MESSAGE_ID, toolCallId: "tc-1", reason: "wrong directory" },
+      makeCtx(),
+    );
+
+    expect(mockRecordToolCallApprovals).toHaveBeenCalledWith(
+      MESSAGE_ID,
+      { "tc-1": { status: "denied", reason: "wrong directory" } },
+      ["tc-1"],
+    );
+    expect(result).toMatchObject({ approvalStatus: "denied" });
   });
 
   it("returns 409 when message is not pending", async () => {
@@ -57,6 +57,13 @@ vi.mock("../services/context/SnapshotStore.js", () => ({
   getMessagesByIds: (...args: unknown[]) => mockGetMessagesByIds(...args),
 }));
 
+const mockRecordUsage = vi.fn().mockResolvedValue(null);
+
+vi.mock("../services/usageStore.js", () => ({
+  recordUsage: (...args: unknown[]) => mockRecordUsage(...args),
+  costOf: () => null,
+}));
+
 const { estimateMessageTokens } = await import("../services/tokenCounter.js");
 const {
   buildHistoryFromDB,
@@ -165,6 +172,7 @@ describe("buildHistoryFromDB", () => {
     expect(result[0].content).toContain("Previous conversation summary");
     expect(result[1].role).toBe("assistant");
     expect(result[1].content).toContain("Understood");
+    expect(result[1].cacheBreakpoint).toBe(true);
   });
 
   it("includes verbatim tail messages before compaction", () => {
@@ -274,6 +282,7 @@ describe("getLLMContext", () => {
     expect(result[0].content).toContain("Summary of A and B");
     expect(result[1].role).toBe("assistant");
     expect(result[1].content).toContain("Understood");
+    expect(result[1].cacheBreakpoint).toBe(true);
   });
 });
 
@@ -400,6 +409,38 @@ describe("computeToolStatuses", () => {
     expect(statuses?.tc1).toBe("done");
     expect(statuses?.tc2).toBe("cancelled");
   });
+
+  it("reports each call's own verdict while the round is pending", () => {
+    const msg = makeMsg({
+      role: "assistant",
+      content: "Let me check",
+      toolCalls: [
+        { id: "tc1", name: "test1", arguments: {} },
+        { id: "tc2", name: "test2", arguments: {} },
+        { id: "tc3", name: "test3", arguments: {} },
+      ],
+      toolCallApprovals: { tc1: { status: "approved" }, tc2: { status: "denied", reason: "no" } },
+      approvalStatus: "pending",
+    }, 0);
+
+    expect(computeToolStatuses(msg)).toEqual({ tc1: "waiting", tc2: "cancelled", tc3: "pending" });
+  });
+
+  it("keeps running the calls after one the user denied", () => {
+    const msg = makeMsg({
+      role: "assistant",
+      content: "Let me check",
+      toolCalls: [
+        { id: "tc1", name: "test1", arguments: {} },
+        { id: "tc2", name: "test2", arguments: {} },
+      ],
+      toolCallApprovals: { tc1: { status: "denied" }, tc2: { status: "approved" } },
+      toolResults: [{ toolCallId: "tc1", output: "Tool call denied by user", isError: true }],
+      approvalStatus: "approved",
+    }, 0);
+
+    expect(computeToolStatuses(msg)).toEqual({ tc1: "done", tc2: "executing" });
+  });
 });
 
 describe("enrichMessageForDisplay", () => {
@@ -489,6 +530,8 @@ describe("performCompaction", () => {
     expect(result.summary).toBe("Summary of A and B");
     expect(mockCreateSnapshot).toHaveBeenCalledTimes(1);
     expect(mockSetActiveSnapshot).toHaveBeenCalledWith("sess-1", "snap-1");
+    // The snapshot is tied to the branch tip it summarized
+    expect(mockCreateSnapshot.mock.calls[0][0].leafMessageId).toBe(messages[3].id);
   });
 
   it("filters out existing compaction messages before summarizing", async () => {
@@ -593,6 +636,13 @@ describe("performCompaction", () => {
 
     expect(result.compactionMessage.rawTokenCount).toBe(42);
     expect(result.compactionMessage.tokenCount).toBeGreaterThan(0);
+    expect(mockRecordUsage).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: "sess-1",
+      messageId: result.compactionMessage.id,
+      provider: "anthropic",
+      model: "model-1",
+      purpose: "compaction",
+    }));
   });
 
   it("returns newTokenUsage with snapshot total tokens", async () => {
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { ModelInfo } from "@vladbot/shared";
+
+vi.mock("../services/db.js", () => ({
+  default: { query: vi.fn() },
+}));
+
+const mockAddMessage = vi.fn().mockResolvedValue(undefined);
+const mockUpdateMessage = vi.fn().mockResolvedValue(undefined);
+
+vi.mock("../services/sessionStore.js", () => ({
+  addMessage: (...args: unknown[]) => mockAddMessage(...args),
+  updateMessage: (...args: unknown[]) => mockUpdateMessage(...args),
+}));
+
+const mockStreamWithFailover = vi.fn();
+
+vi.mock("../services/toolLoop.js", () => ({
+  streamWithFailover: (...args: unknown[]) => mockStreamWithFailover(...args),
+}));
+
+import {
+  startCompare,
+  runCompare,
+  keepCandidate,
+  discardCompare,
+  getCompare,
+  toCompareRun,
+} from "../services/compareRuns.js";
+import { getStream, pushEvent } from "../services/streamRegistry.js";
+
+const claude: ModelInfo = { id: "claude", name: "Claude", provider: "anthropic", contextWindow: 200_000, nativeVision: true };
+const gemini: ModelInfo = { id: "gemini", name: "Gemini", provider: "gemini", contextWindow: 1_000_000, nativeVision: true };
+
+describe("compareRuns", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    discardCompare("s1");
+  });
+
+  it("gives every candidate its own stream", () => {
+    const run = startCompare("s1", "user-1", [claude, gemini]);
+
+    expect(getCompare("s1")).toBe(run);
+    expect(new Set(run.candidates.map((c) => c.streamId)).size).toBe(2);
+    for (const c of run.candidates) {
+      expect(getStream(c.streamId)?.assistantId).toBe(c.candidateId);
+    }
+    expect(getStream("s1")).toBeUndefined();
+    expect(toCompareRun(run).candidates.map((c) => c.model)).toEqual(["anthropic:claude", "gemini:gemini"]);
+  });
+
+  it("streams candidates concurrently without tools", async () => {
+    const run = startCompare("s1", "user-1", [claude, gemini]);
+    const [first, second] = run.candidates;
+    let active = 0;
+    let maxActive = 0;
+    mockStreamWithFailover.mockImplementation(async (_session, [model], _history, tools, _signal, streamId) => {
+      expect(tools).toBeUndefined();
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((r) => setTimeout(r, 5));
+      pushEvent(streamId, { type: "token", data: `from ${model.id}` });
+      active--;
+      if (model.id === "gemini") throw new Error("boom");
+      return { target: model, hasToolCalls: false };
+    });
+
+    await runCompare(run, [{ role: "user", content: "Hi" }]);
+
+    expect(maxActive).toBe(2);
+    expect(getStream(first.streamId)).toMatchObject({ content: "from claude", done: true });
+    expect(getStream(first.streamId)?.error).toBeUndefined();
+    expect(getStream(second.streamId)?.done).toBe(true);
+    expect(getStream(second.streamId)?.error).toBeDefined();
+  });
+
+  it("keeps the picked candidate as the reply and ends the run", async () => {
+    const run = startCompare("s1", "user-1", [claude, gemini]);
+    const [winner, loser] = run.candidates;
+    pushEvent(winner.streamId, { type: "token", data: "Winner" });
+    pushEvent(winner.streamId, { type: "usage", data: { inputTokens: 12, outputTokens: 3 } });
+    pushEvent(winner.streamId, { type: "done", data: { hasToolCalls: false } });
+    const loserStream = getStream(loser.streamId)!;
+
+    const message = await keepCandidate(run, winner);
+
+    expect(message).toMatchObject({ id: winner.candidateId, role: "assistant", content: "Winner", model: "claude", parentId: "user-1" });
+    expect(mockAddMessage).toHaveBeenCalledWith("s1", message);
+    expect(mockUpdateMessage).toHaveBeenCalledWith("user-1", { rawTokenCount: 12 });
+    expect(getCompare("s1")).toBeUndefined();
+    expect(getStream(winner.streamId)).toBeUndefined();
+    expect(loserStream.abortController.signal.aborted).toBe(true);
+  });
+});
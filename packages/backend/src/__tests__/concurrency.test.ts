@@ -412,7 +412,7 @@ describe("Tool Executor — parallel tool execution", () => {
       { id: "tc1", name: `${toolName}_run`, arguments: { required_field: "ok" } },
     ]);
     const invalidErrors = validateToolCalls([
-      { id: "tc2", name: `${toolName}_run`, arguments: {} },
+      { id: "tc2", name: `${toolName}_run`, arguments: { required_field: "" } },
     ]);
 
     expect(validErrors).toHaveLength(0);
@@ -1232,7 +1232,7 @@ describe("No deadlocks — concurrent tool execution patterns", () => {
 
     // Second call should succeed — executor is not in a bad state
     const result2 = await executeToolCalls([
-      { id: "tc2", name: `${toolName}_run`, arguments: {} },
+      { id: "tc2", name: `${toolName}_run`, arguments: { required_field: "" } },
     ]);
     expect(result2[0].isError).toBeFalsy();
     expect(result2[0].output).toBe("recovered");
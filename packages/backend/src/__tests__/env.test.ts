@@ -10,6 +10,8 @@ const envSchema = z
     ANTHROPIC_API_KEY: z.string().optional().default(""),
     GOOGLE_GEMINI_API_KEY: z.string().optional().default(""),
     DEEPSEEK_API_KEY: z.string().optional().default(""),
+    OPENAI_COMPATIBLE_BASE_URL: z.string().optional().default(""),
+    LLM_REPLAY_CASSETTE: z.string().optional().default(""),
     PORT: z.coerce.number().default(3001),
     DATABASE_URL: z.string().min(1, "DATABASE_URL is required"),
     MEMORY_MAX_STORAGE_TOKENS: z.coerce.number().default(200000),
@@ -18,8 +20,13 @@ const envSchema = z
     SHOWUI_API_URL: z.string().optional().default(""),
   })
   .refine(
-    (data) => data.ANTHROPIC_API_KEY || data.GOOGLE_GEMINI_API_KEY || data.DEEPSEEK_API_KEY,
-    { message: "At least one API key must be set (ANTHROPIC_API_KEY, GOOGLE_GEMINI_API_KEY, or DEEPSEEK_API_KEY)" },
+    (data) =>
+      data.ANTHROPIC_API_KEY ||
+      data.GOOGLE_GEMINI_API_KEY ||
+      data.DEEPSEEK_API_KEY ||
+      data.OPENAI_COMPATIBLE_BASE_URL ||
+      data.LLM_REPLAY_CASSETTE,
+    { message: "At least one API key must be set (ANTHROPIC_API_KEY, GOOGLE_GEMINI_API_KEY, or DEEPSEEK_API_KEY), or OPENAI_COMPATIBLE_BASE_URL or LLM_REPLAY_CASSETTE" },
   );
 
 describe("env schema validation", () => {
@@ -45,6 +52,22 @@ describe("env schema validation", () => {
     expect(result.success).toBe(false);
   });
 
+  it("accepts an OpenAI-compatible base URL without API keys", () => {
+    const result = envSchema.safeParse({
+      OPENAI_COMPATIBLE_BASE_URL: "http://localhost:11434/v1",
+      DATABASE_URL: "postgresql://localhost:5432/test",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("accepts a replay cassette without API keys", () => {
+    const result = envSchema.safeParse({
+      LLM_REPLAY_CASSETTE: "/tmp/session.cassette.json",
+      DATABASE_URL: "postgresql://localhost:5432/test",
+    });
+    expect(result.success).toBe(true);
+  });
+
   it("defaults PORT to 3001", () => {
     const result = envSchema.safeParse({
       DEEPSEEK_API_KEY: "sk-test",
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { classifyLLMError } from "../services/ai/errorClassifier.js";
+import { ProviderError } from "../services/ai/ProviderError.js";
 
 describe("classifyLLMError", () => {
   describe("CONTEXT_LIMIT errors", () => {
@@ -153,4 +154,69 @@ describe("classifyLLMError", () => {
       expect(result.message).toContain("tool");
     });
   });
+
+  describe("typed provider errors", () => {
+    function classify(message: string, details: Partial<ConstructorParameters<typeof ProviderError>[1]>) {
+      return classifyLLMError(new ProviderError(message, { provider: "anthropic", ...details }));
+    }
+
+    it("classifies overloaded responses separately from rate limits", () => {
+      expect(classify("Overloaded", { status: 529, type: "overloaded_error" }).code).toBe("OVERLOADED");
+      expect(classify("Service unavailable", { status: 503 }).code).toBe("OVERLOADED");
+      expect(classify("Slow down", { status: 429, type: "rate_limit_error" }).code).toBe("RATE_LIMIT");
+      expect(classify("Quota", { provider: "gemini", status: 429, type: "RESOURCE_EXHAUSTED" }).code).toBe("RATE_LIMIT");
+    });
+
+    it("classifies timeouts as recoverable", () => {
+      const result = classify("Request timed out.", { timedOut: true });
+      expect(result.code).toBe("TIMEOUT");
+      expect(result.recoverable).toBe(true);
+      expect(classify("Gateway timeout", { status: 504 }).code).toBe("TIMEOUT");
+    });
+
+    it("classifies content filter rejections as non-recoverable", () => {
+      const result = classify("Output blocked by content filtering policy", { status: 400, type: "invalid_request_error" });
+      expect(result.code).toBe("CONTENT_FILTER");
+      expect(result.recoverable).toBe(false);
+      expect(classify("Filtered", { provider: "openai", status: 400, type: "content_filter" }).code).toBe("CONTENT_FILTER");
+    });
+
+    it("classifies other 4xx responses as invalid requests", () => {
+      const result = classify("messages.1: tool_use ids must be unique", { status: 400, type: "invalid_request_error" });
+      expect(result.code).toBe("INVALID_REQUEST");
+      expect(result.recoverable).toBe(false);
+    });
+
+    it("still detects context overflow from a 400 message", () => {
+      expect(classify("prompt is too long: 210000 tokens > 200000 maximum", { status: 400 }).code).toBe("CONTEXT_LIMIT");
+    });
+
+    it("classifies auth failures by status", () => {
+      expect(classify("invalid x-api-key", { status: 401, type: "authentication_error" }).code).toBe("AUTH_ERROR");
+    });
+
+    it("treats 5xx and statusless failures as provider errors", () => {
+      expect(classify("Internal server error", { status: 500, type: "api_error" }).code).toBe("PROVIDER_ERROR");
+      expect(classify("stream ended unexpectedly", {}).code).toBe("PROVIDER_ERROR");
+    });
+
+    it("passes the error metadata through", () => {
+      const result = classify("Slow down", {
+        status: 429,
+        type: "rate_limit_error",
+        retryAfterMs: 30_000,
+        requestId: "req_123",
+      });
+      expect(result).toEqual({
+        message: "Slow down",
+        code: "RATE_LIMIT",
+        recoverable: true,
+        provider: "anthropic",
+        status: 429,
+        providerType: "rate_limit_error",
+        retryAfterMs: 30_000,
+        requestId: "req_123",
+      });
+    });
+  });
 });
@@ -4,6 +4,7 @@ import {
   registerTool,
   getToolDefinitions,
   executeToolCalls,
+  previewToolCalls,
 } from "../services/tools/ToolExecutor.js";
 import path from "node:path";
 import {
@@ -15,10 +16,12 @@ import {
   stat,
   symlink,
   readlink,
+  chmod,
 } from "node:fs/promises";
 import { tmpdir } from "node:os";
 
 const exec = (args: Record<string, unknown>) => filesystemTool.execute(args);
+const preview = (args: Record<string, unknown>) => filesystemTool.preview!(args);
 
 describe("filesystemTool", () => {
   it("has a valid definition", () => {
@@ -459,6 +462,139 @@ describe("filesystemTool", () => {
     });
   });
 
+  describe("preview", () => {
+    it("diffs a write against the current file", async () => {
+      const tmp = await mkdtemp(path.join(tmpdir(), "vladbot-test-"));
+      try {
+        const file = path.join(tmp, "a.txt");
+        await writeFile(file, "one\ntwo\nthree\n");
+
+        expect(await preview({ operation: "write_file", path: file, content: "one\n2\nthree\n" })).toEqual({
+          kind: "diff",
+          path: file,
+          diff: `--- a${file}\n+++ b${file}\n@@ -1,3 +1,3 @@\n one\n-two\n+2\n three`,
+          newFile: false,
+          truncated: false,
+        });
+        // Nothing is written
+        expect(await readFile(file, "utf-8")).toBe("one\ntwo\nthree\n");
+      } finally {
+        await rm(tmp, { recursive: true });
+      }
+    });
+
+    it("shows a new file and an append as additions", async () => {
+      const tmp = await mkdtemp(path.join(tmpdir(), "vladbot-test-"));
+      try {
+        const created = await preview({ operation: "write_file", path: path.join(tmp, "new.txt"), content: "hi\n" });
+        expect(created).toMatchObject({ kind: "diff", newFile: true, diff: expect.stringContaining("--- /dev/null\n") });
+        expect(created).toMatchObject({ diff: expect.stringContaining("@@ -0,0 +1 @@\n+hi") });
+
+        await writeFile(path.join(tmp, "log.txt"), "a\n");
+        const appended = await preview({ operation: "append_file", path: path.join(tmp, "log.txt"), content: "b\n" });
+        expect(appended).toMatchObject({ kind: "diff", diff: expect.stringContaining("@@ -1 +1,2 @@\n a\n+b") });
+      } finally {
+        await rm(tmp, { recursive: true });
+      }
+    });
+
+    it("notes writes it cannot diff", async () => {
+      const tmp = await mkdtemp(path.join(tmpdir(), "vladbot-test-"));
+      try {
+        await writeFile(path.join(tmp, "bin"), Buffer.from([1, 0, 2]));
+        expect(await preview({ operation: "write_file", path: path.join(tmp, "bin"), content: "x" }))
+          .toMatchObject({ kind: "note", text: expect.stringContaining("binary file") });
+        expect(await preview({ operation: "write_file", path: path.join(tmp, "missing", "f"), content: "x" }))
+          .toMatchObject({ kind: "note", text: expect.stringContaining("does not exist") });
+      } finally {
+        await rm(tmp, { recursive: true });
+      }
+    });
+
+    it("lists everything a recursive delete removes", async () => {
+      const tmp = await mkdtemp(path.join(tmpdir(), "vladbot-test-"));
+      try {
+        const dir = path.join(tmp, "dir");
+        await mkdir(path.join(dir, "sub"), { recursive: true });
+        await writeFile(path.join(dir, "b.txt"), "12345");
+        await writeFile(path.join(dir, "sub", "a.txt"), "123");
+        await symlink("/etc", path.join(dir, "link"));
+
+        expect(await preview({ operation: "delete", path: dir, recursive: true })).toEqual({
+          kind: "paths",
+          action: "delete",
+          paths: [
+            { path: dir, type: "directory", size: 0 },
+            { path: path.join(dir, "b.txt"), type: "file", size: 5 },
+            { path: path.join(dir, "link"), type: "symlink", size: 4 },
+            { path: path.join(dir, "sub"), type: "directory", size: 0 },
+            { path: path.join(dir, "sub", "a.txt"), type: "file", size: 3 },
+          ],
+          totalCount: 5,
+          totalSize: 12,
+          truncated: false,
+        });
+        expect(await preview({ operation: "delete", path: dir }))
+          .toMatchObject({ warning: expect.stringContaining("recursive is off") });
+      } finally {
+        await rm(tmp, { recursive: true });
+      }
+    });
+
+    it("maps moved paths to their destinations and warns before replacing", async () => {
+      const tmp = await mkdtemp(path.join(tmpdir(), "vladbot-test-"));
+      try {
+        await mkdir(path.join(tmp, "src"));
+        await writeFile(path.join(tmp, "src", "f.txt"), "x");
+        await writeFile(path.join(tmp, "taken.txt"), "y");
+
+        const moved = await preview({ operation: "move", source: path.join(tmp, "src"), destination: path.join(tmp, "dst") });
+        expect(moved).toMatchObject({
+          kind: "paths",
+          action: "move",
+          paths: [
+            { path: path.join(tmp, "src"), destination: path.join(tmp, "dst") },
+            { path: path.join(tmp, "src", "f.txt"), destination: path.join(tmp, "dst", "f.txt") },
+          ],
+        });
+        expect(moved).not.toHaveProperty("warning");
+
+        const replacing = await preview({
+          operation: "move",
+          source: path.join(tmp, "src", "f.txt"),
+          destination: path.join(tmp, "taken.txt"),
+        });
+        expect(replacing).toMatchObject({ warning: `${path.join(tmp, "taken.txt")} exists and will be replaced` });
+      } finally {
+        await rm(tmp, { recursive: true });
+      }
+    });
+
+    it("shows the permission change of a chmod", async () => {
+      const tmp = await mkdtemp(path.join(tmpdir(), "vladbot-test-"));
+      try {
+        const file = path.join(tmp, "run.sh");
+        await writeFile(file, "");
+        await chmod(file, 0o644);
+
+        expect(await preview({ operation: "chmod", path: file, mode: "755" })).toEqual({
+          kind: "permissions",
+          path: file,
+          from: "0644 (rw-r--r--)",
+          to: "0755 (rwxr-xr-x)",
+        });
+        expect(await preview({ operation: "chmod", path: file, mode: "u+x" }))
+          .toMatchObject({ kind: "note", text: expect.stringContaining("not an octal mode") });
+      } finally {
+        await rm(tmp, { recursive: true });
+      }
+    });
+
+    it("has nothing to show for read-only operations", async () => {
+      expect(await preview({ operation: "read_file", path: "/tmp" })).toBeNull();
+    });
+  });
+
   describe("error handling", () => {
     it("throws on unknown operation", async () => {
       await expect(exec({ operation: "bogus" })).rejects.toThrow("Unknown operation");
@@ -496,4 +632,20 @@ describe("ToolExecutor registry (filesystem)", () => {
     expect(results[0].isError).toBeFalsy();
     expect(results[0].output).toContain("/tmp");
   });
+
+  it("previews calls by ID and reports a failed preview as a note", async () => {
+    const tmp = await mkdtemp(path.join(tmpdir(), "vladbot-test-"));
+    try {
+      const previews = await previewToolCalls([
+        { id: "w", name: "filesystem_write_file", arguments: { path: path.join(tmp, "f"), content: "x\n" } },
+        { id: "r", name: "filesystem_read_file", arguments: { path: path.join(tmp, "f") } },
+        { id: "d", name: "filesystem_delete", arguments: { path: path.join(tmp, "nope") } },
+      ]);
+      expect(Object.keys(previews).sort()).toEqual(["d", "w"]);
+      expect(previews.w).toMatchObject({ kind: "diff", newFile: true });
+      expect(previews.d).toMatchObject({ kind: "note", text: expect.stringContaining("does not exist") });
+    } finally {
+      await rm(tmp, { recursive: true });
+    }
+  });
 });
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { ToolCall, ToolResult } from "@vladbot/shared";
+
+const settings: Record<string, string> = {};
+vi.mock("../config/runtimeSettings.js", () => ({
+  getRuntimeSetting: vi.fn(async (key: string) => settings[key] ?? "0"),
+}));
+
+const {
+  checkLoopLimits,
+  clearLoopTurn,
+  continueLoopTurn,
+  recordLoopRound,
+  recordLoopUsage,
+  resolveLoopLimits,
+  startLoopTurn,
+} = await import("../services/loopGuard.js");
+
+const SESSION = "loop-session";
+const OFF = { maxRounds: 0, maxSeconds: 0, maxTokens: 0 };
+
+let nextId = 0;
+function round(name: string, args: Record<string, unknown>, output = "ok"): void {
+  const call: ToolCall = { id: `tc${++nextId}`, name, arguments: args };
+  const result: ToolResult = { toolCallId: call.id, output };
+  recordLoopRound(SESSION, [call], [result]);
+}
+
+const screenshot = (pixels: string) => JSON.stringify({ width: 800, height: 600, image_base64: `data:image/jpeg;base64,${pixels}` });
+
+beforeEach(() => {
+  startLoopTurn(SESSION);
+});
+
+afterEach(() => {
+  clearLoopTurn(SESSION);
+  vi.useRealTimers();
+  for (const key of Object.keys(settings)) delete settings[key];
+});
+
+describe("loop limits", () => {
+  it("fills unset session limits from the global settings", async () => {
+    settings.loop_max_rounds = "10";
+    settings.loop_max_seconds = "600";
+    expect(await resolveLoopLimits({ maxRounds: 3 })).toEqual({ maxRounds: 3, maxSeconds: 600, maxTokens: 0 });
+    expect(await resolveLoopLimits(undefined)).toEqual({ maxRounds: 10, maxSeconds: 600, maxTokens: 0 });
+  });
+
+  it("pauses once the round limit is used up, and continue grants more", () => {
+    const limits = { ...OFF, maxRounds: 2 };
+    round("filesystem_read_file", { path: "a" });
+    expect(checkLoopLimits(SESSION, limits)).toBeNull();
+    round("filesystem_read_file", { path: "b" });
+    expect(checkLoopLimits(SESSION, limits)).toMatchObject({ reason: "rounds", rounds: 2 });
+
+    continueLoopTurn(SESSION, 1);
+    expect(checkLoopLimits(SESSION, limits)).toBeNull();
+    round("filesystem_read_file", { path: "c" });
+    expect(checkLoopLimits(SESSION, limits)).toMatchObject({ reason: "rounds", detail: "Reached the limit of 1 tool round" });
+  });
+
+  it("pauses on the wall-clock and token budgets", () => {
+    vi.useFakeTimers();
+    startLoopTurn(SESSION);
+    vi.advanceTimersByTime(61_000);
+    expect(checkLoopLimits(SESSION, { ...OFF, maxSeconds: 60 })).toMatchObject({ reason: "time" });
+
+    recordLoopUsage(SESSION, { inputTokens: 900, outputTokens: 200 });
+    expect(checkLoopLimits(SESSION, { ...OFF, maxTokens: 1000 })).toMatchObject({
+      reason: "tokens",
+      detail: "Used 1,100 of 1,000 tokens",
+      tokens: 1100,
+    });
+    expect(checkLoopLimits(SESSION, OFF)).toBeNull();
+  });
+});
+
+describe("repetition detection", () => {
+  it("flags the same call with identical arguments three times in a row", () => {
+    round("run_command_execute", { command: "ls", cwd: "/tmp" });
+    round("run_command_execute", { cwd: "/tmp", command: "ls" });
+    expect(checkLoopLimits(SESSION, OFF)).toBeNull();
+    round("run_command_execute", { command: "ls", cwd: "/tmp" });
+
+    expect(checkLoopLimits(SESSION, OFF)).toMatchObject({
+      reason: "repetition",
+      detail: "run_command_execute was called 3 times in a row with the same arguments",
+    });
+  });
+
+  it("does not flag repeated calls with other calls in between", () => {
+    for (let i = 0; i < 3; i++) {
+      round("filesystem_read_file", { path: "log.txt" });
+      round("filesystem_write_file", { path: "log.txt", content: String(i) });
+    }
+    expect(checkLoopLimits(SESSION, OFF)).toBeNull();
+  });
+
+  it("flags alternating screenshots and clicks when the screen doesn't change", () => {
+    for (let i = 0; i < 3; i++) {
+      round("vnc_screenshot", {}, screenshot("SAME"));
+      round("vnc_click", { x: 100 + i * 10, y: 200 });
+    }
+    expect(checkLoopLimits(SESSION, OFF)).toMatchObject({ reason: "repetition", detail: expect.stringContaining("screen did not change") });
+  });
+
+  it("keeps going while the clicks change the screen", () => {
+    for (let i = 0; i < 3; i++) {
+      round("vnc_screenshot", {}, screenshot(`FRAME${i}`));
+      round("vnc_click", { x: 100 + i * 10, y: 200 });
+    }
+    expect(checkLoopLimits(SESSION, OFF)).toBeNull();
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { McpServerConfig } from "@vladbot/shared";
+
+vi.mock("../services/db.js", () => ({
+  default: { query: vi.fn() },
+}));
+
+import { McpClient } from "../services/mcp/McpClient.js";
+import { HttpTransport, StdioTransport } from "../services/mcp/transports.js";
+import { buildMcpTool, formatMcpResult, toJsonSchemaProperty } from "../services/mcp/mcpTool.js";
+import {
+  applyMcpServer,
+  closeAllMcpServers,
+  getMcpServerStatus,
+  onMcpChange,
+} from "../services/mcp/mcpManager.js";
+import { executeToolCalls, getToolDefinitions } from "../services/tools/ToolExecutor.js";
+
+/** A tiny stdio MCP server: echoes text, can add a tool at runtime, and can crash. */
+const FIXTURE_SERVER = `
+const tools = [
+  { name: "echo", description: "Echo text", inputSchema: { type: "object", properties: { text: { type: "string" } }, required: ["text"] }, annotations: { readOnlyHint: true } },
+  { name: "grow", inputSchema: { type: "object" } },
+  { name: "crash", inputSchema: { type: "object" } },
+];
+const send = (m) => process.stdout.write(JSON.stringify({ jsonrpc: "2.0", ...m }) + "\\n");
+require("readline").createInterface({ input: process.stdin }).on("line", (line) => {
+  const msg = JSON.parse(line);
+  if (msg.method === "initialize") {
+    send({ id: msg.id, result: { protocolVersion: msg.params.protocolVersion, capabilities: { tools: { listChanged: true } }, serverInfo: { name: "fixture", version: "1" } } });
+  } else if (msg.method === "tools/list") {
+    send({ id: msg.id, result: { tools } });
+  } else if (msg.method === "tools/call") {
+    const { name, arguments: args } = msg.params;
+    if (name === "echo") send({ id: msg.id, result: { content: [{ type: "text", text: args.text }] } });
+    if (name === "grow") {
+      tools.push({ name: "extra", inputSchema: { type: "object" } });
+      send({ id: msg.id, result: { content: [] } });
+      send({ method: "notifications/tools/list_changed" });
+    }
+    if (name === "crash") {
+      process.stderr.write("going down\\n");
+      process.exit(3);
+    }
+  }
+});
+`;
+
+let client: McpClient | null = null;
+let server: Server | null = null;
+
+afterEach(async () => {
+  await client?.close();
+  client = null;
+  await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)));
+  server = null;
+});
+
+describe("McpClient over stdio", () => {
+  it("completes the handshake, lists and calls tools", async () => {
+    client = new McpClient(new StdioTransport(process.execPath, ["-e", FIXTURE_SERVER], {}));
+    await client.connect();
+
+    const tools = await client.listTools();
+    expect(tools.map((t) => t.name)).toEqual(["echo", "grow", "crash"]);
+    expect(await client.callTool("echo", { text: "hi" })).toEqual({
+      content: [{ type: "text", text: "hi" }],
+    });
+  });
+
+  it("reports tool list changes", async () => {
+    client = new McpClient(new StdioTransport(process.execPath, ["-e", FIXTURE_SERVER], {}));
+    await client.connect();
+    const changed = new Promise<void>((resolve) => {
+      client!.onToolsChanged = resolve;
+    });
+
+    await client.callTool("grow", {});
+    await changed;
+
+    expect((await client.listTools()).map((t) => t.name)).toContain("extra");
+  });
+
+  it("rejects pending calls and reports the exit when the server dies", async () => {
+    client = new McpClient(new StdioTransport(process.execPath, ["-e", FIXTURE_SERVER], {}));
+    await client.connect();
+    const closed = new Promise<Error>((resolve) => {
+      client!.onClose = resolve;
+    });
+
+    await expect(client.callTool("crash", {})).rejects.toThrow("code 3");
+    expect((await closed).message).toContain("going down");
+  });
+
+  it("fails to connect when the command does not exist", async () => {
+    client = new McpClient(new StdioTransport("/nonexistent/mcp-server", [], {}));
+    await expect(client.connect()).rejects.toThrow("ENOENT");
+  });
+});
+
+describe("McpClient over streamable HTTP", () => {
+  it("keeps the session ID and reads JSON and SSE responses", async () => {
+    const seenSessions: (string | undefined)[] = [];
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        if (req.method !== "POST") {
+          res.writeHead(405).end();
+          return;
+        }
+        seenSessions.push(req.headers["mcp-session-id"] as string | undefined);
+        const msg = JSON.parse(body);
+        if (msg.method === "initialize") {
+          res.writeHead(200, { "content-type": "application/json", "mcp-session-id": "sess-1" });
+          res.end(JSON.stringify({ jsonrpc: "2.0", id: msg.id, result: { protocolVersion: "2025-03-26", capabilities: {} } }));
+        } else if (msg.method === "tools/list") {
+          res.writeHead(200, { "content-type": "text/event-stream" });
+          res.end(`event: message\ndata: ${JSON.stringify({ jsonrpc: "2.0", id: msg.id, result: { tools: [{ name: "remote" }] } })}\n\n`);
+        } else {
+          res.writeHead(202).end();
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    client = new McpClient(new HttpTransport(`http://127.0.0.1:${port}/mcp`, { authorization: "Bearer t" }));
+    await client.connect();
+
+    expect(await client.listTools()).toEqual([{ name: "remote" }]);
+    expect(seenSessions).toEqual([undefined, "sess-1", "sess-1"]);
+  });
+});
+
+describe("MCP tool adapter", () => {
+  it("maps server schemas onto the supported subset", () => {
+    expect(toJsonSchemaProperty({ type: ["integer", "null"], description: "Count" })).toEqual({
+      type: "number",
+      description: "Count",
+    });
+    expect(toJsonSchemaProperty({ properties: { tags: { items: { enum: ["a", "b"] } } }, required: ["tags"] })).toEqual({
+      type: "object",
+      properties: { tags: { type: "array", items: { type: "string", enum: ["a", "b"] } } },
+      required: ["tags"],
+    });
+  });
+
+  it("exposes each server tool as an operation with its own description", async () => {
+    const call = vi.fn().mockResolvedValue({ content: [{ type: "text", text: "ok" }] });
+    const tool = buildMcpTool("github", [
+      {
+        name: "issues.create",
+        description: "Create an issue",
+        inputSchema: { type: "object", properties: { title: { type: "string" } }, required: ["title"] },
+      },
+      { name: "search", annotations: { readOnlyHint: true } },
+    ], call);
+
+    expect(tool.definition.name).toBe("mcp_github");
+    expect(tool.definition.operations.issues_create).toEqual({
+      description: "Create an issue",
+      params: { title: { type: "string" } },
+      required: ["title"],
+    });
+    expect(tool.definition.operations.search.readOnly).toBe(true);
+
+    expect(await tool.execute({ operation: "issues_create", title: "Bug" })).toBe("ok");
+    expect(call).toHaveBeenCalledWith("issues.create", { title: "Bug" });
+  });
+
+  it("passes the first image through the image_base64 convention", () => {
+    const output = formatMcpResult({
+      content: [
+        { type: "text", text: "Rendered" },
+        { type: "image", data: "AAAA", mimeType: "image/png" },
+        { type: "image", data: "BBBB", mimeType: "image/png" },
+      ],
+    });
+
+    expect(JSON.parse(output)).toEqual({
+      type: "mcp_result",
+      text: "Rendered",
+      image_base64: "data:image/png;base64,AAAA",
+      omitted_images: 1,
+    });
+  });
+
+  it("throws on error results", () => {
+    expect(() => formatMcpResult({ content: [{ type: "text", text: "denied" }], isError: true })).toThrow("denied");
+  });
+});
+
+describe("mcpManager", () => {
+  afterEach(async () => {
+    await closeAllMcpServers();
+  });
+
+  const config: McpServerConfig = {
+    id: "srv-1",
+    name: "fixture",
+    transport: "stdio",
+    command: process.execPath,
+    args: ["-e", FIXTURE_SERVER],
+    env: {},
+    url: "",
+    headers: {},
+    enabled: true,
+    createdAt: "",
+    updatedAt: "",
+  };
+  const toolNames = () => getToolDefinitions().map((d) => d.name);
+
+  it("registers the server's tools and refreshes them live", async () => {
+    const changed = vi.fn();
+    const unsubscribe = onMcpChange(changed);
+    await applyMcpServer(config);
+    await vi.waitFor(() => expect(getMcpServerStatus("srv-1")).toEqual({ state: "connected", toolCount: 3 }));
+    expect(toolNames()).toContain("mcp_fixture");
+    expect(changed).toHaveBeenCalled();
+
+    const [result] = await executeToolCalls([{ id: "tc1", name: "mcp_fixture_echo", arguments: { text: "hello" } }]);
+    expect(result).toEqual({ toolCallId: "tc1", output: "hello" });
+
+    await executeToolCalls([{ id: "tc2", name: "mcp_fixture_grow", arguments: {} }]);
+    await vi.waitFor(() => expect(getMcpServerStatus("srv-1").toolCount).toBe(4));
+    expect(getToolDefinitions().find((d) => d.name === "mcp_fixture")?.operations.extra).toBeDefined();
+    unsubscribe();
+  });
+
+  it("reconnects after the server crashes", async () => {
+    await applyMcpServer(config);
+    await vi.waitFor(() => expect(getMcpServerStatus("srv-1").state).toBe("connected"));
+
+    const [result] = await executeToolCalls([{ id: "tc1", name: "mcp_fixture_crash", arguments: {} }]);
+    expect(result.isError).toBe(true);
+    expect(getMcpServerStatus("srv-1")).toMatchObject({ state: "disconnected" });
+    expect(toolNames()).not.toContain("mcp_fixture");
+
+    await vi.waitFor(() => expect(getMcpServerStatus("srv-1").state).toBe("connected"), { timeout: 5_000 });
+    expect(toolNames()).toContain("mcp_fixture");
+  });
+
+  it("leaves disabled servers unconnected", async () => {
+    await applyMcpServer({ ...config, enabled: false });
+    expect(getMcpServerStatus("srv-1")).toEqual({ state: "disabled", toolCount: 0 });
+    expect(toolNames()).not.toContain("mcp_fixture");
+  });
+});
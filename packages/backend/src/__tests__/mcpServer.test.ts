@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { SSEEvent } from "@vladbot/shared";
+
+vi.mock("../services/db.js", () => ({
+  default: { query: vi.fn() },
+}));
+
+const { mockAutoApprove, mockAddMessage, mockUpdateMessage, mockAtomicDeny } = vi.hoisted(() => ({
+  mockAutoApprove: vi.fn(),
+  mockAddMessage: vi.fn(),
+  mockUpdateMessage: vi.fn(),
+  mockAtomicDeny: vi.fn(async () => true),
+}));
+
+vi.mock("../services/sessionStore.js", () => ({
+  createSession: vi.fn(async (title: string) => ({ id: "chat-1", title })),
+  addMessage: mockAddMessage,
+  updateMessage: mockUpdateMessage,
+  atomicDeny: mockAtomicDeny,
+  getMessages: vi.fn(async () => ({ messages: [], hasMore: false })),
+  getSessionAutoApprove: mockAutoApprove,
+}));
+
+vi.mock("../services/approvalRuleStore.js", () => ({
+  listApprovalRules: vi.fn(async () => []),
+}));
+
+vi.mock("../services/context/index.js", () => ({
+  enrichMessageForDisplay: (m: unknown) => m,
+}));
+
+vi.mock("../services/ai/toolResultImages.js", () => ({
+  extractToolResultImage: async (output: string) => ({ text: output }),
+}));
+
+import { registerTool } from "../services/tools/ToolExecutor.js";
+import {
+  endMcpServerSession,
+  handleMcpServerMessage,
+  hasPendingMcpApproval,
+  initializeMcpServerSession,
+  isMcpCallMessage,
+  onMcpServerEvent,
+  resolveMcpApproval,
+} from "../services/mcp/mcpServer.js";
+
+const executed: Record<string, unknown>[] = [];
+
+registerTool({
+  definition: {
+    name: "notes",
+    description: "Keep notes",
+    operations: {
+      read: { description: "Read the notes", params: {}, readOnly: true },
+      write: { params: { text: { type: "string", description: "Text" } }, required: ["text"] },
+    },
+  },
+  async execute(args) {
+    executed.push(args);
+    return `done: ${args.operation}`;
+  },
+});
+
+registerTool({
+  definition: { name: "mcp_other", description: "Mounted", operations: { echo: { params: {} } } },
+  async execute() {
+    return "";
+  },
+});
+
+function startSession() {
+  return initializeMcpServerSession({
+    jsonrpc: "2.0",
+    id: 0,
+    method: "initialize",
+    params: { clientInfo: { name: "test-client" } },
+  }).session;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  executed.length = 0;
+});
+
+describe("MCP server", () => {
+  it("lists vladbot's own tools with flattened names", async () => {
+    const res = await handleMcpServerMessage(startSession(), { jsonrpc: "2.0", id: 1, method: "tools/list" });
+    const tools = (res?.result as { tools: { name: string; description: string; annotations?: unknown }[] }).tools;
+
+    const read = tools.find((t) => t.name === "notes_read");
+    expect(read?.description).toBe("Read the notes");
+    expect(read?.annotations).toEqual({ readOnlyHint: true });
+    expect(tools.find((t) => t.name === "notes_write")?.annotations).toBeUndefined();
+    expect(tools.some((t) => t.name.startsWith("mcp_"))).toBe(false);
+  });
+
+  it("runs auto-approved calls in the client's chat session", async () => {
+    mockAutoApprove.mockResolvedValue(true);
+    const events: SSEEvent[] = [];
+    const unsubscribe = onMcpServerEvent((_id, event) => events.push(event));
+
+    const res = await handleMcpServerMessage(startSession(), {
+      jsonrpc: "2.0",
+      id: 2,
+      method: "tools/call",
+      params: { name: "notes_write", arguments: { text: "hi" } },
+    });
+    unsubscribe();
+
+    expect(res?.result).toEqual({ content: [{ type: "text", text: "done: write" }] });
+    expect(executed).toEqual([{ operation: "write", text: "hi" }]);
+    expect(mockAddMessage.mock.calls[0][0]).toBe("chat-1");
+    expect(mockAddMessage.mock.calls[0][1].approvalStatus).toBe("approved");
+    expect(events.map((e) => e.type)).toEqual(["session_created", "new_message", "branch_changed"]);
+  });
+
+  it("waits for approval from the UI", async () => {
+    mockAutoApprove.mockResolvedValue(false);
+    const pending = handleMcpServerMessage(startSession(), {
+      jsonrpc: "2.0",
+      id: 3,
+      method: "tools/call",
+      params: { name: "notes_write", arguments: { text: "hi" } },
+    });
+    await vi.waitFor(() => expect(mockAddMessage).toHaveBeenCalled());
+    const message = mockAddMessage.mock.calls[0][1];
+    expect(message.approvalStatus).toBe("pending");
+    expect(executed).toEqual([]);
+
+    const [call] = message.toolCalls;
+    const change = {
+      messageId: message.id,
+      approvalStatus: "approved",
+      toolCallApprovals: { [call.id]: { status: "approved" as const, originalArguments: call.arguments } },
+      toolCalls: [{ ...call, arguments: { text: "edited" } }],
+    };
+    expect(resolveMcpApproval("some-other-message", change)).toBe(false);
+    expect(resolveMcpApproval(message.id, change)).toBe(true);
+    expect((await pending)?.result).toEqual({ content: [{ type: "text", text: "done: write" }] });
+    expect(executed).toEqual([{ operation: "write", text: "edited" }]);
+  });
+
+  it("reports denied calls as tool errors", async () => {
+    mockAutoApprove.mockResolvedValue(false);
+    const pending = handleMcpServerMessage(startSession(), {
+      jsonrpc: "2.0",
+      id: 4,
+      method: "tools/call",
+      params: { name: "notes_write", arguments: { text: "hi" } },
+    });
+    await vi.waitFor(() => expect(mockAddMessage).toHaveBeenCalled());
+    const message = mockAddMessage.mock.calls[0][1];
+    resolveMcpApproval(message.id, {
+      messageId: message.id,
+      approvalStatus: "denied",
+      toolCallApprovals: { [message.toolCalls[0].id]: { status: "denied", reason: "not now" } },
+    });
+
+    expect((await pending)?.result).toEqual({
+      content: [{ type: "text", text: "Tool call denied by user: not now" }],
+      isError: true,
+    });
+    expect(executed).toEqual([]);
+  });
+
+  it("expires pending calls when the session ends", async () => {
+    mockAutoApprove.mockResolvedValue(false);
+    const session = startSession();
+    const pending = handleMcpServerMessage(session, {
+      jsonrpc: "2.0",
+      id: 7,
+      method: "tools/call",
+      params: { name: "notes_write", arguments: { text: "hi" } },
+    });
+    await vi.waitFor(() => expect(mockAddMessage).toHaveBeenCalled());
+    const message = mockAddMessage.mock.calls[0][1];
+    expect(isMcpCallMessage(message)).toBe(true);
+    expect(hasPendingMcpApproval(message.id)).toBe(true);
+
+    expect(endMcpServerSession(session.id)).toBe(true);
+    expect((await pending)?.result).toEqual({
+      content: [{ type: "text", text: "Tool call expired: the MCP session ended" }],
+      isError: true,
+    });
+    expect(hasPendingMcpApproval(message.id)).toBe(false);
+    expect(mockAtomicDeny).toHaveBeenCalledWith(message.id);
+    expect(mockUpdateMessage).toHaveBeenCalledWith(message.id, {
+      toolResults: [{ toolCallId: message.toolCalls[0].id, output: "Tool call expired: the MCP session ended", isError: true }],
+    });
+    expect(resolveMcpApproval(message.id, { messageId: message.id, approvalStatus: "approved" })).toBe(false);
+    expect(executed).toEqual([]);
+  });
+
+  it("expires a pending call when the client's request goes away", async () => {
+    mockAutoApprove.mockResolvedValue(false);
+    const disconnected = new AbortController();
+    const pending = handleMcpServerMessage(startSession(), {
+      jsonrpc: "2.0",
+      id: 8,
+      method: "tools/call",
+      params: { name: "notes_write", arguments: { text: "hi" } },
+    }, disconnected.signal);
+    await vi.waitFor(() => expect(mockAddMessage).toHaveBeenCalled());
+    const message = mockAddMessage.mock.calls[0][1];
+
+    disconnected.abort();
+    expect((await pending)?.result).toMatchObject({ isError: true });
+    expect(hasPendingMcpApproval(message.id)).toBe(false);
+    expect(mockAtomicDeny).toHaveBeenCalledWith(message.id);
+    expect(executed).toEqual([]);
+  });
+
+  it("rejects unknown tools and methods", async () => {
+    const session = startSession();
+    const unknownTool = await handleMcpServerMessage(session, {
+      jsonrpc: "2.0",
+      id: 5,
+      method: "tools/call",
+      params: { name: "nope_nothing" },
+    });
+    expect((unknownTool?.result as { isError?: boolean }).isError).toBe(true);
+    expect(mockAddMessage).not.toHaveBeenCalled();
+
+    const unknownMethod = await handleMcpServerMessage(session, { jsonrpc: "2.0", id: 6, method: "resources/list" });
+    expect(unknownMethod?.error?.code).toBe(-32601);
+    expect(await handleMcpServerMessage(session, { jsonrpc: "2.0", method: "notifications/initialized" })).toBeNull();
+  });
+});
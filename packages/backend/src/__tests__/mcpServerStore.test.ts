@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockQuery = vi.fn();
+
+vi.mock("../services/db.js", () => ({
+  default: { query: mockQuery },
+}));
+
+const { createMcpServer, updateMcpServer, listMcpServers } = await import("../services/mcpServerStore.js");
+
+const now = new Date();
+const ROW = {
+  id: "m1",
+  name: "github",
+  transport: "http",
+  command: "",
+  args: [],
+  env: {},
+  url: "https://mcp.example.com/mcp",
+  headers: { authorization: "Bearer t" },
+  enabled: true,
+  created_at: now,
+  updated_at: now,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("mcpServerStore", () => {
+  it("maps rows to server configs", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [ROW] });
+    expect(await listMcpServers()).toEqual([{
+      id: "m1",
+      name: "github",
+      transport: "http",
+      command: "",
+      args: [],
+      env: {},
+      url: "https://mcp.example.com/mcp",
+      headers: { authorization: "Bearer t" },
+      enabled: true,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    }]);
+  });
+
+  it("stores env and headers as JSON and reports name conflicts as null", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [ROW] });
+    const fields = {
+      name: "github",
+      transport: "http" as const,
+      command: "",
+      args: [],
+      env: {},
+      url: "https://mcp.example.com/mcp",
+      headers: { authorization: "Bearer t" },
+      enabled: true,
+    };
+    expect((await createMcpServer(fields))?.id).toBe("m1");
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain("ON CONFLICT (name) DO NOTHING");
+    expect(params[6]).toBe('{"authorization":"Bearer t"}');
+
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+    expect(await createMcpServer(fields)).toBeNull();
+  });
+
+  it("updates only the provided fields", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ ...ROW, enabled: false, env: { TOKEN: "x" } }] });
+    const server = await updateMcpServer("m1", { enabled: false, env: { TOKEN: "x" } });
+    expect(server?.enabled).toBe(false);
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain("env = $1");
+    expect(sql).toContain("enabled = $2");
+    expect(sql).not.toContain("name =");
+    expect(params).toEqual(['{"TOKEN":"x"}', false, "m1"]);
+  });
+});
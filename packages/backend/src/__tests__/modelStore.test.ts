@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockQuery = vi.fn();
+
+vi.mock("../services/db.js", () => ({
+  default: { query: mockQuery },
+}));
+
+const mockOpenAICompatibleModels = vi.fn().mockReturnValue([]);
+vi.mock("../services/ai/OpenAICompatibleProvider.js", () => ({
+  getOpenAICompatibleModels: () => mockOpenAICompatibleModels(),
+}));
+
+vi.mock("../services/ai/ReplayProvider.js", () => ({
+  getReplayModels: () => [],
+}));
+
+const { AVAILABLE_MODELS, findModel, getModels, setModels } = await import("@vladbot/shared");
+const {
+  initModelRegistry,
+  createModel,
+  updateModel,
+  deleteModel,
+} = await import("../services/modelStore.js");
+
+function modelRow(overrides: Record<string, unknown> = {}) {
+  return {
+    provider: "openai-compatible",
+    model_id: "llama3.1:8b",
+    name: "Llama 3.1 8B",
+    context_window: 32768,
+    native_vision: false,
+    max_output_tokens: null,
+    input_price: null,
+    output_price: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  setModels(AVAILABLE_MODELS);
+});
+
+describe("initModelRegistry", () => {
+  it("seeds built-in models into an empty table", async () => {
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes("COUNT(*)")) return { rows: [{ count: 0 }] };
+      if (sql.startsWith("SELECT")) return { rows: [modelRow()] };
+      return { rows: [] };
+    });
+
+    const models = await initModelRegistry();
+    const inserts = mockQuery.mock.calls.filter(([sql]) => (sql as string).includes("INSERT INTO models"));
+    expect(inserts).toHaveLength(AVAILABLE_MODELS.length);
+    expect(models).toHaveLength(1);
+    expect(getModels()[0].id).toBe("llama3.1:8b");
+  });
+
+  it("does not re-seed built-ins once the table has rows", async () => {
+    mockOpenAICompatibleModels.mockReturnValueOnce([
+      { id: "qwen", name: "qwen", provider: "openai-compatible", contextWindow: 32768, nativeVision: false },
+    ]);
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes("COUNT(*)")) return { rows: [{ count: 3 }] };
+      if (sql.startsWith("SELECT")) return { rows: [modelRow({ model_id: "qwen", name: "qwen" })] };
+      return { rows: [] };
+    });
+
+    await initModelRegistry();
+    const inserts = mockQuery.mock.calls.filter(([sql]) => (sql as string).includes("INSERT INTO models"));
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0][1]![1]).toBe("qwen");
+  });
+});
+
+describe("createModel", () => {
+  it("returns null when the model already exists", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+    const result = await createModel({
+      id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", provider: "gemini", contextWindow: 1_048_576, nativeVision: true,
+    });
+    expect(result).toBeNull();
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it("inserts and refreshes the registry so findModel sees the new model", async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [modelRow({ input_price: 0.5 })] })
+      .mockResolvedValueOnce({ rows: [modelRow({ input_price: 0.5 })] });
+
+    const created = await createModel({
+      id: "llama3.1:8b", name: "Llama 3.1 8B", provider: "openai-compatible", contextWindow: 32768, nativeVision: false, inputPrice: 0.5,
+    });
+    expect(created?.inputPrice).toBe(0.5);
+    expect(created?.maxOutputTokens).toBeUndefined();
+    expect(findModel("openai-compatible:llama3.1:8b")?.name).toBe("Llama 3.1 8B");
+  });
+});
+
+describe("updateModel", () => {
+  it("returns null when there is nothing to update", async () => {
+    expect(await updateModel("gemini", "gemini-2.5-pro", {})).toBeNull();
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it("updates only the provided columns and allows clearing with null", async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [modelRow({ context_window: 65536 })] })
+      .mockResolvedValueOnce({ rows: [modelRow({ context_window: 65536 })] });
+
+    const updated = await updateModel("openai-compatible", "llama3.1:8b", { contextWindow: 65536, inputPrice: null });
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain("context_window = $1");
+    expect(sql).toContain("input_price = $2");
+    expect(sql).not.toContain("name =");
+    expect(params).toEqual([65536, null, "openai-compatible", "llama3.1:8b"]);
+    expect(updated?.contextWindow).toBe(65536);
+  });
+});
+
+describe("deleteModel", () => {
+  it("returns false when no row was deleted", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 });
+    expect(await deleteModel("gemini", "missing")).toBe(false);
+  });
+
+  it("removes the model from the registry", async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [], rowCount: 1 })
+      .mockResolvedValueOnce({ rows: [] });
+    expect(await deleteModel("gemini", "gemini-2.5-pro")).toBe(true);
+    expect(findModel("gemini:gemini-2.5-pro")).toBeUndefined();
+  });
+});
+
+describe("findModel", () => {
+  it("prefers the exact provider match when IDs collide", () => {
+    setModels([
+      { id: "shared-id", name: "A", provider: "deepseek", contextWindow: 1, nativeVision: false },
+      { id: "shared-id", name: "B", provider: "openai-compatible", contextWindow: 1, nativeVision: false },
+    ]);
+    expect(findModel("openai-compatible:shared-id")?.name).toBe("B");
+    expect(findModel("shared-id")?.name).toBe("A");
+  });
+});
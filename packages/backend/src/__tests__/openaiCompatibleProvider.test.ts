@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { MessagePart } from "@vladbot/shared";
+
+vi.mock("../config/env.js", () => ({
+  env: {
+    OPENAI_COMPATIBLE_BASE_URL: "http://localhost:11434/v1/",
+    OPENAI_COMPATIBLE_API_KEY: "",
+    OPENAI_COMPATIBLE_MODELS: "llama3.1:8b, qwen2.5-vl:7b",
+    OPENAI_COMPATIBLE_VISION_MODELS: "qwen2.5-vl:7b",
+    OPENAI_COMPATIBLE_CONTEXT_WINDOW: 32768,
+  },
+}));
+
+const mockGenerationSettings = vi.fn().mockResolvedValue({ systemPrompt: "SYSTEM", sampling: {} });
+vi.mock("../services/ai/systemPrompt.js", () => ({
+  getGenerationSettings: (...args: unknown[]) => mockGenerationSettings(...args),
+}));
+
+const mockHasVisionModel = vi.fn().mockResolvedValue(false);
+vi.mock("../services/ai/toolResultImages.js", () => ({
+  extractToolResultImage: vi.fn(async (output: string) => ({ text: output })),
+  resolveImageToBase64: vi.fn(async () => ({ base64: "AAAA", mimeType: "image/png" })),
+  hasVisionModelAsync: (...args: unknown[]) => mockHasVisionModel(...args),
+  storeLatestImage: vi.fn(),
+}));
+
+const { AVAILABLE_MODELS, setModels } = await import("@vladbot/shared");
+const {
+  OpenAICompatibleProvider,
+  getOpenAICompatibleModels,
+  resolveChatCompletionsUrl,
+} = await import("../services/ai/OpenAICompatibleProvider.js");
+
+setModels([...AVAILABLE_MODELS, ...getOpenAICompatibleModels()]);
+
+function sseResponse(lines: string[]): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const line of lines) controller.enqueue(encoder.encode(`${line}\n\n`));
+      controller.close();
+    },
+  });
+  return new Response(stream, { status: 200 });
+}
+
+async function collect<T>(iter: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of iter) out.push(item);
+  return out;
+}
+
+describe("OpenAICompatibleProvider", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("builds the completions URL from a base URL", () => {
+    expect(resolveChatCompletionsUrl("http://host:8000/v1")).toBe("http://host:8000/v1/chat/completions");
+    expect(resolveChatCompletionsUrl("http://host:8000/v1/chat/completions/")).toBe("http://host:8000/v1/chat/completions");
+  });
+
+  it("derives models from the environment", () => {
+    const models = getOpenAICompatibleModels();
+    expect(models.map((m) => m.id)).toEqual(["llama3.1:8b", "qwen2.5-vl:7b"]);
+    expect(models[0]).toMatchObject({ provider: "openai-compatible", contextWindow: 32768, nativeVision: false });
+    expect(models[1].nativeVision).toBe(true);
+  });
+
+  it("streams text, tool calls and usage", async () => {
+    fetchMock.mockResolvedValue(sseResponse([
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+      'data: {"choices":[{"delta":{"content":"lo"}}]}',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_1","function":{"name":"run_command","arguments":"{\\"comm"}}]}}]}',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"and\\":\\"ls\\"}"}}]},"finish_reason":"tool_calls"}]}',
+      'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":5}}',
+      "data: [DONE]",
+    ]));
+
+    const provider = new OpenAICompatibleProvider();
+    const chunks = await collect(provider.generateStream([{ role: "user", content: "hi" }], "llama3.1:8b"));
+
+    expect(fetchMock.mock.calls[0][0]).toBe("http://localhost:11434/v1/chat/completions");
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBeUndefined();
+    const text = chunks.filter((c) => c.type === "text").map((c) => c.text).join("");
+    expect(text).toBe("Hello");
+    expect(chunks.find((c) => c.type === "tool_call")?.toolCall).toEqual({
+      id: "call_1",
+      name: "run_command",
+      arguments: { command: "ls" },
+    });
+    expect(chunks.find((c) => c.type === "usage")?.usage).toEqual({ inputTokens: 12, outputTokens: 5 });
+    expect(chunks.filter((c) => c.type === "tool_call_delta").map((c) => c.toolCallDelta)).toEqual([
+      { id: "call_1", name: "run_command", delta: '{"comm' },
+      { id: "call_1", name: "run_command", delta: 'and":"ls"}' },
+    ]);
+  });
+
+  it("streams reasoning_content and reasoning deltas as thinking chunks", async () => {
+    fetchMock.mockResolvedValue(sseResponse([
+      'data: {"choices":[{"delta":{"reasoning_content":"Let me "}}]}',
+      'data: {"choices":[{"delta":{"reasoning":"think."}}]}',
+      'data: {"choices":[{"delta":{"reasoning_content":null,"content":"Done"}}]}',
+      "data: [DONE]",
+    ]));
+
+    const provider = new OpenAICompatibleProvider();
+    const chunks = await collect(provider.generateStream([{ role: "user", content: "hi" }], "llama3.1:8b"));
+
+    const thinking = chunks.filter((c) => c.type === "thinking").map((c) => c.thinking!.text).join("");
+    expect(thinking).toBe("Let me think.");
+    expect(chunks.filter((c) => c.type === "text").map((c) => c.text)).toEqual(["Done"]);
+  });
+
+  it("flushes tool calls when the stream ends without [DONE] and fills missing IDs", async () => {
+    fetchMock.mockResolvedValue(sseResponse([
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"name":"memory_search","arguments":"{}"}}]}}]}',
+    ]));
+
+    const provider = new OpenAICompatibleProvider();
+    const chunks = await collect(provider.generateStream([{ role: "user", content: "hi" }], "llama3.1:8b"));
+    const toolCalls = chunks.filter((c) => c.type === "tool_call");
+
+    expect(toolCalls).toHaveLength(1);
+    expect(toolCalls[0].toolCall!.name).toBe("memory_search");
+    expect(toolCalls[0].toolCall!.id).toMatch(/^call_/);
+    // Argument deltas carry the same synthetic ID as the final call
+    expect(chunks.find((c) => c.type === "tool_call_delta")?.toolCallDelta?.id).toBe(toolCalls[0].toolCall!.id);
+  });
+
+  it("sends images inline for vision-capable models", async () => {
+    fetchMock.mockResolvedValue(sseResponse(["data: [DONE]"]));
+    const messages: MessagePart[] = [{ role: "user", content: "what is this?", images: ["data:image/png;base64,AAAA"] }];
+
+    const provider = new OpenAICompatibleProvider();
+    await collect(provider.generateStream(messages, "qwen2.5-vl:7b"));
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.messages[1].content).toEqual([
+      { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+      { type: "text", text: "what is this?" },
+    ]);
+  });
+
+  it("keeps text-only models on plain string content", async () => {
+    fetchMock.mockResolvedValue(sseResponse(["data: [DONE]"]));
+    const messages: MessagePart[] = [{ role: "user", content: "what is this?", images: ["data:image/png;base64,AAAA"] }];
+
+    const provider = new OpenAICompatibleProvider();
+    await collect(provider.generateStream(messages, "llama3.1:8b"));
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.messages[0].content).toContain("text-only model");
+    expect(body.messages[1].content).toBe("what is this?");
+  });
+
+  it("applies the session's system prompt and sampling parameters", async () => {
+    mockGenerationSettings.mockResolvedValueOnce({
+      systemPrompt: "Reply in haiku.",
+      sampling: { temperature: 0.7, topP: 0.8, maxOutputTokens: 256 },
+    });
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ choices: [{ message: { content: "ok" } }] })));
+
+    await new OpenAICompatibleProvider().generateResponse([{ role: "user", content: "hi" }], "llama3.1:8b", undefined, "s1");
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.messages[0]).toMatchObject({ role: "system" });
+    expect(body.messages[0].content).toContain("Reply in haiku.");
+    expect(body).toMatchObject({ temperature: 0.7, top_p: 0.8, max_tokens: 256 });
+  });
+
+  it("gives tool calls whose arguments don't parse empty arguments in a plain response", async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      choices: [{
+        message: {
+          content: "",
+          tool_calls: [
+            { id: "c1", function: { name: "memory_search", arguments: '{"query": "unterminated' } },
+            { id: "c2", function: { name: "memory_search", arguments: '{"query":"ok"}' } },
+          ],
+        },
+      }],
+    })));
+
+    const response = await new OpenAICompatibleProvider().generateResponse([{ role: "user", content: "hi" }], "llama3.1:8b");
+
+    expect(response.toolCalls).toEqual([
+      { id: "c1", name: "memory_search", arguments: {} },
+      { id: "c2", name: "memory_search", arguments: { query: "ok" } },
+    ]);
+  });
+
+  it("includes the provider label in HTTP errors", async () => {
+    fetchMock.mockResolvedValue(new Response("model not found", { status: 404 }));
+
+    const provider = new OpenAICompatibleProvider();
+    await expect(
+      provider.generateResponse([{ role: "user", content: "hi" }], "missing"),
+    ).rejects.toThrow("OpenAI-compatible API error (404): model not found");
+  });
+
+  it("throws a ProviderError carrying status, error type and retry hints", async () => {
+    fetchMock.mockResolvedValue(new Response(
+      JSON.stringify({ error: { message: "Rate limit reached", type: "requests", code: "rate_limit_exceeded" } }),
+      { status: 429, headers: { "retry-after": "12", "x-request-id": "req_abc" } },
+    ));
+
+    const provider = new OpenAICompatibleProvider();
+    await expect(
+      provider.generateResponse([{ role: "user", content: "hi" }], "llama3.1:8b"),
+    ).rejects.toMatchObject({
+      name: "ProviderError",
+      status: 429,
+      type: "rate_limit_exceeded",
+      retryAfterMs: 12_000,
+      requestId: "req_abc",
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockQuery = vi.fn();
+
+vi.mock("../services/db.js", () => ({
+  default: { query: mockQuery },
+}));
+
+const { createPersona, updatePersona, deletePersona, listPersonas } = await import("../services/personaStore.js");
+
+const now = new Date();
+const ROW = {
+  id: "p1",
+  name: "Reviewer",
+  system_prompt: "Review code strictly.",
+  model: "anthropic:claude-sonnet-4-20250514",
+  sampling: { temperature: 0.2 },
+  created_at: now,
+  updated_at: now,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("personaStore", () => {
+  it("maps rows to personas", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [ROW] });
+    expect(await listPersonas()).toEqual([{
+      id: "p1",
+      name: "Reviewer",
+      systemPrompt: "Review code strictly.",
+      model: "anthropic:claude-sonnet-4-20250514",
+      sampling: { temperature: 0.2 },
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    }]);
+  });
+
+  it("stores sampling as JSON and reports name conflicts as null", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [ROW] });
+    const persona = await createPersona({
+      name: "Reviewer",
+      systemPrompt: "Review code strictly.",
+      model: "anthropic:claude-sonnet-4-20250514",
+      sampling: { temperature: 0.2 },
+    });
+    expect(persona?.id).toBe("p1");
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain("ON CONFLICT (name) DO NOTHING");
+    expect(params[3]).toBe('{"temperature":0.2}');
+
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+    expect(await createPersona({ name: "Reviewer", systemPrompt: "", model: "", sampling: {} })).toBeNull();
+  });
+
+  it("updates only the provided fields", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ ...ROW, system_prompt: "Be kind." }] });
+    const persona = await updatePersona("p1", { systemPrompt: "Be kind." });
+    expect(persona?.systemPrompt).toBe("Be kind.");
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain("system_prompt = $1");
+    expect(sql).not.toContain("name =");
+    expect(params).toEqual(["Be kind.", "p1"]);
+  });
+
+  it("returns null when nothing to update", async () => {
+    expect(await updatePersona("p1", {})).toBeNull();
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it("reports whether a persona was deleted", async () => {
+    mockQuery.mockResolvedValueOnce({ rowCount: 1 });
+    expect(await deletePersona("p1")).toBe(true);
+    mockQuery.mockResolvedValueOnce({ rowCount: 0 });
+    expect(await deletePersona("p1")).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, afterEach, beforeEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { executeToolCalls, getToolDefinitions, registerTool, unregisterTool } from "../services/tools/ToolExecutor.js";
+import {
+  closeToolPlugins,
+  getToolPluginStatuses,
+  initToolPlugins,
+  loadToolPlugin,
+  onToolPluginChange,
+} from "../services/tools/pluginLoader.js";
+
+function pluginSource(name: string, reply: string): string {
+  return `export default {
+  definition: {
+    name: ${JSON.stringify(name)},
+    description: "Test plugin",
+    operations: { run: { params: {} } },
+  },
+  async execute() { return ${JSON.stringify(reply)}; },
+};
+`;
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "vladbot-plugins-"));
+});
+
+afterEach(async () => {
+  closeToolPlugins();
+  await rm(dir, { recursive: true });
+});
+
+const toolNames = () => getToolDefinitions().map((d) => d.name);
+
+describe("pluginLoader", () => {
+  it("registers the tools exported by each plugin at startup", async () => {
+    await writeFile(path.join(dir, "greet.js"), pluginSource("plugin_greet", "hello"));
+    await writeFile(path.join(dir, "notes.txt"), "not a plugin");
+
+    await initToolPlugins(dir);
+
+    expect(getToolPluginStatuses()).toMatchObject([{ file: "greet.js", state: "loaded", tools: ["plugin_greet"] }]);
+    const [result] = await executeToolCalls([{ id: "c1", name: "plugin_greet_run", arguments: {} }]);
+    expect(result.output).toBe("hello");
+  });
+
+  it("records a failed load instead of throwing, and recovers on reload", async () => {
+    const file = path.join(dir, "broken.js");
+    await writeFile(file, "export default {");
+    await initToolPlugins(dir);
+
+    const [status] = getToolPluginStatuses();
+    expect(status.state).toBe("error");
+    expect(status.error).toBeTruthy();
+
+    await writeFile(file, pluginSource("plugin_fixed", "ok"));
+    expect(await loadToolPlugin("broken.js")).toMatchObject({ state: "loaded", tools: ["plugin_fixed"] });
+    expect(toolNames()).toContain("plugin_fixed");
+  });
+
+  it("refuses to shadow a tool registered elsewhere", async () => {
+    registerTool({
+      definition: { name: "plugin_builtin", description: "", operations: { run: { params: {} } } },
+      execute: async () => "builtin",
+    });
+    try {
+      await writeFile(path.join(dir, "clash.js"), pluginSource("plugin_builtin", "impostor"));
+      await initToolPlugins(dir);
+
+      expect(getToolPluginStatuses()[0]).toMatchObject({ state: "error", error: 'Tool "plugin_builtin" is already registered' });
+      const [result] = await executeToolCalls([{ id: "c2", name: "plugin_builtin_run", arguments: {} }]);
+      expect(result.output).toBe("builtin");
+    } finally {
+      unregisterTool("plugin_builtin");
+    }
+  });
+
+  it("refuses a plugin with a malformed operation", async () => {
+    await writeFile(path.join(dir, "bad.js"), `export default {
+  definition: {
+    name: "plugin_bad",
+    description: "Test plugin",
+    operations: {
+      run: { params: {} },
+      noParams: {},
+      badRequired: { params: { a: { type: "string" } }, required: ["b"] },
+    },
+  },
+  async execute() { return "never"; },
+};
+`);
+    await initToolPlugins(dir);
+
+    expect(getToolPluginStatuses()[0]).toMatchObject({
+      state: "error",
+      error: 'Operation "plugin_bad.noParams" is invalid: plugin_bad.noParams has no params object',
+    });
+    expect(toolNames()).not.toContain("plugin_bad");
+
+    await writeFile(path.join(dir, "bad.js"), `export default {
+  definition: {
+    name: "plugin_bad",
+    description: "Test plugin",
+    operations: { run: { params: { a: { type: "text" } } } },
+  },
+  async execute() { return "never"; },
+};
+`);
+    expect(await loadToolPlugin("bad.js")).toMatchObject({
+      state: "error",
+      error: 'Operation "plugin_bad.run" is invalid: plugin_bad.run.a has no valid "type"',
+    });
+  });
+
+  it("reloads a plugin when its file changes and drops it when deleted", async () => {
+    const file = path.join(dir, "live.js");
+    await writeFile(file, pluginSource("plugin_live", "v1"));
+    await initToolPlugins(dir);
+    let changes = 0;
+    const unsubscribe = onToolPluginChange(() => changes++);
+
+    try {
+      await writeFile(file, pluginSource("plugin_live", "v2"));
+      await expect.poll(async () => {
+        const [result] = await executeToolCalls([{ id: "c3", name: "plugin_live_run", arguments: {} }]);
+        return result.output;
+      }, { timeout: 5_000 }).toBe("v2");
+
+      await rm(file);
+      await expect.poll(() => toolNames().includes("plugin_live"), { timeout: 5_000 }).toBe(false);
+      expect(getToolPluginStatuses()).toEqual([]);
+      expect(changes).toBeGreaterThanOrEqual(2);
+    } finally {
+      unsubscribe();
+    }
+  }, 15_000);
+});
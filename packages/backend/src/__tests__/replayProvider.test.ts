@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { MessagePart } from "@vladbot/shared";
+import type { AIProviderInterface, StreamChunk } from "../services/ai/AIProvider.js";
+
+const mockEnv = vi.hoisted(() => ({ LLM_REPLAY_CASSETTE: "" }));
+vi.mock("../config/env.js", () => ({ env: mockEnv }));
+
+const {
+  CassetteRecorder,
+  RecordingProvider,
+  ReplayProvider,
+  getReplayModels,
+  hashMessages,
+  loadCassette,
+  saveCassette,
+} = await import("../services/ai/ReplayProvider.js");
+type Cassette = import("../services/ai/ReplayProvider.js").Cassette;
+
+const QUESTION: MessagePart[] = [{ role: "user", content: "List /tmp" }];
+
+async function collect(stream: AsyncIterable<StreamChunk>): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+function cassette(...interactions: Cassette["interactions"]): Cassette {
+  return { version: 1, interactions };
+}
+
+let tmp: string | null = null;
+function tmpFile(name: string): string {
+  tmp ??= mkdtempSync(path.join(tmpdir(), "vladbot-cassette-"));
+  return path.join(tmp, name);
+}
+
+afterEach(() => {
+  if (tmp) rmSync(tmp, { recursive: true, force: true });
+  tmp = null;
+  mockEnv.LLM_REPLAY_CASSETTE = "";
+});
+
+describe("hashMessages", () => {
+  it("ignores tool call IDs, image URLs and cache breakpoints", () => {
+    const a: MessagePart[] = [
+      { role: "user", content: "Look", images: ["/files/a.png"] },
+      { role: "assistant", content: "", toolCalls: [{ id: "tc-1", name: "fs_read", arguments: { path: "/x", limit: 5 } }] },
+      { role: "tool", content: "", toolResults: [{ toolCallId: "tc-1", output: "ok" }] },
+    ];
+    const b: MessagePart[] = [
+      { role: "user", content: "Look", images: ["/files/b.png"] },
+      {
+        role: "assistant",
+        content: "",
+        toolCalls: [{ id: "tc-2", name: "fs_read", arguments: { limit: 5, path: "/x" } }],
+        cacheBreakpoint: true,
+      },
+      { role: "tool", content: "", toolResults: [{ toolCallId: "tc-2", output: "ok", isError: false }] },
+    ];
+    expect(hashMessages(a)).toBe(hashMessages(b));
+  });
+
+  it("changes when the conversation changes", () => {
+    expect(hashMessages(QUESTION)).not.toBe(hashMessages([{ role: "user", content: "List /var" }]));
+  });
+});
+
+describe("ReplayProvider", () => {
+  const hash = hashMessages(QUESTION);
+
+  it("plays back recorded stream chunks", async () => {
+    const chunks: StreamChunk[] = [
+      { type: "text", text: "Sure" },
+      { type: "tool_call", toolCall: { id: "tc1", name: "filesystem_list_directory", arguments: { path: "/tmp" } } },
+      { type: "usage", usage: { inputTokens: 10, outputTokens: 3 } },
+    ];
+    const replay = new ReplayProvider(cassette({ kind: "stream", hash, provider: "anthropic", model: "m", chunks }));
+
+    expect(await collect(replay.generateStream(QUESTION, "m"))).toEqual(chunks);
+  });
+
+  it("consumes identical requests in recording order", async () => {
+    const replay = new ReplayProvider(cassette(
+      { kind: "response", hash, provider: "anthropic", model: "m", error: "429 Too Many Requests" },
+      { kind: "response", hash, provider: "anthropic", model: "m", response: { text: "second", toolCalls: [] } },
+    ));
+
+    await expect(replay.generateResponse(QUESTION)).rejects.toThrow("429 Too Many Requests");
+    expect((await replay.generateResponse(QUESTION)).text).toBe("second");
+    await expect(replay.generateResponse(QUESTION)).rejects.toThrow(`No recorded response interaction for request ${hash}`);
+  });
+
+  it("keeps stream and response recordings apart", async () => {
+    const replay = new ReplayProvider(cassette(
+      { kind: "response", hash, provider: "anthropic", model: "m", response: { text: "title", toolCalls: [] } },
+    ));
+    await expect(collect(replay.generateStream(QUESTION, "m"))).rejects.toThrow("No recorded stream interaction");
+  });
+
+  it("stops with an AbortError when the signal fires", async () => {
+    const replay = new ReplayProvider(cassette({
+      kind: "stream",
+      hash,
+      provider: "anthropic",
+      model: "m",
+      chunks: [{ type: "text", text: "a" }, { type: "text", text: "b" }],
+    }));
+    const controller = new AbortController();
+    const received: StreamChunk[] = [];
+
+    await expect((async () => {
+      for await (const chunk of replay.generateStream(QUESTION, "m", undefined, controller.signal)) {
+        received.push(chunk);
+        controller.abort();
+      }
+    })()).rejects.toMatchObject({ name: "AbortError" });
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe("RecordingProvider", () => {
+  const inner: AIProviderInterface = {
+    async generateResponse() {
+      return { text: "Listing /tmp", toolCalls: [], usage: { inputTokens: 4, outputTokens: 2 } };
+    },
+    async *generateStream() {
+      yield { type: "debug", debug: { direction: "request", body: { secret: "request body" } } };
+      yield { type: "text", text: "Here you go" };
+      yield { type: "usage", usage: { inputTokens: 4, outputTokens: 3 } };
+    },
+  };
+
+  it("writes a cassette that replays the same calls", async () => {
+    const file = tmpFile("session.json");
+    const recording = new RecordingProvider(inner, "gemini", new CassetteRecorder(file));
+
+    const streamed = await collect(recording.generateStream(QUESTION, "gemini-2.5-flash"));
+    const response = await recording.generateResponse(QUESTION, "gemini-2.5-flash");
+
+    const saved = loadCassette(file);
+    expect(saved.interactions.map((i) => i.kind)).toEqual(["stream", "response"]);
+    expect(saved.interactions[0].chunks?.some((c) => c.type === "debug")).toBe(false);
+
+    const replay = new ReplayProvider(saved);
+    expect(await collect(replay.generateStream(QUESTION, "anything"))).toEqual(
+      streamed.filter((c) => c.type !== "debug"),
+    );
+    expect(await replay.generateResponse(QUESTION)).toEqual(response);
+  });
+
+  it("records provider errors so retries can be replayed", async () => {
+    const file = tmpFile("errors.json");
+    const failing: AIProviderInterface = {
+      ...inner,
+      async generateResponse() {
+        throw new Error("503 overloaded");
+      },
+    };
+    const recording = new RecordingProvider(failing, "anthropic", new CassetteRecorder(file));
+
+    await expect(recording.generateResponse(QUESTION, "m")).rejects.toThrow("503 overloaded");
+    expect(loadCassette(file).interactions[0].error).toBe("503 overloaded");
+  });
+});
+
+describe("getReplayModels", () => {
+  it("is empty without a configured cassette", () => {
+    expect(getReplayModels()).toEqual([]);
+  });
+
+  it("lists each recorded model once under the replay provider", () => {
+    const file = tmpFile("models.json");
+    saveCassette(file, cassette(
+      { kind: "stream", hash: "a", provider: "anthropic", model: "claude", contextWindow: 200000, chunks: [] },
+      { kind: "response", hash: "b", provider: "anthropic", model: "claude", response: { text: "", toolCalls: [] } },
+      { kind: "stream", hash: "c", provider: "gemini", model: "flash", chunks: [] },
+    ));
+    mockEnv.LLM_REPLAY_CASSETTE = file;
+
+    expect(getReplayModels()).toEqual([
+      { id: "claude", name: "claude (replay)", provider: "replay", contextWindow: 200000, nativeVision: false },
+      { id: "flash", name: "flash (replay)", provider: "replay", contextWindow: 128000, nativeVision: false },
+    ]);
+  });
+});
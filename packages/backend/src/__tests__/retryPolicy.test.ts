@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../config/runtimeSettings.js", () => ({
+  getRuntimeSetting: vi.fn(async (key: string) => ({
+    llm_retry_max_attempts: "2",
+    llm_retry_base_delay_ms: "0",
+    llm_retry_max_delay_ms: "1000",
+  })[key] ?? ""),
+}));
+
+const { AVAILABLE_MODELS, setModels } = await import("@vladbot/shared");
+const {
+  buildModelChain,
+  computeRetryDelay,
+  getRetryAfterMs,
+  withRetry,
+} = await import("../services/ai/retryPolicy.js");
+
+const POLICY = { maxAttempts: 2, baseDelayMs: 0, maxDelayMs: 1000 };
+const SONNET = { id: "claude-sonnet-4-20250514", provider: "anthropic" };
+const GEMINI = { id: "gemini-2.5-pro", provider: "gemini" };
+const DEEPSEEK = { id: "deepseek-chat", provider: "deepseek" };
+
+beforeEach(() => {
+  setModels(AVAILABLE_MODELS);
+});
+
+describe("getRetryAfterMs", () => {
+  it("reads an explicit retryAfterMs property", () => {
+    expect(getRetryAfterMs(Object.assign(new Error("429"), { retryAfterMs: 1500 }))).toBe(1500);
+  });
+
+  it("reads retry-after headers from a plain record or a Headers object", () => {
+    expect(getRetryAfterMs(Object.assign(new Error("429"), { headers: { "retry-after": "3" } }))).toBe(3000);
+    const headers = new Headers({ "retry-after-ms": "250" });
+    expect(getRetryAfterMs(Object.assign(new Error("429"), { headers }))).toBe(250);
+  });
+
+  it("falls back to hints embedded in the message", () => {
+    expect(getRetryAfterMs(new Error("Quota exceeded. Please retry in 12.5s."))).toBe(12_500);
+    expect(getRetryAfterMs(new Error('{"retryDelay": "30s"}'))).toBe(30_000);
+    expect(getRetryAfterMs(new Error("Rate limited, retry after 200ms"))).toBe(200);
+    expect(getRetryAfterMs(new Error("overloaded"))).toBeUndefined();
+  });
+});
+
+describe("computeRetryDelay", () => {
+  it("backs off exponentially with jitter, capped at maxDelayMs", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    const policy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 3000 };
+    expect(computeRetryDelay(policy, 1, new Error("overloaded"))).toBe(1000);
+    expect(computeRetryDelay(policy, 2, new Error("overloaded"))).toBe(2000);
+    expect(computeRetryDelay(policy, 3, new Error("overloaded"))).toBe(3000);
+    vi.mocked(Math.random).mockRestore();
+  });
+
+  it("prefers the server hint over backoff", () => {
+    const policy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 3000 };
+    expect(computeRetryDelay(policy, 1, new Error("retry after 2"))).toBe(2000);
+  });
+});
+
+describe("buildModelChain", () => {
+  it("appends known fallbacks and drops unknown or duplicate entries", () => {
+    const chain = buildModelChain(SONNET, [
+      "gemini:gemini-2.5-pro",
+      "nope:missing",
+      "gemini-2.5-pro",
+      "deepseek:deepseek-chat",
+    ]);
+    expect(chain).toEqual([SONNET, GEMINI, DEEPSEEK]);
+  });
+
+  it("continues after the current model when it is already a fallback", () => {
+    const chain = buildModelChain(GEMINI, ["gemini:gemini-2.5-pro", "deepseek:deepseek-chat"]);
+    expect(chain).toEqual([GEMINI, DEEPSEEK]);
+  });
+});
+
+describe("withRetry", () => {
+  it("retries recoverable errors on the same model", async () => {
+    const attempt = vi.fn()
+      .mockRejectedValueOnce(new Error("529 overloaded"))
+      .mockResolvedValueOnce("ok");
+    const onRetry = vi.fn();
+
+    const { result, target } = await withRetry([SONNET, GEMINI], attempt, { policy: POLICY, onRetry });
+    expect(result).toBe("ok");
+    expect(target).toBe(SONNET);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({
+      attempt: 2,
+      maxAttempts: 2,
+      target: SONNET,
+      error: expect.objectContaining({ code: "RATE_LIMIT" }),
+    }));
+  });
+
+  it("fails over to the next model once attempts run out", async () => {
+    const attempt = vi.fn(async (target: { id: string }) => {
+      if (target.id === SONNET.id) throw new Error("429 Too Many Requests");
+      return "from fallback";
+    });
+    const onRetry = vi.fn();
+
+    const { result, target } = await withRetry([SONNET, GEMINI], attempt, { policy: POLICY, onRetry });
+    expect(result).toBe("from fallback");
+    expect(target).toBe(GEMINI);
+    expect(attempt).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([info]) => [info.target.id, info.attempt])).toEqual([
+      [SONNET.id, 2],
+      [GEMINI.id, 1],
+    ]);
+  });
+
+  it("skips straight to the next model on context overflow", async () => {
+    const attempt = vi.fn()
+      .mockRejectedValueOnce(new Error("prompt is too long"))
+      .mockResolvedValueOnce("ok");
+
+    const { target } = await withRetry([SONNET, GEMINI], attempt, { policy: POLICY });
+    expect(target).toBe(GEMINI);
+  });
+
+  it("fails over instead of waiting when the server asks for more than maxDelayMs", async () => {
+    const attempt = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error("429"), { retryAfterMs: 60_000 }))
+      .mockResolvedValueOnce("ok");
+    const onRetry = vi.fn();
+
+    const { target } = await withRetry([SONNET, GEMINI], attempt, { policy: POLICY, onRetry });
+    expect(target).toBe(GEMINI);
+    expect(onRetry.mock.calls[0][0].delayMs).toBe(0);
+  });
+
+  it("rethrows non-recoverable errors without retrying", async () => {
+    const attempt = vi.fn().mockRejectedValue(new Error("401 invalid api key"));
+    await expect(withRetry([SONNET, GEMINI], attempt, { policy: POLICY })).rejects.toThrow("invalid api key");
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it("rethrows the last error when the chain is exhausted", async () => {
+    const attempt = vi.fn().mockRejectedValue(new Error("503 server error"));
+    await expect(withRetry([SONNET], attempt, { policy: POLICY })).rejects.toThrow("503");
+    expect(attempt).toHaveBeenCalledTimes(2);
+  });
+
+  it("loads the policy from runtime settings when none is given", async () => {
+    const attempt = vi.fn().mockRejectedValue(new Error("overloaded"));
+    await expect(withRetry([SONNET], attempt)).rejects.toThrow("overloaded");
+    expect(attempt).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops waiting when the stream is aborted", async () => {
+    const controller = new AbortController();
+    const attempt = vi.fn().mockRejectedValue(new Error("429 rate limited, retry after 10"));
+    const onRetry = vi.fn(() => controller.abort());
+
+    await expect(
+      withRetry([SONNET], attempt, { policy: { ...POLICY, maxDelayMs: 60_000 }, signal: controller.signal, onRetry }),
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+});
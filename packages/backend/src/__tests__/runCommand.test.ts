@@ -54,6 +54,39 @@ describe("runCommandTool", () => {
     expect(output).toContain("timed out");
   }, 10_000);
 
+  it("kills the whole process group when cancelled", async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 300);
+    await expect(
+      runCommandTool.execute(
+        { command: "sleep 10 & sleep 10; echo done" },
+        undefined,
+        { signal: controller.signal },
+      ),
+    ).rejects.toThrow(/^Cancelled by user\nExit code: unknown/);
+    expect(Date.now() - started).toBeLessThan(5_000);
+  }, 10_000);
+
+  it("kills a command that ignores SIGTERM", async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 300);
+    await expect(
+      runCommandTool.execute(
+        { command: "trap '' TERM; sleep 600" },
+        undefined,
+        { signal: controller.signal },
+      ),
+    ).rejects.toThrow(/^Cancelled by user/);
+    expect(Date.now() - started).toBeLessThan(5_000);
+  }, 10_000);
+
+  it("times out a command that ignores SIGTERM", async () => {
+    const output = await exec({ command: "trap '' TERM; sleep 600", timeout_ms: 1000 });
+    expect(output).toContain("timed out");
+  }, 10_000);
+
   it("throws on missing command", async () => {
     await expect(exec({})).rejects.toThrow("Missing required argument: command");
   });
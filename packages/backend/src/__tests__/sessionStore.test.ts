@@ -19,8 +19,11 @@ const {
   getSessionAutoApprove,
   getSessionModel,
   getSessionVisionModel,
+  getSessionGenerationSettings,
   deleteSession,
   addMessage,
+  setActiveLeaf,
+  findNewestLeaf,
   updateMessage,
   atomicApprove,
   searchSessionMessages,
@@ -53,13 +56,15 @@ describe("createSession", () => {
     const [sql, params] = mockQuery.mock.calls[0];
     expect(sql).toContain("INSERT INTO sessions");
     expect(sql).toContain("RETURNING");
-    expect(params).toHaveLength(4);
+    expect(params).toHaveLength(6);
     expect(params[1]).toBe("New chat");
 
     expect(session.id).toBe("abc-123");
     expect(session.title).toBe("New chat");
     expect(session.model).toBe("");
     expect(session.visionModel).toBe("");
+    expect(session.systemPrompt).toBe("");
+    expect(session.sampling).toEqual({});
     expect(session.createdAt).toBe(now.toISOString());
     expect(session.updatedAt).toBe(now.toISOString());
   });
@@ -138,6 +143,28 @@ describe("getSession", () => {
     expect(result).toBeNull();
   });
 
+  it("loads only the active branch and maps tree fields", async () => {
+    const now = new Date();
+    mockQuery.mockResolvedValueOnce({
+      rows: [{ id: "s1", title: "Chat", auto_approve: false, created_at: now, updated_at: now }],
+    });
+    mockQuery.mockResolvedValueOnce({
+      rows: [
+        { id: "m1", role: "user", content: "Hi", parent_id: null, sibling_ids: ["m1"], timestamp: 1000 },
+        { id: "m3", role: "assistant", content: "Again", parent_id: "m1", sibling_ids: ["m2", "m3"], timestamp: 3000 },
+      ],
+    });
+
+    const result = await getSession("s1");
+    const sql = mockQuery.mock.calls[1][0] as string;
+    expect(sql).toContain("WITH RECURSIVE branch");
+    expect(sql).toContain("active_leaf_id");
+    expect(result!.messages[0].parentId).toBeUndefined();
+    expect(result!.messages[0].siblingIds).toBeUndefined();
+    expect(result!.messages[1].parentId).toBe("m1");
+    expect(result!.messages[1].siblingIds).toEqual(["m2", "m3"]);
+  });
+
   it("parses JSONB toolCalls from messages", async () => {
     const now = new Date();
     const toolCalls = [{ id: "tc1", name: "filesystem", arguments: { op: "list" } }];
@@ -182,6 +209,23 @@ describe("updateSessionTitle", () => {
   });
 });
 
+describe("getSessionGenerationSettings", () => {
+  it("returns the session's system prompt and sampling", async () => {
+    mockQuery.mockResolvedValueOnce({
+      rows: [{ system_prompt: "You are terse.", sampling: { temperature: 0.2 } }],
+    });
+    expect(await getSessionGenerationSettings("s1")).toEqual({
+      systemPrompt: "You are terse.",
+      sampling: { temperature: 0.2 },
+    });
+  });
+
+  it("returns empty overrides for a missing session", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+    expect(await getSessionGenerationSettings("missing")).toEqual({ systemPrompt: "", sampling: {} });
+  });
+});
+
 describe("deleteSession", () => {
   it("returns true and calls deleteSessionFiles", async () => {
     mockQuery.mockResolvedValueOnce({
@@ -238,6 +282,38 @@ describe("addMessage", () => {
     const params = mockQuery.mock.calls[0][1];
     expect(params[0]).toBeNull(); // empty string becomes null via || null
   });
+
+  it("appends to the active branch and moves the leaf", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ id: "m2" }] });
+    mockQuery.mockResolvedValueOnce({});
+
+    await addMessage("s1", { id: "m2", role: "assistant", content: "Hi", timestamp: Date.now() });
+
+    expect(mockQuery.mock.calls[0][0]).toContain("SELECT active_leaf_id FROM sessions");
+    expect(mockQuery.mock.calls[1][0]).toContain("active_leaf_id = $2");
+    expect(mockQuery.mock.calls[1][1]).toEqual(["s1", "m2"]);
+  });
+});
+
+describe("branches", () => {
+  it("setActiveLeaf accepts null to start a new root branch", async () => {
+    mockQuery.mockResolvedValueOnce({});
+    await setActiveLeaf("s1", null);
+    expect(mockQuery.mock.calls[0][1]).toEqual(["s1", null]);
+  });
+
+  it("findNewestLeaf returns the deepest message on the newest path", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ id: "m9" }] });
+    const leaf = await findNewestLeaf("s1", "m2");
+    expect(leaf).toBe("m9");
+    expect(mockQuery.mock.calls[0][0]).toContain("ORDER BY timestamp DESC LIMIT 1");
+    expect(mockQuery.mock.calls[0][1]).toEqual(["m2", "s1"]);
+  });
+
+  it("findNewestLeaf returns null for a message outside the session", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+    expect(await findNewestLeaf("s1", "other")).toBeNull();
+  });
 });
 
 describe("updateMessage", () => {
@@ -722,6 +798,33 @@ describe("updateSession", () => {
     expect(params).toContain("");
   });
 
+  it("updates system prompt and sampling", async () => {
+    const now = new Date();
+    mockQuery.mockResolvedValueOnce({
+      rows: [{
+        id: "s1",
+        title: "Chat",
+        auto_approve: false,
+        system_prompt: "Answer in French.",
+        sampling: { temperature: 0.3, maxOutputTokens: 1024 },
+        created_at: now,
+        updated_at: now,
+      }],
+    });
+
+    const session = await updateSession("s1", {
+      systemPrompt: "Answer in French.",
+      sampling: { temperature: 0.3, maxOutputTokens: 1024 },
+    });
+    expect(session!.systemPrompt).toBe("Answer in French.");
+    expect(session!.sampling).toEqual({ temperature: 0.3, maxOutputTokens: 1024 });
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain("system_prompt =");
+    expect(sql).toContain("sampling =");
+    expect(params).toContain(JSON.stringify({ temperature: 0.3, maxOutputTokens: 1024 }));
+  });
+
   it("updates model — stores provider:modelId directly", async () => {
     const now = new Date();
     mockQuery.mockResolvedValueOnce({
@@ -6,6 +6,7 @@ import {
   removeStream,
   continueStream,
   scheduleRemoval,
+  runStreamId,
 } from "../services/streamRegistry.js";
 
 describe("streamRegistry", () => {
@@ -33,6 +34,25 @@ describe("streamRegistry", () => {
       expect(getStream("test-session")).toBe(stream2);
       expect(stream2.assistantId).toBe("asst-2");
     });
+
+    it("keeps runs with their own stream ID next to the session's stream", () => {
+      const chat = createStream("test-session", "asst-1", "gpt-4");
+      const runId = runStreamId("test-session", "cand-1");
+      const run = createStream("test-session", "cand-1", "claude", runId);
+      try {
+        expect(chat.streamId).toBe("test-session");
+        expect(run.streamId).toBe(runId);
+        expect(run.sessionId).toBe("test-session");
+        expect(getStream("test-session")).toBe(chat);
+        expect(getStream(runId)).toBe(run);
+
+        pushEvent(runId, { type: "token", data: "Hi" });
+        expect(run.content).toBe("Hi");
+        expect(chat.content).toBe("");
+      } finally {
+        removeStream(runId);
+      }
+    });
   });
 
   describe("getStream", () => {
@@ -104,6 +124,66 @@ describe("streamRegistry", () => {
       expect(stream.requestBody).toEqual({ test: true });
     });
 
+    it("accumulates thinking text and keeps the latest signature", () => {
+      const stream = createStream("test-session", "asst-1", "claude-sonnet-4-20250514");
+      pushEvent("test-session", { type: "thinking", data: { text: "Let me " } });
+      pushEvent("test-session", { type: "thinking", data: { text: "think." } });
+      pushEvent("test-session", { type: "thinking", data: { text: "", signature: "sig-1" } });
+      expect(stream.reasoning).toBe("Let me think.");
+      expect(stream.reasoningSignature).toBe("sig-1");
+      expect(stream.content).toBe("");
+    });
+
+    it("discards partial output and switches model on retrying events", () => {
+      const stream = createStream("test-session", "asst-1", "claude-sonnet-4-20250514");
+      pushEvent("test-session", { type: "token", data: "Half an ans" });
+      pushEvent("test-session", { type: "tool_call", data: { id: "tc1", name: "test_op", arguments: {} } });
+      pushEvent("test-session", {
+        type: "retrying",
+        data: {
+          assistantId: "asst-1",
+          attempt: 1,
+          maxAttempts: 3,
+          provider: "gemini",
+          model: "gemini-2.5-pro",
+          delayMs: 0,
+          error: { message: "overloaded", code: "RATE_LIMIT", recoverable: true },
+        },
+      });
+      expect(stream.content).toBe("");
+      expect(stream.toolCalls).toEqual([]);
+      expect(stream.model).toBe("gemini-2.5-pro");
+      expect(stream.assistantId).toBe("asst-1");
+    });
+
+    it("collects tool call argument deltas until the call completes", () => {
+      const stream = createStream("test-session", "asst-1", "gpt-4");
+      pushEvent("test-session", { type: "tool_call_delta", data: { id: "tc1", name: "write", delta: '{"path":' } });
+      pushEvent("test-session", { type: "tool_call_delta", data: { id: "tc2", name: "read", delta: "{" } });
+      pushEvent("test-session", { type: "tool_call_delta", data: { id: "tc1", name: "write", delta: '"a.txt"' } });
+      expect(stream.partialToolCalls).toEqual([
+        { id: "tc1", name: "write", arguments: '{"path":"a.txt"' },
+        { id: "tc2", name: "read", arguments: "{" },
+      ]);
+
+      pushEvent("test-session", { type: "tool_call", data: { id: "tc1", name: "write", arguments: { path: "a.txt" } } });
+      expect(stream.partialToolCalls.map((tc) => tc.id)).toEqual(["tc2"]);
+
+      pushEvent("test-session", {
+        type: "retrying",
+        data: {
+          assistantId: "asst-1",
+          attempt: 1,
+          maxAttempts: 3,
+          provider: "openai",
+          model: "gpt-4",
+          delayMs: 0,
+          error: { message: "Overloaded", code: "OVERLOADED", recoverable: true },
+        },
+      });
+      expect(stream.partialToolCalls).toEqual([]);
+    });
+
     it("ignores events for non-existent streams", () => {
       // Should not throw
       pushEvent("nonexistent", { type: "token", data: "Hi" });
@@ -129,6 +209,7 @@ describe("streamRegistry", () => {
     it("resets content, toolCalls, and requestBody for a new round", () => {
       const stream = createStream("test-session", "asst-1", "gpt-4");
       pushEvent("test-session", { type: "token", data: "Some content" });
+      pushEvent("test-session", { type: "thinking", data: { text: "Reasoning", signature: "sig" } });
       const tc = { id: "tc1", name: "test", arguments: {} };
       pushEvent("test-session", { type: "tool_call", data: tc });
       pushEvent("test-session", { type: "done", data: { hasToolCalls: true } });
@@ -139,6 +220,8 @@ describe("streamRegistry", () => {
       expect(continued).not.toBeNull();
       expect(continued!.assistantId).toBe("asst-2");
       expect(continued!.content).toBe("");
+      expect(continued!.reasoning).toBe("");
+      expect(continued!.reasoningSignature).toBeUndefined();
       expect(continued!.toolCalls).toEqual([]);
       expect(continued!.hasToolCalls).toBe(false);
       expect(continued!.done).toBe(false);
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { countTokens } from "../services/tokenCounter.js";
+import { countTokens, estimateMessageTokens, getCalibrationFactor, reconcileUsage } from "../services/tokenCounter.js";
+import { DEFAULT_TOKENIZER, getTokenizer, registerTokenizer } from "../services/tokenizers.js";
 
 describe("countTokens", () => {
   it("returns a positive number for non-empty text", () => {
@@ -29,3 +30,71 @@ describe("countTokens", () => {
     expect(count).toBeGreaterThan(0);
   });
 });
+
+describe("estimateMessageTokens", () => {
+  const base = { id: "m1", role: "assistant" as const, content: "The answer is 42.", timestamp: 0 };
+
+  it("ignores display-only reasoning", () => {
+    const withReasoning = { ...base, reasoning: "Long chain of thought ".repeat(50) };
+    expect(estimateMessageTokens(withReasoning)).toBe(estimateMessageTokens(base));
+  });
+
+  it("counts signed reasoning that is sent back to the provider", () => {
+    const signed = { ...base, reasoning: "Long chain of thought ".repeat(50), reasoningSignature: "sig" };
+    expect(estimateMessageTokens(signed)).toBeGreaterThan(estimateMessageTokens(base) + 100);
+  });
+});
+
+describe("tokenizers", () => {
+  const claude = { id: "claude-sonnet-4-20250514", provider: "anthropic" };
+  const deepseek = { id: "deepseek-chat", provider: "deepseek" };
+  const photo = { id: "m1", role: "user" as const, content: "What is this?", timestamp: 0, images: ["/files/a.png", "/files/b.png"] };
+
+  it("falls back to the default tokenizer for unknown providers", () => {
+    expect(getTokenizer({ id: "x", provider: "unknown" })).toBe(DEFAULT_TOKENIZER);
+    expect(getTokenizer()).toBe(DEFAULT_TOKENIZER);
+  });
+
+  it("counts images with the provider's estimate for vision models only", () => {
+    const text = estimateMessageTokens({ ...photo, images: undefined }, claude);
+    expect(estimateMessageTokens(photo, claude)).toBe(text + 2 * getTokenizer(claude).imageTokens);
+    expect(estimateMessageTokens(photo, deepseek)).toBe(estimateMessageTokens({ ...photo, images: undefined }, deepseek));
+    expect(estimateMessageTokens(photo)).toBe(countTokens("What is this?"));
+  });
+
+  it("uses a registered tokenizer for its provider", () => {
+    registerTokenizer("test-provider", { countText: (text) => text.length, imageTokens: 0 });
+    expect(countTokens("abcdef", { id: "m", provider: "test-provider" })).toBe(6);
+  });
+});
+
+describe("reconcileUsage", () => {
+  const answer = "The quick brown fox jumps over the lazy dog. ".repeat(10);
+
+  it("calibrates the model's counts towards reported output tokens", () => {
+    const model = { id: "calibrated", provider: "gemini" };
+    const estimated = countTokens(answer, model);
+
+    reconcileUsage(model, { content: answer }, { inputTokens: 0, outputTokens: Math.round(estimated * 1.2) });
+    expect(getCalibrationFactor(model)).toBeCloseTo(1.2, 2);
+    expect(countTokens(answer, model)).toBe(Math.round(estimated * getCalibrationFactor(model)));
+
+    // Later observations move the factor gradually
+    reconcileUsage(model, { content: answer }, { inputTokens: 0, outputTokens: estimated });
+    expect(getCalibrationFactor(model)).toBeCloseTo(1.16, 2);
+  });
+
+  it("clamps outliers and leaves other models untouched", () => {
+    const model = { id: "outlier", provider: "gemini" };
+    reconcileUsage(model, { content: answer }, { inputTokens: 0, outputTokens: 100_000 });
+    expect(getCalibrationFactor(model)).toBe(2);
+    expect(getCalibrationFactor({ id: "other", provider: "gemini" })).toBe(1);
+  });
+
+  it("ignores short responses and responses with reasoning", () => {
+    const model = { id: "skipped", provider: "anthropic" };
+    reconcileUsage(model, { content: "Hi" }, { inputTokens: 0, outputTokens: 50 });
+    reconcileUsage(model, { content: answer, reasoning: "thinking" }, { inputTokens: 0, outputTokens: 900 });
+    expect(getCalibrationFactor(model)).toBe(1);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockQuery = vi.fn();
+
+vi.mock("../services/db.js", () => ({
+  default: { query: mockQuery },
+}));
+
+const { recordToolExecution, listToolExecutions } = await import("../services/toolAuditStore.js");
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("recordToolExecution", () => {
+  it("writes the call with its duration and approver", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+    await recordToolExecution({
+      sessionId: "s1",
+      messageId: "m1",
+      toolCallId: "tc1",
+      tool: "run_command",
+      operation: "execute",
+      arguments: { command: "ls" },
+      startedAt: 1_700_000_000_000,
+      finishedAt: 1_700_000_001_250,
+      outcome: "success",
+      outputBytes: 42,
+      approval: { kind: "user", by: "Firefox on Linux (10.0.0.2)" },
+    });
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain("INSERT INTO tool_executions");
+    expect(params).toEqual([
+      "s1", "m1", "tc1", "run_command", "execute", '{"command":"ls"}',
+      1_700_000_000_000, 1_700_000_001_250, 1250, "success", 42,
+      "user", "Firefox on Linux (10.0.0.2)", null,
+    ]);
+  });
+});
+
+describe("listToolExecutions", () => {
+  it("combines the filters and pages newest first", async () => {
+    mockQuery.mockResolvedValueOnce({
+      rows: [{
+        id: "e1",
+        session_id: "s1",
+        session_title: "Deploy",
+        message_id: null,
+        tool_call_id: "tc1",
+        tool: "filesystem",
+        operation: "delete",
+        arguments: { path: "/tmp/100%_done" },
+        started_at: "2026-10-01T10:00:00.000Z",
+        finished_at: "2026-10-01T10:00:00.300Z",
+        duration_ms: 300,
+        outcome: "success",
+        output_bytes: 7,
+        approval_kind: "rule",
+        approved_by: "Global rule: tmp",
+        approval_rule_id: "r1",
+        total: "31",
+      }],
+    });
+
+    const page = await listToolExecutions({
+      tool: "filesystem",
+      approval: "rule",
+      search: "100%_",
+      from: "2026-10-01",
+      to: "2026-10-08",
+      limit: 10,
+      offset: 20,
+    });
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain("WHERE e.tool = $1 AND e.approval_kind = $2 AND e.arguments::text ILIKE $3");
+    expect(sql).toContain("LIMIT $6 OFFSET $7");
+    expect(params).toEqual(["filesystem", "rule", "%100\\%\\_%", "2026-10-01", "2026-10-08", 10, 20]);
+    expect(page).toEqual({
+      total: 31,
+      executions: [{
+        id: "e1",
+        sessionId: "s1",
+        sessionTitle: "Deploy",
+        messageId: null,
+        toolCallId: "tc1",
+        tool: "filesystem",
+        operation: "delete",
+        arguments: { path: "/tmp/100%_done" },
+        startedAt: Date.parse("2026-10-01T10:00:00.000Z"),
+        finishedAt: Date.parse("2026-10-01T10:00:00.300Z"),
+        durationMs: 300,
+        outcome: "success",
+        outputBytes: 7,
+        approval: { kind: "rule", by: "Global rule: tmp", ruleId: "r1" },
+      }],
+    });
+  });
+
+  it("returns an empty page without a WHERE clause when nothing is filtered", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+    expect(await listToolExecutions({})).toEqual({ executions: [], total: 0 });
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).not.toContain("WHERE");
+    expect(params).toEqual([100, 0]);
+  });
+});
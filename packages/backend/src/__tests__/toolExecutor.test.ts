@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
 import type { Tool } from "../services/tools/ToolExecutor.js";
 
 // We need a fresh registry for each test. The module has a module-level Map,
@@ -10,6 +10,8 @@ import {
   getToolDefinitions,
   validateToolCalls,
   executeToolCalls,
+  isReadOnlyToolCall,
+  setToolAuditSink,
 } from "../services/tools/ToolExecutor.js";
 
 const makeTool = (name: string, opts?: Partial<Tool>): Tool => ({
@@ -79,11 +81,22 @@ describe("ToolExecutor", () => {
       expect(errorsGood).toHaveLength(0);
 
       const errorsBad = validateToolCalls([
-        { id: "tc4", name: `${validatingName}_execute`, arguments: {} },
+        { id: "tc4", name: `${validatingName}_execute`, arguments: { input: "" } },
       ]);
       expect(errorsBad).toHaveLength(1);
       expect(errorsBad[0].output).toContain("input required");
     });
+
+    it("checks arguments against the operation schema before tool.validate", () => {
+      const errors = validateToolCalls([
+        { id: "tc4b", name: `${toolName}_execute`, arguments: { input: { text: "hi" } } },
+      ]);
+      expect(errors).toEqual([{
+        toolCallId: "tc4b",
+        output: `Invalid arguments for ${toolName}_execute:\n- input: expected string, got object`,
+        isError: true,
+      }]);
+    });
   });
 
   describe("executeToolCalls", () => {
@@ -113,7 +126,7 @@ describe("ToolExecutor", () => {
       }));
 
       const results = await executeToolCalls([
-        { id: "tc7", name: `${throwingName}_execute`, arguments: {} },
+        { id: "tc7", name: `${throwingName}_execute`, arguments: { input: "x" } },
       ]);
       expect(results).toHaveLength(1);
       expect(results[0].isError).toBe(true);
@@ -131,12 +144,48 @@ describe("ToolExecutor", () => {
       }));
 
       await executeToolCalls(
-        [{ id: "tc8", name: `${sessionName}_execute`, arguments: {} }],
+        [{ id: "tc8", name: `${sessionName}_execute`, arguments: { input: "x" } }],
         "my-session-123",
       );
       expect(receivedSessionId).toBe("my-session-123");
     });
 
+    it("reports whatever a tool throws after the signal aborts as a cancellation", async () => {
+      const slowName = `slow_${Date.now()}`;
+      registerTool(makeTool(slowName, {
+        execute: (_args, _sessionId, context) =>
+          new Promise((_resolve, reject) => {
+            context?.signal?.addEventListener("abort", () => reject(new Error("socket hang up")));
+          }),
+      }));
+
+      const controller = new AbortController();
+      const pending = executeToolCalls(
+        [{ id: "tc8c", name: `${slowName}_execute`, arguments: { input: "x" } }],
+        undefined,
+        undefined,
+        controller.signal,
+      );
+      controller.abort();
+      expect(await pending).toEqual([{ toolCallId: "tc8c", output: "Cancelled by user", isError: true }]);
+
+      // Already aborted: the tool doesn't start
+      const [result] = await executeToolCalls(
+        [{ id: "tc8d", name: `${toolName}_execute`, arguments: { input: "x" } }],
+        undefined,
+        undefined,
+        controller.signal,
+      );
+      expect(result.output).toBe("Cancelled by user");
+    });
+
+    it("runs the tool with coerced arguments", async () => {
+      const results = await executeToolCalls([
+        { id: "tc8b", name: `${toolName}_execute`, arguments: { input: 5 } },
+      ]);
+      expect(results[0].output).toBe(`executed ${toolName}: {"input":"5","operation":"execute"}`);
+    });
+
     it("handles multiple calls sequentially", async () => {
       const results = await executeToolCalls([
         { id: "tc9a", name: `${toolName}_execute`, arguments: { input: "first" } },
@@ -147,4 +196,72 @@ describe("ToolExecutor", () => {
       expect(results[1].toolCallId).toBe("tc9b");
     });
   });
+
+  describe("audit sink", () => {
+    it("reports each call that ran with its approver, outcome and output size", async () => {
+      const sink = vi.fn();
+      setToolAuditSink(sink);
+      const failing = makeTool(`test_failing_${Date.now()}`, {
+        execute: async () => {
+          throw new Error("disk full");
+        },
+      });
+      registerTool(failing);
+      try {
+        await executeToolCalls(
+          [
+            { id: "tcA1", name: `${toolName}_execute`, arguments: { input: "héllo" } },
+            { id: "tcA2", name: `${failing.definition.name}_execute`, arguments: { input: "x" } },
+            { id: "tcA3", name: "nonexistent_tool_xyz", arguments: {} },
+          ],
+          "s1",
+          undefined,
+          undefined,
+          { messageId: "m1", approvers: { tcA1: { kind: "rule", by: "Global rule: tests", ruleId: "r1" } } },
+        );
+      } finally {
+        setToolAuditSink(null);
+      }
+
+      // Unknown tools never ran, so they aren't logged
+      expect(sink).toHaveBeenCalledTimes(2);
+      const output = `executed ${toolName}: {"input":"héllo","operation":"execute"}`;
+      expect(sink.mock.calls[0][0]).toMatchObject({
+        sessionId: "s1",
+        messageId: "m1",
+        toolCallId: "tcA1",
+        tool: toolName,
+        operation: "execute",
+        arguments: { input: "héllo" },
+        outcome: "success",
+        outputBytes: Buffer.byteLength(output),
+        approval: { kind: "rule", ruleId: "r1" },
+      });
+      expect(sink.mock.calls[0][0].finishedAt).toBeGreaterThanOrEqual(sink.mock.calls[0][0].startedAt);
+      expect(sink.mock.calls[1][0]).toMatchObject({ toolCallId: "tcA2", outcome: "error", approval: { kind: "direct" } });
+    });
+  });
+
+  describe("isReadOnlyToolCall", () => {
+    it("follows the operation's readOnly flag", () => {
+      const roName = `test_ro_tool_${Date.now()}`;
+      registerTool({
+        definition: {
+          name: roName,
+          description: "read-only test tool",
+          operations: {
+            get: { params: {}, readOnly: true },
+            set: { params: {} },
+          },
+        },
+        execute: async () => "ok",
+      });
+      expect(isReadOnlyToolCall({ id: "1", name: `${roName}_get`, arguments: {} })).toBe(true);
+      expect(isReadOnlyToolCall({ id: "2", name: `${roName}_set`, arguments: {} })).toBe(false);
+    });
+
+    it("treats unknown tools as mutating", () => {
+      expect(isReadOnlyToolCall({ id: "3", name: "nonexistent_tool_xyz", arguments: {} })).toBe(false);
+    });
+  });
 });
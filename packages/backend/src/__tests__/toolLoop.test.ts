@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import type { ChatMessage, ToolResult } from "@vladbot/shared";
+import type { ChatMessage, ToolCall, ToolResult } from "@vladbot/shared";
 
 // Mock all dependencies before importing
 vi.mock("../services/db.js", () => ({
@@ -10,14 +10,20 @@ const mockGetSession = vi.fn();
 const mockAddMessage = vi.fn().mockResolvedValue("new-msg-id");
 const mockUpdateMessage = vi.fn().mockResolvedValue(undefined);
 const mockUpdateSessionTokenUsage = vi.fn().mockResolvedValue(undefined);
+const mockAtomicApprove = vi.fn().mockResolvedValue(true);
+const mockGetSessionAutoApprove = vi.fn().mockResolvedValue(false);
 
 vi.mock("../services/sessionStore.js", () => ({
   getSession: (...args: unknown[]) => mockGetSession(...args),
   addMessage: (...args: unknown[]) => mockAddMessage(...args),
   updateMessage: (...args: unknown[]) => mockUpdateMessage(...args),
   updateSessionTokenUsage: (...args: unknown[]) => mockUpdateSessionTokenUsage(...args),
-  atomicApprove: vi.fn().mockResolvedValue(true),
-  getSessionAutoApprove: vi.fn().mockResolvedValue(false),
+  atomicApprove: (...args: unknown[]) => mockAtomicApprove(...args),
+  getSessionAutoApprove: (...args: unknown[]) => mockGetSessionAutoApprove(...args),
+}));
+
+vi.mock("../services/approvalRuleStore.js", () => ({
+  listApprovalRules: vi.fn().mockResolvedValue([]),
 }));
 
 const mockValidateToolCalls = vi.fn().mockReturnValue([]);
@@ -26,6 +32,8 @@ const mockExecuteToolCalls = vi.fn();
 vi.mock("../services/tools/index.js", () => ({
   validateToolCalls: (...args: unknown[]) => mockValidateToolCalls(...args),
   executeToolCalls: (...args: unknown[]) => mockExecuteToolCalls(...args),
+  // Test convention: tool names starting with "read_" are read-only
+  isReadOnlyToolCall: (call: { name: string }) => call.name.startsWith("read_"),
 }));
 
 // Mock AI provider
@@ -87,6 +95,10 @@ vi.mock("../config/env.js", () => ({
   },
 }));
 
+vi.mock("../config/runtimeSettings.js", () => ({
+  getRuntimeSetting: vi.fn(async (key: string) => (key === "llm_retry_max_attempts" ? "1" : "0")),
+}));
+
 const mockGetLLMContext = vi.fn().mockResolvedValue([
   { role: "user", content: "Hello" },
 ]);
@@ -105,9 +117,11 @@ vi.mock("../services/tokenCounter.js", () => ({
     if (msg.toolResults) text += JSON.stringify(msg.toolResults);
     return Math.ceil(text.length / 4);
   }),
+  reconcileUsage: vi.fn(),
 }));
 
-const { executeToolRound, denyToolRound } = await import("../services/toolLoop.js");
+const { executeToolRound, denyToolRound, planToolBatches } = await import("../services/toolLoop.js");
+const { startLoopTurn } = await import("../services/loopGuard.js");
 
 // Import the actual buildHistoryFromDB for testing (doesn't need mocks since it's pure function)
 // We need to directly test the implementation
@@ -620,8 +634,11 @@ describe("executeToolRound", () => {
 
     await executeToolRound("s1", "m2", "gpt-4", "deepseek");
 
-    // Should have executed tools (third arg is onProgress callback)
-    expect(mockExecuteToolCalls).toHaveBeenCalledWith([toolCalls[0]], "s1", expect.any(Function));
+    // Should have executed tools (then the onProgress callback, the stream's abort signal and the audit context)
+    expect(mockExecuteToolCalls).toHaveBeenCalledWith([toolCalls[0]], "s1", expect.any(Function), expect.any(AbortSignal), {
+      messageId: "m2",
+      approvers: { tc1: { kind: "auto" } },
+    });
 
     // Should have updated the message with results
     expect(mockUpdateMessage).toHaveBeenCalledWith("m2", {
@@ -797,9 +814,96 @@ describe("executeToolRound", () => {
     expect(mockRemoveStream).not.toHaveBeenCalled();
   });
 
-  it("respects MAX_TOOL_ROUNDS", async () => {
-    await executeToolRound("s1", "m2", "gpt-4", "deepseek", undefined, 10);
-    expect(mockGetSession).not.toHaveBeenCalled();
+  it("fails over to the session's fallback model and keeps it for the turn", async () => {
+    const toolCalls = [{ id: "tc1", name: "test_op", arguments: {} }];
+    const session = {
+      ...makeSession([
+        { id: "m1", role: "user", content: "Hello", timestamp: 1 },
+        { id: "m2", role: "assistant", content: "", timestamp: 2, toolCalls, approvalStatus: "approved" as const },
+      ]),
+      fallbackModels: ["gemini:gemini-2.5-pro"],
+    };
+    mockGetSession.mockResolvedValue(session);
+    mockExecuteToolCalls.mockResolvedValue([{ toolCallId: "tc1", output: "done" }]);
+    mockGenerateStream
+      .mockReturnValueOnce((async function* () {
+        throw new Error("429 Too Many Requests");
+      })())
+      .mockReturnValueOnce((async function* () {
+        yield { type: "text", text: "Response" };
+      })());
+
+    await executeToolRound("s1", "m2", "claude-sonnet-4-20250514", "anthropic");
+
+    expect(mockGenerateStream.mock.calls.map((c) => c[1])).toEqual([
+      "claude-sonnet-4-20250514",
+      "gemini-2.5-pro",
+    ]);
+    expect(mockPushEvent).toHaveBeenCalledWith("s1", {
+      type: "retrying",
+      data: expect.objectContaining({ attempt: 1, provider: "gemini", model: "gemini-2.5-pro" }),
+    });
+    const assistantCall = mockAddMessage.mock.calls.find(
+      (call: unknown[]) => (call[1] as ChatMessage).role === "assistant",
+    );
+    expect((assistantCall![1] as ChatMessage).model).toBe("gemini-2.5-pro");
+  });
+
+  it("pushes an error once the model chain is exhausted", async () => {
+    const toolCalls = [{ id: "tc1", name: "test_op", arguments: {} }];
+    mockGetSession.mockResolvedValue(makeSession([
+      { id: "m1", role: "user", content: "Hello", timestamp: 1 },
+      { id: "m2", role: "assistant", content: "", timestamp: 2, toolCalls, approvalStatus: "approved" as const },
+    ]));
+    mockExecuteToolCalls.mockResolvedValue([{ toolCallId: "tc1", output: "done" }]);
+    mockGenerateStream.mockReturnValueOnce((async function* () {
+      throw new Error("503 server error");
+    })());
+
+    await executeToolRound("s1", "m2", "gpt-4", "deepseek");
+
+    expect(mockGenerateStream).toHaveBeenCalledTimes(1);
+    expect(mockPushEvent).toHaveBeenCalledWith("s1", {
+      type: "error",
+      data: expect.objectContaining({ code: "PROVIDER_ERROR" }),
+    });
+  });
+
+  it("pauses at the session's round limit instead of auto-approving the next round", async () => {
+    startLoopTurn("s1");
+    const toolCalls = [{ id: "tc1", name: "test_op", arguments: {} }];
+    const nextCall = { id: "tc2", name: "test_op", arguments: { step: 2 } };
+    mockGetSession.mockResolvedValue({
+      ...makeSession([
+        { id: "m1", role: "user", content: "Hello", timestamp: 1 },
+        { id: "m2", role: "assistant", content: "", timestamp: 2, toolCalls, approvalStatus: "approved" as const },
+      ]),
+      loopLimits: { maxRounds: 1 },
+    });
+    mockExecuteToolCalls.mockResolvedValue([{ toolCallId: "tc1", output: "done" }]);
+    mockGetSessionAutoApprove.mockResolvedValueOnce(true);
+    mockGenerateStream.mockReturnValueOnce((async function* () {
+      yield { type: "tool_call", toolCall: nextCall };
+    })());
+    mockGetStream.mockReturnValue({ ...mockGetStream(), toolCalls: [nextCall] });
+
+    await executeToolRound("s1", "m2", "gpt-4", "deepseek");
+
+    const assistantCall = mockAddMessage.mock.calls.find(
+      (call: unknown[]) => (call[1] as ChatMessage).role === "assistant",
+    );
+    const paused = assistantCall![1] as ChatMessage;
+    expect(paused).toMatchObject({
+      approvalStatus: "pending",
+      loopLimit: { reason: "rounds", detail: "Reached the limit of 1 tool round", rounds: 1 },
+    });
+    expect(mockPushEvent).toHaveBeenCalledWith("s1", {
+      type: "loop_limit",
+      data: expect.objectContaining({ messageId: paused.id, reason: "rounds" }),
+    });
+    expect(mockAtomicApprove).not.toHaveBeenCalled();
+    expect(mockExecuteToolCalls).toHaveBeenCalledTimes(1);
+    expect(mockPushEvent).toHaveBeenCalledWith("s1", { type: "done", data: { hasToolCalls: true } });
   });
 
   it("saves llmRequest and llmResponse with assistant message", async () => {
@@ -862,6 +966,192 @@ describe("executeToolRound", () => {
   });
 });
 
+describe("planToolBatches", () => {
+  const call = (id: string, name: string) => ({ id, name, arguments: {} });
+
+  it("groups consecutive read-only calls and isolates mutating ones", () => {
+    const batches = planToolBatches([
+      call("1", "read_a"),
+      call("2", "read_b"),
+      call("3", "write_c"),
+      call("4", "read_d"),
+      call("5", "write_e"),
+      call("6", "write_f"),
+    ]);
+    expect(batches.map((b) => b.map((c) => c.id))).toEqual([["1", "2"], ["3"], ["4"], ["5"], ["6"]]);
+  });
+});
+
+describe("executeToolRound (parallel tool calls)", () => {
+  const deferred = () => {
+    let resolve!: (r: ToolResult[]) => void;
+    const promise = new Promise<ToolResult[]>((r) => { resolve = r; });
+    return { promise, resolve };
+  };
+
+  const setupSession = (
+    toolCalls: { id: string; name: string; arguments: Record<string, unknown> }[],
+    extra: Partial<ChatMessage> = {},
+  ) => {
+    const session = {
+      id: "s1",
+      title: "Test",
+      createdAt: "2025-01-01",
+      updatedAt: "2025-01-01",
+      messages: [
+        { id: "m2", role: "assistant" as const, content: "", timestamp: 2, toolCalls, approvalStatus: "approved" as const, ...extra },
+      ],
+    };
+    mockGetSession.mockResolvedValueOnce(session);
+    mockGetSession.mockResolvedValueOnce(session);
+  };
+
+  it("runs read-only calls concurrently and keeps result order", async () => {
+    setupSession([
+      { id: "tc1", name: "read_a", arguments: {} },
+      { id: "tc2", name: "read_b", arguments: {} },
+    ]);
+    const first = deferred();
+    const second = deferred();
+    mockExecuteToolCalls.mockReturnValueOnce(first.promise).mockReturnValueOnce(second.promise);
+
+    const round = executeToolRound("s1", "m2", "gpt-4", "deepseek");
+    await vi.waitFor(() => expect(mockExecuteToolCalls).toHaveBeenCalledTimes(2));
+
+    // Second call finishes first
+    second.resolve([{ toolCallId: "tc2", output: "b" }]);
+    first.resolve([{ toolCallId: "tc1", output: "a" }]);
+    await round;
+
+    const results = mockUpdateMessage.mock.calls[0][1].toolResults as ToolResult[];
+    expect(results.map((r) => r.toolCallId)).toEqual(["tc1", "tc2"]);
+  });
+
+  it("waits for running read-only calls before a mutating call", async () => {
+    setupSession([
+      { id: "tc1", name: "read_a", arguments: {} },
+      { id: "tc2", name: "write_b", arguments: {} },
+    ]);
+    const first = deferred();
+    mockExecuteToolCalls
+      .mockReturnValueOnce(first.promise)
+      .mockResolvedValueOnce([{ toolCallId: "tc2", output: "b" }]);
+
+    const round = executeToolRound("s1", "m2", "gpt-4", "deepseek");
+    await vi.waitFor(() => expect(mockExecuteToolCalls).toHaveBeenCalledTimes(1));
+    await new Promise((r) => setTimeout(r, 10));
+    expect(mockExecuteToolCalls).toHaveBeenCalledTimes(1);
+
+    first.resolve([{ toolCallId: "tc1", output: "a" }]);
+    await round;
+    expect(mockExecuteToolCalls).toHaveBeenCalledTimes(2);
+  });
+
+  it("lets parallel siblings finish but cancels later batches after an error", async () => {
+    setupSession([
+      { id: "tc1", name: "read_a", arguments: {} },
+      { id: "tc2", name: "read_b", arguments: {} },
+      { id: "tc3", name: "write_c", arguments: {} },
+    ]);
+    mockExecuteToolCalls
+      .mockResolvedValueOnce([{ toolCallId: "tc1", output: "Error: nope", isError: true }])
+      .mockResolvedValueOnce([{ toolCallId: "tc2", output: "b" }]);
+
+    await executeToolRound("s1", "m2", "gpt-4", "deepseek");
+
+    expect(mockExecuteToolCalls).toHaveBeenCalledTimes(2);
+    const results = mockUpdateMessage.mock.calls[0][1].toolResults as ToolResult[];
+    expect(results[1]).toEqual({ toolCallId: "tc2", output: "b" });
+    expect(results[2].output).toContain("Cancelled");
+  });
+
+  it("answers calls the user denied with their reason and still runs the rest", async () => {
+    setupSession(
+      [
+        { id: "tc1", name: "write_a", arguments: {} },
+        { id: "tc2", name: "write_b", arguments: {} },
+      ],
+      { toolCallApprovals: { tc1: { status: "denied", reason: "wrong file" }, tc2: { status: "approved" } } },
+    );
+    mockExecuteToolCalls.mockResolvedValueOnce([{ toolCallId: "tc2", output: "b" }]);
+
+    await executeToolRound("s1", "m2", "gpt-4", "deepseek");
+
+    expect(mockExecuteToolCalls).toHaveBeenCalledTimes(1);
+    expect(mockUpdateMessage.mock.calls[0][1].toolResults).toEqual([
+      { toolCallId: "tc1", output: "Tool call denied by user: wrong file", isError: true },
+      { toolCallId: "tc2", output: "b" },
+    ]);
+  });
+
+  it("keeps denials when another call fails validation", async () => {
+    setupSession(
+      [
+        { id: "tc1", name: "write_a", arguments: {} },
+        { id: "tc2", name: "write_b", arguments: {} },
+        { id: "tc3", name: "write_c", arguments: {} },
+        { id: "tc4", name: "write_d", arguments: {} },
+      ],
+      {
+        toolCallApprovals: { tc1: { status: "denied", reason: "wrong file" }, tc2: { status: "approved" } },
+        approvalDecisions: { tc3: { outcome: "deny", reason: "Global rule: no writes" } },
+      },
+    );
+    // tc3's arguments are invalid too, but the policy's denial is what the model should see
+    mockValidateToolCalls.mockImplementationOnce((calls: ToolCall[]) => calls
+      .filter((tc) => tc.id === "tc3" || tc.id === "tc4")
+      .map((tc) => ({ toolCallId: tc.id, output: "Invalid arguments", isError: true })));
+
+    await executeToolRound("s1", "m2", "gpt-4", "deepseek");
+
+    expect(mockValidateToolCalls.mock.calls[0][0].map((tc: ToolCall) => tc.id)).toEqual(["tc2", "tc4"]);
+    expect(mockExecuteToolCalls).not.toHaveBeenCalled();
+    expect(mockUpdateMessage.mock.calls[0][1].toolResults).toEqual([
+      { toolCallId: "tc1", output: "Tool call denied by user: wrong file", isError: true },
+      { toolCallId: "tc2", output: "Cancelled: another tool failed validation", isError: true },
+      { toolCallId: "tc3", output: "Denied by approval policy (Global rule: no writes)", isError: true },
+      { toolCallId: "tc4", output: "Invalid arguments", isError: true },
+    ]);
+  });
+});
+
+describe("executeToolRound (interrupted)", () => {
+  it("keeps the running tool's cancelled result and skips the calls after it", async () => {
+    const toolCalls = [
+      { id: "tc1", name: "write_a", arguments: {} },
+      { id: "tc2", name: "write_b", arguments: {} },
+    ];
+    const session = {
+      id: "s1",
+      title: "Test",
+      createdAt: "2025-01-01",
+      updatedAt: "2025-01-01",
+      messages: [
+        { id: "m2", role: "assistant" as const, content: "", timestamp: 2, toolCalls, approvalStatus: "approved" as const },
+      ],
+    };
+    mockGetSession.mockResolvedValueOnce(session);
+    const stream = mockGetStream();
+    mockExecuteToolCalls.mockImplementationOnce(async (_calls, _sessionId, _onProgress, signal: AbortSignal) => {
+      // The user interrupts while the tool runs; it notices through the signal
+      stream.aborted = true;
+      stream.abortController.abort();
+      return [{ toolCallId: "tc1", output: signal.aborted ? "Cancelled by user" : "done", isError: true }];
+    });
+
+    await executeToolRound("s1", "m2", "gpt-4", "deepseek");
+
+    expect(mockExecuteToolCalls).toHaveBeenCalledTimes(1);
+    expect(mockUpdateMessage).toHaveBeenCalledWith("m2", {
+      approvalStatus: "denied",
+      toolResults: [
+        { toolCallId: "tc1", output: "Cancelled by user", isError: true },
+        { toolCallId: "tc2", output: "Tool execution was interrupted by user.", isError: true },
+      ],
+    });
+  });
+});
+
 describe("denyToolRound", () => {
   const makeSession = (messages: ChatMessage[]) => ({
     id: "s1",
@@ -0,0 +1,102 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { readFileSync } from "node:fs";
+import { deleteSessionFiles, getSessionFilePath } from "../services/sessionFiles.js";
+import {
+  DEFAULT_TOOL_OUTPUT_BUDGET,
+  setToolOutputBudgetSource,
+  spillOversizedResult,
+  toolOutputTool,
+} from "../services/tools/toolOutput.js";
+
+const SESSION = `tool-output-test-${Date.now()}`;
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1} ${"x".repeat(40)}`).join("\n");
+
+afterEach(() => {
+  setToolOutputBudgetSource(async () => DEFAULT_TOOL_OUTPUT_BUDGET);
+  deleteSessionFiles(SESSION);
+});
+
+const run = (args: Record<string, unknown>) => toolOutputTool.execute(args, SESSION);
+
+describe("spillOversizedResult", () => {
+  it("stores an output over the budget and returns a preview with a handle", async () => {
+    setToolOutputBudgetSource(async () => 500);
+    const output = numbered(2000);
+
+    const result = await spillOversizedResult({ toolCallId: "c1", output }, "run_command", SESSION);
+
+    expect(result.spilled).toMatchObject({ lines: 2000, budget: 500 });
+    expect(result.spilled!.tokens).toBeGreaterThan(500);
+    const handle = result.spilled!.handle;
+    expect(result.spilled!.url).toBe(`/api/sessions/${SESSION}/files/${handle}`);
+    expect(readFileSync(getSessionFilePath(SESSION, handle)!, "utf8")).toBe(output);
+
+    expect(result.output).toMatch(/^\[Output too large: \d+ tokens, 2000 lines \(budget 500 tokens\)/);
+    expect(result.output).toContain(`handle "${handle}"`);
+    expect(result.output).toContain("line 1 x");
+    expect(result.output).toContain("line 2000 x");
+    expect(result.output).toMatch(/--- \d+ lines omitted ---/);
+    expect(result.output.length).toBeLessThan(1500);
+  });
+
+  it("leaves small outputs, images, sessionless calls and tool_output itself alone", async () => {
+    setToolOutputBudgetSource(async () => 50);
+    const big = numbered(100);
+    const image = JSON.stringify({ image_base64: `data:image/png;base64,${"A".repeat(5000)}` });
+
+    expect(await spillOversizedResult({ toolCallId: "c", output: "short" }, "run_command", SESSION)).toEqual({ toolCallId: "c", output: "short" });
+    expect((await spillOversizedResult({ toolCallId: "c", output: image }, "vnc", SESSION)).output).toBe(image);
+    expect((await spillOversizedResult({ toolCallId: "c", output: big }, "run_command")).output).toBe(big);
+    expect((await spillOversizedResult({ toolCallId: "c", output: big }, "tool_output", SESSION)).output).toBe(big);
+
+    setToolOutputBudgetSource(async () => 0);
+    expect((await spillOversizedResult({ toolCallId: "c", output: big }, "run_command", SESSION)).spilled).toBeUndefined();
+  });
+});
+
+describe("tool_output", () => {
+  async function spill(output: string): Promise<string> {
+    setToolOutputBudgetSource(async () => 100);
+    const result = await spillOversizedResult({ toolCallId: "c", output }, "run_command", SESSION);
+    return result.spilled!.handle;
+  }
+
+  it("reads numbered line ranges and says where to continue", async () => {
+    const handle = await spill(numbered(500));
+
+    const page = await run({ operation: "read", handle, offset: 10, limit: 3 });
+    expect(page.split("\n")).toEqual([
+      `10\tline 10 ${"x".repeat(40)}`,
+      `11\tline 11 ${"x".repeat(40)}`,
+      `12\tline 12 ${"x".repeat(40)}`,
+      "[lines 10-12 of 500; continue with offset 13]",
+    ]);
+
+    expect(await run({ operation: "head", handle, limit: 1 })).toMatch(/^1\tline 1 /);
+    expect(await run({ operation: "tail", handle, limit: 2 })).toBe(
+      `499\tline 499 ${"x".repeat(40)}\n500\tline 500 ${"x".repeat(40)}`,
+    );
+    expect(await run({ operation: "read", handle, offset: 900 })).toBe("Offset 900 is past the end (500 lines)");
+  });
+
+  it("greps with context and merges overlapping blocks", async () => {
+    const lines = Array.from({ length: 300 }, (_, i) => (i === 99 || i === 101 ? `ERROR at ${i + 1}` : `ok ${i + 1} ${"-".repeat(40)}`));
+    const handle = await spill(lines.join("\n"));
+
+    const out = await run({ operation: "grep", handle, pattern: "error", ignore_case: true, context: 1 });
+    expect(out.split("\n")).toEqual([
+      "2 matching lines",
+      `99\tok 99 ${"-".repeat(40)}`,
+      "100\tERROR at 100",
+      `101\tok 101 ${"-".repeat(40)}`,
+      "102\tERROR at 102",
+      `103\tok 103 ${"-".repeat(40)}`,
+    ]);
+    expect(await run({ operation: "grep", handle, pattern: "nothing" })).toBe("No matches");
+  });
+
+  it("rejects handles that aren't spilled outputs", async () => {
+    await expect(run({ operation: "read", handle: "../secrets.txt" })).rejects.toThrow("Unknown tool output handle");
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { unifiedDiff } from "../services/tools/unifiedDiff.js";
+
+const labels = { old: "a/f", new: "b/f" };
+
+describe("unifiedDiff", () => {
+  it("returns nothing for equal texts", () => {
+    expect(unifiedDiff("a\nb\n", "a\nb\n", labels)).toEqual({ diff: "", truncated: false });
+  });
+
+  it("groups nearby changes into hunks with three lines of context", () => {
+    const old = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+    const updated = old.replace("line 2\n", "line two\n").replace("line 18\n", "");
+    expect(unifiedDiff(old, updated, labels).diff).toBe([
+      "--- a/f",
+      "+++ b/f",
+      "@@ -1,5 +1,5 @@",
+      " line 1",
+      "-line 2",
+      "+line two",
+      " line 3",
+      " line 4",
+      " line 5",
+      "@@ -15,6 +15,5 @@",
+      " line 15",
+      " line 16",
+      " line 17",
+      "-line 18",
+      " line 19",
+      " line 20",
+    ].join("\n"));
+  });
+
+  it("marks a missing final newline", () => {
+    expect(unifiedDiff("a\n", "a", labels).diff).toBe(
+      "--- a/f\n+++ b/f\n@@ -1 +1 @@\n-a\n+a\n\\ No newline at end of file",
+    );
+  });
+
+  it("stops at the line limit", () => {
+    const updated = Array.from({ length: 50 }, (_, i) => `${i}`).join("\n");
+    const { diff, truncated } = unifiedDiff("", updated, labels, 10);
+    expect(truncated).toBe(true);
+    expect(diff.split("\n")).toHaveLength(10);
+  });
+});
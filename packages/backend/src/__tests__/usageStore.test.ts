@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockQuery = vi.fn();
+
+vi.mock("../services/db.js", () => ({
+  default: { query: mockQuery },
+}));
+
+const { AVAILABLE_MODELS, setModels } = await import("@vladbot/shared");
+const { computeCost, recordUsage, getUsageReport } = await import("../services/usageStore.js");
+
+const PRICED = { inputPrice: 3, outputPrice: 15 };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  setModels([
+    ...AVAILABLE_MODELS,
+    { id: "priced", name: "Priced", provider: "anthropic", contextWindow: 200000, nativeVision: true, ...PRICED },
+    { id: "free", name: "Free", provider: "openai-compatible", contextWindow: 32768, nativeVision: false },
+  ]);
+});
+
+describe("computeCost", () => {
+  it("prices input and output tokens per million", () => {
+    expect(computeCost(PRICED, { inputTokens: 1_000_000, outputTokens: 100_000 })).toBeCloseTo(4.5);
+  });
+
+  it("bills cache writes and reads at their own rates", () => {
+    const cost = computeCost(PRICED, {
+      inputTokens: 1_000_000,
+      outputTokens: 0,
+      cacheCreationInputTokens: 200_000,
+      cacheReadInputTokens: 600_000,
+    });
+    // 200k uncached + 200k × 1.25 + 600k × 0.1 = 510k input tokens
+    expect(cost).toBeCloseTo(1.53);
+  });
+
+  it("returns null for models without pricing", () => {
+    expect(computeCost(undefined, { inputTokens: 10, outputTokens: 10 })).toBeNull();
+    expect(computeCost({ inputPrice: 1 }, { inputTokens: 10, outputTokens: 10 })).toBeNull();
+  });
+});
+
+describe("recordUsage", () => {
+  it("writes a ledger row with the registry price", async () => {
+    mockQuery.mockResolvedValue({ rows: [] });
+    const cost = await recordUsage({
+      sessionId: "s1",
+      provider: "anthropic",
+      model: "priced",
+      purpose: "session_name",
+      usage: { inputTokens: 1000, outputTokens: 100 },
+    });
+
+    expect(cost).toBeCloseTo(0.0045);
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain("INSERT INTO usage_ledger");
+    expect(params).toEqual(["s1", null, "anthropic", "priced", "session_name", 1000, 100, 0, 0, cost]);
+  });
+
+  it("stores a null cost for unpriced models", async () => {
+    mockQuery.mockResolvedValue({ rows: [] });
+    const cost = await recordUsage({
+      provider: "openai-compatible",
+      model: "free",
+      purpose: "chat",
+      usage: { inputTokens: 10, outputTokens: 5 },
+    });
+
+    expect(cost).toBeNull();
+    expect(mockQuery.mock.calls[0][1][9]).toBeNull();
+  });
+});
+
+describe("getUsageReport", () => {
+  it("groups rows and sums the totals", async () => {
+    mockQuery.mockResolvedValue({
+      rows: [
+        { key: "chat", label: "chat", calls: 3, input_tokens: "300", output_tokens: "30",
+          cache_creation_input_tokens: "0", cache_read_input_tokens: "100", cost: 0.5, unpriced_calls: 0 },
+        { key: "compaction", label: "compaction", calls: 1, input_tokens: "1000", output_tokens: "200",
+          cache_creation_input_tokens: "0", cache_read_input_tokens: "0", cost: 0, unpriced_calls: 1 },
+      ],
+    });
+
+    const report = await getUsageReport({ groupBy: "purpose", from: "2026-01-01", to: "2026-02-01" });
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain("GROUP BY 1, 2");
+    expect(sql).toContain("l.purpose");
+    expect(params).toEqual(["2026-01-01", "2026-02-01"]);
+    expect(report.rows[0]).toMatchObject({ key: "chat", inputTokens: 300, cacheReadInputTokens: 100 });
+    expect(report.total).toEqual({
+      calls: 4,
+      inputTokens: 1300,
+      outputTokens: 230,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 100,
+      cost: 0.5,
+      unpricedCalls: 1,
+    });
+  });
+
+  it("defaults to a 30-day window ending today", async () => {
+    mockQuery.mockResolvedValue({ rows: [] });
+    const report = await getUsageReport({ groupBy: "day" });
+
+    const days = (Date.parse(report.to) - Date.parse(report.from)) / (24 * 60 * 60 * 1000);
+    expect(days).toBe(30);
+    expect(Date.parse(report.to)).toBeGreaterThan(Date.now());
+  });
+});
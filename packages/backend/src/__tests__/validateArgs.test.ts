@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import type { OperationDef } from "@vladbot/shared";
+import { checkArguments, formatArgumentErrors } from "../services/tools/validateArgs.js";
+
+const OP: OperationDef = {
+  params: {
+    path: { type: "string", description: "File path" },
+    encoding: { type: "string", enum: ["utf8", "base64"] },
+    limit: { type: "number" },
+    recursive: { type: "boolean" },
+    tags: { type: "array", items: { type: "string" } },
+    edits: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          line: { type: "number" },
+          text: { type: "string" },
+        },
+        required: ["line"],
+      },
+    },
+  },
+  required: ["path"],
+};
+
+describe("checkArguments", () => {
+  it("accepts valid arguments unchanged", () => {
+    const args = { path: "/tmp/a", encoding: "utf8", limit: 10, tags: ["x"] };
+    expect(checkArguments(OP, args)).toEqual({ args, errors: [] });
+  });
+
+  it("reports missing required arguments", () => {
+    expect(checkArguments(OP, { limit: 1 }).errors).toEqual(["path: required argument is missing"]);
+    expect(checkArguments(OP, { path: null }).errors).toEqual(["path: required argument is missing"]);
+  });
+
+  it("reports wrong types and enum values with their paths", () => {
+    const { errors } = checkArguments(OP, {
+      path: ["/tmp"],
+      encoding: "latin1",
+      edits: [{ line: 1 }, { text: "x" }, { line: "two" }],
+    });
+    expect(errors).toEqual([
+      "path: expected string, got array",
+      'encoding: must be one of "utf8", "base64", got string "latin1"',
+      "edits[1].line: required argument is missing",
+      'edits[2].line: expected number, got string "two"',
+    ]);
+  });
+
+  it("coerces numbers, booleans and JSON sent as strings", () => {
+    const { args, errors } = checkArguments(OP, {
+      path: 42,
+      limit: " 20 ",
+      recursive: "TRUE",
+      tags: '["a", "b"]',
+      edits: [{ line: "3", text: 7 }],
+    });
+    expect(errors).toEqual([]);
+    expect(args).toEqual({
+      path: "42",
+      limit: 20,
+      recursive: true,
+      tags: ["a", "b"],
+      edits: [{ line: 3, text: "7" }],
+    });
+  });
+
+  it("leaves optional nulls and undeclared arguments alone", () => {
+    const { args, errors } = checkArguments(OP, { path: "/a", limit: null, extra: 1 });
+    expect(errors).toEqual([]);
+    expect(args).toEqual({ path: "/a", limit: null, extra: 1 });
+  });
+});
+
+describe("formatArgumentErrors", () => {
+  it("lists one problem per line", () => {
+    expect(formatArgumentErrors("filesystem_read_file", ["path: required argument is missing"])).toBe(
+      "Invalid arguments for filesystem_read_file:\n- path: required argument is missing",
+    );
+  });
+});
@@ -5,6 +5,7 @@ import { registerAllTools } from "./services/tools/index.js";
 import { getSessionFilePath } from "./services/sessionFiles.js";
 import { getActiveBrowserSessions } from "./services/tools/browser/connection.js";
 import { getSession } from "./services/sessionStore.js";
+import { mcpRouter } from "./routes/mcp.js";
 
 registerAllTools();
 
@@ -44,6 +45,9 @@ app.get("/api/browser-sessions", async (_req, res) => {
   res.json({ sessions });
 });
 
+// vladbot's own tools served over MCP (streamable HTTP)
+app.use("/mcp", mcpRouter);
+
 app.use(errorHandler);
 
 export default app;
@@ -11,8 +11,37 @@ const envSchema = z
     ANTHROPIC_API_KEY: z.string().optional().default(""),
     GOOGLE_GEMINI_API_KEY: z.string().optional().default(""),
     DEEPSEEK_API_KEY: z.string().optional().default(""),
+
+    // OpenAI-compatible endpoint (Ollama, llama.cpp, vLLM, LM Studio).
+    // Base URL like "http://localhost:11434/v1"; the key is optional.
+    OPENAI_COMPATIBLE_BASE_URL: z.string().optional().default(""),
+    OPENAI_COMPATIBLE_API_KEY: z.string().optional().default(""),
+    // Comma-separated model IDs served by the endpoint (e.g. "llama3.1:8b,qwen2.5-vl:7b")
+    OPENAI_COMPATIBLE_MODELS: z.string().optional().default(""),
+    // Subset of OPENAI_COMPATIBLE_MODELS that accept image input
+    OPENAI_COMPATIBLE_VISION_MODELS: z.string().optional().default(""),
+    OPENAI_COMPATIBLE_CONTEXT_WINDOW: z.coerce.number().default(32768),
+
+    // Deterministic LLM runs (tests, demos). LLM_REPLAY_CASSETTE enables the
+    // "replay" provider, which plays back the given cassette file offline.
+    // LLM_RECORD_CASSETTE records every call made by the real providers to a
+    // cassette file.
+    LLM_REPLAY_CASSETTE: z.string().optional().default(""),
+    LLM_RECORD_CASSETTE: z.string().optional().default(""),
+
     PORT: z.coerce.number().default(3001),
 
+    // Serve vladbot's tools over MCP at /mcp. Off unless set; clients send it
+    // as "Authorization: Bearer <token>".
+    MCP_SERVER_TOKEN: z.string().optional().default(""),
+
+    // Directory of tool plugins: each .js/.mjs module exports a Tool. Files
+    // are loaded at startup and reloaded when they change.
+    TOOL_PLUGIN_DIR: z
+      .string()
+      .optional()
+      .transform((dir) => dir || path.resolve(__dirname, "../../../../plugins")),
+
     // PostgreSQL
     DATABASE_URL: z.string().min(1, "DATABASE_URL is required"),
 
@@ -38,8 +67,13 @@ const envSchema = z
     BROWSER_IDLE_TIMEOUT: z.coerce.number().default(300),
   })
   .refine(
-    (data) => data.ANTHROPIC_API_KEY || data.GOOGLE_GEMINI_API_KEY || data.DEEPSEEK_API_KEY,
-    { message: "At least one API key must be set (ANTHROPIC_API_KEY, GOOGLE_GEMINI_API_KEY, or DEEPSEEK_API_KEY)" },
+    (data) =>
+      data.ANTHROPIC_API_KEY ||
+      data.GOOGLE_GEMINI_API_KEY ||
+      data.DEEPSEEK_API_KEY ||
+      data.OPENAI_COMPATIBLE_BASE_URL ||
+      data.LLM_REPLAY_CASSETTE,
+    { message: "At least one API key must be set (ANTHROPIC_API_KEY, GOOGLE_GEMINI_API_KEY, or DEEPSEEK_API_KEY), or OPENAI_COMPATIBLE_BASE_URL or LLM_REPLAY_CASSETTE" },
   );
 
 const parsed = envSchema.parse(process.env);
@@ -47,4 +81,8 @@ export const env = parsed as typeof parsed & {
   ANTHROPIC_API_KEY: string;
   GOOGLE_GEMINI_API_KEY: string;
   DEEPSEEK_API_KEY: string;
+  OPENAI_COMPATIBLE_BASE_URL: string;
+  OPENAI_COMPATIBLE_API_KEY: string;
+  LLM_REPLAY_CASSETTE: string;
+  LLM_RECORD_CASSETTE: string;
 };
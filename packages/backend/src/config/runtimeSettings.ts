@@ -14,6 +14,14 @@ const ENV_DEFAULTS: Record<keyof AppSettings, () => string> = {
   system_prompt: () => "",
   context_compaction_threshold: () => "90",
   compaction_verbatim_budget: () => "40",
+  llm_retry_max_attempts: () => "3",
+  llm_retry_base_delay_ms: () => "1000",
+  llm_retry_max_delay_ms: () => "30000",
+  tool_concurrency: () => "4",
+  tool_output_token_budget: () => "8000",
+  loop_max_rounds: () => "10",
+  loop_max_seconds: () => "900",
+  loop_max_tokens: () => "0",
 
   messages_page_size: () => "30",
 };
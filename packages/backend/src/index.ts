@@ -2,9 +2,16 @@ import { createServer } from "node:http";
 import { WebSocketServer } from "ws";
 import app from "./app.js";
 import { env } from "./config/env.js";
+import { initModelRegistry } from "./services/modelStore.js";
+import { initMcpServers } from "./services/mcp/mcpManager.js";
+import { initToolPlugins } from "./services/tools/pluginLoader.js";
 import { handleWsConnection } from "./ws/wsServer.js";
 import "./ws/handlers.js"; // Register all WS handlers on import
 
+await initModelRegistry();
+await initMcpServers();
+await initToolPlugins(env.TOOL_PLUGIN_DIR);
+
 const server = createServer(app);
 
 const wss = new WebSocketServer({ noServer: true });
@@ -0,0 +1,80 @@
+/**
+ * stdio entry point of vladbot's MCP server, for clients that launch servers
+ * as subprocesses. It forwards each JSON-RPC line to the running backend's
+ * /mcp endpoint, so tool state and UI approvals stay in one process.
+ *
+ *   npm run --silent mcp:stdio -w @vladbot/backend
+ *
+ * (--silent keeps npm's banner off stdout, which carries the protocol.)
+ */
+import dotenv from "dotenv";
+import path from "node:path";
+import { createInterface } from "node:readline";
+import { fileURLToPath } from "node:url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.resolve(__dirname, "../../../.env") });
+
+const url = process.env.MCP_SERVER_URL || `http://localhost:${process.env.PORT || 3001}/mcp`;
+const token = process.env.MCP_SERVER_TOKEN ?? "";
+
+let sessionId: string | null = null;
+
+function write(message: unknown): void {
+  process.stdout.write(JSON.stringify(message) + "\n");
+}
+
+async function forward(line: string): Promise<void> {
+  let message: { id?: unknown; method?: string };
+  try {
+    message = JSON.parse(line);
+  } catch {
+    write({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+    return;
+  }
+
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        authorization: `Bearer ${token}`,
+        ...(sessionId && { "mcp-session-id": sessionId }),
+      },
+      body: line,
+    });
+    const newSession = res.headers.get("mcp-session-id");
+    if (newSession) sessionId = newSession;
+    if (res.status === 202) return;
+    if (!res.ok) throw new Error(`vladbot responded with HTTP ${res.status}`);
+    const body = (await res.json()) as unknown;
+    for (const msg of Array.isArray(body) ? body : [body]) write(msg);
+  } catch (err) {
+    const text = err instanceof Error ? err.message : String(err);
+    console.error(`[mcp:stdio] ${text}`);
+    // Notifications get no reply, not even an error
+    if (message.id !== undefined) {
+      write({ jsonrpc: "2.0", id: message.id, error: { code: -32603, message: text } });
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  if (!token) console.error("[mcp:stdio] MCP_SERVER_TOKEN is not set; the backend will refuse requests");
+
+  // Requests are handled one at a time so the session ID from initialize is
+  // known before anything else is sent
+  const rl = createInterface({ input: process.stdin });
+  for await (const line of rl) {
+    if (line.trim()) await forward(line);
+  }
+
+  if (sessionId) {
+    await fetch(url, {
+      method: "DELETE",
+      headers: { authorization: `Bearer ${token}`, "mcp-session-id": sessionId },
+    }).catch(() => {});
+  }
+}
+
+main();
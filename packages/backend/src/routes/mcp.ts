@@ -0,0 +1,86 @@
+import { Router } from "express";
+import { timingSafeEqual } from "node:crypto";
+import { env } from "../config/env.js";
+import type { JsonRpcMessage } from "../services/mcp/transports.js";
+import {
+  endMcpServerSession,
+  getMcpServerSession,
+  handleMcpServerMessage,
+  initializeMcpServerSession,
+} from "../services/mcp/mcpServer.js";
+
+/**
+ * Streamable HTTP endpoint of vladbot's MCP server. Every POST is answered
+ * with plain JSON; there is no server-initiated stream, so GET is refused.
+ */
+export const mcpRouter = Router();
+
+function hasValidToken(header: string | undefined): boolean {
+  const expected = Buffer.from(`Bearer ${env.MCP_SERVER_TOKEN}`);
+  const actual = Buffer.from(header ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+mcpRouter.use((req, res, next) => {
+  if (!env.MCP_SERVER_TOKEN) {
+    res.status(404).json({ error: "MCP server is disabled" });
+    return;
+  }
+  if (!hasValidToken(req.headers.authorization)) {
+    res.status(401).json({ error: "Invalid MCP server token" });
+    return;
+  }
+  next();
+});
+
+mcpRouter.post("/", async (req, res) => {
+  const batch = Array.isArray(req.body);
+  const messages = (batch ? req.body : [req.body]) as JsonRpcMessage[];
+
+  const init = messages.find((m) => m.method === "initialize");
+  if (init) {
+    const { session, response } = initializeMcpServerSession(init);
+    res.setHeader("Mcp-Session-Id", session.id);
+    res.json(response);
+    return;
+  }
+
+  const sessionId = req.headers["mcp-session-id"];
+  if (typeof sessionId !== "string") {
+    res.status(400).json({ error: "Missing Mcp-Session-Id header" });
+    return;
+  }
+  const session = getMcpServerSession(sessionId);
+  if (!session) {
+    // Unknown or expired (e.g. after a restart): the client re-initializes
+    res.status(404).json({ error: "Unknown MCP session" });
+    return;
+  }
+
+  // A call waiting for approval gives up when its client does
+  const disconnected = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) disconnected.abort();
+  });
+
+  const responses: JsonRpcMessage[] = [];
+  for (const msg of messages) {
+    const response = await handleMcpServerMessage(session, msg, disconnected.signal);
+    if (response) responses.push(response);
+  }
+  if (responses.length === 0) {
+    res.status(202).end();
+    return;
+  }
+  res.json(batch ? responses : responses[0]);
+});
+
+mcpRouter.get("/", (_req, res) => {
+  res.status(405).setHeader("Allow", "POST, DELETE").end();
+});
+
+mcpRouter.delete("/", (req, res) => {
+  const sessionId = req.headers["mcp-session-id"];
+  const ended = typeof sessionId === "string" && endMcpServerSession(sessionId);
+  res.status(ended ? 204 : 404).end();
+});
@@ -43,3 +43,15 @@ export const toolExecuteSchema = z.object({
   toolCalls: z.array(toolCallSchema).min(1),
   sessionId: z.string().optional(),
 });
+
+export const samplingParamsSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  topP: z.number().gt(0).max(1).optional(),
+  maxOutputTokens: z.number().int().positive().optional(),
+}).strict();
+
+export const loopLimitsSchema = z.object({
+  maxRounds: z.number().int().min(0).max(1000).optional(),
+  maxSeconds: z.number().int().min(0).max(86_400).optional(),
+  maxTokens: z.number().int().min(0).optional(),
+}).strict();
@@ -1,11 +1,15 @@
-import type { MessagePart, ToolDefinition, ToolCall } from "@vladbot/shared";
+import type { MessagePart, TokenUsage, ToolDefinition, ToolCall, ToolCallDelta } from "@vladbot/shared";
 
 export interface StreamChunk {
-  type: "text" | "tool_call" | "debug" | "usage";
+  type: "text" | "thinking" | "tool_call" | "tool_call_delta" | "debug" | "usage";
   text?: string;
+  /** Reasoning text; Anthropic closes each thinking block with a signature-only chunk. */
+  thinking?: { text: string; signature?: string };
   toolCall?: ToolCall;
+  /** Raw argument JSON of a call still being written; the complete `tool_call` chunk follows. */
+  toolCallDelta?: ToolCallDelta;
   debug?: { direction: "request"; body: unknown };
-  usage?: { inputTokens: number; outputTokens: number };
+  usage?: TokenUsage;
 }
 
 export interface AIProviderInterface {
@@ -14,6 +18,7 @@ export interface AIProviderInterface {
     model: string,
     tools?: ToolDefinition[],
     sessionId?: string,
+    signal?: AbortSignal,
   ): Promise<{ text: string; toolCalls: ToolCall[]; usage?: { inputTokens: number; outputTokens: number } }>;
 
   generateStream(
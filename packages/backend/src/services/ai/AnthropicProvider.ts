@@ -1,5 +1,6 @@
 import Anthropic from "@anthropic-ai/sdk";
-import type { MessagePart, ToolDefinition, ToolCall } from "@vladbot/shared";
+import type { MessagePart, TokenUsage, ToolDefinition, ToolCall } from "@vladbot/shared";
+import { findModel } from "@vladbot/shared";
 import type { AIProviderInterface, StreamChunk } from "./AIProvider.js";
 import { flattenToolsForLLM } from "../tools/buildToolDef.js";
 import {
@@ -9,7 +10,57 @@ import {
   storeLatestImage,
 } from "./toolResultImages.js";
 import { env } from "../../config/env.js";
-import { getSystemPrompt } from "./systemPrompt.js";
+import { getGenerationSettings } from "./systemPrompt.js";
+import { getSessionThinkingBudget } from "../sessionStore.js";
+import { ProviderError, retryAfterFromHeaders } from "./ProviderError.js";
+
+/** Response cap when the model registry doesn't specify one. */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/** Anthropic rejects extended thinking budgets below this. */
+const MIN_THINKING_BUDGET = 1024;
+
+const CACHE_CONTROL: Anthropic.Messages.CacheControlEphemeral = { type: "ephemeral" };
+
+/** Mark the last content block of a message as a prompt-cache breakpoint. */
+function markCacheBreakpoint(param: Anthropic.Messages.MessageParam): void {
+  if (typeof param.content === "string") {
+    param.content = [{ type: "text", text: param.content, cache_control: CACHE_CONTROL }];
+    return;
+  }
+  const last = param.content[param.content.length - 1];
+  if (last && last.type !== "thinking" && last.type !== "redacted_thinking") {
+    last.cache_control = CACHE_CONTROL;
+  }
+}
+
+/** Anthropic reports cached prompt tokens separately; fold them back into the prompt size. */
+function toTokenUsage(usage: Anthropic.Messages.Usage): TokenUsage {
+  const cacheCreation = usage.cache_creation_input_tokens ?? 0;
+  const cacheRead = usage.cache_read_input_tokens ?? 0;
+  return {
+    inputTokens: usage.input_tokens + cacheCreation + cacheRead,
+    outputTokens: usage.output_tokens,
+    cacheCreationInputTokens: cacheCreation,
+    cacheReadInputTokens: cacheRead,
+  };
+}
+
+/** Convert SDK API errors to ProviderError; user aborts and other errors pass through. */
+function toProviderError(err: unknown): unknown {
+  if (!(err instanceof Anthropic.APIError) || err instanceof Anthropic.APIUserAbortError) return err;
+  // Body shape: {"type": "error", "error": {"type": "overloaded_error", "message": "Overloaded"}}
+  const body = err.error as { error?: { type?: string; message?: string } } | undefined;
+  return new ProviderError(body?.error?.message ?? err.message, {
+    provider: "anthropic",
+    status: err.status,
+    type: body?.error?.type,
+    retryAfterMs: retryAfterFromHeaders(err.headers),
+    requestId: err.request_id ?? undefined,
+    timedOut: err instanceof Anthropic.APIConnectionTimeoutError,
+    cause: err,
+  });
+}
 
 export class AnthropicProvider implements AIProviderInterface {
   private client: Anthropic;
@@ -21,6 +72,7 @@ export class AnthropicProvider implements AIProviderInterface {
   private async convertMessages(
     messages: MessagePart[],
     sessionId?: string,
+    thinking = false,
   ): Promise<Anthropic.Messages.MessageParam[]> {
     const result: Anthropic.Messages.MessageParam[] = [];
 
@@ -70,6 +122,10 @@ export class AnthropicProvider implements AIProviderInterface {
         }
       } else if (msg.role === "assistant") {
         const content: Anthropic.Messages.ContentBlockParam[] = [];
+        // With thinking on, tool_use turns must start with their signed thinking block
+        if (thinking && msg.reasoning && msg.reasoningSignature) {
+          content.push({ type: "thinking", thinking: msg.reasoning, signature: msg.reasoningSignature });
+        }
         if (msg.content) {
           content.push({ type: "text", text: msg.content });
         }
@@ -132,6 +188,9 @@ export class AnthropicProvider implements AIProviderInterface {
         }
         result.push({ role: "user", content });
       }
+      if (msg.cacheBreakpoint && result.length > 0) {
+        markCacheBreakpoint(result[result.length - 1]);
+      }
     }
 
     return result;
@@ -140,11 +199,18 @@ export class AnthropicProvider implements AIProviderInterface {
   private convertTools(
     tools: ToolDefinition[],
   ): Anthropic.Messages.Tool[] {
-    return flattenToolsForLLM(tools).map((t) => ({
+    const converted: Anthropic.Messages.Tool[] = flattenToolsForLLM(tools).map((t) => ({
       name: t.name,
       description: t.description,
       input_schema: t.parameters as unknown as Anthropic.Messages.Tool["input_schema"],
     }));
+    // Tool definitions rarely change within a session: cache them as one prefix
+    if (converted.length > 0) converted[converted.length - 1].cache_control = CACHE_CONTROL;
+    return converted;
+  }
+
+  private systemBlocks(prompt: string): Anthropic.Messages.TextBlockParam[] | undefined {
+    return prompt ? [{ type: "text", text: prompt, cache_control: CACHE_CONTROL }] : undefined;
   }
 
   async generateResponse(
@@ -152,18 +218,28 @@ export class AnthropicProvider implements AIProviderInterface {
     model: string,
     tools?: ToolDefinition[],
     sessionId?: string,
-  ): Promise<{ text: string; toolCalls: ToolCall[]; usage?: { inputTokens: number; outputTokens: number } }> {
+    signal?: AbortSignal,
+  ): Promise<{ text: string; toolCalls: ToolCall[]; usage?: TokenUsage }> {
+    const { systemPrompt, sampling } = await getGenerationSettings(sessionId);
     const params: Anthropic.Messages.MessageCreateParamsNonStreaming = {
       model,
-      max_tokens: 4096,
-      system: await getSystemPrompt(),
+      max_tokens: sampling.maxOutputTokens ?? findModel(`anthropic:${model}`)?.maxOutputTokens ?? DEFAULT_MAX_TOKENS,
+      system: this.systemBlocks(systemPrompt),
       messages: await this.convertMessages(messages, sessionId),
     };
+    // Anthropic accepts temperatures up to 1; sessions allow up to 2 for other providers
+    if (sampling.temperature !== undefined) params.temperature = Math.min(1, sampling.temperature);
+    if (sampling.topP !== undefined) params.top_p = sampling.topP;
     if (tools?.length) {
       params.tools = this.convertTools(tools);
     }
 
-    const response = await this.client.messages.create(params);
+    let response: Anthropic.Messages.Message;
+    try {
+      response = await this.client.messages.create(params, signal ? { signal } : {});
+    } catch (err) {
+      throw toProviderError(err);
+    }
 
     let text = "";
     const toolCalls: ToolCall[] = [];
@@ -180,9 +256,7 @@ export class AnthropicProvider implements AIProviderInterface {
       }
     }
 
-    const usage = response.usage
-      ? { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens }
-      : undefined;
+    const usage = response.usage ? toTokenUsage(response.usage) : undefined;
 
     return { text, toolCalls, usage };
   }
@@ -194,12 +268,24 @@ export class AnthropicProvider implements AIProviderInterface {
     signal?: AbortSignal,
     sessionId?: string,
   ): AsyncIterable<StreamChunk> {
+    const budget = sessionId ? await getSessionThinkingBudget(sessionId) : 0;
+    const thinking = budget >= MIN_THINKING_BUDGET;
+    const { systemPrompt, sampling } = await getGenerationSettings(sessionId);
+    const maxTokens = sampling.maxOutputTokens ?? findModel(`anthropic:${model}`)?.maxOutputTokens ?? DEFAULT_MAX_TOKENS;
     const params: Anthropic.Messages.MessageCreateParamsNonStreaming = {
       model,
-      max_tokens: 4096,
-      system: await getSystemPrompt(),
-      messages: await this.convertMessages(messages, sessionId),
+      // The thinking budget counts toward max_tokens, so the answer keeps its own allowance
+      max_tokens: thinking ? budget + maxTokens : maxTokens,
+      system: this.systemBlocks(systemPrompt),
+      messages: await this.convertMessages(messages, sessionId, thinking),
     };
+    if (thinking) {
+      params.thinking = { type: "enabled", budget_tokens: budget };
+    } else {
+      // Extended thinking rejects custom temperature / top_p
+      if (sampling.temperature !== undefined) params.temperature = Math.min(1, sampling.temperature);
+      if (sampling.topP !== undefined) params.top_p = sampling.topP;
+    }
     if (tools?.length) {
       params.tools = this.convertTools(tools);
     }
@@ -216,54 +302,66 @@ export class AnthropicProvider implements AIProviderInterface {
       jsonBuf: string;
     } | null = null;
 
-    for await (const event of stream) {
-      if (event.type === "content_block_start") {
-        if (event.content_block.type === "tool_use") {
-          currentToolBlock = {
-            id: event.content_block.id,
-            name: event.content_block.name,
-            jsonBuf: "",
-          };
-        }
-      } else if (event.type === "content_block_delta") {
-        if (event.delta.type === "text_delta") {
-          yield { type: "text", text: event.delta.text };
-        } else if (
-          event.delta.type === "input_json_delta" &&
-          currentToolBlock
-        ) {
-          currentToolBlock.jsonBuf += event.delta.partial_json;
-        }
-      } else if (event.type === "content_block_stop") {
-        if (currentToolBlock) {
-          let args: Record<string, unknown> = {};
-          try {
-            args = JSON.parse(currentToolBlock.jsonBuf || "{}");
-          } catch {
-            // empty args on parse failure
+    try {
+      for await (const event of stream) {
+        if (event.type === "content_block_start") {
+          if (event.content_block.type === "tool_use") {
+            currentToolBlock = {
+              id: event.content_block.id,
+              name: event.content_block.name,
+              jsonBuf: "",
+            };
+          }
+        } else if (event.type === "content_block_delta") {
+          if (event.delta.type === "text_delta") {
+            yield { type: "text", text: event.delta.text };
+          } else if (event.delta.type === "thinking_delta") {
+            yield { type: "thinking", thinking: { text: event.delta.thinking } };
+          } else if (event.delta.type === "signature_delta") {
+            yield { type: "thinking", thinking: { text: "", signature: event.delta.signature } };
+          } else if (
+            event.delta.type === "input_json_delta" &&
+            currentToolBlock
+          ) {
+            currentToolBlock.jsonBuf += event.delta.partial_json;
+            if (event.delta.partial_json) {
+              yield {
+                type: "tool_call_delta",
+                toolCallDelta: {
+                  id: currentToolBlock.id,
+                  name: currentToolBlock.name,
+                  delta: event.delta.partial_json,
+                },
+              };
+            }
+          }
+        } else if (event.type === "content_block_stop") {
+          if (currentToolBlock) {
+            let args: Record<string, unknown> = {};
+            try {
+              args = JSON.parse(currentToolBlock.jsonBuf || "{}");
+            } catch {
+              // empty args on parse failure
+            }
+            yield {
+              type: "tool_call",
+              toolCall: {
+                id: currentToolBlock.id,
+                name: currentToolBlock.name,
+                arguments: args,
+              },
+            };
+            currentToolBlock = null;
           }
-          yield {
-            type: "tool_call",
-            toolCall: {
-              id: currentToolBlock.id,
-              name: currentToolBlock.name,
-              arguments: args,
-            },
-          };
-          currentToolBlock = null;
         }
       }
+    } catch (err) {
+      throw toProviderError(err);
     }
 
     try {
       const finalMessage = await stream.finalMessage();
-      yield {
-        type: "usage",
-        usage: {
-          inputTokens: finalMessage.usage.input_tokens,
-          outputTokens: finalMessage.usage.output_tokens,
-        },
-      };
+      yield { type: "usage", usage: toTokenUsage(finalMessage.usage) };
     } catch {
       // usage not available
     }
@@ -1,5 +1,6 @@
 import { GoogleGenAI } from "@google/genai";
 import type { MessagePart, ToolDefinition, ToolCall } from "@vladbot/shared";
+import { findModel } from "@vladbot/shared";
 import type { AIProviderInterface, StreamChunk } from "./AIProvider.js";
 import { flattenToolsForLLM } from "../tools/buildToolDef.js";
 import {
@@ -9,8 +10,46 @@ import {
   storeLatestImage,
 } from "./toolResultImages.js";
 import { env } from "../../config/env.js";
-import { getSystemPrompt } from "./systemPrompt.js";
+import { getGenerationSettings } from "./systemPrompt.js";
+import { getSessionThinkingBudget } from "../sessionStore.js";
 import { randomUUID } from "node:crypto";
+import { ProviderError } from "./ProviderError.js";
+
+interface GeminiErrorBody {
+  error?: {
+    code?: number;
+    message?: string;
+    status?: string;
+    details?: { retryDelay?: string }[];
+  };
+}
+
+/**
+ * The SDK only throws ClientError/ServerError with a message like
+ * `got status: 429 Too Many Requests. {"error": {...}}`; recover the status
+ * and the Google error body from it. Other errors pass through.
+ */
+function toProviderError(err: unknown): unknown {
+  if (!(err instanceof Error) || (err.name !== "ClientError" && err.name !== "ServerError")) return err;
+  const jsonStart = err.message.indexOf("{");
+  let body: GeminiErrorBody = {};
+  if (jsonStart >= 0) {
+    try {
+      body = JSON.parse(err.message.slice(jsonStart)) as GeminiErrorBody;
+    } catch {
+      // keep the raw message
+    }
+  }
+  const leading = err.message.match(/^got status: (\d{3})/);
+  const retryDelay = body.error?.details?.find((d) => d.retryDelay)?.retryDelay;
+  return new ProviderError(body.error?.message ?? err.message, {
+    provider: "gemini",
+    status: body.error?.code ?? (leading ? Number(leading[1]) : undefined),
+    type: body.error?.status,
+    retryAfterMs: retryDelay ? parseFloat(retryDelay) * 1000 : undefined,
+    cause: err,
+  });
+}
 
 export class GeminiProvider implements AIProviderInterface {
   private client: GoogleGenAI;
@@ -150,20 +189,32 @@ export class GeminiProvider implements AIProviderInterface {
     model: string,
     tools?: ToolDefinition[],
     sessionId?: string,
+    signal?: AbortSignal,
   ): Promise<{ text: string; toolCalls: ToolCall[]; usage?: { inputTokens: number; outputTokens: number } }> {
     const contents = await this.convertMessages(messages, sessionId);
+    const { systemPrompt, sampling } = await getGenerationSettings(sessionId);
     const config: Record<string, unknown> = {
-      systemInstruction: await getSystemPrompt(),
+      systemInstruction: systemPrompt,
     };
+    const maxOutputTokens = sampling.maxOutputTokens ?? findModel(`gemini:${model}`)?.maxOutputTokens;
+    if (maxOutputTokens) {
+      config.maxOutputTokens = maxOutputTokens;
+    }
+    if (sampling.temperature !== undefined) config.temperature = sampling.temperature;
+    if (sampling.topP !== undefined) config.topP = sampling.topP;
     if (tools?.length) {
       config.tools = this.convertTools(tools);
     }
+    if (signal) {
+      config.abortSignal = signal;
+    }
 
-    const response = await this.client.models.generateContent({
-      model,
-      contents,
-      config,
-    });
+    let response: Awaited<ReturnType<GoogleGenAI["models"]["generateContent"]>>;
+    try {
+      response = await this.client.models.generateContent({ model, contents, config });
+    } catch (err) {
+      throw toProviderError(err);
+    }
 
     let text = "";
     const toolCalls: ToolCall[] = [];
@@ -198,9 +249,20 @@ export class GeminiProvider implements AIProviderInterface {
     sessionId?: string,
   ): AsyncIterable<StreamChunk> {
     const contents = await this.convertMessages(messages, sessionId);
+    const { systemPrompt, sampling } = await getGenerationSettings(sessionId);
     const config: Record<string, unknown> = {
-      systemInstruction: await getSystemPrompt(),
+      systemInstruction: systemPrompt,
     };
+    const maxOutputTokens = sampling.maxOutputTokens ?? findModel(`gemini:${model}`)?.maxOutputTokens;
+    if (maxOutputTokens) {
+      config.maxOutputTokens = maxOutputTokens;
+    }
+    if (sampling.temperature !== undefined) config.temperature = sampling.temperature;
+    if (sampling.topP !== undefined) config.topP = sampling.topP;
+    const thinkingBudget = sessionId ? await getSessionThinkingBudget(sessionId) : 0;
+    if (thinkingBudget > 0) {
+      config.thinkingConfig = { thinkingBudget, includeThoughts: true };
+    }
     if (tools?.length) {
       config.tools = this.convertTools(tools);
     }
@@ -211,31 +273,40 @@ export class GeminiProvider implements AIProviderInterface {
 
     yield { type: "debug", debug: { direction: "request" as const, body: { model, contents, config } } };
 
-    const response = await this.client.models.generateContentStream({ model, contents, config });
-
     let lastUsage: { promptTokenCount?: number; candidatesTokenCount?: number } | undefined;
-    for await (const chunk of response) {
-      if (chunk.usageMetadata) {
-        lastUsage = chunk.usageMetadata;
-      }
-      const parts = chunk.candidates?.[0]?.content?.parts ?? [];
-      for (const part of parts) {
-        if (part.text) {
-          yield { type: "text", text: part.text };
+    try {
+      const response = await this.client.models.generateContentStream({ model, contents, config });
+
+      for await (const chunk of response) {
+        if (chunk.usageMetadata) {
+          lastUsage = chunk.usageMetadata;
         }
-        if (part.functionCall) {
-          // Gemini emits function calls complete (not streamed)
-          yield {
-            type: "tool_call",
-            toolCall: {
+        const parts = chunk.candidates?.[0]?.content?.parts ?? [];
+        for (const part of parts) {
+          if (part.text && part.thought) {
+            yield { type: "thinking", thinking: { text: part.text } };
+          } else if (part.text) {
+            yield { type: "text", text: part.text };
+          }
+          if (part.functionCall) {
+            // Gemini emits function calls complete (not streamed), so the
+            // whole argument text arrives as a single delta
+            const toolCall: ToolCall = {
               id: part.functionCall.id ?? randomUUID(),
               name: part.functionCall.name ?? "",
               arguments:
                 (part.functionCall.args as Record<string, unknown>) ?? {},
-            },
-          };
+            };
+            yield {
+              type: "tool_call_delta",
+              toolCallDelta: { id: toolCall.id, name: toolCall.name, delta: JSON.stringify(toolCall.arguments) },
+            };
+            yield { type: "tool_call", toolCall };
+          }
         }
       }
+    } catch (err) {
+      throw toProviderError(err);
     }
 
     if (lastUsage) {
@@ -0,0 +1,523 @@
+import type { MessagePart, ModelInfo, ToolDefinition, ToolCall } from "@vladbot/shared";
+import { findModel } from "@vladbot/shared";
+import type { AIProviderInterface, StreamChunk } from "./AIProvider.js";
+import { flattenToolsForLLM } from "../tools/buildToolDef.js";
+import {
+  extractToolResultImage,
+  resolveImageToBase64,
+  hasVisionModelAsync,
+  storeLatestImage,
+} from "./toolResultImages.js";
+import { env } from "../../config/env.js";
+import { getGenerationSettings, type GenerationSettings } from "./systemPrompt.js";
+import { ProviderError, readHeader, retryAfterFromHeaders } from "./ProviderError.js";
+
+type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+interface OpenAIMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | OpenAIContentPart[] | null;
+  tool_calls?: {
+    id: string;
+    type: "function";
+    function: { name: string; arguments: string };
+  }[];
+  tool_call_id?: string;
+}
+
+interface OpenAITool {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface OpenAICompatibleOptions {
+  /** Full URL of the chat completions endpoint. */
+  apiUrl: string;
+  /** Bearer token. Local servers (Ollama, llama.cpp) usually need none. */
+  apiKey?: string;
+  /** Human-readable name used in error messages. */
+  label: string;
+  /** Provider name in the model registry. */
+  provider: string;
+}
+
+/**
+ * Build the chat completions URL from a configured base URL.
+ * Accepts both "http://host:11434/v1" and a full ".../chat/completions" URL.
+ */
+export function resolveChatCompletionsUrl(baseUrl: string): string {
+  const trimmed = baseUrl.replace(/\/+$/, "");
+  if (trimmed.endsWith("/chat/completions")) return trimmed;
+  return `${trimmed}/chat/completions`;
+}
+
+/** Provider name used in "provider:modelId" model fields. */
+export const OPENAI_COMPATIBLE_PROVIDER = "openai-compatible";
+
+function splitList(value: string): string[] {
+  return value.split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+/**
+ * Models served by the configured OpenAI-compatible endpoint, built from
+ * OPENAI_COMPATIBLE_MODELS. Returns an empty list when no base URL is set.
+ */
+export function getOpenAICompatibleModels(): ModelInfo[] {
+  if (!env.OPENAI_COMPATIBLE_BASE_URL) return [];
+  const vision = new Set(splitList(env.OPENAI_COMPATIBLE_VISION_MODELS));
+  return splitList(env.OPENAI_COMPATIBLE_MODELS).map((id) => ({
+    id,
+    name: id,
+    provider: OPENAI_COMPATIBLE_PROVIDER,
+    contextWindow: env.OPENAI_COMPATIBLE_CONTEXT_WINDOW,
+    nativeVision: vision.has(id),
+  }));
+}
+
+/** Error type from an OpenAI-style body: {"error": {"type": ..., "code": ...}}. */
+function errorType(body: string): string | undefined {
+  try {
+    const parsed = JSON.parse(body) as { error?: { type?: unknown; code?: unknown } };
+    const { type, code } = parsed.error ?? {};
+    if (typeof code === "string") return code;
+    if (typeof type === "string") return type;
+  } catch {
+    // plain-text error body
+  }
+  return undefined;
+}
+
+async function httpError(label: string, provider: string, response: Response): Promise<ProviderError> {
+  const body = await response.text();
+  return new ProviderError(`${label} API error (${response.status}): ${body}`, {
+    provider,
+    status: response.status,
+    type: errorType(body),
+    retryAfterMs: retryAfterFromHeaders(response.headers),
+    requestId: readHeader(response.headers, "x-request-id"),
+  });
+}
+
+/**
+ * Provider for any endpoint speaking the OpenAI `/v1/chat/completions`
+ * protocol: Ollama, llama.cpp server, vLLM, LM Studio and similar.
+ * Also the base class for hosted OpenAI-style APIs such as DeepSeek.
+ */
+export class OpenAICompatibleProvider implements AIProviderInterface {
+  private apiUrl: string;
+  private label: string;
+  private provider: string;
+  private headers: Record<string, string>;
+
+  constructor(options?: OpenAICompatibleOptions) {
+    const opts = options ?? {
+      apiUrl: resolveChatCompletionsUrl(env.OPENAI_COMPATIBLE_BASE_URL),
+      apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+      label: "OpenAI-compatible",
+      provider: OPENAI_COMPATIBLE_PROVIDER,
+    };
+    this.apiUrl = opts.apiUrl;
+    this.label = opts.label;
+    this.provider = opts.provider;
+    this.headers = { "Content-Type": "application/json" };
+    if (opts.apiKey) {
+      this.headers.Authorization = `Bearer ${opts.apiKey}`;
+    }
+  }
+
+  /** Whether the model accepts images inline. Driven by the model registry. */
+  protected supportsVision(model: string): boolean {
+    return findModel(`${this.provider}:${model}`)?.nativeVision ?? false;
+  }
+
+  /** Common request fields for both streaming and non-streaming calls. */
+  private buildBody(
+    model: string,
+    messages: OpenAIMessage[],
+    settings: GenerationSettings,
+    tools?: ToolDefinition[],
+  ): Record<string, unknown> {
+    const body: Record<string, unknown> = { model, messages };
+    const { sampling } = settings;
+    const maxOutputTokens = sampling.maxOutputTokens ?? findModel(`${this.provider}:${model}`)?.maxOutputTokens;
+    if (maxOutputTokens) {
+      body.max_tokens = maxOutputTokens;
+    }
+    if (sampling.temperature !== undefined) body.temperature = sampling.temperature;
+    if (sampling.topP !== undefined) body.top_p = sampling.topP;
+    if (tools?.length) {
+      body.tools = this.convertTools(tools);
+    }
+    return body;
+  }
+
+  private async convertMessages(
+    messages: MessagePart[],
+    model: string,
+    systemPrompt: string,
+    sessionId?: string,
+  ): Promise<OpenAIMessage[]> {
+    const result: OpenAIMessage[] = [];
+    const visionOverride = await hasVisionModelAsync(sessionId);
+    const nativeVision = this.supportsVision(model) && !visionOverride;
+
+    if (!visionOverride && !nativeVision) {
+      result.push({
+        role: "system",
+        content:
+          systemPrompt + "\n\n" +
+          "You are a text-only model with no vision capabilities. " +
+          "You cannot see or analyze images, screenshots, or any visual content. " +
+          "If the user asks you to look at, describe, or interact with visual content " +
+          "(such as screenshots, images on screen, UI elements, or anything requiring sight), " +
+          "you MUST clearly explain that you cannot process images because no vision model " +
+          "is configured. Suggest the user configure a VISION_MODEL (e.g. gemini:gemini-2.0-flash) " +
+          "in the server settings, or switch to a vision-capable model like Gemini or Claude.",
+      });
+    } else {
+      result.push({
+        role: "system",
+        content: systemPrompt,
+      });
+    }
+
+    // Only handle images for the last tool message (current turn)
+    let lastToolIdx = -1;
+    for (let j = messages.length - 1; j >= 0; j--) {
+      if (messages[j].role === "tool") { lastToolIdx = j; break; }
+    }
+
+    for (let i = 0; i < messages.length; i++) {
+      const msg = messages[i];
+      if (msg.role === "user") {
+        if (msg.images?.length && nativeVision) {
+          // Native vision: send images inline as data URIs
+          const parts: OpenAIContentPart[] = [];
+          for (const img of msg.images) {
+            const resolved = await resolveImageToBase64(img);
+            if (resolved) {
+              parts.push({
+                type: "image_url",
+                image_url: { url: `data:${resolved.mimeType};base64,${resolved.base64}` },
+              });
+            }
+          }
+          parts.push({ type: "text", text: msg.content });
+          result.push({ role: "user", content: parts });
+          continue;
+        }
+
+        let content = msg.content;
+        if (msg.images?.length) {
+          // Text-only model; store the first image for the vision tool
+          const resolved = await resolveImageToBase64(msg.images[0]);
+          if (resolved && sessionId) {
+            storeLatestImage(sessionId, resolved.base64, resolved.mimeType);
+          }
+          if (visionOverride) {
+            content += "\n\n[The user attached an image. Use the vision_analyze tool to see and analyze it.]";
+          }
+        }
+        result.push({ role: "user", content });
+      } else if (msg.role === "assistant") {
+        const m: OpenAIMessage = {
+          role: "assistant",
+          content: msg.content || null,
+        };
+        if (msg.toolCalls?.length) {
+          m.tool_calls = msg.toolCalls.map((tc) => ({
+            id: tc.id,
+            type: "function" as const,
+            function: {
+              name: tc.name,
+              arguments: JSON.stringify(tc.arguments),
+            },
+          }));
+        }
+        result.push(m);
+      } else if (msg.role === "tool") {
+        if (msg.toolResults) {
+          // Tool messages are text-only in the OpenAI protocol, so native
+          // vision images are sent in a user message after the results.
+          const imageParts: OpenAIContentPart[] = [];
+
+          for (const tr of msg.toolResults) {
+            const extracted = await extractToolResultImage(tr.output);
+            let content = extracted.text;
+
+            if (i === lastToolIdx && extracted.imageBase64) {
+              // Store image for the vision tool to consume
+              if (sessionId) storeLatestImage(sessionId, extracted.imageBase64, extracted.mimeType ?? "image/jpeg", extracted.rawBuffer);
+
+              if (nativeVision) {
+                imageParts.push(
+                  { type: "text", text: `[Image from tool result ${tr.toolCallId}]` },
+                  {
+                    type: "image_url",
+                    image_url: { url: `data:${extracted.mimeType ?? "image/jpeg"};base64,${extracted.imageBase64}` },
+                  },
+                );
+              } else if (visionOverride) {
+                content = `${extracted.text}\n\n[This tool result includes an image. Use the vision_analyze tool to examine it — provide a specific prompt describing what you need to know.]`;
+              }
+            }
+
+            result.push({
+              role: "tool",
+              content,
+              tool_call_id: tr.toolCallId,
+            });
+          }
+
+          if (imageParts.length > 0) {
+            result.push({ role: "user", content: imageParts });
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private convertTools(tools: ToolDefinition[]): OpenAITool[] {
+    return flattenToolsForLLM(tools).map((t) => ({
+      type: "function" as const,
+      function: {
+        name: t.name,
+        description: t.description,
+        parameters: t.parameters,
+      },
+    }));
+  }
+
+  async generateResponse(
+    messages: MessagePart[],
+    model: string,
+    tools?: ToolDefinition[],
+    sessionId?: string,
+    signal?: AbortSignal,
+  ): Promise<{ text: string; toolCalls: ToolCall[]; usage?: { inputTokens: number; outputTokens: number } }> {
+    const settings = await getGenerationSettings(sessionId);
+    const converted = await this.convertMessages(messages, model, settings.systemPrompt, sessionId);
+    const body = this.buildBody(model, converted, settings, tools);
+    body.stream = false;
+
+    const response = await fetch(this.apiUrl, {
+      method: "POST",
+      headers: this.headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await httpError(this.label, this.provider, response);
+    }
+
+    const data = (await response.json()) as {
+      choices: {
+        message: {
+          content?: string | null;
+          tool_calls?: {
+            id: string;
+            function: { name: string; arguments: string };
+          }[];
+        };
+      }[];
+      usage?: { prompt_tokens: number; completion_tokens: number };
+    };
+
+    const msg = data.choices[0]?.message;
+    const text = msg?.content ?? "";
+    const toolCalls: ToolCall[] = (msg?.tool_calls ?? []).map((tc) => ({
+      id: tc.id,
+      name: tc.function.name,
+      arguments: parseToolArguments(tc.function.arguments),
+    }));
+
+    const usage = data.usage
+      ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens }
+      : undefined;
+
+    return { text, toolCalls, usage };
+  }
+
+  async *generateStream(
+    messages: MessagePart[],
+    model: string,
+    tools?: ToolDefinition[],
+    signal?: AbortSignal,
+    sessionId?: string,
+  ): AsyncIterable<StreamChunk> {
+    const settings = await getGenerationSettings(sessionId);
+    const converted = await this.convertMessages(messages, model, settings.systemPrompt, sessionId);
+    const body = this.buildBody(model, converted, settings, tools);
+    body.stream = true;
+    body.stream_options = { include_usage: true };
+
+    yield { type: "debug", debug: { direction: "request" as const, body } };
+
+    const fetchOptions: RequestInit = {
+      method: "POST",
+      headers: this.headers,
+      body: JSON.stringify(body),
+    };
+    if (signal) {
+      fetchOptions.signal = signal;
+    }
+
+    const response = await fetch(this.apiUrl, fetchOptions);
+
+    if (!response.ok) {
+      throw await httpError(this.label, this.provider, response);
+    }
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    // Buffer for tool calls being streamed incrementally
+    const toolCallBuffers = new Map<
+      number,
+      { id: string; name: string; argsBuf: string }
+    >();
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop()!;
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+        const json = trimmed.slice(5).trim();
+        if (json === "[DONE]") {
+          // Emit any remaining buffered tool calls
+          yield* flushToolCalls(toolCallBuffers);
+          return;
+        }
+
+        try {
+          const event = JSON.parse(json) as {
+            choices: {
+              delta: {
+                content?: string | null;
+                reasoning_content?: string | null;
+                reasoning?: string | null;
+                tool_calls?: {
+                  index: number;
+                  id?: string;
+                  function?: { name?: string; arguments?: string };
+                }[];
+              };
+              finish_reason?: string | null;
+            }[];
+            usage?: {
+              prompt_tokens: number;
+              completion_tokens: number;
+            };
+          };
+
+          // Usage-only chunk (sent after all content when stream_options.include_usage is true)
+          if (event.usage) {
+            yield {
+              type: "usage",
+              usage: {
+                inputTokens: event.usage.prompt_tokens,
+                outputTokens: event.usage.completion_tokens,
+              },
+            };
+          }
+
+          const delta = event.choices?.[0]?.delta;
+          if (!delta) continue;
+
+          // Reasoning: DeepSeek R1 uses reasoning_content, some local servers use reasoning.
+          // It is display-only and never sent back.
+          const reasoning = delta.reasoning_content ?? delta.reasoning;
+          if (reasoning) {
+            yield { type: "thinking", thinking: { text: reasoning } };
+          }
+
+          // Text content
+          if (delta.content) {
+            yield { type: "text", text: delta.content };
+          }
+
+          // Tool call deltas
+          if (delta.tool_calls) {
+            for (const tc of delta.tool_calls) {
+              const idx = tc.index ?? toolCallBuffers.size;
+              if (!toolCallBuffers.has(idx)) {
+                // Local servers don't always assign IDs; the deltas and the
+                // final call need the same one
+                toolCallBuffers.set(idx, {
+                  id: tc.id || `call_${Date.now()}_${idx}`,
+                  name: tc.function?.name ?? "",
+                  argsBuf: "",
+                });
+              }
+              const buf = toolCallBuffers.get(idx)!;
+              if (tc.id) buf.id = tc.id;
+              if (tc.function?.name) buf.name = tc.function.name;
+              if (tc.function?.arguments) {
+                buf.argsBuf += tc.function.arguments;
+                yield {
+                  type: "tool_call_delta",
+                  toolCallDelta: { id: buf.id, name: buf.name, delta: tc.function.arguments },
+                };
+              }
+            }
+          }
+
+          // On finish_reason "tool_calls", emit buffered tool calls
+          if (event.choices[0]?.finish_reason === "tool_calls") {
+            yield* flushToolCalls(toolCallBuffers);
+          }
+        } catch {
+          // skip malformed lines
+        }
+      }
+    }
+
+    // Some local servers close the stream without sending [DONE]
+    yield* flushToolCalls(toolCallBuffers);
+  }
+}
+
+/**
+ * Tool call arguments as sent by the model. Local models often send JSON
+ * that doesn't parse (or isn't an object); the call then gets empty
+ * arguments and fails validation instead of failing the whole response.
+ */
+function parseToolArguments(json: string | undefined): Record<string, unknown> {
+  try {
+    const args: unknown = JSON.parse(json || "{}");
+    return typeof args === "object" && args !== null && !Array.isArray(args)
+      ? (args as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Emit and clear buffered streaming tool calls. */
+function* flushToolCalls(
+  buffers: Map<number, { id: string; name: string; argsBuf: string }>,
+): Generator<StreamChunk> {
+  for (const buf of buffers.values()) {
+    yield {
+      type: "tool_call",
+      toolCall: { id: buf.id, name: buf.name, arguments: parseToolArguments(buf.argsBuf) },
+    };
+  }
+  buffers.clear();
+}
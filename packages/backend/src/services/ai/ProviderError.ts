@@ -0,0 +1,64 @@
+export interface ProviderErrorDetails {
+  provider: string;
+  /** HTTP status of the failed request; absent for connection errors and mid-stream failures. */
+  status?: number;
+  /** The provider's own error type, e.g. "overloaded_error" (Anthropic) or "RESOURCE_EXHAUSTED" (Gemini). */
+  type?: string;
+  /** Server-requested wait before retrying. */
+  retryAfterMs?: number;
+  requestId?: string;
+  /** The request timed out before the provider answered. */
+  timedOut?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * Error thrown by providers for failed LLM requests. Carries what the SDK or
+ * HTTP response told us, so classification does not have to guess from the
+ * message text.
+ */
+export class ProviderError extends Error {
+  readonly provider: string;
+  readonly status?: number;
+  readonly type?: string;
+  readonly retryAfterMs?: number;
+  readonly requestId?: string;
+  readonly timedOut: boolean;
+
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+    this.name = "ProviderError";
+    this.provider = details.provider;
+    this.status = details.status;
+    this.type = details.type;
+    this.retryAfterMs = details.retryAfterMs;
+    this.requestId = details.requestId;
+    this.timedOut = details.timedOut ?? false;
+  }
+}
+
+/** Parse a Retry-After header value (delta-seconds or HTTP date). */
+function parseRetryAfterHeader(value: string): number | undefined {
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Read a header from a fetch `Headers` object or a plain record. */
+export function readHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== "object") return undefined;
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/** Retry hint in milliseconds from `retry-after-ms` / `retry-after` headers. */
+export function retryAfterFromHeaders(headers: unknown): number | undefined {
+  const ms = readHeader(headers, "retry-after-ms");
+  if (ms !== undefined && Number.isFinite(Number(ms))) return Number(ms);
+  const header = readHeader(headers, "retry-after");
+  return header !== undefined ? parseRetryAfterHeader(header) : undefined;
+}
@@ -2,10 +2,26 @@ import type { AIProviderInterface } from "./AIProvider.js";
 import { AnthropicProvider } from "./AnthropicProvider.js";
 import { GeminiProvider } from "./GeminiProvider.js";
 import { DeepSeekProvider } from "./DeepSeekProvider.js";
+import { OpenAICompatibleProvider, OPENAI_COMPATIBLE_PROVIDER } from "./OpenAICompatibleProvider.js";
+import {
+  CassetteRecorder,
+  RecordingProvider,
+  ReplayProvider,
+  REPLAY_PROVIDER,
+  loadCassette,
+} from "./ReplayProvider.js";
 import { env } from "../../config/env.js";
 
 const cache = new Map<string, AIProviderInterface>();
 
+let recorder: CassetteRecorder | null = null;
+
+/** Shared by all providers so one run produces one cassette. */
+function getRecorder(): CassetteRecorder {
+  recorder ??= new CassetteRecorder(env.LLM_RECORD_CASSETTE);
+  return recorder;
+}
+
 export function getProvider(name: string): AIProviderInterface {
   const existing = cache.get(name);
   if (existing) return existing;
@@ -24,10 +40,22 @@ export function getProvider(name: string): AIProviderInterface {
       if (!env.DEEPSEEK_API_KEY) throw new Error("DEEPSEEK_API_KEY is not configured");
       provider = new DeepSeekProvider();
       break;
+    case OPENAI_COMPATIBLE_PROVIDER:
+      if (!env.OPENAI_COMPATIBLE_BASE_URL) throw new Error("OPENAI_COMPATIBLE_BASE_URL is not configured");
+      provider = new OpenAICompatibleProvider();
+      break;
+    case REPLAY_PROVIDER:
+      if (!env.LLM_REPLAY_CASSETTE) throw new Error("LLM_REPLAY_CASSETTE is not configured");
+      provider = new ReplayProvider(loadCassette(env.LLM_REPLAY_CASSETTE));
+      break;
     default:
       throw new Error(`Unknown provider: ${name}`);
   }
 
+  if (env.LLM_RECORD_CASSETTE && name !== REPLAY_PROVIDER) {
+    provider = new RecordingProvider(provider, name, getRecorder());
+  }
+
   cache.set(name, provider);
   return provider;
 }
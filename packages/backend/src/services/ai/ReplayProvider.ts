@@ -0,0 +1,270 @@
+import { createHash } from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+import type { MessagePart, ModelInfo, TokenUsage, ToolCall, ToolDefinition } from "@vladbot/shared";
+import { findModel } from "@vladbot/shared";
+import type { AIProviderInterface, StreamChunk } from "./AIProvider.js";
+import { env } from "../../config/env.js";
+
+export const REPLAY_PROVIDER = "replay";
+
+/** Context window for replayed models whose recording did not capture one. */
+const DEFAULT_REPLAY_CONTEXT_WINDOW = 128_000;
+
+const CASSETTE_VERSION = 1;
+
+interface GeneratedResponse {
+  text: string;
+  toolCalls: ToolCall[];
+  usage?: TokenUsage;
+}
+
+/**
+ * One recorded LLM call. Exactly one of `chunks` (generateStream),
+ * `response` (generateResponse) or `error` is set.
+ */
+export interface CassetteInteraction {
+  kind: "stream" | "response";
+  /** hashMessages() of the request. */
+  hash: string;
+  /** Provider and model the call was recorded against. */
+  provider: string;
+  model: string;
+  contextWindow?: number;
+  chunks?: StreamChunk[];
+  response?: GeneratedResponse;
+  /** The call failed; replay throws an Error with this message. */
+  error?: string;
+}
+
+export interface Cassette {
+  version: number;
+  interactions: CassetteInteraction[];
+}
+
+// ---------------------------------------------------------------------------
+// Request hashing
+// ---------------------------------------------------------------------------
+
+/**
+ * Drop what legitimately differs between runs of the same conversation:
+ * tool call IDs, image URLs (uploads get fresh file names), reasoning
+ * signatures and cache breakpoints.
+ */
+function normalizePart(part: MessagePart): Record<string, unknown> {
+  return {
+    role: part.role,
+    content: part.content,
+    ...(part.images?.length && { images: part.images.length }),
+    ...(part.toolCalls?.length && {
+      toolCalls: part.toolCalls.map((tc) => ({ name: tc.name, arguments: tc.arguments })),
+    }),
+    ...(part.toolResults?.length && {
+      toolResults: part.toolResults.map((tr) => ({ output: tr.output, isError: !!tr.isError })),
+    }),
+    ...(part.reasoning && { reasoning: part.reasoning }),
+  };
+}
+
+/** JSON with object keys sorted, so argument key order does not change the hash. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Normalized hash of a request's messages; the cassette lookup key. */
+export function hashMessages(messages: MessagePart[]): string {
+  return createHash("sha256")
+    .update(stableStringify(messages.map(normalizePart)))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+// ---------------------------------------------------------------------------
+// Cassette files
+// ---------------------------------------------------------------------------
+
+export function loadCassette(path: string): Cassette {
+  const cassette = JSON.parse(readFileSync(path, "utf-8")) as Cassette;
+  if (cassette.version !== CASSETTE_VERSION || !Array.isArray(cassette.interactions)) {
+    throw new Error(`Unsupported cassette format: ${path}`);
+  }
+  return cassette;
+}
+
+export function saveCassette(path: string, cassette: Cassette): void {
+  writeFileSync(path, JSON.stringify(cassette, null, 2) + "\n");
+}
+
+/**
+ * Registry entries for the models LLM_REPLAY_CASSETTE was recorded with,
+ * exposed under the replay provider so sessions can select them.
+ * Returns an empty list when no cassette is configured.
+ */
+export function getReplayModels(): ModelInfo[] {
+  if (!env.LLM_REPLAY_CASSETTE) return [];
+  const cassette = loadCassette(env.LLM_REPLAY_CASSETTE);
+  const models = new Map<string, ModelInfo>();
+  for (const interaction of cassette.interactions) {
+    if (models.has(interaction.model)) continue;
+    models.set(interaction.model, {
+      id: interaction.model,
+      name: `${interaction.model} (replay)`,
+      provider: REPLAY_PROVIDER,
+      contextWindow: interaction.contextWindow ?? DEFAULT_REPLAY_CONTEXT_WINDOW,
+      nativeVision: false,
+    });
+  }
+  return [...models.values()];
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+function abortError(): Error {
+  const err = new Error("Replay aborted");
+  err.name = "AbortError";
+  return err;
+}
+
+/**
+ * Plays back recorded calls. Requests are matched by kind and message hash;
+ * identical requests (e.g. retries) consume their recordings in order.
+ * Unmatched requests throw, so a changed prompt fails the test loudly.
+ */
+export class ReplayProvider implements AIProviderInterface {
+  private queues = new Map<string, CassetteInteraction[]>();
+
+  constructor(cassette: Cassette) {
+    for (const interaction of cassette.interactions) {
+      const key = `${interaction.kind}:${interaction.hash}`;
+      const queue = this.queues.get(key) ?? [];
+      queue.push(interaction);
+      this.queues.set(key, queue);
+    }
+  }
+
+  private take(kind: CassetteInteraction["kind"], messages: MessagePart[]): CassetteInteraction {
+    const hash = hashMessages(messages);
+    const interaction = this.queues.get(`${kind}:${hash}`)?.shift();
+    if (!interaction) {
+      throw new Error(`No recorded ${kind} interaction for request ${hash} (${messages.length} messages)`);
+    }
+    if (interaction.error) throw new Error(interaction.error);
+    return interaction;
+  }
+
+  async generateResponse(
+    messages: MessagePart[],
+    _model?: string,
+    _tools?: ToolDefinition[],
+    _sessionId?: string,
+    signal?: AbortSignal,
+  ): Promise<GeneratedResponse> {
+    if (signal?.aborted) throw abortError();
+    const interaction = this.take("response", messages);
+    return structuredClone(interaction.response ?? { text: "", toolCalls: [] });
+  }
+
+  async *generateStream(
+    messages: MessagePart[],
+    _model: string,
+    _tools?: ToolDefinition[],
+    signal?: AbortSignal,
+  ): AsyncIterable<StreamChunk> {
+    const interaction = this.take("stream", messages);
+    for (const chunk of interaction.chunks ?? []) {
+      if (signal?.aborted) throw abortError();
+      yield structuredClone(chunk);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Record
+// ---------------------------------------------------------------------------
+
+/** Collects interactions from any number of providers into one cassette file. */
+export class CassetteRecorder {
+  private cassette: Cassette = { version: CASSETTE_VERSION, interactions: [] };
+
+  constructor(private path: string) {}
+
+  /** Appends and rewrites the file, so a crashed or killed run keeps what it recorded. */
+  add(interaction: CassetteInteraction): void {
+    this.cassette.interactions.push(interaction);
+    saveCassette(this.path, this.cassette);
+  }
+
+  get interactions(): readonly CassetteInteraction[] {
+    return this.cassette.interactions;
+  }
+}
+
+/** Wraps a real provider and records every call it makes. */
+export class RecordingProvider implements AIProviderInterface {
+  constructor(
+    private inner: AIProviderInterface,
+    private providerName: string,
+    private recorder: CassetteRecorder,
+  ) {}
+
+  private base(kind: CassetteInteraction["kind"], messages: MessagePart[], model: string) {
+    return {
+      kind,
+      hash: hashMessages(messages),
+      provider: this.providerName,
+      model,
+      contextWindow: findModel(`${this.providerName}:${model}`)?.contextWindow,
+    };
+  }
+
+  async generateResponse(
+    messages: MessagePart[],
+    model: string,
+    tools?: ToolDefinition[],
+    sessionId?: string,
+    signal?: AbortSignal,
+  ): Promise<GeneratedResponse> {
+    const base = this.base("response", messages, model);
+    try {
+      const response = await this.inner.generateResponse(messages, model, tools, sessionId, signal);
+      this.recorder.add({ ...base, response: structuredClone(response) });
+      return response;
+    } catch (err) {
+      this.recorder.add({ ...base, error: err instanceof Error ? err.message : String(err) });
+      throw err;
+    }
+  }
+
+  async *generateStream(
+    messages: MessagePart[],
+    model: string,
+    tools?: ToolDefinition[],
+    signal?: AbortSignal,
+    sessionId?: string,
+  ): AsyncIterable<StreamChunk> {
+    const base = this.base("stream", messages, model);
+    const chunks: StreamChunk[] = [];
+    try {
+      for await (const chunk of this.inner.generateStream(messages, model, tools, signal, sessionId)) {
+        // Debug chunks carry the provider-specific request body; not worth replaying
+        if (chunk.type !== "debug") chunks.push(structuredClone(chunk));
+        yield chunk;
+      }
+    } catch (err) {
+      // User aborts are not part of the conversation
+      if (!(err instanceof Error && err.name === "AbortError") && !signal?.aborted) {
+        this.recorder.add({ ...base, error: err instanceof Error ? err.message : String(err) });
+      }
+      throw err;
+    }
+    this.recorder.add({ ...base, chunks });
+  }
+}
@@ -1,4 +1,5 @@
-import type { ClassifiedError } from "@vladbot/shared";
+import type { ClassifiedError, LLMErrorCode } from "@vladbot/shared";
+import { ProviderError } from "./ProviderError.js";
 
 const CONTEXT_LIMIT_PATTERNS = [
   /context.*(length|limit|exceed)/i,
@@ -28,7 +29,79 @@ const AUTH_ERROR_PATTERNS = [
   /invalid.*key/i,
 ];
 
+const CONTENT_FILTER_PATTERNS = [
+  /content.?(filter|policy|management)/i,
+  /safety/i,
+  /blocked/i,
+  /prohibited/i,
+];
+
+const RECOVERABLE: Record<LLMErrorCode, boolean> = {
+  CONTEXT_LIMIT: true,
+  RATE_LIMIT: true,
+  OVERLOADED: true,
+  TIMEOUT: true,
+  CONTENT_FILTER: false,
+  INVALID_REQUEST: false,
+  AUTH_ERROR: false,
+  PROVIDER_ERROR: true,
+  UNKNOWN: false,
+};
+
+/** Decide from status and provider error type; the message only refines 4xx request errors. */
+function codeForProviderError(err: ProviderError): LLMErrorCode {
+  const type = err.type?.toLowerCase() ?? "";
+  const status = err.status;
+
+  if (err.timedOut || status === 408 || status === 504 || type.includes("timeout") || type === "deadline_exceeded") {
+    return "TIMEOUT";
+  }
+  if (status === 529 || type.includes("overloaded") || type === "unavailable" || status === 503) {
+    return "OVERLOADED";
+  }
+  if (status === 429 || type.includes("rate_limit") || type === "resource_exhausted") {
+    return "RATE_LIMIT";
+  }
+  if (status === 401 || status === 403 || type.includes("authentication") || type.includes("permission")
+    || type === "unauthenticated" || type === "permission_denied") {
+    return "AUTH_ERROR";
+  }
+  if (type === "context_length_exceeded" || CONTEXT_LIMIT_PATTERNS.some((p) => p.test(err.message))) {
+    return "CONTEXT_LIMIT";
+  }
+  if (type.includes("content_filter") || type.includes("safety")
+    || (status !== undefined && status < 500 && CONTENT_FILTER_PATTERNS.some((p) => p.test(err.message)))) {
+    return "CONTENT_FILTER";
+  }
+  if (status !== undefined && status >= 400 && status < 500) {
+    return "INVALID_REQUEST";
+  }
+  // 5xx, connection failures and errors reported mid-stream
+  return "PROVIDER_ERROR";
+}
+
+function classifyProviderError(err: ProviderError): ClassifiedError {
+  const code = codeForProviderError(err);
+  return {
+    message: err.message,
+    code,
+    recoverable: RECOVERABLE[code],
+    provider: err.provider,
+    ...(err.status !== undefined && { status: err.status }),
+    ...(err.type && { providerType: err.type }),
+    ...(err.retryAfterMs !== undefined && { retryAfterMs: err.retryAfterMs }),
+    ...(err.requestId && { requestId: err.requestId }),
+  };
+}
+
+/**
+ * Classify an LLM failure. Providers throw ProviderError with the HTTP status
+ * and error type; anything else (network errors, untyped SDK errors) falls
+ * back to matching the message text.
+ */
 export function classifyLLMError(err: Error): ClassifiedError {
+  if (err instanceof ProviderError) return classifyProviderError(err);
+
   const msg = err.message;
 
   for (const pattern of CONTEXT_LIMIT_PATTERNS) {
@@ -0,0 +1,183 @@
+import type { ClassifiedError, ModelInfo } from "@vladbot/shared";
+import { findModel } from "@vladbot/shared";
+import { getRuntimeSetting } from "../../config/runtimeSettings.js";
+import { classifyLLMError } from "./errorClassifier.js";
+import { retryAfterFromHeaders } from "./ProviderError.js";
+
+export type ModelTarget = Pick<ModelInfo, "id" | "provider">;
+
+export interface RetryPolicy {
+  /** Attempts per model before failing over to the next one in the chain. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryAttempt {
+  /** 1-based attempt number on `target`. */
+  attempt: number;
+  maxAttempts: number;
+  target: ModelTarget;
+  delayMs: number;
+  error: ClassifiedError;
+}
+
+export interface RetryOptions {
+  /** Loaded lazily from runtime settings on the first failure when omitted. */
+  policy?: RetryPolicy;
+  signal?: AbortSignal;
+  /** Called before waiting for the next attempt. */
+  onRetry?: (info: RetryAttempt) => void;
+}
+
+function toInt(value: string, fallback: number): number {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+export async function getRetryPolicy(): Promise<RetryPolicy> {
+  const [maxAttempts, baseDelayMs, maxDelayMs] = await Promise.all([
+    getRuntimeSetting("llm_retry_max_attempts"),
+    getRuntimeSetting("llm_retry_base_delay_ms"),
+    getRuntimeSetting("llm_retry_max_delay_ms"),
+  ]);
+  return {
+    maxAttempts: Math.max(1, toInt(maxAttempts, 3)),
+    baseDelayMs: toInt(baseDelayMs, 1000),
+    maxDelayMs: toInt(maxDelayMs, 30_000),
+  };
+}
+
+/**
+ * Extract a server-provided retry hint in milliseconds. Looks at an explicit
+ * `retryAfterMs` property, SDK error headers and, as a last resort, the
+ * hints providers embed in error messages ("Please retry in 12.5s",
+ * Gemini's "retryDelay": "30s").
+ */
+export function getRetryAfterMs(err: unknown): number | undefined {
+  if (!err || typeof err !== "object") return undefined;
+
+  const explicit = (err as { retryAfterMs?: unknown }).retryAfterMs;
+  if (typeof explicit === "number" && Number.isFinite(explicit)) return explicit;
+
+  const fromHeaders = retryAfterFromHeaders((err as { headers?: unknown }).headers);
+  if (fromHeaders !== undefined) return fromHeaders;
+
+  const message = err instanceof Error ? err.message : "";
+  const match =
+    message.match(/retry[- ]after[:\s]+(\d+(?:\.\d+)?)\s*(ms|s)?/i) ??
+    message.match(/retry in (\d+(?:\.\d+)?)\s*(ms|s)/i) ??
+    message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)(s)"/);
+  if (!match) return undefined;
+  const value = Number(match[1]);
+  return match[2]?.toLowerCase() === "ms" ? value : value * 1000;
+}
+
+/**
+ * Delay before retry number `attempt` (1-based) on the same model:
+ * exponential backoff with jitter, unless the server told us how long to wait.
+ */
+export function computeRetryDelay(policy: RetryPolicy, attempt: number, err: unknown): number {
+  const hint = getRetryAfterMs(err);
+  if (hint !== undefined) return Math.ceil(hint);
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exp / 2 + Math.random() * (exp / 2));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => {
+      const err = new Error("Aborted while waiting to retry");
+      err.name = "AbortError";
+      return err;
+    };
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Build the model chain for a turn: the current model followed by the
+ * session's fallbacks. When the current model is itself a fallback (an
+ * earlier round already failed over), only the models after it remain.
+ * Unknown and duplicate entries are dropped.
+ */
+export function buildModelChain(current: ModelTarget, fallbackModels: string[]): ModelTarget[] {
+  const key = (t: ModelTarget) => `${t.provider}:${t.id}`;
+  const currentIdx = fallbackModels.indexOf(key(current));
+  const rest = currentIdx >= 0 ? fallbackModels.slice(currentIdx + 1) : fallbackModels;
+
+  const chain: ModelTarget[] = [current];
+  const seen = new Set([key(current)]);
+  for (const field of rest) {
+    const info = findModel(field);
+    if (!info || seen.has(key(info))) continue;
+    seen.add(key(info));
+    chain.push({ id: info.id, provider: info.provider });
+  }
+  return chain;
+}
+
+/**
+ * Run `attempt` against each model of the chain in turn. Recoverable errors
+ * are retried on the same model with backoff; once its attempts run out (or
+ * the error is a context overflow, or the server asks for a wait longer than
+ * maxDelayMs) the next model takes over immediately. Aborts and
+ * non-recoverable errors are rethrown, as is the last error once the chain
+ * is exhausted.
+ */
+export async function withRetry<T, M extends ModelTarget>(
+  chain: M[],
+  attempt: (target: M) => Promise<T>,
+  options: RetryOptions = {},
+): Promise<{ result: T; target: M }> {
+  const { signal, onRetry } = options;
+  let policy = options.policy;
+  let modelIdx = 0;
+  let attemptNo = 1;
+
+  for (;;) {
+    const target = chain[modelIdx];
+    try {
+      return { result: await attempt(target), target };
+    } catch (err) {
+      if (signal?.aborted || (err instanceof Error && err.name === "AbortError")) throw err;
+      const classified = classifyLLMError(err instanceof Error ? err : new Error("Unknown error"));
+      if (!classified.recoverable) throw err;
+
+      policy ??= await getRetryPolicy();
+      const delayMs = computeRetryDelay(policy, attemptNo, err);
+      const sameModel =
+        classified.code !== "CONTEXT_LIMIT" &&
+        attemptNo < policy.maxAttempts &&
+        delayMs <= policy.maxDelayMs;
+
+      if (sameModel) {
+        attemptNo++;
+      } else if (modelIdx + 1 < chain.length) {
+        modelIdx++;
+        attemptNo = 1;
+      } else {
+        throw err;
+      }
+
+      const wait = sameModel ? delayMs : 0;
+      onRetry?.({
+        attempt: attemptNo,
+        maxAttempts: policy.maxAttempts,
+        target: chain[modelIdx],
+        delayMs: wait,
+        error: classified,
+      });
+      await sleep(wait, signal);
+    }
+  }
+}
@@ -1,4 +1,6 @@
+import type { SamplingParams } from "@vladbot/shared";
 import { getRuntimeSetting } from "../../config/runtimeSettings.js";
+import { getSessionGenerationSettings } from "../sessionStore.js";
 
 const DEFAULT_SYSTEM_PROMPT =
   "IMPORTANT: Never fabricate, invent, or guess visual information. " +
@@ -12,5 +14,24 @@ export async function getSystemPrompt(): Promise<string> {
   return custom || DEFAULT_SYSTEM_PROMPT;
 }
 
+export interface GenerationSettings {
+  systemPrompt: string;
+  sampling: SamplingParams;
+}
+
+/**
+ * System prompt and sampling parameters for a request. A session's own
+ * system prompt replaces the global one; calls without a session (naming,
+ * compaction) use the global prompt and provider sampling defaults.
+ */
+export async function getGenerationSettings(sessionId?: string): Promise<GenerationSettings> {
+  if (!sessionId) return { systemPrompt: await getSystemPrompt(), sampling: {} };
+  const session = await getSessionGenerationSettings(sessionId);
+  return {
+    systemPrompt: session.systemPrompt || await getSystemPrompt(),
+    sampling: session.sampling,
+  };
+}
+
 /** Synchronous fallback for contexts that can't await. */
 export const SYSTEM_PROMPT = DEFAULT_SYSTEM_PROMPT;
@@ -4,6 +4,7 @@ import { getSessionFilePath } from "../sessionFiles.js";
 import { getSessionVisionModel } from "../sessionStore.js";
 import { env } from "../../config/env.js";
 import { getRuntimeSetting } from "../../config/runtimeSettings.js";
+import { recordUsage } from "../usageStore.js";
 
 export interface ExtractedToolResult {
   text: string;
@@ -188,6 +189,7 @@ export async function queryVisionModel(
   imageBase64: string,
   mimeType: string = "image/jpeg",
   sessionId?: string,
+  signal?: AbortSignal,
 ): Promise<string> {
   const vm = await parseVisionModel(sessionId);
   if (!vm) {
@@ -212,7 +214,21 @@ export async function queryVisionModel(
           ],
         },
       ],
+      config: signal ? { abortSignal: signal } : undefined,
     });
+    const meta = response.usageMetadata;
+    if (meta) {
+      recordUsage({
+        sessionId,
+        provider: vm.provider,
+        model: vm.model,
+        purpose: "vision",
+        usage: {
+          inputTokens: meta.promptTokenCount ?? 0,
+          outputTokens: meta.candidatesTokenCount ?? 0,
+        },
+      }).catch(console.error);
+    }
     return response.text ?? "[Vision model returned no response]";
   }
 
@@ -238,7 +254,17 @@ export async function queryVisionModel(
           ],
         },
       ],
-    });
+    }, signal ? { signal } : {});
+    recordUsage({
+      sessionId,
+      provider: vm.provider,
+      model: vm.model,
+      purpose: "vision",
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    }).catch(console.error);
     const textBlock = response.content.find((b) => b.type === "text");
     return textBlock && "text" in textBlock ? textBlock.text : "[Vision model returned no response]";
   }
@@ -0,0 +1,186 @@
+import os from "node:os";
+import path from "node:path";
+import type {
+  ApprovalDecision,
+  ApprovalOutcome,
+  ApprovalRule,
+  ArgumentMatcher,
+  ChatMessage,
+  ToolCall,
+  ToolCallApprover,
+  ToolCallPreview,
+  ToolResult,
+} from "@vladbot/shared";
+import { listApprovalRules } from "./approvalRuleStore.js";
+import { getSessionAutoApprove } from "./sessionStore.js";
+import { previewToolCalls, resolveToolCallName } from "./tools/ToolExecutor.js";
+
+/** When several rules match a call, the most restrictive outcome wins. */
+const SEVERITY: Record<ApprovalOutcome, number> = { allow: 0, ask: 1, deny: 2 };
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+/**
+ * Compile a glob: `*` and `?` stay within one path segment, `**` crosses
+ * segments. A trailing `/**` also matches the directory itself.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "/" && glob.slice(i) === "/**") {
+      re += "(?:/.*)?";
+      break;
+    }
+    if (c === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        re += "(?:.*/)?";
+        i += 2;
+      } else {
+        re += ".*";
+        i += 1;
+      }
+    } else if (c === "*") {
+      re += "[^/]*";
+    } else if (c === "?") {
+      re += "[^/]";
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+function expandHome(p: string): string {
+  return p === "~" || p.startsWith("~/") ? path.join(os.homedir(), p.slice(1)) : p;
+}
+
+function argumentText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function matchesArgument(matcher: ArgumentMatcher, args: Record<string, unknown>): boolean {
+  const value = argumentText(args[matcher.param]);
+  let matched: boolean;
+  if (matcher.kind === "glob") {
+    // Resolve the path the way the tools do (no "~" expansion), so "/tmp/../etc" is not under /tmp
+    matched = value !== "" && globToRegExp(expandHome(matcher.pattern)).test(path.resolve(value));
+  } else {
+    matched = new RegExp(matcher.pattern).test(value);
+  }
+  return matcher.negate ? !matched : matched;
+}
+
+export function matchesRule(rule: ApprovalRule, call: ToolCall): boolean {
+  if (!rule.enabled) return false;
+  const target = resolveToolCallName(call.name) ?? { tool: call.name, operation: "" };
+  return (
+    globToRegExp(rule.tool).test(target.tool) &&
+    globToRegExp(rule.operation).test(target.operation) &&
+    rule.args.every((m) => matchesArgument(m, call.arguments))
+  );
+}
+
+function describeRule(rule: ApprovalRule): string {
+  const scope = rule.sessionId ? "Chat rule" : "Global rule";
+  const what = rule.description || `${rule.tool} / ${rule.operation}`;
+  return `${scope}: ${what}`;
+}
+
+// ---------------------------------------------------------------------------
+// Decisions
+// ---------------------------------------------------------------------------
+
+/**
+ * Decide one call. Calls no rule matches follow the session's auto-approve
+ * setting, so sessions without rules behave as before.
+ */
+export function decideToolCall(
+  rules: ApprovalRule[],
+  call: ToolCall,
+  autoApprove: boolean,
+): ApprovalDecision {
+  let decisive: ApprovalRule | undefined;
+  for (const rule of rules) {
+    if (!matchesRule(rule, call)) continue;
+    if (!decisive || SEVERITY[rule.outcome] > SEVERITY[decisive.outcome]) decisive = rule;
+  }
+  if (decisive) {
+    return { outcome: decisive.outcome, ruleId: decisive.id, reason: describeRule(decisive) };
+  }
+  return autoApprove
+    ? { outcome: "allow", reason: "Auto-approve is on for this chat" }
+    : { outcome: "ask", reason: "No rule matched" };
+}
+
+/** Decide every call of a round against the global and session rules. */
+export async function evaluateApproval(
+  sessionId: string,
+  toolCalls: ToolCall[],
+): Promise<Record<string, ApprovalDecision>> {
+  const [rules, autoApprove] = await Promise.all([
+    listApprovalRules(sessionId),
+    getSessionAutoApprove(sessionId),
+  ]);
+  return Object.fromEntries(toolCalls.map((tc) => [tc.id, decideToolCall(rules, tc, autoApprove)]));
+}
+
+/**
+ * A round runs without a human when no call asks. Denied calls do not hold
+ * the round up: they are answered with `policyDenial` instead of running.
+ */
+export function needsHumanApproval(decisions: Record<string, ApprovalDecision>): boolean {
+  return Object.values(decisions).some((d) => d.outcome === "ask");
+}
+
+/**
+ * Dry-run previews for a round that waits for the user, attached to the
+ * pending message so every device shows them. Denied calls won't run and
+ * get none. Undefined when no call has a preview.
+ */
+export async function previewForApproval(
+  sessionId: string,
+  toolCalls: ToolCall[],
+  decisions: Record<string, ApprovalDecision>,
+): Promise<Record<string, ToolCallPreview> | undefined> {
+  const previews = await previewToolCalls(
+    toolCalls.filter((tc) => decisions[tc.id]?.outcome !== "deny"),
+    sessionId,
+  );
+  return Object.keys(previews).length > 0 ? previews : undefined;
+}
+
+/**
+ * Who let a call run, for the audit log: the device that approved it, or
+ * else the rule or the chat's auto-approve that allowed it.
+ */
+export function approverOf(
+  message: Pick<ChatMessage, "toolCallApprovals" | "approvalDecisions">,
+  toolCallId: string,
+): ToolCallApprover {
+  const verdict = message.toolCallApprovals?.[toolCallId];
+  if (verdict?.status === "approved") return { kind: "user", by: verdict.device };
+  const decision = message.approvalDecisions?.[toolCallId];
+  if (decision?.ruleId) return { kind: "rule", by: decision.reason, ruleId: decision.ruleId };
+  return { kind: "auto", by: decision?.reason };
+}
+
+export function policyDenial(toolCallId: string, decision: ApprovalDecision): ToolResult {
+  return {
+    toolCallId,
+    output: `Denied by approval policy (${decision.reason})`,
+    isError: true,
+  };
+}
+
+/** The error result the LLM gets for a call the user denied. */
+export function userDenial(toolCallId: string, reason?: string): ToolResult {
+  return {
+    toolCallId,
+    output: reason ? `Tool call denied by user: ${reason}` : "Tool call denied by user",
+    isError: true,
+  };
+}
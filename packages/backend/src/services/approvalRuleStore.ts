@@ -0,0 +1,93 @@
+import type { ApprovalOutcome, ApprovalRule, ArgumentMatcher } from "@vladbot/shared";
+import pool from "./db.js";
+
+export type ApprovalRuleFields = Omit<ApprovalRule, "id" | "createdAt" | "updatedAt">;
+
+// Helpers
+
+function rowToApprovalRule(row: Record<string, unknown>): ApprovalRule {
+  return {
+    id: row.id as string,
+    sessionId: (row.session_id as string | null) ?? null,
+    description: (row.description as string) ?? "",
+    tool: row.tool as string,
+    operation: row.operation as string,
+    args: (row.args as ArgumentMatcher[] | null) ?? [],
+    outcome: row.outcome as ApprovalOutcome,
+    enabled: row.enabled as boolean,
+    createdAt: (row.created_at as Date).toISOString(),
+    updatedAt: (row.updated_at as Date).toISOString(),
+  };
+}
+
+// Public API
+
+/** Global rules, plus the rules limited to `sessionId` when given. Oldest first. */
+export async function listApprovalRules(sessionId?: string): Promise<ApprovalRule[]> {
+  const result = sessionId
+    ? await pool.query(
+        `SELECT * FROM approval_rules WHERE session_id IS NULL OR session_id = $1 ORDER BY created_at`,
+        [sessionId],
+      )
+    : await pool.query(`SELECT * FROM approval_rules WHERE session_id IS NULL ORDER BY created_at`);
+  return result.rows.map(rowToApprovalRule);
+}
+
+export async function createApprovalRule(fields: ApprovalRuleFields): Promise<ApprovalRule> {
+  const result = await pool.query(
+    `INSERT INTO approval_rules (session_id, description, tool, operation, args, outcome, enabled)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [
+      fields.sessionId,
+      fields.description,
+      fields.tool,
+      fields.operation,
+      JSON.stringify(fields.args),
+      fields.outcome,
+      fields.enabled,
+    ],
+  );
+  return rowToApprovalRule(result.rows[0]);
+}
+
+const COLUMNS: Record<keyof Omit<ApprovalRuleFields, "sessionId">, string> = {
+  description: "description",
+  tool: "tool",
+  operation: "operation",
+  args: "args",
+  outcome: "outcome",
+  enabled: "enabled",
+};
+
+export async function updateApprovalRule(
+  id: string,
+  updates: Partial<Omit<ApprovalRuleFields, "sessionId">>,
+): Promise<ApprovalRule | null> {
+  const sets: string[] = [];
+  const values: unknown[] = [];
+  let idx = 1;
+
+  for (const [key, column] of Object.entries(COLUMNS) as [keyof typeof COLUMNS, string][]) {
+    const value = updates[key];
+    if (value === undefined) continue;
+    sets.push(`${column} = $${idx++}`);
+    values.push(key === "args" ? JSON.stringify(value) : value);
+  }
+  if (sets.length === 0) return null;
+
+  sets.push("updated_at = now()");
+  values.push(id);
+
+  const result = await pool.query(
+    `UPDATE approval_rules SET ${sets.join(", ")} WHERE id = $${idx}
+     RETURNING *`,
+    values,
+  );
+  return result.rows.length > 0 ? rowToApprovalRule(result.rows[0]) : null;
+}
+
+export async function deleteApprovalRule(id: string): Promise<boolean> {
+  const result = await pool.query(`DELETE FROM approval_rules WHERE id = $1`, [id]);
+  return (result.rowCount ?? 0) > 0;
+}
@@ -0,0 +1,144 @@
+import { v4 as uuid } from "uuid";
+import type { ChatMessage, CompareRun, MessagePart, ModelInfo } from "@vladbot/shared";
+import { formatModelField } from "@vladbot/shared";
+import { addMessage, updateMessage } from "./sessionStore.js";
+import { createStream, getStream, pushEvent, removeStream, runStreamId } from "./streamRegistry.js";
+import { streamWithFailover } from "./toolLoop.js";
+import { classifyLLMError } from "./ai/errorClassifier.js";
+import { estimateMessageTokens, reconcileUsage } from "./tokenCounter.js";
+import { computeCost } from "./usageStore.js";
+
+export interface CompareCandidateRun {
+  candidateId: string;
+  model: ModelInfo;
+  streamId: string;
+}
+
+export interface PendingCompare {
+  compareId: string;
+  sessionId: string;
+  /** The user message the candidates answer. */
+  messageId: string;
+  candidates: CompareCandidateRun[];
+}
+
+/** At most one compare run per session, keyed by session ID. */
+const runs = new Map<string, PendingCompare>();
+
+export function getCompare(sessionId: string): PendingCompare | undefined {
+  return runs.get(sessionId);
+}
+
+export function toCompareRun(run: PendingCompare): CompareRun {
+  return {
+    compareId: run.compareId,
+    candidates: run.candidates.map((c) => ({
+      candidateId: c.candidateId,
+      model: formatModelField(c.model),
+    })),
+  };
+}
+
+/**
+ * Register a compare run answering `messageId` with one stream per model.
+ * Each candidate gets its own stream ID so the runs don't replace each other
+ * (or the session's chat stream) in the registry.
+ */
+export function startCompare(
+  sessionId: string,
+  messageId: string,
+  models: ModelInfo[],
+): PendingCompare {
+  discardCompare(sessionId);
+
+  const candidates = models.map((model) => {
+    const candidateId = uuid();
+    const streamId = runStreamId(sessionId, candidateId);
+    createStream(sessionId, candidateId, model.id, streamId);
+    return { candidateId, model, streamId };
+  });
+  const run: PendingCompare = { compareId: uuid(), sessionId, messageId, candidates };
+  runs.set(sessionId, run);
+  return run;
+}
+
+/**
+ * Stream all candidates concurrently. Candidates get no tools: a compare
+ * judges the replies, and tool calls would act on the session once per model.
+ * Each stream ends with its own `done` or `error` event.
+ */
+export async function runCompare(run: PendingCompare, history: MessagePart[]): Promise<void> {
+  await Promise.all(
+    run.candidates.map(async (candidate) => {
+      const stream = getStream(candidate.streamId);
+      if (!stream) return;
+      try {
+        await streamWithFailover(
+          run.sessionId,
+          [candidate.model],
+          history,
+          undefined,
+          stream.abortController.signal,
+          candidate.streamId,
+        );
+        reconcileUsage(candidate.model, stream, stream.usage);
+        pushEvent(candidate.streamId, { type: "done", data: { hasToolCalls: false } });
+      } catch (err) {
+        if (stream.aborted) return;
+        const classified = classifyLLMError(err instanceof Error ? err : new Error("Unknown error"));
+        pushEvent(candidate.streamId, { type: "error", data: classified });
+      }
+    }),
+  );
+}
+
+/**
+ * Save a finished candidate as the assistant reply on the active branch and
+ * end the run. The caller checks that the candidate finished without error.
+ */
+export async function keepCandidate(
+  run: PendingCompare,
+  candidate: CompareCandidateRun,
+): Promise<ChatMessage> {
+  const stream = getStream(candidate.streamId);
+  if (!stream) throw new Error("Compare candidate stream is gone");
+
+  const message: ChatMessage = {
+    id: candidate.candidateId,
+    role: "assistant",
+    content: stream.content,
+    model: candidate.model.id,
+    parentId: run.messageId,
+    timestamp: Date.now(),
+    reasoning: stream.reasoning || undefined,
+    reasoningSignature: stream.reasoningSignature,
+    llmRequest: stream.requestBody,
+    llmResponse: { content: stream.content, usage: stream.usage },
+    rawTokenCount: stream.usage?.outputTokens,
+    cost: stream.usage ? computeCost(candidate.model, stream.usage) ?? undefined : undefined,
+  };
+  message.tokenCount = estimateMessageTokens(message, candidate.model);
+  await addMessage(run.sessionId, message);
+
+  if (stream.usage?.inputTokens) {
+    await updateMessage(run.messageId, { rawTokenCount: stream.usage.inputTokens });
+  }
+
+  discardCompare(run.sessionId);
+  return message;
+}
+
+/** Abort the session's compare run, if any, and drop its streams. */
+export function discardCompare(sessionId: string): void {
+  const run = runs.get(sessionId);
+  if (!run) return;
+  runs.delete(sessionId);
+  for (const candidate of run.candidates) {
+    const stream = getStream(candidate.streamId);
+    if (stream && !stream.done) {
+      stream.aborted = true;
+      stream.abortController.abort();
+    }
+    removeStream(candidate.streamId);
+  }
+}
@@ -1,6 +1,6 @@
 import { v4 as uuid } from "uuid";
 import type { ChatMessage, MessagePart, ToolResult } from "@vladbot/shared";
-import { AVAILABLE_MODELS } from "@vladbot/shared";
+import { findModel } from "@vladbot/shared";
 import { getSession, addMessage } from "../sessionStore.js";
 import { getProvider } from "../ai/ProviderFactory.js";
 import {
@@ -9,7 +9,9 @@ import {
   findLatestBrowserContentId,
   countTokens,
 } from "../tokenCounter.js";
+import type { TokenizerModel } from "../tokenizers.js";
 import { getRuntimeSetting } from "../../config/runtimeSettings.js";
+import { costOf, recordUsage } from "../usageStore.js";
 import {
   createSnapshot,
   getActiveSnapshot,
@@ -70,6 +72,11 @@ function toMessagePart(
   const part: MessagePart = { role: m.role, content: m.content };
   if (m.images?.length) part.images = m.images;
   if (m.toolCalls?.length) part.toolCalls = m.toolCalls;
+  // Only signed reasoning is replayed; unsigned thinking is display-only.
+  if (m.reasoning && m.reasoningSignature) {
+    part.reasoning = m.reasoning;
+    part.reasoningSignature = m.reasoningSignature;
+  }
 
   if (m.toolResults?.length) {
     part.toolResults = m.toolResults.map((tr) => {
@@ -136,7 +143,7 @@ function formatForSummary(messages: ChatMessage[]): string {
 }
 
 /**
- * Get LLM-ready context for a session.
+ * Get LLM-ready context for a session's active branch.
  *
  * If the session has an active snapshot, returns:
  *   [summary as user/assistant pair] + [verbatim messages] + [messages after snapshot]
@@ -161,7 +168,7 @@ export async function getLLMContext(sessionId: string): Promise<MessagePart[]> {
 
   const result: MessagePart[] = [];
 
-  // 1. Summary as user/assistant pair
+  // 1. Summary as user/assistant pair (stable until the next compaction, so it ends a cache prefix)
   result.push({
     role: "user",
     content: `[Summary of conversation prior to the messages below]\n${snapshot.summary}`,
@@ -169,6 +176,7 @@ export async function getLLMContext(sessionId: string): Promise<MessagePart[]> {
   result.push({
     role: "assistant",
     content: "Understood. I have the context summary. The messages that follow continue from where the summary ends.",
+    cacheBreakpoint: true,
   });
 
   // 2. Verbatim messages from snapshot
@@ -232,7 +240,7 @@ export function buildHistoryFromDB(messages: ChatMessage[]): MessagePart[] {
   const compaction = messages[compactionIdx];
   const result: MessagePart[] = [];
 
-  // 1. Compaction summary as user/assistant pair
+  // 1. Compaction summary as user/assistant pair (cache prefix, see getLLMContext)
   result.push({
     role: "user",
     content: `[Summary of conversation prior to the messages below]\n${compaction.content}`,
@@ -240,6 +248,7 @@ export function buildHistoryFromDB(messages: ChatMessage[]): MessagePart[] {
   result.push({
     role: "assistant",
     content: "Understood. I have the context summary. The messages that follow continue from where the summary ends.",
+    cacheBreakpoint: true,
   });
 
   // 2. Verbatim tail
@@ -282,12 +291,14 @@ export function buildHistoryFromDB(messages: ChatMessage[]): MessagePart[] {
 }
 
 /**
- * Calculate which messages to keep verbatim based on token budget.
+ * Calculate which messages to keep verbatim based on token budget,
+ * counted with the tokenizer of the model the context is built for.
  */
 function calculateVerbatimMessages(
   messages: ChatMessage[],
   contextWindow: number,
   budgetPercent: number,
+  model: TokenizerModel,
 ): { summarize: ChatMessage[]; verbatim: ChatMessage[] } {
   if (!contextWindow || contextWindow <= 0 || messages.length < 4) {
     // Fallback: keep last 5 or half, whichever is smaller
@@ -310,7 +321,7 @@ function calculateVerbatimMessages(
   for (let i = messages.length - 1; i >= 0; i--) {
     if (messages.length - count <= 2) break; // Keep at least 2 for summary
 
-    const msgTokens = estimateMessageTokens(messages[i]);
+    const msgTokens = estimateMessageTokens(messages[i], model);
     if (tokensSoFar + msgTokens > budgetTokens) break;
 
     tokensSoFar += msgTokens;
@@ -373,10 +384,12 @@ export async function performCompaction(
   const budgetPercent = Number.isNaN(parsed) ? 40 : parsed;
 
   // Calculate which messages to summarize vs keep verbatim
+  const target: TokenizerModel = { id: model, provider: providerName };
   const { summarize: summarizeSet, verbatim: verbatimSet } = calculateVerbatimMessages(
     messages,
     contextWindow,
     budgetPercent,
+    target,
   );
 
   // Get current token count for trigger tracking
@@ -396,11 +409,11 @@ export async function performCompaction(
   );
 
   // Calculate token counts
-  const summaryTokenCount = countTokens(summary);
+  const summaryTokenCount = countTokens(summary, target);
   const latestBrowserContentId = findLatestBrowserContentId(verbatimSet);
   let verbatimTokenCount = 0;
   for (const msg of verbatimSet) {
-    verbatimTokenCount += estimateMessageTokensWithCollapsing(msg, latestBrowserContentId);
+    verbatimTokenCount += estimateMessageTokensWithCollapsing(msg, latestBrowserContentId, target);
   }
 
   // Create the snapshot
@@ -410,6 +423,7 @@ export async function performCompaction(
     summaryTokenCount,
     verbatimMessageIds: verbatimSet.map((m) => m.id),
     verbatimTokenCount,
+    leafMessageId: messages[messages.length - 1].id,
     triggerTokenCount: currentTokenCount || 0,
     modelUsed: model,
   };
@@ -438,13 +452,24 @@ export async function performCompaction(
       role: "compaction",
       content: summary + verbatimNote,
       timestamp: 0,
-    }),
+    }, target),
     rawTokenCount: usage?.outputTokens,
+    cost: usage ? costOf(providerName, model, usage) ?? undefined : undefined,
     displayType: "context_summary",
   };
 
   // Store the compaction message for UI display
   await addMessage(sessionId, compactionMsg);
+  if (usage) {
+    recordUsage({
+      sessionId,
+      messageId: compactionMsg.id,
+      provider: providerName,
+      model,
+      purpose: "compaction",
+      usage,
+    }).catch(console.error);
+  }
 
   return {
     snapshot,
@@ -470,7 +495,7 @@ export async function autoCompactIfNeeded(
   const thresholdStr = await getRuntimeSetting("context_compaction_threshold");
   const threshold = parseInt(thresholdStr, 10) || 90;
 
-  const modelInfo = AVAILABLE_MODELS.find((m) => m.id === model);
+  const modelInfo = findModel(`${provider}:${model}`);
   if (!modelInfo || modelInfo.contextWindow <= 0) return null;
 
   const totalTokens = usage.inputTokens + usage.outputTokens;
@@ -515,19 +540,26 @@ export function computeToolStatuses(
   const status = message.approvalStatus;
   const statuses: Record<string, "pending" | "executing" | "done" | "cancelled" | "waiting"> = {};
 
+  // Refused calls answer with an error but don't stop the calls after them
+  const refused = (id: string) =>
+    message.toolCallApprovals?.[id]?.status === "denied" ||
+    message.approvalDecisions?.[id]?.outcome === "deny";
+
   for (let i = 0; i < message.toolCalls.length; i++) {
     const tc = message.toolCalls[i];
     const result = results.find((r) => r.toolCallId === tc.id);
+    const verdict = message.toolCallApprovals?.[tc.id];
 
     if (result) {
       statuses[tc.id] = "done";
     } else if (status === "pending" && results.length === 0) {
-      statuses[tc.id] = "pending";
+      // Calls already decided wait for the rest of the round
+      statuses[tc.id] = !verdict ? "pending" : verdict.status === "denied" ? "cancelled" : "waiting";
     } else if (status === "denied") {
       statuses[tc.id] = "cancelled";
     } else {
       // Approved - check if a previous tool errored
-      const prevErrored = results.some((r) => r.isError);
+      const prevErrored = results.some((r) => r.isError && !refused(r.toolCallId));
       if (prevErrored) {
         statuses[tc.id] = "cancelled";
       } else if (i === results.length) {
@@ -1,6 +1,7 @@
 import { v4 as uuid } from "uuid";
 import type { ChatMessage, ToolCall, ToolResult } from "@vladbot/shared";
 import pool from "../db.js";
+import { ACTIVE_BRANCH_CTE } from "../sessionStore.js";
 
 /**
  * Represents a context snapshot - a pre-computed LLM context state after compaction.
@@ -13,6 +14,8 @@ export interface ContextSnapshot {
   summaryTokenCount: number;
   verbatimMessageIds: string[];
   verbatimTokenCount: number;
+  /** Last message the snapshot covers; the snapshot only applies to branches containing it. */
+  leafMessageId: string | null;
   totalTokenCount: number;
   triggerTokenCount: number;
   modelUsed: string;
@@ -27,6 +30,7 @@ export interface CreateSnapshotParams {
   summaryTokenCount: number;
   verbatimMessageIds: string[];
   verbatimTokenCount: number;
+  leafMessageId: string;
   triggerTokenCount: number;
   modelUsed: string;
 }
@@ -43,6 +47,7 @@ function rowToSnapshot(row: Record<string, unknown>): ContextSnapshot {
     summaryTokenCount: row.summary_token_count as number,
     verbatimMessageIds: (row.verbatim_message_ids as string[]) ?? [],
     verbatimTokenCount: row.verbatim_token_count as number,
+    leafMessageId: (row.leaf_message_id as string) ?? null,
     totalTokenCount: row.total_token_count as number,
     triggerTokenCount: row.trigger_token_count as number,
     modelUsed: row.model_used as string,
@@ -62,6 +67,8 @@ function rowToMessage(row: Record<string, unknown>): ChatMessage {
     timestamp: Number(row.timestamp),
     toolCalls: row.tool_calls ? (row.tool_calls as ToolCall[]) : undefined,
     toolResults: row.tool_results ? (row.tool_results as ToolResult[]) : undefined,
+    reasoning: (row.reasoning as string) ?? undefined,
+    reasoningSignature: (row.reasoning_signature as string) ?? undefined,
     approvalStatus: (row.approval_status as ChatMessage["approvalStatus"]) ?? undefined,
     verbatimCount: row.verbatim_count != null ? Number(row.verbatim_count) : undefined,
     tokenCount: row.token_count != null ? Number(row.token_count) : undefined,
@@ -79,8 +86,8 @@ export async function createSnapshot(params: CreateSnapshotParams): Promise<Cont
   const result = await pool.query(
     `INSERT INTO context_snapshots
      (id, session_id, summary, summary_token_count, verbatim_message_ids,
-      verbatim_token_count, total_token_count, trigger_token_count, model_used)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      verbatim_token_count, total_token_count, trigger_token_count, model_used, leaf_message_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
      RETURNING *`,
     [
       id,
@@ -92,6 +99,7 @@ export async function createSnapshot(params: CreateSnapshotParams): Promise<Cont
       totalTokenCount,
       params.triggerTokenCount,
       params.modelUsed,
+      params.leafMessageId,
     ],
   );
 
@@ -99,14 +107,17 @@ export async function createSnapshot(params: CreateSnapshotParams): Promise<Cont
 }
 
 /**
- * Get the active snapshot for a session.
- * Returns null if no snapshot exists (session never compacted).
+ * Get the active snapshot for a session: the newest snapshot taken on the
+ * session's active branch. Returns null if that branch was never compacted.
  */
 export async function getActiveSnapshot(sessionId: string): Promise<ContextSnapshot | null> {
   const result = await pool.query(
-    `SELECT cs.* FROM context_snapshots cs
-     JOIN sessions s ON s.active_snapshot_id = cs.id
-     WHERE s.id = $1`,
+    `${ACTIVE_BRANCH_CTE}
+     SELECT cs.* FROM context_snapshots cs
+     JOIN branch b ON b.id = cs.leaf_message_id
+     WHERE cs.session_id = $1
+     ORDER BY cs.created_at DESC
+     LIMIT 1`,
     [sessionId],
   );
 
@@ -136,7 +147,8 @@ export async function getMessagesByIds(ids: string[]): Promise<ChatMessage[]> {
   // Use array_position to maintain order
   const result = await pool.query(
     `SELECT id, session_id, role, content, images, model, tool_calls, tool_results,
-            approval_status, timestamp, verbatim_count, token_count, raw_token_count
+            approval_status, timestamp, verbatim_count, token_count, raw_token_count,
+            reasoning, reasoning_signature
      FROM messages
      WHERE id = ANY($1::uuid[])
      ORDER BY array_position($1::uuid[], id)`,
@@ -196,18 +208,20 @@ export async function incrementSessionTokenCount(sessionId: string, delta: numbe
 }
 
 /**
- * Get all messages for a session after a given timestamp.
+ * Get the messages on the session's active branch after a given timestamp.
  */
 export async function getMessagesAfterTimestamp(
   sessionId: string,
   timestamp: number,
 ): Promise<ChatMessage[]> {
   const result = await pool.query(
-    `SELECT id, session_id, role, content, images, model, tool_calls, tool_results,
-            approval_status, timestamp, verbatim_count, token_count, raw_token_count
-     FROM messages
-     WHERE session_id = $1 AND timestamp > $2
-     ORDER BY timestamp ASC`,
+    `${ACTIVE_BRANCH_CTE}
+     SELECT m.id, m.session_id, m.role, m.content, m.images, m.model, m.tool_calls, m.tool_results,
+            m.approval_status, m.timestamp, m.verbatim_count, m.token_count, m.raw_token_count,
+            m.reasoning, m.reasoning_signature
+     FROM messages m JOIN branch b ON b.id = m.id
+     WHERE m.timestamp > $2
+     ORDER BY m.timestamp ASC`,
     [sessionId, timestamp],
   );
 
@@ -37,6 +37,8 @@ await pool.query(`
   ALTER TABLE messages ADD COLUMN IF NOT EXISTS verbatim_count INTEGER;
   ALTER TABLE messages ADD COLUMN IF NOT EXISTS token_count INTEGER;
   ALTER TABLE messages ADD COLUMN IF NOT EXISTS raw_token_count INTEGER;
+  ALTER TABLE messages ADD COLUMN IF NOT EXISTS reasoning TEXT;
+  ALTER TABLE messages ADD COLUMN IF NOT EXISTS reasoning_signature TEXT;
 
   CREATE INDEX IF NOT EXISTS idx_messages_session_id ON messages(session_id);
   CREATE INDEX IF NOT EXISTS idx_messages_session_timestamp ON messages(session_id, timestamp);
@@ -69,6 +71,11 @@ await pool.query(`
   ALTER TABLE sessions ADD COLUMN IF NOT EXISTS model TEXT;
   ALTER TABLE sessions ADD COLUMN IF NOT EXISTS provider TEXT;
   ALTER TABLE sessions ADD COLUMN IF NOT EXISTS vision_model TEXT;
+  ALTER TABLE sessions ADD COLUMN IF NOT EXISTS fallback_models TEXT[] NOT NULL DEFAULT '{}';
+  ALTER TABLE sessions ADD COLUMN IF NOT EXISTS thinking_budget INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE sessions ADD COLUMN IF NOT EXISTS system_prompt TEXT NOT NULL DEFAULT '';
+  ALTER TABLE sessions ADD COLUMN IF NOT EXISTS sampling JSONB NOT NULL DEFAULT '{}';
+  ALTER TABLE sessions ADD COLUMN IF NOT EXISTS loop_limits JSONB NOT NULL DEFAULT '{}';
 
   -- Migrate old rows: merge provider + model into "provider:model" format
   UPDATE sessions
@@ -106,6 +113,138 @@ await pool.query(`
   -- Session columns for snapshot-based compaction
   ALTER TABLE sessions ADD COLUMN IF NOT EXISTS active_snapshot_id UUID REFERENCES context_snapshots(id);
   ALTER TABLE sessions ADD COLUMN IF NOT EXISTS current_token_count INTEGER NOT NULL DEFAULT 0;
+
+  -- Model registry (seeded from the built-in list on first start)
+  CREATE TABLE IF NOT EXISTS models (
+    provider TEXT NOT NULL,
+    model_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    context_window INTEGER NOT NULL,
+    native_vision BOOLEAN NOT NULL DEFAULT false,
+    max_output_tokens INTEGER,
+    input_price DOUBLE PRECISION,
+    output_price DOUBLE PRECISION,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (provider, model_id)
+  );
+
+  -- Usage ledger: one row per LLM call, including background calls (naming, compaction, sub-LLMs)
+  CREATE TABLE IF NOT EXISTS usage_ledger (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+    message_id UUID,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    purpose TEXT NOT NULL,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
+    cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
+    cost DOUBLE PRECISION,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_usage_ledger_created_at ON usage_ledger(created_at);
+  CREATE INDEX IF NOT EXISTS idx_usage_ledger_session ON usage_ledger(session_id);
+
+  ALTER TABLE messages ADD COLUMN IF NOT EXISTS cost DOUBLE PRECISION;
+
+  -- Personas: named presets (system prompt, model, sampling) applied when creating a session
+  CREATE TABLE IF NOT EXISTS personas (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL UNIQUE,
+    system_prompt TEXT NOT NULL DEFAULT '',
+    model TEXT NOT NULL DEFAULT '',
+    sampling JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  );
+
+  -- Message tree: regenerations and edits become sibling branches. The
+  -- session points at the last message of the branch being shown.
+  ALTER TABLE messages ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES messages(id) ON DELETE CASCADE;
+  ALTER TABLE sessions ADD COLUMN IF NOT EXISTS active_leaf_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+  ALTER TABLE context_snapshots ADD COLUMN IF NOT EXISTS leaf_message_id UUID;
+  CREATE INDEX IF NOT EXISTS idx_messages_parent ON messages(parent_id);
+
+  -- Migrate flat sessions: chain messages in timestamp order, end the branch at the newest.
+  -- Only sessions with no parent links at all are flat; a tree session whose
+  -- leaf was deleted keeps its branches.
+  UPDATE messages m
+    SET parent_id = chain.prev_id
+    FROM (
+      SELECT msg.id, LAG(msg.id) OVER (PARTITION BY msg.session_id ORDER BY msg.timestamp, msg.created_at) AS prev_id
+      FROM messages msg JOIN sessions s ON s.id = msg.session_id
+      WHERE s.active_leaf_id IS NULL
+        AND NOT EXISTS (SELECT 1 FROM messages linked WHERE linked.session_id = s.id AND linked.parent_id IS NOT NULL)
+    ) chain
+    WHERE m.id = chain.id AND chain.prev_id IS NOT NULL;
+
+  UPDATE sessions s
+    SET active_leaf_id = (
+      SELECT id FROM messages WHERE session_id = s.id ORDER BY timestamp DESC, created_at DESC LIMIT 1
+    )
+    WHERE s.active_leaf_id IS NULL;
+
+  UPDATE context_snapshots
+    SET leaf_message_id = verbatim_message_ids[array_length(verbatim_message_ids, 1)]
+    WHERE leaf_message_id IS NULL AND array_length(verbatim_message_ids, 1) > 0;
+
+  -- MCP servers whose tools are mounted at startup
+  CREATE TABLE IF NOT EXISTS mcp_servers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL UNIQUE,
+    transport TEXT NOT NULL,
+    command TEXT NOT NULL DEFAULT '',
+    args TEXT[] NOT NULL DEFAULT '{}',
+    env JSONB NOT NULL DEFAULT '{}',
+    url TEXT NOT NULL DEFAULT '',
+    headers JSONB NOT NULL DEFAULT '{}',
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  );
+
+  -- Tool approval rules: global (session_id NULL) or limited to one session
+  CREATE TABLE IF NOT EXISTS approval_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID REFERENCES sessions(id) ON DELETE CASCADE,
+    description TEXT NOT NULL DEFAULT '',
+    tool TEXT NOT NULL DEFAULT '*',
+    operation TEXT NOT NULL DEFAULT '*',
+    args JSONB NOT NULL DEFAULT '[]',
+    outcome TEXT NOT NULL CHECK (outcome IN ('allow', 'ask', 'deny')),
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  );
+  CREATE INDEX IF NOT EXISTS idx_approval_rules_session ON approval_rules(session_id);
+  ALTER TABLE messages ADD COLUMN IF NOT EXISTS approval_decisions JSONB;
+  ALTER TABLE messages ADD COLUMN IF NOT EXISTS tool_call_approvals JSONB;
+  ALTER TABLE messages ADD COLUMN IF NOT EXISTS loop_limit JSONB;
+  ALTER TABLE messages ADD COLUMN IF NOT EXISTS tool_call_previews JSONB;
+
+  -- Audit log: every tool call that ran, kept after its session is deleted
+  CREATE TABLE IF NOT EXISTS tool_executions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+    message_id UUID,
+    tool_call_id TEXT NOT NULL,
+    tool TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    arguments JSONB NOT NULL DEFAULT '{}',
+    started_at TIMESTAMPTZ NOT NULL,
+    finished_at TIMESTAMPTZ NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    outcome TEXT NOT NULL CHECK (outcome IN ('success', 'error', 'cancelled')),
+    output_bytes INTEGER NOT NULL DEFAULT 0,
+    approval_kind TEXT NOT NULL,
+    approved_by TEXT,
+    approval_rule_id UUID
+  );
+  CREATE INDEX IF NOT EXISTS idx_tool_executions_started_at ON tool_executions(started_at);
+  CREATE INDEX IF NOT EXISTS idx_tool_executions_session ON tool_executions(session_id);
 `);
 
 export default pool;
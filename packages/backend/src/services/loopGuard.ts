@@ -0,0 +1,191 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { LoopLimitHit, LoopLimits, TokenUsage, ToolCall, ToolResult } from "@vladbot/shared";
+import { getRuntimeSetting } from "../config/runtimeSettings.js";
+import { getSessionFilePath } from "./sessionFiles.js";
+
+/** Identical calls in a row, or unchanged screenshots in a row, that count as a stuck loop. */
+const REPEAT_COUNT = 3;
+/** Calls kept per turn for repetition detection. */
+const HISTORY_SIZE = 20;
+
+interface CallRecord {
+  name: string;
+  /** Tool name plus canonical arguments. */
+  signature: string;
+  /** Hash of the image the call returned, for screenshots. */
+  screen?: string;
+}
+
+/** One turn of the tool loop: from the user's message, or from the last "continue". */
+interface LoopTurn {
+  startedAt: number;
+  rounds: number;
+  tokens: number;
+  /** Rounds granted by "continue"; replaces the configured round limit. */
+  roundAllowance?: number;
+  calls: CallRecord[];
+  /** Why the turn looks stuck, once it does. */
+  repetition: string | null;
+}
+
+const turns = new Map<string, LoopTurn>();
+
+function newTurn(roundAllowance?: number): LoopTurn {
+  return { startedAt: Date.now(), rounds: 0, tokens: 0, roundAllowance, calls: [], repetition: null };
+}
+
+/** The session's turn; one is started if the server restarted mid-turn. */
+function turnOf(sessionId: string): LoopTurn {
+  let turn = turns.get(sessionId);
+  if (!turn) {
+    turn = newTurn();
+    turns.set(sessionId, turn);
+  }
+  return turn;
+}
+
+// ---------------------------------------------------------------------------
+// Repetition detection
+// ---------------------------------------------------------------------------
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function hash(data: string | Buffer): string {
+  return createHash("sha1").update(data).digest("hex");
+}
+
+/** Hash of the image in a screenshot-style result, inline or stored as a session file. */
+function screenOf(result: ToolResult | undefined): string | undefined {
+  if (!result || result.isError || !result.output.includes('"image_')) return undefined;
+  let parsed: { image_base64?: unknown; image_url?: unknown };
+  try {
+    parsed = JSON.parse(result.output);
+  } catch {
+    return undefined;
+  }
+  if (typeof parsed.image_base64 === "string") return hash(parsed.image_base64);
+  if (typeof parsed.image_url !== "string") return undefined;
+  const match = parsed.image_url.match(/\/api\/sessions\/([^/]+)\/files\/([^/]+)$/);
+  const filePath = match && getSessionFilePath(match[1], match[2]);
+  if (!filePath) return undefined;
+  try {
+    return hash(readFileSync(filePath));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A loop is stuck when the model repeats the same call with the same
+ * arguments, or keeps acting on a screen that doesn't change: the last
+ * screenshots are identical although other calls ran between them.
+ */
+function detectRepetition(calls: CallRecord[]): string | null {
+  const last = calls.slice(-REPEAT_COUNT);
+  if (last.length === REPEAT_COUNT && last.every((c) => c.signature === last[0].signature)) {
+    return `${last[0].name} was called ${REPEAT_COUNT} times in a row with the same arguments`;
+  }
+
+  const shots = calls
+    .map((call, index) => ({ screen: call.screen, index }))
+    .filter((s) => s.screen !== undefined)
+    .slice(-REPEAT_COUNT);
+  if (
+    shots.length === REPEAT_COUNT &&
+    shots.every((s, k) => s.screen === shots[0].screen && (k === 0 || s.index > shots[k - 1].index + 1))
+  ) {
+    return `The screen did not change across the last ${REPEAT_COUNT} screenshots, despite the actions in between`;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Start counting a new turn; called when a user message starts a reply. */
+export function startLoopTurn(sessionId: string): void {
+  turns.set(sessionId, newTurn());
+}
+
+/** Resume after a pause with `rounds` more rounds and fresh time and token budgets. */
+export function continueLoopTurn(sessionId: string, rounds: number): void {
+  turns.set(sessionId, newTurn(rounds));
+}
+
+/** Count one LLM call's tokens against the turn. */
+export function recordLoopUsage(sessionId: string, usage: TokenUsage | undefined): void {
+  if (!usage) return;
+  turnOf(sessionId).tokens += usage.inputTokens + usage.outputTokens;
+}
+
+/** Count an executed tool round and check it for repetition. */
+export function recordLoopRound(sessionId: string, toolCalls: ToolCall[], results: ToolResult[]): void {
+  const turn = turnOf(sessionId);
+  turn.rounds++;
+  for (const call of toolCalls) {
+    turn.calls.push({
+      name: call.name,
+      signature: `${call.name}:${canonicalJson(call.arguments)}`,
+      screen: screenOf(results.find((r) => r.toolCallId === call.id)),
+    });
+  }
+  turn.calls.splice(0, turn.calls.length - HISTORY_SIZE);
+  turn.repetition ??= detectRepetition(turn.calls);
+}
+
+/** The session's overrides filled in from the global settings. */
+export async function resolveLoopLimits(overrides: LoopLimits = {}): Promise<Required<LoopLimits>> {
+  const setting = async (key: "loop_max_rounds" | "loop_max_seconds" | "loop_max_tokens") => {
+    const value = Number(await getRuntimeSetting(key));
+    return Number.isFinite(value) && value >= 0 ? value : 0;
+  };
+  return {
+    maxRounds: overrides.maxRounds ?? await setting("loop_max_rounds"),
+    maxSeconds: overrides.maxSeconds ?? await setting("loop_max_seconds"),
+    maxTokens: overrides.maxTokens ?? await setting("loop_max_tokens"),
+  };
+}
+
+/**
+ * Whether the turn should pause before running another round on its own.
+ * Limits of 0 are off; a repetition pauses regardless of the limits.
+ */
+export function checkLoopLimits(sessionId: string, limits: Required<LoopLimits>): LoopLimitHit | null {
+  const turn = turnOf(sessionId);
+  const progress = { rounds: turn.rounds, elapsedMs: Date.now() - turn.startedAt, tokens: turn.tokens };
+  const maxRounds = turn.roundAllowance ?? limits.maxRounds;
+
+  if (turn.repetition) {
+    return { reason: "repetition", detail: turn.repetition, ...progress };
+  }
+  if (maxRounds > 0 && turn.rounds >= maxRounds) {
+    return { reason: "rounds", detail: `Reached the limit of ${maxRounds} tool round${maxRounds === 1 ? "" : "s"}`, ...progress };
+  }
+  if (limits.maxSeconds > 0 && progress.elapsedMs >= limits.maxSeconds * 1000) {
+    return { reason: "time", detail: `Ran for longer than ${limits.maxSeconds} seconds`, ...progress };
+  }
+  if (limits.maxTokens > 0 && turn.tokens >= limits.maxTokens) {
+    return {
+      reason: "tokens",
+      detail: `Used ${turn.tokens.toLocaleString("en-US")} of ${limits.maxTokens.toLocaleString("en-US")} tokens`,
+      ...progress,
+    };
+  }
+  return null;
+}
+
+/** Forget the session's turn (for session deletion / tests). */
+export function clearLoopTurn(sessionId: string): void {
+  turns.delete(sessionId);
+}
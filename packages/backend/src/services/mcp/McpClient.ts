@@ -0,0 +1,167 @@
+import type { JsonRpcMessage, McpTransport } from "./transports.js";
+
+export const MCP_PROTOCOL_VERSION = "2025-03-26";
+
+const REQUEST_TIMEOUT_MS = 60_000;
+/** Tool calls can legitimately run for minutes. */
+const TOOL_CALL_TIMEOUT_MS = 300_000;
+
+/** JSON Schema as MCP servers send it; only the parts we map are typed. */
+export interface McpJsonSchema {
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+  properties?: Record<string, McpJsonSchema>;
+  items?: McpJsonSchema;
+  required?: string[];
+}
+
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+  inputSchema?: McpJsonSchema;
+  annotations?: { readOnlyHint?: boolean };
+}
+
+export interface McpContent {
+  type: string;
+  text?: string;
+  /** Base64 payload of image and audio content. */
+  data?: string;
+  mimeType?: string;
+  uri?: string;
+  resource?: { uri: string; text?: string; mimeType?: string };
+}
+
+export interface McpCallResult {
+  content: McpContent[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Minimal MCP client: the initialize handshake, tool listing and tool calls.
+ * Requests still waiting when the transport drops are rejected.
+ */
+export class McpClient {
+  /** Fired when the server announces that its tool list changed. */
+  onToolsChanged?: () => void;
+  /** Fired once when the connection drops without `close()`. */
+  onClose?: (error: Error) => void;
+
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private closed = false;
+
+  constructor(private readonly transport: McpTransport) {}
+
+  async connect(): Promise<void> {
+    this.transport.onmessage = (msg) => this.handleMessage(msg);
+    this.transport.onclose = (error) => this.handleClose(error);
+    await this.transport.start();
+    await this.request("initialize", {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: "vladbot", version: "0.0.1" },
+    });
+    await this.transport.send({ jsonrpc: "2.0", method: "notifications/initialized" });
+  }
+
+  async listTools(): Promise<McpToolInfo[]> {
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = (await this.request("tools/list", cursor ? { cursor } : {})) as {
+        tools?: McpToolInfo[];
+        nextCursor?: string;
+      };
+      tools.push(...(page.tools ?? []));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<McpCallResult> {
+    const result = (await this.request(
+      "tools/call",
+      { name, arguments: args },
+      TOOL_CALL_TIMEOUT_MS,
+    )) as Partial<McpCallResult>;
+    return { ...result, content: result.content ?? [] };
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.rejectPending(new Error("MCP connection closed"));
+    await this.transport.close();
+  }
+
+  private request(
+    method: string,
+    params: Record<string, unknown>,
+    timeoutMs = REQUEST_TIMEOUT_MS,
+  ): Promise<unknown> {
+    if (this.closed) return Promise.reject(new Error("MCP connection closed"));
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`MCP request "${method}" timed out`));
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      this.transport.send({ jsonrpc: "2.0", id, method, params }).catch((err: unknown) => {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(err instanceof Error ? err : new Error(String(err)));
+      });
+    });
+  }
+
+  private handleMessage(msg: JsonRpcMessage): void {
+    // Response to one of our requests
+    if (msg.id !== undefined && !msg.method) {
+      const pending = this.pending.get(Number(msg.id));
+      if (!pending) return;
+      this.pending.delete(Number(msg.id));
+      clearTimeout(pending.timer);
+      if (msg.error) pending.reject(new Error(msg.error.message));
+      else pending.resolve(msg.result ?? {});
+      return;
+    }
+
+    if (msg.method === "notifications/tools/list_changed") {
+      this.onToolsChanged?.();
+      return;
+    }
+
+    // Server-to-client request: answer pings, refuse everything else
+    if (msg.id !== undefined && msg.method) {
+      const reply: JsonRpcMessage = msg.method === "ping"
+        ? { jsonrpc: "2.0", id: msg.id, result: {} }
+        : { jsonrpc: "2.0", id: msg.id, error: { code: -32601, message: `Method not supported: ${msg.method}` } };
+      this.transport.send(reply).catch(() => {});
+    }
+  }
+
+  private handleClose(error: Error): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.rejectPending(error);
+    this.onClose?.(error);
+  }
+
+  private rejectPending(error: Error): void {
+    for (const { reject, timer } of this.pending.values()) {
+      clearTimeout(timer);
+      reject(error);
+    }
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,157 @@
+import type { McpServerConfig, McpServerStatus } from "@vladbot/shared";
+import { registerTool, unregisterTool } from "../tools/ToolExecutor.js";
+import { listMcpServers } from "../mcpServerStore.js";
+import { McpClient } from "./McpClient.js";
+import { HttpTransport, StdioTransport, type McpTransport } from "./transports.js";
+import { buildMcpTool, mcpToolName } from "./mcpTool.js";
+
+const RECONNECT_BASE_DELAY_MS = 1_000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+
+interface Connection {
+  config: McpServerConfig;
+  client: McpClient | null;
+  status: McpServerStatus;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  reconnectDelay: number;
+  /** Bumped on stop so callbacks of a replaced client become no-ops. */
+  generation: number;
+}
+
+const connections = new Map<string, Connection>();
+const listeners = new Set<() => void>();
+
+/** Subscribe to tool registry and connection status changes. */
+export function onMcpChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notify(): void {
+  for (const listener of listeners) listener();
+}
+
+function createTransport(config: McpServerConfig): McpTransport {
+  return config.transport === "stdio"
+    ? new StdioTransport(config.command, config.args, config.env)
+    : new HttpTransport(config.url, config.headers);
+}
+
+function setStatus(conn: Connection, status: McpServerStatus): void {
+  conn.status = status;
+  notify();
+}
+
+async function refreshTools(conn: Connection, client: McpClient, generation: number): Promise<void> {
+  const tools = await client.listTools();
+  if (conn.generation !== generation) return;
+  registerTool(buildMcpTool(conn.config.name, tools, (name, args) => client.callTool(name, args)));
+  setStatus(conn, { state: "connected", toolCount: tools.length });
+}
+
+function scheduleReconnect(conn: Connection, generation: number): void {
+  if (conn.generation !== generation) return;
+  const delay = conn.reconnectDelay;
+  conn.reconnectDelay = Math.min(delay * 2, RECONNECT_MAX_DELAY_MS);
+  conn.reconnectTimer = setTimeout(() => {
+    conn.reconnectTimer = null;
+    void connect(conn);
+  }, delay);
+}
+
+async function connect(conn: Connection): Promise<void> {
+  const generation = conn.generation;
+  const transport = createTransport(conn.config);
+  const client = new McpClient(transport);
+  // Drops before the handshake completes surface as connect() failing
+  let established = false;
+  conn.client = client;
+  setStatus(conn, { state: "connecting", toolCount: 0 });
+
+  client.onClose = (error) => {
+    if (!established || conn.generation !== generation) return;
+    conn.client = null;
+    unregisterTool(mcpToolName(conn.config.name));
+    setStatus(conn, { state: "disconnected", toolCount: 0, error: error.message });
+    scheduleReconnect(conn, generation);
+  };
+  client.onToolsChanged = () => {
+    if (conn.generation !== generation) return;
+    refreshTools(conn, client, generation).catch((err) => {
+      console.error(`MCP server "${conn.config.name}": tool refresh failed:`, err);
+    });
+  };
+
+  try {
+    await client.connect();
+    if (transport instanceof HttpTransport) transport.listen();
+    await refreshTools(conn, client, generation);
+    established = true;
+    conn.reconnectDelay = RECONNECT_BASE_DELAY_MS;
+  } catch (err) {
+    await client.close().catch(() => {});
+    if (conn.generation !== generation) return;
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`MCP server "${conn.config.name}": connection failed: ${message}`);
+    conn.client = null;
+    setStatus(conn, { state: "disconnected", toolCount: 0, error: message });
+    scheduleReconnect(conn, generation);
+  }
+}
+
+async function stop(conn: Connection): Promise<void> {
+  conn.generation++;
+  if (conn.reconnectTimer) clearTimeout(conn.reconnectTimer);
+  conn.reconnectTimer = null;
+  unregisterTool(mcpToolName(conn.config.name));
+  const client = conn.client;
+  conn.client = null;
+  await client?.close().catch(() => {});
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Connect every enabled server from the store. Connections finish in the background. */
+export async function initMcpServers(): Promise<void> {
+  for (const config of await listMcpServers()) {
+    await applyMcpServer(config);
+  }
+}
+
+/** Start, restart or disable a server after its config was created or changed. */
+export async function applyMcpServer(config: McpServerConfig): Promise<void> {
+  const existing = connections.get(config.id);
+  if (existing) await stop(existing);
+
+  const conn: Connection = {
+    config,
+    client: null,
+    status: { state: "disabled", toolCount: 0 },
+    reconnectTimer: null,
+    reconnectDelay: RECONNECT_BASE_DELAY_MS,
+    generation: 0,
+  };
+  connections.set(config.id, conn);
+
+  if (config.enabled) void connect(conn);
+  else notify();
+}
+
+export async function removeMcpServer(id: string): Promise<void> {
+  const conn = connections.get(id);
+  if (!conn) return;
+  connections.delete(id);
+  await stop(conn);
+  notify();
+}
+
+export function getMcpServerStatus(id: string): McpServerStatus {
+  return connections.get(id)?.status ?? { state: "disabled", toolCount: 0 };
+}
+
+/** Close every connection (for graceful shutdown / tests). */
+export async function closeAllMcpServers(): Promise<void> {
+  for (const id of [...connections.keys()]) await removeMcpServer(id);
+}
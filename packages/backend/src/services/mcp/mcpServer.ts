@@ -0,0 +1,340 @@
+import { v4 as uuid } from "uuid";
+import type { ApprovalChange, ChatMessage, SSEEvent, ToolCall, ToolResult } from "@vladbot/shared";
+import {
+  executeToolCalls,
+  getToolDefinitions,
+  isReadOnlyToolCall,
+  validateToolCalls,
+} from "../tools/ToolExecutor.js";
+import { flattenToolsForLLM } from "../tools/buildToolDef.js";
+import {
+  addMessage,
+  atomicDeny,
+  createSession,
+  getMessages,
+  updateMessage,
+} from "../sessionStore.js";
+import { extractToolResultImage } from "../ai/toolResultImages.js";
+import { approverOf, evaluateApproval, policyDenial, previewForApproval, userDenial } from "../approvalPolicy.js";
+import { estimateMessageTokens } from "../tokenCounter.js";
+import { enrichMessageForDisplay } from "../context/index.js";
+import { MCP_PROTOCOL_VERSION, type McpCallResult, type McpContent, type McpToolInfo } from "./McpClient.js";
+import type { JsonRpcMessage } from "./transports.js";
+import { mcpToolName } from "./mcpTool.js";
+
+/** One connected MCP client. Its calls are recorded in a chat session of their own. */
+export interface McpServerSession {
+  id: string;
+  clientName: string;
+  /** Created on the first tool call; scopes files and screenshots. */
+  chatSessionId: string | null;
+  /** Assistant message IDs of this client's calls waiting for approval. */
+  pendingApprovals: Set<string>;
+}
+
+/** A call waiting for a human in the vladbot UI. */
+export interface McpApprovalWaiter {
+  /** Answer the call with the user's verdict (and the arguments as edited). */
+  settle(change: ApprovalChange): void;
+  /** Give up on the call; it is answered and recorded as expired. */
+  expire(reason: string): void;
+}
+
+type ApprovalVerdict = { change: ApprovalChange } | { expired: string };
+
+/** Prefix of the tool call IDs of MCP clients' calls. */
+const MCP_CALL_ID_PREFIX = "mcp_";
+/** How long a call waits for Approve/Deny before it is answered as expired. */
+const APPROVAL_TIMEOUT_MS = 15 * 60 * 1000;
+
+const sessions = new Map<string, McpServerSession>();
+/** Calls waiting for a human in the vladbot UI, keyed by assistant message ID. */
+const pendingApprovals = new Map<string, (verdict: ApprovalVerdict) => void>();
+const listeners = new Set<(sessionId: string, event: SSEEvent) => void>();
+
+/**
+ * Subscribe to events for the UI: `session_created` (on the "__sessions__"
+ * channel), and `new_message` / `branch_changed` for the MCP chat session.
+ */
+export function onMcpServerEvent(listener: (sessionId: string, event: SSEEvent) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function emit(sessionId: string, event: SSEEvent): void {
+  for (const listener of listeners) listener(sessionId, event);
+}
+
+export function getMcpServerSession(id: string): McpServerSession | undefined {
+  return sessions.get(id);
+}
+
+/** End a client's session; its calls still waiting for approval expire. */
+export function endMcpServerSession(id: string): boolean {
+  const session = sessions.get(id);
+  if (!session) return false;
+  sessions.delete(id);
+  for (const messageId of [...session.pendingApprovals]) {
+    claimMcpApproval(messageId)?.expire("the MCP session ended");
+  }
+  return true;
+}
+
+/** Whether the message records a tool call from an MCP client. */
+export function isMcpCallMessage(message: Pick<ChatMessage, "toolCalls">): boolean {
+  return message.toolCalls?.some((tc) => tc.id.startsWith(MCP_CALL_ID_PREFIX)) ?? false;
+}
+
+export function hasPendingMcpApproval(messageId: string): boolean {
+  return pendingApprovals.has(messageId);
+}
+
+/**
+ * Take over the MCP call waiting on `messageId`, so that exactly one of the
+ * approve and deny handlers and the expiry answers it. Undefined when no
+ * client is waiting (any more).
+ */
+export function claimMcpApproval(messageId: string): McpApprovalWaiter | undefined {
+  const resolve = pendingApprovals.get(messageId);
+  if (!resolve) return undefined;
+  pendingApprovals.delete(messageId);
+  return {
+    settle: (change) => resolve({ change }),
+    expire: (reason) => resolve({ expired: reason }),
+  };
+}
+
+/**
+ * Wake the MCP call waiting on `messageId` with the user's verdict, and the
+ * arguments as they edited them. Returns false when no client is waiting.
+ */
+export function resolveMcpApproval(messageId: string, change: ApprovalChange): boolean {
+  const waiter = claimMcpApproval(messageId);
+  waiter?.settle(change);
+  return waiter !== undefined;
+}
+
+/**
+ * Wait for the verdict on a call. It expires after APPROVAL_TIMEOUT_MS, when
+ * the client's request goes away (`signal`) or when its session ends.
+ */
+function waitForApproval(
+  session: McpServerSession,
+  messageId: string,
+  signal?: AbortSignal,
+): Promise<ApprovalVerdict> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(
+      () => claimMcpApproval(messageId)?.expire("nobody approved it in time"),
+      APPROVAL_TIMEOUT_MS,
+    );
+    const onAbort = () => claimMcpApproval(messageId)?.expire("the MCP client disconnected");
+    signal?.addEventListener("abort", onAbort, { once: true });
+    session.pendingApprovals.add(messageId);
+    pendingApprovals.set(messageId, (verdict) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      session.pendingApprovals.delete(messageId);
+      resolve(verdict);
+    });
+    if (signal?.aborted) onAbort();
+  });
+}
+
+/**
+ * Close an MCP call that will never run: it is marked denied and answered
+ * with an expiry error in its chat session. Does nothing once the message
+ * is no longer pending.
+ */
+export async function expireMcpApproval(chatSessionId: string, message: ChatMessage, reason: string): Promise<void> {
+  if (!(await atomicDeny(message.id))) return;
+  const results = (message.toolCalls ?? []).map((tc) => expiredResult(tc.id, reason));
+  await recordResults(chatSessionId, message, results);
+}
+
+function expiredResult(toolCallId: string, reason: string): ToolResult {
+  return { toolCallId, output: `Tool call expired: ${reason}`, isError: true };
+}
+
+// ---------------------------------------------------------------------------
+// Tools
+// ---------------------------------------------------------------------------
+
+/**
+ * vladbot's tools in flattened `{tool}_{operation}` form. Tools mounted from
+ * other MCP servers are left out so servers can't proxy each other in loops.
+ */
+export function listServedTools(): McpToolInfo[] {
+  const own = getToolDefinitions().filter((d) => !d.name.startsWith(mcpToolName("")));
+  return flattenToolsForLLM(own).map((t) => ({
+    name: t.name,
+    description: t.description,
+    inputSchema: t.parameters,
+    ...(isReadOnlyToolCall({ id: "", name: t.name, arguments: {} }) && {
+      annotations: { readOnlyHint: true },
+    }),
+  }));
+}
+
+async function ensureChatSession(session: McpServerSession): Promise<string> {
+  if (session.chatSessionId) return session.chatSessionId;
+  const chat = await createSession(`MCP: ${session.clientName}`);
+  session.chatSessionId = chat.id;
+  emit("__sessions__", { type: "session_created", data: chat });
+  return chat.id;
+}
+
+async function toCallResult(result: ToolResult): Promise<McpCallResult> {
+  const extracted = await extractToolResultImage(result.output);
+  const content: McpContent[] = [{ type: "text", text: extracted.text }];
+  if (extracted.imageBase64) {
+    content.push({ type: "image", data: extracted.imageBase64, mimeType: extracted.mimeType });
+  }
+  return { content, ...(result.isError && { isError: true }) };
+}
+
+async function recordResults(chatSessionId: string, message: ChatMessage, results: ToolResult[]): Promise<void> {
+  await updateMessage(message.id, { toolResults: results });
+  const toolMsg: ChatMessage = {
+    id: uuid(),
+    role: "tool",
+    content: "",
+    timestamp: Date.now(),
+    toolResults: results,
+  };
+  toolMsg.tokenCount = estimateMessageTokens(toolMsg);
+  await addMessage(chatSessionId, toolMsg);
+
+  const page = await getMessages(chatSessionId);
+  emit(chatSessionId, {
+    type: "branch_changed",
+    data: { messages: page.messages.map(enrichMessageForDisplay), hasMore: page.hasMore },
+  });
+}
+
+/**
+ * Run one tool call for an MCP client. The call is recorded as an assistant
+ * message in the client's chat session and goes through the approval policy
+ * like the agent's own calls: "ask" waits for Approve/Deny in the UI.
+ */
+export async function callServedTool(
+  session: McpServerSession,
+  name: string,
+  args: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<McpCallResult> {
+  let call: ToolCall = { id: `${MCP_CALL_ID_PREFIX}${uuid()}`, name, arguments: args };
+  const [invalid] = validateToolCalls([call]);
+  if (invalid) return { content: [{ type: "text", text: invalid.output }], isError: true };
+
+  const chatSessionId = await ensureChatSession(session);
+  const approvalDecisions = await evaluateApproval(chatSessionId, [call]);
+  let decision = approvalDecisions[call.id];
+  const message: ChatMessage = {
+    id: uuid(),
+    role: "assistant",
+    content: `Tool call from MCP client "${session.clientName}"`,
+    timestamp: Date.now(),
+    toolCalls: [call],
+    approvalStatus: decision.outcome === "ask" ? "pending" : "approved",
+    approvalDecisions,
+    ...(decision.outcome === "ask" && {
+      toolCallPreviews: await previewForApproval(chatSessionId, [call], approvalDecisions),
+    }),
+  };
+  message.tokenCount = estimateMessageTokens(message);
+  await addMessage(chatSessionId, message);
+  emit(chatSessionId, { type: "new_message", data: enrichMessageForDisplay(message) });
+
+  let toolCallApprovals: ChatMessage["toolCallApprovals"];
+  if (decision.outcome === "ask") {
+    const verdict = await waitForApproval(session, message.id, signal);
+    if ("expired" in verdict) {
+      await expireMcpApproval(chatSessionId, message, verdict.expired);
+      return { content: [{ type: "text", text: expiredResult(call.id, verdict.expired).output }], isError: true };
+    }
+    const { change } = verdict;
+    toolCallApprovals = change.toolCallApprovals;
+    const approval = change.toolCallApprovals?.[call.id];
+    // A denial is recorded by the deny handler itself
+    if (approval?.status !== "approved") {
+      return { content: [{ type: "text", text: userDenial(call.id, approval?.reason).output }], isError: true };
+    }
+    call = change.toolCalls?.find((tc) => tc.id === call.id) ?? call;
+    decision = change.approvalDecisions?.[call.id] ?? decision;
+  }
+
+  const results = decision.outcome === "deny"
+    ? [policyDenial(call.id, decision)]
+    : await executeToolCalls([call], chatSessionId, undefined, undefined, {
+        messageId: message.id,
+        approvers: { [call.id]: approverOf({ toolCallApprovals, approvalDecisions: { [call.id]: decision } }, call.id) },
+      });
+  await recordResults(chatSessionId, message, results);
+  return toCallResult(results[0]);
+}
+
+// ---------------------------------------------------------------------------
+// JSON-RPC
+// ---------------------------------------------------------------------------
+
+function reply(id: JsonRpcMessage["id"], result: unknown): JsonRpcMessage {
+  return { jsonrpc: "2.0", id, result };
+}
+
+function fail(id: JsonRpcMessage["id"], code: number, message: string): JsonRpcMessage {
+  return { jsonrpc: "2.0", id, error: { code, message } };
+}
+
+/** Handle `initialize`: registers a new client session. */
+export function initializeMcpServerSession(msg: JsonRpcMessage): { session: McpServerSession; response: JsonRpcMessage } {
+  const clientInfo = msg.params?.clientInfo as { name?: string } | undefined;
+  const session: McpServerSession = {
+    id: uuid(),
+    clientName: clientInfo?.name || "unknown client",
+    chatSessionId: null,
+    pendingApprovals: new Set(),
+  };
+  sessions.set(session.id, session);
+  return {
+    session,
+    response: reply(msg.id, {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: { tools: { listChanged: false } },
+      serverInfo: { name: "vladbot", version: "0.0.1" },
+    }),
+  };
+}
+
+/**
+ * Handle a request or notification from an initialized client. Returns null
+ * for notifications and responses, which need no reply. `signal` aborts when
+ * the client's HTTP request goes away.
+ */
+export async function handleMcpServerMessage(
+  session: McpServerSession,
+  msg: JsonRpcMessage,
+  signal?: AbortSignal,
+): Promise<JsonRpcMessage | null> {
+  if (msg.id === undefined || !msg.method) return null;
+
+  switch (msg.method) {
+    case "ping":
+      return reply(msg.id, {});
+    case "tools/list":
+      return reply(msg.id, { tools: listServedTools() });
+    case "tools/call": {
+      const name = msg.params?.name;
+      if (typeof name !== "string") return fail(msg.id, -32602, "Missing tool name");
+      const args = (msg.params?.arguments ?? {}) as Record<string, unknown>;
+      try {
+        return reply(msg.id, await callServedTool(session, name, args, signal));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Tool execution failed";
+        return reply(msg.id, { content: [{ type: "text", text: message }], isError: true });
+      }
+    }
+    default:
+      return fail(msg.id, -32601, `Method not found: ${msg.method}`);
+  }
+}
@@ -0,0 +1,124 @@
+import type { JsonSchemaProperty, OperationDef } from "@vladbot/shared";
+import type { Tool } from "../tools/ToolExecutor.js";
+import { saveSessionFile } from "../sessionFiles.js";
+import type { McpCallResult, McpContent, McpJsonSchema, McpToolInfo } from "./McpClient.js";
+
+const SCHEMA_TYPES = new Set(["string", "number", "boolean", "object", "array"]);
+
+/** Registry name of a server's tool; operations are the server's tools. */
+export function mcpToolName(serverName: string): string {
+  return `mcp_${serverName}`;
+}
+
+/** LLM function names allow only [a-zA-Z0-9_-]. */
+function toOperationName(toolName: string): string {
+  return toolName.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+/**
+ * Map a server-provided JSON Schema onto our subset: "integer" becomes
+ * "number", nullable unions keep their non-null type, untyped schemas are
+ * inferred from their shape.
+ */
+export function toJsonSchemaProperty(schema: McpJsonSchema): JsonSchemaProperty {
+  const declared = (Array.isArray(schema.type) ? schema.type : [schema.type])
+    .map((t) => (t === "integer" ? "number" : t))
+    .find((t): t is JsonSchemaProperty["type"] => !!t && SCHEMA_TYPES.has(t));
+  const type = declared ?? (schema.properties ? "object" : schema.items ? "array" : "string");
+
+  const prop: JsonSchemaProperty = { type };
+  if (schema.description) prop.description = schema.description;
+  if (schema.enum?.length && schema.enum.every((v) => typeof v === "string")) {
+    prop.enum = schema.enum as string[];
+  }
+  if (schema.properties) {
+    prop.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([k, v]) => [k, toJsonSchemaProperty(v)]),
+    );
+  }
+  if (schema.items) prop.items = toJsonSchemaProperty(schema.items);
+  if (schema.required?.length) prop.required = schema.required;
+  return prop;
+}
+
+function imageExtension(mimeType: string | undefined): string {
+  const subtype = mimeType?.split("/")[1] ?? "png";
+  return subtype === "jpeg" ? "jpg" : subtype.replace(/[^a-z0-9]/g, "") || "png";
+}
+
+/**
+ * Turn an MCP tool result into our tool output string. Text parts are
+ * joined; the first image follows the `image_url`/`image_base64` convention
+ * so providers attach it for the model. Error results throw.
+ */
+export function formatMcpResult(result: McpCallResult, sessionId?: string): string {
+  const texts: string[] = [];
+  const images: McpContent[] = [];
+  for (const part of result.content) {
+    if (part.type === "text" && part.text) texts.push(part.text);
+    else if (part.type === "image" && part.data) images.push(part);
+    else if (part.type === "resource" && part.resource) texts.push(part.resource.text ?? part.resource.uri);
+    else if (part.type === "resource_link" && part.uri) texts.push(part.uri);
+  }
+  if (texts.length === 0 && result.structuredContent !== undefined) {
+    texts.push(JSON.stringify(result.structuredContent));
+  }
+  const text = texts.join("\n");
+
+  if (result.isError) throw new Error(text || "MCP tool call failed");
+  if (images.length === 0) return text;
+
+  const [image] = images;
+  const output: Record<string, unknown> = { type: "mcp_result", text };
+  if (sessionId) {
+    const filename = saveSessionFile(sessionId, Buffer.from(image.data!, "base64"), imageExtension(image.mimeType));
+    output.image_url = `/api/sessions/${sessionId}/files/${filename}`;
+  } else {
+    output.image_base64 = `data:${image.mimeType ?? "image/png"};base64,${image.data}`;
+  }
+  if (images.length > 1) output.omitted_images = images.length - 1;
+  return JSON.stringify(output);
+}
+
+/**
+ * Wrap a connected server's tool list as one registry tool. `call` runs a
+ * tool by its original MCP name.
+ */
+export function buildMcpTool(
+  serverName: string,
+  tools: McpToolInfo[],
+  call: (toolName: string, args: Record<string, unknown>) => Promise<McpCallResult>,
+): Tool {
+  const operations: Record<string, OperationDef> = {};
+  const originalNames = new Map<string, string>();
+
+  for (const info of tools) {
+    const opName = toOperationName(info.name);
+    originalNames.set(opName, info.name);
+    const input = info.inputSchema ?? {};
+    const params = Object.fromEntries(
+      Object.entries(input.properties ?? {}).map(([k, v]) => [k, toJsonSchemaProperty(v)]),
+    );
+    operations[opName] = {
+      description: info.description || `${info.name} (from MCP server "${serverName}")`,
+      params,
+      ...(input.required?.length && { required: input.required }),
+      ...(info.annotations?.readOnlyHint && { readOnly: true }),
+    };
+  }
+
+  return {
+    definition: {
+      name: mcpToolName(serverName),
+      description: `Tools provided by the "${serverName}" MCP server.`,
+      operations,
+    },
+
+    async execute(args, sessionId) {
+      const { operation, ...rest } = args;
+      const toolName = originalNames.get(operation as string);
+      if (!toolName) throw new Error(`Unknown operation: ${String(operation)}`);
+      return formatMcpResult(await call(toolName, rest), sessionId);
+    },
+  };
+}
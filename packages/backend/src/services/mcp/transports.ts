@@ -0,0 +1,239 @@
+import { spawn, type ChildProcess } from "node:child_process";
+
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * A bidirectional JSON-RPC channel to an MCP server. `onclose` fires once
+ * when the connection drops on its own; `close()` does not trigger it.
+ */
+export interface McpTransport {
+  start(): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (error: Error) => void;
+}
+
+/** Lines of stderr kept to explain why a stdio server died. */
+const STDERR_TAIL_LINES = 20;
+
+// ---------------------------------------------------------------------------
+// stdio: newline-delimited JSON over a child process's stdin/stdout
+// ---------------------------------------------------------------------------
+
+export class StdioTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (error: Error) => void;
+
+  private child: ChildProcess | null = null;
+  private buffer = "";
+  private stderrTail: string[] = [];
+  private closing = false;
+
+  constructor(
+    private readonly command: string,
+    private readonly args: string[],
+    private readonly env: Record<string, string>,
+  ) {}
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, this.args, {
+        env: { ...process.env, ...this.env },
+        stdio: ["pipe", "pipe", "pipe"],
+      });
+      this.child = child;
+
+      child.once("spawn", () => resolve());
+      child.once("error", (err) => {
+        reject(err);
+        this.handleClose(err);
+      });
+      child.once("exit", (code, signal) => {
+        const reason = signal ? `signal ${signal}` : `code ${code}`;
+        const stderr = this.stderrTail.join("\n").trim();
+        this.handleClose(new Error(`MCP server exited with ${reason}${stderr ? `: ${stderr}` : ""}`));
+      });
+
+      child.stdout!.setEncoding("utf8");
+      child.stdout!.on("data", (chunk: string) => this.handleData(chunk));
+      child.stderr!.setEncoding("utf8");
+      child.stderr!.on("data", (chunk: string) => {
+        this.stderrTail.push(...chunk.split("\n").filter(Boolean));
+        this.stderrTail = this.stderrTail.slice(-STDERR_TAIL_LINES);
+      });
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const stdin = this.child?.stdin;
+    if (!stdin || stdin.destroyed) throw new Error("MCP server is not running");
+    await new Promise<void>((resolve, reject) => {
+      stdin.write(JSON.stringify(message) + "\n", (err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closing = true;
+    const child = this.child;
+    if (!child || child.exitCode !== null) return;
+    child.stdin?.end();
+    child.kill("SIGTERM");
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf("\n")) !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (!line) continue;
+      try {
+        this.onmessage?.(JSON.parse(line) as JsonRpcMessage);
+      } catch {
+        // Servers sometimes log to stdout; skip anything that isn't JSON-RPC
+      }
+    }
+  }
+
+  private handleClose(error: Error): void {
+    if (this.closing) return;
+    this.closing = true;
+    this.onclose?.(error);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Streamable HTTP: JSON-RPC POSTs answered with JSON or an SSE stream
+// ---------------------------------------------------------------------------
+
+export class HttpTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (error: Error) => void;
+
+  private sessionId: string | null = null;
+  private listener: AbortController | null = null;
+  private closing = false;
+
+  constructor(
+    private readonly url: string,
+    private readonly headers: Record<string, string>,
+  ) {}
+
+  async start(): Promise<void> {
+    // Nothing to open: the session starts with the initialize POST
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    let res: Response;
+    try {
+      res = await fetch(this.url, {
+        method: "POST",
+        headers: {
+          ...this.requestHeaders(),
+          "content-type": "application/json",
+          accept: "application/json, text/event-stream",
+        },
+        body: JSON.stringify(message),
+      });
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error("MCP server unreachable");
+      this.handleClose(error);
+      throw error;
+    }
+
+    const sessionId = res.headers.get("mcp-session-id");
+    if (sessionId) this.sessionId = sessionId;
+
+    if (!res.ok) {
+      const error = new Error(`MCP server responded with HTTP ${res.status}`);
+      // 404 on an established session means the server dropped it
+      if (res.status === 404 && this.sessionId) this.handleClose(error);
+      throw error;
+    }
+    if (res.status === 202 || !res.body) return;
+
+    const contentType = res.headers.get("content-type") ?? "";
+    if (contentType.includes("text/event-stream")) {
+      await this.readEventStream(res.body);
+    } else if (contentType.includes("application/json")) {
+      const body = (await res.json()) as JsonRpcMessage | JsonRpcMessage[];
+      for (const msg of Array.isArray(body) ? body : [body]) this.onmessage?.(msg);
+    }
+  }
+
+  /**
+   * Open the optional GET stream for server-initiated notifications such as
+   * tool list changes. Servers without one answer 405, which is fine.
+   */
+  listen(): void {
+    if (this.listener || this.closing) return;
+    const listener = new AbortController();
+    this.listener = listener;
+    fetch(this.url, {
+      method: "GET",
+      headers: { ...this.requestHeaders(), accept: "text/event-stream" },
+      signal: listener.signal,
+    })
+      .then((res) => (res.ok && res.body ? this.readEventStream(res.body) : undefined))
+      .catch(() => {})
+      .finally(() => {
+        if (this.listener === listener) this.listener = null;
+      });
+  }
+
+  async close(): Promise<void> {
+    this.closing = true;
+    this.listener?.abort();
+    if (!this.sessionId) return;
+    await fetch(this.url, { method: "DELETE", headers: this.requestHeaders() }).catch(() => {});
+  }
+
+  private requestHeaders(): Record<string, string> {
+    return {
+      ...this.headers,
+      ...(this.sessionId && { "mcp-session-id": this.sessionId }),
+    };
+  }
+
+  private async readEventStream(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let boundary: number;
+      while ((boundary = buffer.search(/\r?\n\r?\n/)) !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+        const data = block
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trimStart())
+          .join("\n");
+        if (!data) continue;
+        try {
+          this.onmessage?.(JSON.parse(data) as JsonRpcMessage);
+        } catch {
+          // Ignore keep-alives and malformed events
+        }
+      }
+    }
+  }
+
+  private handleClose(error: Error): void {
+    if (this.closing) return;
+    this.closing = true;
+    this.listener?.abort();
+    this.onclose?.(error);
+  }
+}
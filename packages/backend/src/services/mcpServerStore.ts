@@ -0,0 +1,98 @@
+import type { McpServerConfig, McpTransport } from "@vladbot/shared";
+import pool from "./db.js";
+
+export type McpServerFields = Omit<McpServerConfig, "id" | "createdAt" | "updatedAt">;
+
+// Helpers
+
+function rowToMcpServer(row: Record<string, unknown>): McpServerConfig {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    transport: row.transport as McpTransport,
+    command: (row.command as string) ?? "",
+    args: (row.args as string[] | null) ?? [],
+    env: (row.env as Record<string, string> | null) ?? {},
+    url: (row.url as string) ?? "",
+    headers: (row.headers as Record<string, string> | null) ?? {},
+    enabled: row.enabled as boolean,
+    createdAt: (row.created_at as Date).toISOString(),
+    updatedAt: (row.updated_at as Date).toISOString(),
+  };
+}
+
+// Public API
+
+export async function listMcpServers(): Promise<McpServerConfig[]> {
+  const result = await pool.query(`SELECT * FROM mcp_servers ORDER BY name`);
+  return result.rows.map(rowToMcpServer);
+}
+
+export async function getMcpServer(id: string): Promise<McpServerConfig | null> {
+  const result = await pool.query(`SELECT * FROM mcp_servers WHERE id = $1`, [id]);
+  return result.rows.length > 0 ? rowToMcpServer(result.rows[0]) : null;
+}
+
+/** Returns null when a server with the same name exists. */
+export async function createMcpServer(fields: McpServerFields): Promise<McpServerConfig | null> {
+  const result = await pool.query(
+    `INSERT INTO mcp_servers (name, transport, command, args, env, url, headers, enabled)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT (name) DO NOTHING
+     RETURNING *`,
+    [
+      fields.name,
+      fields.transport,
+      fields.command,
+      fields.args,
+      JSON.stringify(fields.env),
+      fields.url,
+      JSON.stringify(fields.headers),
+      fields.enabled,
+    ],
+  );
+  return result.rows.length > 0 ? rowToMcpServer(result.rows[0]) : null;
+}
+
+const COLUMNS: Record<keyof McpServerFields, string> = {
+  name: "name",
+  transport: "transport",
+  command: "command",
+  args: "args",
+  env: "env",
+  url: "url",
+  headers: "headers",
+  enabled: "enabled",
+};
+
+export async function updateMcpServer(
+  id: string,
+  updates: Partial<McpServerFields>,
+): Promise<McpServerConfig | null> {
+  const sets: string[] = [];
+  const values: unknown[] = [];
+  let idx = 1;
+
+  for (const [key, column] of Object.entries(COLUMNS) as [keyof McpServerFields, string][]) {
+    const value = updates[key];
+    if (value === undefined) continue;
+    sets.push(`${column} = $${idx++}`);
+    values.push(key === "env" || key === "headers" ? JSON.stringify(value) : value);
+  }
+  if (sets.length === 0) return null;
+
+  sets.push("updated_at = now()");
+  values.push(id);
+
+  const result = await pool.query(
+    `UPDATE mcp_servers SET ${sets.join(", ")} WHERE id = $${idx}
+     RETURNING *`,
+    values,
+  );
+  return result.rows.length > 0 ? rowToMcpServer(result.rows[0]) : null;
+}
+
+export async function deleteMcpServer(id: string): Promise<boolean> {
+  const result = await pool.query(`DELETE FROM mcp_servers WHERE id = $1`, [id]);
+  return (result.rowCount ?? 0) > 0;
+}
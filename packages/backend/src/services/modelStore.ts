@@ -0,0 +1,151 @@
+import type { ModelInfo } from "@vladbot/shared";
+import { AVAILABLE_MODELS, getModels, setModels } from "@vladbot/shared";
+import pool from "./db.js";
+import { getOpenAICompatibleModels } from "./ai/OpenAICompatibleProvider.js";
+import { getReplayModels } from "./ai/ReplayProvider.js";
+
+export interface ModelUpdate {
+  name?: string;
+  contextWindow?: number;
+  nativeVision?: boolean;
+  /** null clears the value. */
+  maxOutputTokens?: number | null;
+  inputPrice?: number | null;
+  outputPrice?: number | null;
+}
+
+// Helpers
+
+function rowToModel(row: Record<string, unknown>): ModelInfo {
+  return {
+    id: row.model_id as string,
+    name: row.name as string,
+    provider: row.provider as string,
+    contextWindow: Number(row.context_window),
+    nativeVision: row.native_vision as boolean,
+    maxOutputTokens: row.max_output_tokens != null ? Number(row.max_output_tokens) : undefined,
+    inputPrice: row.input_price != null ? Number(row.input_price) : undefined,
+    outputPrice: row.output_price != null ? Number(row.output_price) : undefined,
+  };
+}
+
+async function insertModel(model: ModelInfo): Promise<ModelInfo | null> {
+  const result = await pool.query(
+    `INSERT INTO models (provider, model_id, name, context_window, native_vision, max_output_tokens, input_price, output_price)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT (provider, model_id) DO NOTHING
+     RETURNING *`,
+    [
+      model.provider,
+      model.id,
+      model.name,
+      model.contextWindow,
+      model.nativeVision,
+      model.maxOutputTokens ?? null,
+      model.inputPrice ?? null,
+      model.outputPrice ?? null,
+    ],
+  );
+  return result.rows.length > 0 ? rowToModel(result.rows[0]) : null;
+}
+
+/** Re-read the table into the shared registry used by findModel(). */
+async function reloadRegistry(): Promise<ModelInfo[]> {
+  const result = await pool.query(`SELECT * FROM models ORDER BY created_at, name`);
+  const models = result.rows.map(rowToModel);
+  setModels(models);
+  return models;
+}
+
+// Public API
+
+/**
+ * Seed and load the model registry. Built-in models are inserted only into
+ * an empty table, so models deleted by the user stay deleted. Models declared
+ * through the environment (OpenAI-compatible endpoint, replay cassette) are
+ * always ensured.
+ */
+export async function initModelRegistry(): Promise<ModelInfo[]> {
+  const count = await pool.query(`SELECT COUNT(*)::int AS count FROM models`);
+  if ((count.rows[0].count as number) === 0) {
+    for (const model of AVAILABLE_MODELS) {
+      await insertModel(model);
+    }
+  }
+  for (const model of getOpenAICompatibleModels()) {
+    await insertModel(model);
+  }
+  for (const model of getReplayModels()) {
+    await insertModel(model);
+  }
+  return reloadRegistry();
+}
+
+export function listModels(): ModelInfo[] {
+  return getModels();
+}
+
+/** Returns null when a model with the same provider and ID already exists. */
+export async function createModel(model: ModelInfo): Promise<ModelInfo | null> {
+  const created = await insertModel(model);
+  if (created) await reloadRegistry();
+  return created;
+}
+
+export async function updateModel(
+  provider: string,
+  id: string,
+  updates: ModelUpdate,
+): Promise<ModelInfo | null> {
+  const sets: string[] = [];
+  const values: unknown[] = [];
+  let idx = 1;
+
+  if (updates.name !== undefined) {
+    sets.push(`name = $${idx++}`);
+    values.push(updates.name);
+  }
+  if (updates.contextWindow !== undefined) {
+    sets.push(`context_window = $${idx++}`);
+    values.push(updates.contextWindow);
+  }
+  if (updates.nativeVision !== undefined) {
+    sets.push(`native_vision = $${idx++}`);
+    values.push(updates.nativeVision);
+  }
+  if (updates.maxOutputTokens !== undefined) {
+    sets.push(`max_output_tokens = $${idx++}`);
+    values.push(updates.maxOutputTokens);
+  }
+  if (updates.inputPrice !== undefined) {
+    sets.push(`input_price = $${idx++}`);
+    values.push(updates.inputPrice);
+  }
+  if (updates.outputPrice !== undefined) {
+    sets.push(`output_price = $${idx++}`);
+    values.push(updates.outputPrice);
+  }
+  if (sets.length === 0) return null;
+
+  sets.push("updated_at = now()");
+  values.push(provider, id);
+
+  const result = await pool.query(
+    `UPDATE models SET ${sets.join(", ")} WHERE provider = $${idx} AND model_id = $${idx + 1}
+     RETURNING *`,
+    values,
+  );
+  if (result.rows.length === 0) return null;
+  await reloadRegistry();
+  return rowToModel(result.rows[0]);
+}
+
+export async function deleteModel(provider: string, id: string): Promise<boolean> {
+  const result = await pool.query(
+    `DELETE FROM models WHERE provider = $1 AND model_id = $2`,
+    [provider, id],
+  );
+  if ((result.rowCount ?? 0) === 0) return false;
+  await reloadRegistry();
+  return true;
+}
@@ -0,0 +1,90 @@
+import type { Persona, SamplingParams } from "@vladbot/shared";
+import pool from "./db.js";
+
+export interface PersonaFields {
+  name: string;
+  systemPrompt: string;
+  /** "provider:modelId", or "" to keep the default model. */
+  model: string;
+  sampling: SamplingParams;
+}
+
+// Helpers
+
+function rowToPersona(row: Record<string, unknown>): Persona {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    systemPrompt: (row.system_prompt as string) ?? "",
+    model: (row.model as string) ?? "",
+    sampling: (row.sampling as SamplingParams | null) ?? {},
+    createdAt: (row.created_at as Date).toISOString(),
+    updatedAt: (row.updated_at as Date).toISOString(),
+  };
+}
+
+// Public API
+
+export async function listPersonas(): Promise<Persona[]> {
+  const result = await pool.query(`SELECT * FROM personas ORDER BY name`);
+  return result.rows.map(rowToPersona);
+}
+
+export async function getPersona(id: string): Promise<Persona | null> {
+  const result = await pool.query(`SELECT * FROM personas WHERE id = $1`, [id]);
+  return result.rows.length > 0 ? rowToPersona(result.rows[0]) : null;
+}
+
+/** Returns null when a persona with the same name exists. */
+export async function createPersona(fields: PersonaFields): Promise<Persona | null> {
+  const result = await pool.query(
+    `INSERT INTO personas (name, system_prompt, model, sampling)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (name) DO NOTHING
+     RETURNING *`,
+    [fields.name, fields.systemPrompt, fields.model, JSON.stringify(fields.sampling)],
+  );
+  return result.rows.length > 0 ? rowToPersona(result.rows[0]) : null;
+}
+
+export async function updatePersona(
+  id: string,
+  updates: Partial<PersonaFields>,
+): Promise<Persona | null> {
+  const sets: string[] = [];
+  const values: unknown[] = [];
+  let idx = 1;
+
+  if (updates.name !== undefined) {
+    sets.push(`name = $${idx++}`);
+    values.push(updates.name);
+  }
+  if (updates.systemPrompt !== undefined) {
+    sets.push(`system_prompt = $${idx++}`);
+    values.push(updates.systemPrompt);
+  }
+  if (updates.model !== undefined) {
+    sets.push(`model = $${idx++}`);
+    values.push(updates.model);
+  }
+  if (updates.sampling !== undefined) {
+    sets.push(`sampling = $${idx++}`);
+    values.push(JSON.stringify(updates.sampling));
+  }
+  if (sets.length === 0) return null;
+
+  sets.push("updated_at = now()");
+  values.push(id);
+
+  const result = await pool.query(
+    `UPDATE personas SET ${sets.join(", ")} WHERE id = $${idx}
+     RETURNING *`,
+    values,
+  );
+  return result.rows.length > 0 ? rowToPersona(result.rows[0]) : null;
+}
+
+export async function deletePersona(id: string): Promise<boolean> {
+  const result = await pool.query(`DELETE FROM personas WHERE id = $1`, [id]);
+  return (result.rowCount ?? 0) > 0;
+}
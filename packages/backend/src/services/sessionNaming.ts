@@ -1,6 +1,7 @@
 import type { Session } from "@vladbot/shared";
 import { getProvider } from "./ai/ProviderFactory.js";
 import { updateSession } from "./sessionStore.js";
+import { recordUsage } from "./usageStore.js";
 
 /** Session IDs currently being named (prevents duplicate naming requests). */
 const namingInProgress = new Set<string>();
@@ -21,7 +22,7 @@ export async function generateSessionName(
 
   try {
     const provider = getProvider(providerName);
-    const { text } = await provider.generateResponse(
+    const { text, usage } = await provider.generateResponse(
       [
         {
           role: "user",
@@ -30,6 +31,9 @@ export async function generateSessionName(
       ],
       model,
     );
+    if (usage) {
+      recordUsage({ sessionId, provider: providerName, model, purpose: "session_name", usage }).catch(console.error);
+    }
 
     let name = text.trim();
     name = name.replace(/^["']+|["']+$/g, "");
@@ -1,9 +1,14 @@
 import { v4 as uuid } from "uuid";
 import type {
+  ApprovalDecision,
   ChatMessage,
+  LoopLimits,
+  SamplingParams,
   Session,
   SessionWithMessages,
+  TokenUsage,
   ToolCall,
+  ToolCallApproval,
   ToolResult,
 } from "@vladbot/shared";
 import pool from "./db.js";
@@ -18,6 +23,11 @@ function rowToSession(row: Record<string, unknown>): Session {
     autoApprove: row.auto_approve as boolean,
     model: (row.model as string) ?? "",
     visionModel: (row.vision_model as string) ?? "",
+    fallbackModels: (row.fallback_models as string[] | null) ?? [],
+    thinkingBudget: row.thinking_budget != null ? Number(row.thinking_budget) : 0,
+    systemPrompt: (row.system_prompt as string) ?? "",
+    sampling: (row.sampling as SamplingParams | null) ?? {},
+    loopLimits: (row.loop_limits as LoopLimits | null) ?? {},
     createdAt: (row.created_at as Date).toISOString(),
     updatedAt: (row.updated_at as Date).toISOString(),
   };
@@ -39,16 +49,47 @@ function rowToMessage(row: Record<string, unknown>): ChatMessage {
     toolResults: row.tool_results
       ? (row.tool_results as ToolResult[])
       : undefined,
+    reasoning: (row.reasoning as string) ?? undefined,
+    reasoningSignature: (row.reasoning_signature as string) ?? undefined,
     approvalStatus:
       (row.approval_status as ChatMessage["approvalStatus"]) ?? undefined,
+    parentId: (row.parent_id as string) ?? undefined,
+    siblingIds: Array.isArray(row.sibling_ids) && row.sibling_ids.length > 1
+      ? (row.sibling_ids as string[])
+      : undefined,
     llmRequest: row.llm_request ?? undefined,
     llmResponse: row.llm_response ?? undefined,
     verbatimCount: row.verbatim_count != null ? Number(row.verbatim_count) : undefined,
     tokenCount: row.token_count != null ? Number(row.token_count) : undefined,
     rawTokenCount: row.raw_token_count != null ? Number(row.raw_token_count) : undefined,
+    cost: row.cost != null ? Number(row.cost) : undefined,
+    approvalDecisions: (row.approval_decisions as ChatMessage["approvalDecisions"]) ?? undefined,
+    toolCallApprovals: (row.tool_call_approvals as ChatMessage["toolCallApprovals"]) ?? undefined,
+    loopLimit: (row.loop_limit as ChatMessage["loopLimit"]) ?? undefined,
+    toolCallPreviews: (row.tool_call_previews as ChatMessage["toolCallPreviews"]) ?? undefined,
   };
 }
 
+/**
+ * Recursive CTE `branch` with the messages on session $1's active branch:
+ * the active leaf and its ancestors.
+ */
+export const ACTIVE_BRANCH_CTE = `
+  WITH RECURSIVE branch AS (
+    SELECT m.id, m.parent_id FROM messages m
+      JOIN sessions s ON s.active_leaf_id = m.id
+      WHERE s.id = $1
+    UNION ALL
+    SELECT m.id, m.parent_id FROM messages m
+      JOIN branch b ON m.id = b.parent_id
+  )`;
+
+/** Alternative versions of a message: every message sharing its parent. */
+const SIBLING_IDS_COLUMN = `(
+    SELECT array_agg(s.id ORDER BY s.timestamp) FROM messages s
+    WHERE s.session_id = m.session_id AND s.parent_id IS NOT DISTINCT FROM m.parent_id
+  ) AS sibling_ids`;
+
 // Public API
 
 /**
@@ -58,19 +99,21 @@ export async function createSession(
   title: string = "New chat",
   model?: string,
   visionModel?: string,
+  systemPrompt: string = "",
+  sampling: SamplingParams = {},
 ): Promise<Session> {
   const id = uuid();
   const result = await pool.query(
-    `INSERT INTO sessions (id, title, model, vision_model) VALUES ($1, $2, $3, $4)
-     RETURNING id, title, auto_approve, model, vision_model, created_at, updated_at`,
-    [id, title, model ?? null, visionModel ?? null],
+    `INSERT INTO sessions (id, title, model, vision_model, system_prompt, sampling) VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id, title, auto_approve, model, vision_model, fallback_models, thinking_budget, system_prompt, sampling, loop_limits, created_at, updated_at`,
+    [id, title, model ?? null, visionModel ?? null, systemPrompt, JSON.stringify(sampling)],
   );
   return rowToSession(result.rows[0]);
 }
 
 export async function listSessions(): Promise<Session[]> {
   const result = await pool.query(
-    `SELECT id, title, auto_approve, model, vision_model, created_at, updated_at
+    `SELECT id, title, auto_approve, model, vision_model, fallback_models, thinking_budget, system_prompt, sampling, loop_limits, created_at, updated_at
      FROM sessions ORDER BY updated_at DESC`,
   );
   return result.rows.map(rowToSession);
@@ -78,20 +121,21 @@ export async function listSessions(): Promise<Session[]> {
 
 export async function getSession(id: string): Promise<SessionWithMessages | null> {
   const sessionResult = await pool.query(
-    `SELECT id, title, auto_approve, model, vision_model, token_usage, created_at, updated_at
+    `SELECT id, title, auto_approve, model, vision_model, fallback_models, thinking_budget, system_prompt, sampling, loop_limits, token_usage, created_at, updated_at
      FROM sessions WHERE id = $1`,
     [id],
   );
   if (sessionResult.rows.length === 0) return null;
 
   const session = rowToSession(sessionResult.rows[0]);
-  const rawTokenUsage = sessionResult.rows[0].token_usage as
-    | { inputTokens: number; outputTokens: number }
-    | null;
+  const rawTokenUsage = sessionResult.rows[0].token_usage as TokenUsage | null;
 
   const messagesResult = await pool.query(
-    `SELECT id, session_id, role, content, images, model, tool_calls, tool_results, approval_status, timestamp, llm_request, llm_response, verbatim_count, token_count, raw_token_count
-     FROM messages WHERE session_id = $1 ORDER BY timestamp ASC`,
+    `${ACTIVE_BRANCH_CTE}
+     SELECT m.id, m.session_id, m.parent_id, m.role, m.content, m.images, m.model, m.tool_calls, m.tool_results, m.approval_status, m.timestamp, m.llm_request, m.llm_response, m.verbatim_count, m.token_count, m.raw_token_count, m.reasoning, m.reasoning_signature, m.cost, m.approval_decisions, m.tool_call_approvals, m.loop_limit, m.tool_call_previews,
+            ${SIBLING_IDS_COLUMN}
+     FROM messages m JOIN branch b ON b.id = m.id
+     ORDER BY m.timestamp ASC`,
     [id],
   );
   const messages: ChatMessage[] = messagesResult.rows.map(rowToMessage);
@@ -108,20 +152,23 @@ export async function getMessages(
   opts: { before?: number; limit?: number } = {},
 ): Promise<{ messages: ChatMessage[]; hasMore: boolean }> {
   const limit = opts.limit ?? 30;
-  const conditions = ["session_id = $1"];
   const values: unknown[] = [sessionId];
+  let beforeClause = "";
 
   if (opts.before != null) {
-    conditions.push(`timestamp < $${values.length + 1}`);
     values.push(opts.before);
+    beforeClause = `WHERE m.timestamp < $${values.length}`;
   }
 
   values.push(limit + 1); // fetch one extra to determine hasMore
   const result = await pool.query(
-    `SELECT id, session_id, role, content, images, model, tool_calls, tool_results,
-            approval_status, timestamp, llm_request, llm_response, verbatim_count, token_count, raw_token_count
-     FROM messages WHERE ${conditions.join(" AND ")}
-     ORDER BY timestamp DESC
+    `${ACTIVE_BRANCH_CTE}
+     SELECT m.id, m.session_id, m.parent_id, m.role, m.content, m.images, m.model, m.tool_calls, m.tool_results,
+            m.approval_status, m.timestamp, m.llm_request, m.llm_response, m.verbatim_count, m.token_count, m.raw_token_count, m.reasoning, m.reasoning_signature, m.cost, m.approval_decisions, m.tool_call_approvals, m.loop_limit, m.tool_call_previews,
+            ${SIBLING_IDS_COLUMN}
+     FROM messages m JOIN branch b ON b.id = m.id
+     ${beforeClause}
+     ORDER BY m.timestamp DESC
      LIMIT $${values.length}`,
     values,
   );
@@ -137,7 +184,7 @@ export async function updateSessionTitle(
 ): Promise<Session | null> {
   const result = await pool.query(
     `UPDATE sessions SET title = $1, updated_at = now() WHERE id = $2
-     RETURNING id, title, auto_approve, model, vision_model, created_at, updated_at`,
+     RETURNING id, title, auto_approve, model, vision_model, fallback_models, thinking_budget, system_prompt, sampling, loop_limits, created_at, updated_at`,
     [title, id],
   );
   if (result.rows.length === 0) return null;
@@ -158,7 +205,17 @@ export async function getSessionAutoApprove(sessionId: string): Promise<boolean>
  */
 export async function updateSession(
   id: string,
-  updates: { title?: string; autoApprove?: boolean; model?: string; visionModel?: string },
+  updates: {
+    title?: string;
+    autoApprove?: boolean;
+    model?: string;
+    visionModel?: string;
+    fallbackModels?: string[];
+    thinkingBudget?: number;
+    systemPrompt?: string;
+    sampling?: SamplingParams;
+    loopLimits?: LoopLimits;
+  },
 ): Promise<Session | null> {
   const sets: string[] = [];
   const values: unknown[] = [];
@@ -180,6 +237,26 @@ export async function updateSession(
     sets.push(`vision_model = $${idx++}`);
     values.push(updates.visionModel);
   }
+  if (updates.fallbackModels !== undefined) {
+    sets.push(`fallback_models = $${idx++}`);
+    values.push(updates.fallbackModels);
+  }
+  if (updates.thinkingBudget !== undefined) {
+    sets.push(`thinking_budget = $${idx++}`);
+    values.push(updates.thinkingBudget);
+  }
+  if (updates.systemPrompt !== undefined) {
+    sets.push(`system_prompt = $${idx++}`);
+    values.push(updates.systemPrompt);
+  }
+  if (updates.sampling !== undefined) {
+    sets.push(`sampling = $${idx++}`);
+    values.push(JSON.stringify(updates.sampling));
+  }
+  if (updates.loopLimits !== undefined) {
+    sets.push(`loop_limits = $${idx++}`);
+    values.push(JSON.stringify(updates.loopLimits));
+  }
   if (sets.length === 0) return null;
 
   sets.push("updated_at = now()");
@@ -187,7 +264,7 @@ export async function updateSession(
 
   const result = await pool.query(
     `UPDATE sessions SET ${sets.join(", ")} WHERE id = $${idx}
-     RETURNING id, title, auto_approve, model, vision_model, created_at, updated_at`,
+     RETURNING id, title, auto_approve, model, vision_model, fallback_models, thinking_budget, system_prompt, sampling, loop_limits, created_at, updated_at`,
     values,
   );
   if (result.rows.length === 0) return null;
@@ -224,6 +301,37 @@ export async function getSessionVisionModel(
   return (result.rows[0].vision_model as string) ?? "";
 }
 
+/**
+ * Returns the session's reasoning token budget. 0 = thinking disabled
+ * (also returned when the session does not exist).
+ */
+export async function getSessionThinkingBudget(sessionId: string): Promise<number> {
+  const result = await pool.query(
+    `SELECT thinking_budget FROM sessions WHERE id = $1`,
+    [sessionId],
+  );
+  if (result.rows.length === 0) return 0;
+  return Number(result.rows[0].thinking_budget ?? 0);
+}
+
+/**
+ * Returns the session's system prompt override and sampling parameters.
+ * Empty values (also for a missing session) mean the global defaults apply.
+ */
+export async function getSessionGenerationSettings(
+  sessionId: string,
+): Promise<{ systemPrompt: string; sampling: SamplingParams }> {
+  const result = await pool.query(
+    `SELECT system_prompt, sampling FROM sessions WHERE id = $1`,
+    [sessionId],
+  );
+  if (result.rows.length === 0) return { systemPrompt: "", sampling: {} };
+  return {
+    systemPrompt: (result.rows[0].system_prompt as string) ?? "",
+    sampling: (result.rows[0].sampling as SamplingParams | null) ?? {},
+  };
+}
+
 export async function deleteSession(id: string): Promise<boolean> {
   const result = await pool.query(
     `DELETE FROM sessions WHERE id = $1 RETURNING id`,
@@ -238,7 +346,7 @@ export async function deleteSession(id: string): Promise<boolean> {
 
 export async function updateSessionTokenUsage(
   id: string,
-  tokenUsage: { inputTokens: number; outputTokens: number },
+  tokenUsage: TokenUsage,
 ): Promise<void> {
   await pool.query(
     `UPDATE sessions SET token_usage = $1, updated_at = now() WHERE id = $2`,
@@ -246,10 +354,13 @@ export async function updateSessionTokenUsage(
   );
 }
 
+/**
+ * Append a message to the session's active branch and make it the new leaf.
+ */
 export async function addMessage(sessionId: string, message: ChatMessage): Promise<string> {
   const result = await pool.query(
-    `INSERT INTO messages (id, session_id, role, content, images, model, tool_calls, tool_results, approval_status, timestamp, llm_request, llm_response, verbatim_count, token_count, raw_token_count)
-     VALUES (COALESCE($1, gen_random_uuid()), $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+    `INSERT INTO messages (id, session_id, parent_id, role, content, images, model, tool_calls, tool_results, approval_status, timestamp, llm_request, llm_response, verbatim_count, token_count, raw_token_count, reasoning, reasoning_signature, cost, approval_decisions, loop_limit, tool_call_previews)
+     VALUES (COALESCE($1, gen_random_uuid()), $2, (SELECT active_leaf_id FROM sessions WHERE id = $2), $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
      RETURNING id`,
     [
       message.id || null,
@@ -267,13 +378,51 @@ export async function addMessage(sessionId: string, message: ChatMessage): Promi
       message.verbatimCount ?? null,
       message.tokenCount ?? null,
       message.rawTokenCount ?? null,
+      message.reasoning || null,
+      message.reasoningSignature ?? null,
+      message.cost ?? null,
+      message.approvalDecisions ? JSON.stringify(message.approvalDecisions) : null,
+      message.loopLimit ? JSON.stringify(message.loopLimit) : null,
+      message.toolCallPreviews ? JSON.stringify(message.toolCallPreviews) : null,
     ],
   );
+  const id = result.rows[0].id as string;
   await pool.query(
-    `UPDATE sessions SET updated_at = now() WHERE id = $1`,
-    [sessionId],
+    `UPDATE sessions SET active_leaf_id = $2, updated_at = now() WHERE id = $1`,
+    [sessionId, id],
   );
-  return result.rows[0].id as string;
+  return id;
+}
+
+/**
+ * Point the session's active branch at `messageId`; null starts a new root
+ * branch. The next addMessage continues from there.
+ */
+export async function setActiveLeaf(sessionId: string, messageId: string | null): Promise<void> {
+  await pool.query(
+    `UPDATE sessions SET active_leaf_id = $2, updated_at = now() WHERE id = $1`,
+    [sessionId, messageId],
+  );
+}
+
+/**
+ * Follow the newest child from `messageId` down to a leaf. Returns null when
+ * the message does not belong to the session.
+ */
+export async function findNewestLeaf(sessionId: string, messageId: string): Promise<string | null> {
+  const result = await pool.query(
+    `WITH RECURSIVE path AS (
+       SELECT id, 0 AS depth FROM messages WHERE id = $1 AND session_id = $2
+       UNION ALL
+       SELECT child.id, path.depth + 1 FROM path
+       CROSS JOIN LATERAL (
+         SELECT id FROM messages WHERE parent_id = path.id ORDER BY timestamp DESC LIMIT 1
+       ) child
+     )
+     SELECT id FROM path ORDER BY depth DESC LIMIT 1`,
+    [messageId, sessionId],
+  );
+  return result.rows.length > 0 ? (result.rows[0].id as string) : null;
 }
 
 export async function deleteMessages(ids: string[]): Promise<void> {
@@ -447,6 +596,65 @@ export async function atomicApprove(messageId: string): Promise<boolean> {
   return (result.rowCount ?? 0) > 0;
 }
 
+/** Atomically move a message from "pending" to "denied". Same contract as atomicApprove. */
+export async function atomicDeny(messageId: string): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE messages SET approval_status = 'denied' WHERE id = $1 AND approval_status = 'pending'`,
+    [messageId],
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/** Replacement arguments for one call, recorded along with its approval. */
+export interface ToolCallEdit {
+  index: number;
+  arguments: Record<string, unknown>;
+  decision: ApprovalDecision;
+}
+
+/**
+ * Record verdicts for calls of a pending message. Calls that already have a
+ * verdict keep it, so two devices can't overwrite each other; `exclusive`
+ * names calls that must still be undecided for the update to happen at all.
+ * Returns the message's calls and verdicts afterwards, or null when the
+ * message isn't pending or an `exclusive` call was already decided.
+ */
+export async function recordToolCallApprovals(
+  messageId: string,
+  approvals: Record<string, ToolCallApproval>,
+  exclusive: string[] = [],
+  edit?: ToolCallEdit,
+): Promise<Pick<ChatMessage, "toolCalls" | "toolCallApprovals" | "approvalDecisions"> | null> {
+  const toolCallId = Object.keys(approvals)[0];
+  const result = await pool.query(
+    `UPDATE messages SET
+       tool_call_approvals = $2::jsonb || COALESCE(tool_call_approvals, '{}'::jsonb),
+       tool_calls = CASE WHEN $4::jsonb IS NULL THEN tool_calls
+         ELSE jsonb_set(tool_calls, ARRAY[$5::text, 'arguments'], $4::jsonb) END,
+       approval_decisions = CASE WHEN $6::jsonb IS NULL THEN approval_decisions
+         ELSE COALESCE(approval_decisions, '{}'::jsonb) || jsonb_build_object($7::text, $6::jsonb) END
+     WHERE id = $1 AND approval_status = 'pending'
+       AND NOT (COALESCE(tool_call_approvals, '{}'::jsonb) ?| $3::text[])
+     RETURNING tool_calls, tool_call_approvals, approval_decisions`,
+    [
+      messageId,
+      JSON.stringify(approvals),
+      exclusive,
+      edit ? JSON.stringify(edit.arguments) : null,
+      edit ? String(edit.index) : null,
+      edit ? JSON.stringify(edit.decision) : null,
+      toolCallId,
+    ],
+  );
+  if (result.rows.length === 0) return null;
+  const row = result.rows[0];
+  return {
+    toolCalls: row.tool_calls as ToolCall[],
+    toolCallApprovals: row.tool_call_approvals as Record<string, ToolCallApproval>,
+    approvalDecisions: (row.approval_decisions as ChatMessage["approvalDecisions"]) ?? undefined,
+  };
+}
+
 export async function updateMessage(
   messageId: string,
   updates: {
@@ -1,16 +1,23 @@
-import type { ClassifiedError, SSEEvent, ToolCall } from "@vladbot/shared";
+import type { ClassifiedError, PartialToolCall, SSEEvent, TokenUsage, ToolCall } from "@vladbot/shared";
 
 export interface ActiveStream {
+  /** Registry key: the session ID for the session's chat stream, see runStreamId for other runs. */
+  streamId: string;
   sessionId: string;
   assistantId: string;
   content: string;
+  /** Reasoning / thinking text streamed alongside the answer. */
+  reasoning: string;
+  reasoningSignature?: string;
   model: string;
   toolCalls: ToolCall[];
+  /** Tool calls whose arguments are still streaming, for snapshots of late subscribers. */
+  partialToolCalls: PartialToolCall[];
   hasToolCalls: boolean;
   done: boolean;
   aborted: boolean;
   error?: ClassifiedError;
-  usage?: { inputTokens: number; outputTokens: number };
+  usage?: TokenUsage;
   requestBody?: unknown;
   subscribers: Set<(event: SSEEvent) => void>;
   /** Monotonically increasing ID to prevent stale timers from killing newer streams. */
@@ -22,20 +29,32 @@ export interface ActiveStream {
 const streams = new Map<string, ActiveStream>();
 let nextGeneration = 0;
 
+/**
+ * Stream ID of a run that streams alongside the session's chat stream
+ * (e.g. a compare candidate), so both can be live at the same time.
+ */
+export function runStreamId(sessionId: string, runId: string): string {
+  return `${sessionId}:${runId}`;
+}
+
 export function createStream(
   sessionId: string,
   assistantId: string,
   model: string,
+  streamId = sessionId,
 ): ActiveStream {
-  // If there's already a stream for this session, clean it up
-  streams.delete(sessionId);
+  // If there's already a stream under this ID, clean it up
+  streams.delete(streamId);
 
   const stream: ActiveStream = {
+    streamId,
     sessionId,
     assistantId,
     content: "",
+    reasoning: "",
     model,
     toolCalls: [],
+    partialToolCalls: [],
     hasToolCalls: false,
     done: false,
     aborted: false,
@@ -43,22 +62,25 @@ export function createStream(
     generation: ++nextGeneration,
     abortController: new AbortController(),
   };
-  streams.set(sessionId, stream);
+  streams.set(streamId, stream);
   return stream;
 }
 
-export function getStream(sessionId: string): ActiveStream | undefined {
-  return streams.get(sessionId);
+export function getStream(streamId: string): ActiveStream | undefined {
+  return streams.get(streamId);
 }
 
-export function pushEvent(sessionId: string, event: SSEEvent): void {
-  const stream = streams.get(sessionId);
+export function pushEvent(streamId: string, event: SSEEvent): void {
+  const stream = streams.get(streamId);
   if (!stream) {
     return;
   }
 
   // If stream was aborted, don't accumulate any more content
-  if (stream.aborted && event.type === "token") {
+  if (
+    stream.aborted &&
+    (event.type === "token" || event.type === "thinking" || event.type === "tool_call_delta")
+  ) {
     return;
   }
 
@@ -67,8 +89,20 @@ export function pushEvent(sessionId: string, event: SSEEvent): void {
     case "token":
       stream.content += event.data;
       break;
+    case "thinking":
+      stream.reasoning += event.data.text;
+      if (event.data.signature) stream.reasoningSignature = event.data.signature;
+      break;
+    case "tool_call_delta": {
+      const { id, name, delta } = event.data;
+      const partial = stream.partialToolCalls.find((tc) => tc.id === id);
+      if (partial) partial.arguments += delta;
+      else stream.partialToolCalls.push({ id, name, arguments: delta });
+      break;
+    }
     case "tool_call":
       stream.toolCalls.push(event.data);
+      stream.partialToolCalls = stream.partialToolCalls.filter((tc) => tc.id !== event.data.id);
       break;
     case "done":
       stream.hasToolCalls = event.data.hasToolCalls;
@@ -81,6 +115,17 @@ export function pushEvent(sessionId: string, event: SSEEvent): void {
     case "usage":
       stream.usage = event.data;
       break;
+    case "retrying":
+      // The failed attempt's partial output is discarded; the retry starts clean
+      stream.model = event.data.model;
+      stream.content = "";
+      stream.reasoning = "";
+      stream.reasoningSignature = undefined;
+      stream.toolCalls = [];
+      stream.partialToolCalls = [];
+      stream.usage = undefined;
+      stream.requestBody = undefined;
+      break;
     case "debug":
       if (event.data.direction === "request") {
         stream.requestBody = event.data.body;
@@ -94,27 +139,27 @@ export function pushEvent(sessionId: string, event: SSEEvent): void {
   }
 }
 
-export function removeStream(sessionId: string): void {
-  const stream = streams.get(sessionId);
+export function removeStream(streamId: string): void {
+  const stream = streams.get(streamId);
   if (stream) {
     stream.subscribers.clear();
-    streams.delete(sessionId);
+    streams.delete(streamId);
   }
 }
 
 /**
  * Schedule stream removal after a delay. The removal is cancelled if a
- * newer stream has been created for the same session in the meantime
+ * newer stream has been created under the same ID in the meantime
  * (checked via generation counter).
  */
-export function scheduleRemoval(sessionId: string, delayMs = 10_000): void {
-  const stream = streams.get(sessionId);
+export function scheduleRemoval(streamId: string, delayMs = 10_000): void {
+  const stream = streams.get(streamId);
   if (!stream) return;
   const expectedGen = stream.generation;
   setTimeout(() => {
-    const current = streams.get(sessionId);
+    const current = streams.get(streamId);
     if (current && current.generation === expectedGen) {
-      removeStream(sessionId);
+      removeStream(streamId);
     }
   }, delayMs);
 }
@@ -126,15 +171,18 @@ export function scheduleRemoval(sessionId: string, delayMs = 10_000): void {
  * Returns the stream or null if no active stream exists.
  */
 export function continueStream(
-  sessionId: string,
+  streamId: string,
   newAssistantId: string,
 ): ActiveStream | null {
-  const stream = streams.get(sessionId);
+  const stream = streams.get(streamId);
   if (!stream) return null;
 
   stream.assistantId = newAssistantId;
   stream.content = "";
+  stream.reasoning = "";
+  stream.reasoningSignature = undefined;
   stream.toolCalls = [];
+  stream.partialToolCalls = [];
   stream.hasToolCalls = false;
   stream.done = false;
   stream.error = undefined;
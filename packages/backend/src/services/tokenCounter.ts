@@ -1,25 +1,90 @@
-import { encoding_for_model } from "tiktoken";
-import type { ChatMessage, ToolResult } from "@vladbot/shared";
+import type { ChatMessage, TokenUsage, ToolResult } from "@vladbot/shared";
+import { findModel } from "@vladbot/shared";
+import { getTokenizer, type TokenizerModel } from "./tokenizers.js";
 
-const encoder = encoding_for_model("gpt-4");
+/** Calibration only learns from responses at least this long; short ones are noise. */
+const MIN_CALIBRATION_TOKENS = 20;
+/** Weight of the newest observation in the running calibration factor. */
+const CALIBRATION_ALPHA = 0.2;
+/** Bounds for a single observation's actual/estimated ratio. */
+const MIN_RATIO = 0.5;
+const MAX_RATIO = 2;
 
-export function countTokens(text: string): number {
-  return encoder.encode(text).length;
+/** Per-model correction factor ("provider:modelId" → actual/estimated tokens). */
+const calibration = new Map<string, number>();
+
+function modelKey(model: TokenizerModel): string {
+  return `${model.provider}:${model.id}`;
+}
+
+export function getCalibrationFactor(model?: TokenizerModel): number {
+  return (model && calibration.get(modelKey(model))) ?? 1;
 }
 
 /**
- * Estimate token count of a message's text content (excluding images).
- * Counts content + serialized tool calls + serialized tool results.
+ * Count text tokens with the model's tokenizer, scaled by its calibration.
+ * Without a model this is the plain GPT-4 count.
  */
-export function estimateMessageTokens(msg: ChatMessage): number {
-  let text = msg.content;
+export function countTokens(text: string, model?: TokenizerModel): number {
+  if (!text) return 0;
+  const raw = getTokenizer(model).countText(text);
+  return model ? Math.round(raw * getCalibrationFactor(model)) : raw;
+}
+
+/** Image tokens for a message, counted only when the model sees images itself. */
+function imageTokens(msg: ChatMessage, model?: TokenizerModel): number {
+  if (!model || !msg.images?.length) return 0;
+  if (!findModel(modelKey(model))?.nativeVision) return 0;
+  return msg.images.length * getTokenizer(model).imageTokens;
+}
+
+/**
+ * Estimate token count of a message as sent to `model`.
+ * Counts content + serialized tool calls + serialized tool results, plus
+ * reasoning when it is replayed to the provider, plus attached images for
+ * vision models.
+ */
+export function estimateMessageTokens(msg: ChatMessage, model?: TokenizerModel): number {
+  let text = msg.content + replayedReasoning(msg);
   if (msg.toolCalls) {
     text += JSON.stringify(msg.toolCalls);
   }
   if (msg.toolResults) {
     text += JSON.stringify(msg.toolResults);
   }
-  return countTokens(text);
+  return countTokens(text, model) + imageTokens(msg, model);
+}
+
+/**
+ * Reconcile the estimate for a generated message with the output tokens the
+ * provider reported, nudging the model's calibration factor. Responses with
+ * reasoning are skipped: their billed thinking tokens are not all visible.
+ */
+export function reconcileUsage(
+  model: TokenizerModel,
+  msg: Pick<ChatMessage, "content" | "toolCalls" | "reasoning">,
+  usage?: TokenUsage,
+): void {
+  if (!usage?.outputTokens || msg.reasoning) return;
+  let text = msg.content;
+  if (msg.toolCalls?.length) {
+    text += JSON.stringify(msg.toolCalls);
+  }
+  const estimated = getTokenizer(model).countText(text);
+  if (estimated < MIN_CALIBRATION_TOKENS) return;
+
+  const ratio = Math.min(MAX_RATIO, Math.max(MIN_RATIO, usage.outputTokens / estimated));
+  const key = modelKey(model);
+  const previous = calibration.get(key);
+  calibration.set(key, previous === undefined ? ratio : previous + CALIBRATION_ALPHA * (ratio - previous));
+}
+
+/**
+ * Reasoning only takes context space when the provider requires it to be
+ * sent back (signed thinking blocks); otherwise it is display-only.
+ */
+function replayedReasoning(msg: ChatMessage): string {
+  return msg.reasoning && msg.reasoningSignature ? msg.reasoning : "";
 }
 
 /**
@@ -72,8 +137,9 @@ export function findLatestBrowserContentId(messages: ChatMessage[]): string | un
 export function estimateMessageTokensWithCollapsing(
   msg: ChatMessage,
   latestBrowserContentId?: string,
+  model?: TokenizerModel,
 ): number {
-  let text = msg.content;
+  let text = msg.content + replayedReasoning(msg);
   if (msg.toolCalls) {
     text += JSON.stringify(msg.toolCalls);
   }
@@ -85,5 +151,5 @@ export function estimateMessageTokensWithCollapsing(
     });
     text += JSON.stringify(collapsedResults);
   }
-  return countTokens(text);
+  return countTokens(text, model) + imageTokens(msg, model);
 }
@@ -0,0 +1,56 @@
+import { get_encoding, type Tiktoken } from "tiktoken";
+import type { ModelInfo } from "@vladbot/shared";
+
+export type TokenizerModel = Pick<ModelInfo, "id" | "provider">;
+
+/**
+ * Local token estimate for one provider's models. Estimates are refined per
+ * model by tokenCounter's calibration against provider-reported usage, so a
+ * tokenizer only has to be close, not exact.
+ */
+export interface Tokenizer {
+  countText(text: string): number;
+  /** Estimated prompt tokens for one attached image. */
+  imageTokens: number;
+}
+
+const encoders = new Map<string, Tiktoken>();
+
+function encoder(name: "cl100k_base" | "o200k_base"): Tiktoken {
+  let enc = encoders.get(name);
+  if (!enc) {
+    enc = get_encoding(name);
+    encoders.set(name, enc);
+  }
+  return enc;
+}
+
+function tiktokenTokenizer(encoding: "cl100k_base" | "o200k_base", imageTokens: number): Tokenizer {
+  return {
+    countText: (text) => encoder(encoding).encode(text).length,
+    imageTokens,
+  };
+}
+
+/** The GPT-4 encoder; used for unknown providers and model-agnostic counts. */
+export const DEFAULT_TOKENIZER = tiktokenTokenizer("cl100k_base", 765);
+
+// Claude and Gemini tokenizers are not published; cl100k is the closest
+// local approximation and calibration corrects the systematic offset.
+// Image figures: Claude ~1600 for a full-size image (w*h/750, capped),
+// Gemini a flat 258, OpenAI-style high detail 765 for 1024x1024.
+const tokenizers = new Map<string, Tokenizer>([
+  ["anthropic", tiktokenTokenizer("cl100k_base", 1600)],
+  ["gemini", tiktokenTokenizer("cl100k_base", 258)],
+  ["deepseek", tiktokenTokenizer("cl100k_base", 765)],
+  ["openai-compatible", tiktokenTokenizer("o200k_base", 765)],
+]);
+
+/** Register or replace the tokenizer for a provider. */
+export function registerTokenizer(provider: string, tokenizer: Tokenizer): void {
+  tokenizers.set(provider, tokenizer);
+}
+
+export function getTokenizer(model?: TokenizerModel): Tokenizer {
+  return (model && tokenizers.get(model.provider)) ?? DEFAULT_TOKENIZER;
+}
@@ -0,0 +1,104 @@
+import type {
+  ToolCallApprover,
+  ToolExecution,
+  ToolExecutionFilter,
+  ToolExecutionOutcome,
+  ToolExecutionPage,
+} from "@vladbot/shared";
+import pool from "./db.js";
+import type { ToolAuditEntry } from "./tools/ToolExecutor.js";
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Append a tool call to the audit log. A session ID that isn't a stored
+ * session (the Tools page may pass anything) is logged as no session.
+ * Callers fire-and-forget with .catch().
+ */
+export async function recordToolExecution(entry: ToolAuditEntry): Promise<void> {
+  await pool.query(
+    `INSERT INTO tool_executions (session_id, message_id, tool_call_id, tool, operation, arguments,
+                                  started_at, finished_at, duration_ms, outcome, output_bytes,
+                                  approval_kind, approved_by, approval_rule_id)
+     VALUES ((SELECT id FROM sessions WHERE id::text = $1), $2, $3, $4, $5, $6,
+             to_timestamp($7 / 1000.0), to_timestamp($8 / 1000.0), $9, $10, $11, $12, $13, $14)`,
+    [
+      entry.sessionId ?? null,
+      entry.messageId ?? null,
+      entry.toolCallId,
+      entry.tool,
+      entry.operation,
+      JSON.stringify(entry.arguments),
+      entry.startedAt,
+      entry.finishedAt,
+      Math.max(0, Math.round(entry.finishedAt - entry.startedAt)),
+      entry.outcome,
+      entry.outputBytes,
+      entry.approval.kind,
+      entry.approval.by ?? null,
+      entry.approval.ruleId ?? null,
+    ],
+  );
+}
+
+function rowToExecution(row: Record<string, unknown>): ToolExecution {
+  const approval: ToolCallApprover = { kind: row.approval_kind as ToolCallApprover["kind"] };
+  if (row.approved_by) approval.by = row.approved_by as string;
+  if (row.approval_rule_id) approval.ruleId = row.approval_rule_id as string;
+  return {
+    id: row.id as string,
+    sessionId: (row.session_id as string) ?? null,
+    sessionTitle: (row.session_title as string) ?? null,
+    messageId: (row.message_id as string) ?? null,
+    toolCallId: row.tool_call_id as string,
+    tool: row.tool as string,
+    operation: row.operation as string,
+    arguments: (row.arguments as Record<string, unknown>) ?? {},
+    startedAt: new Date(row.started_at as string).getTime(),
+    finishedAt: new Date(row.finished_at as string).getTime(),
+    durationMs: Number(row.duration_ms),
+    outcome: row.outcome as ToolExecutionOutcome,
+    outputBytes: Number(row.output_bytes),
+    approval,
+  };
+}
+
+/** Logged tool calls matching `filter`, newest first. */
+export async function listToolExecutions(
+  filter: ToolExecutionFilter & { limit?: number; offset?: number },
+): Promise<ToolExecutionPage> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const where = (sql: (param: string) => string, value: unknown) => {
+    params.push(value);
+    conditions.push(sql(`$${params.length}`));
+  };
+
+  if (filter.sessionId) where((p) => `e.session_id::text = ${p}`, filter.sessionId);
+  if (filter.tool) where((p) => `e.tool = ${p}`, filter.tool);
+  if (filter.operation) where((p) => `e.operation = ${p}`, filter.operation);
+  if (filter.outcome) where((p) => `e.outcome = ${p}`, filter.outcome);
+  if (filter.approval) where((p) => `e.approval_kind = ${p}`, filter.approval);
+  if (filter.search) {
+    const pattern = `%${filter.search.replace(/[\\%_]/g, "\\$&")}%`;
+    where((p) => `e.arguments::text ILIKE ${p}`, pattern);
+  }
+  if (filter.from) where((p) => `e.started_at >= ${p}::date`, filter.from);
+  if (filter.to) where((p) => `e.started_at < ${p}::date`, filter.to);
+
+  params.push(filter.limit ?? DEFAULT_PAGE_SIZE, filter.offset ?? 0);
+  const result = await pool.query(
+    `SELECT e.*, s.title AS session_title, count(*) OVER () AS total
+     FROM tool_executions e
+     LEFT JOIN sessions s ON s.id = e.session_id
+     ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+     ORDER BY e.started_at DESC, e.id
+     LIMIT $${params.length - 1} OFFSET $${params.length}`,
+    params,
+  );
+
+  return {
+    executions: result.rows.map(rowToExecution),
+    total: result.rows.length > 0 ? Number(result.rows[0].total) : 0,
+  };
+}
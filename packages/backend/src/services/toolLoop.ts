@@ -1,24 +1,43 @@
 import { v4 as uuid } from "uuid";
 import type {
   ChatMessage,
+  LoopLimits,
+  MessagePart,
   SSEEvent,
   ToolCall,
   ToolDefinition,
   ToolResult,
 } from "@vladbot/shared";
+import { findModel } from "@vladbot/shared";
 import {
   getSession,
   addMessage,
   updateMessage,
   updateSessionTokenUsage,
   atomicApprove,
-  getSessionAutoApprove,
 } from "./sessionStore.js";
-import { executeToolCalls, validateToolCalls, type ToolProgressCallback } from "./tools/index.js";
+import {
+  executeToolCalls,
+  validateToolCalls,
+  isReadOnlyToolCall,
+  type ToolProgressCallback,
+} from "./tools/index.js";
+import {
+  approverOf,
+  evaluateApproval,
+  needsHumanApproval,
+  policyDenial,
+  previewForApproval,
+  userDenial,
+} from "./approvalPolicy.js";
 import { getProvider } from "./ai/ProviderFactory.js";
 import { classifyLLMError } from "./ai/errorClassifier.js";
+import { buildModelChain, withRetry, type ModelTarget } from "./ai/retryPolicy.js";
 import { getLLMContext, autoCompactIfNeeded } from "./context/index.js";
-import { estimateMessageTokens } from "./tokenCounter.js";
+import { estimateMessageTokens, reconcileUsage } from "./tokenCounter.js";
+import { getRuntimeSetting } from "../config/runtimeSettings.js";
+import { costOf, recordUsage } from "./usageStore.js";
+import { checkLoopLimits, recordLoopRound, recordLoopUsage, resolveLoopLimits } from "./loopGuard.js";
 import {
   createStream,
   continueStream,
@@ -27,12 +46,70 @@ import {
   getStream,
 } from "./streamRegistry.js";
 
-const MAX_TOOL_ROUNDS = 10;
+/** Parallel read-only calls when the setting is missing or invalid. */
+const DEFAULT_TOOL_CONCURRENCY = 4;
+
+async function getToolConcurrency(): Promise<number> {
+  const value = Number(await getRuntimeSetting("tool_concurrency"));
+  return Number.isInteger(value) && value >= 1 ? value : DEFAULT_TOOL_CONCURRENCY;
+}
+
+/**
+ * Split a round's tool calls into batches that run one after another.
+ * Consecutive read-only calls share a batch and may run concurrently;
+ * every mutating call gets a batch of its own, so it never overlaps
+ * another call and keeps its position in the order the model chose.
+ */
+export function planToolBatches(toolCalls: ToolCall[]): ToolCall[][] {
+  const batches: ToolCall[][] = [];
+  let readOnlyBatch: ToolCall[] | null = null;
+  for (const toolCall of toolCalls) {
+    if (isReadOnlyToolCall(toolCall)) {
+      if (!readOnlyBatch) {
+        readOnlyBatch = [];
+        batches.push(readOnlyBatch);
+      }
+      readOnlyBatch.push(toolCall);
+    } else {
+      readOnlyBatch = null;
+      batches.push([toolCall]);
+    }
+  }
+  return batches;
+}
+
+/** Run `fn` over `items` with at most `limit` calls in flight. */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * The answer for a call that won't run: denied by the user, or by a rule
+ * (which even a human approving the round can't override). Null otherwise.
+ */
+function refusalOf(message: ChatMessage, toolCallId: string): ToolResult | null {
+  const verdict = message.toolCallApprovals?.[toolCallId];
+  if (verdict?.status === "denied") return userDenial(toolCallId, verdict.reason);
+  const decision = message.approvalDecisions?.[toolCallId];
+  if (decision?.outcome === "deny") return policyDenial(toolCallId, decision);
+  return null;
+}
 
 /**
  * Execute a tool round: validate + run tools, save results, then stream
- * the next LLM round. Repeats automatically for up to MAX_TOOL_ROUNDS
- * if the LLM returns more tool calls (and auto-approve is on).
+ * the next LLM round. Repeats automatically while the approval policy
+ * approves the LLM's next tool calls, until the turn reaches one of its
+ * loop limits (see loopGuard.ts) and pauses for the user.
  *
  * This runs in the background — the caller should not await it.
  */
@@ -42,10 +119,7 @@ export async function executeToolRound(
   model: string,
   provider: string,
   tools?: ToolDefinition[],
-  round: number = 0,
 ): Promise<void> {
-  if (round >= MAX_TOOL_ROUNDS) return;
-
   const session = await getSession(sessionId);
   if (!session) throw new Error("Session not found");
 
@@ -55,12 +129,17 @@ export async function executeToolRound(
 
   const toolCalls = message.toolCalls;
 
-  // Validate tool calls first
-  const validationErrors = validateToolCalls(toolCalls);
+  // Validate tool calls first; refused calls won't run, so their arguments don't matter
+  const validationErrors = validateToolCalls(
+    toolCalls.filter((tc) => refusalOf(message, tc.id) === null),
+  );
   if (validationErrors.length > 0) {
     const allResults: ToolResult[] = toolCalls.map((tc) => {
       const err = validationErrors.find((e) => e.toolCallId === tc.id);
       if (err) return err;
+      // Refused calls keep their denial so the model sees the user's reason
+      const refusal = refusalOf(message, tc.id);
+      if (refusal) return refusal;
       return {
         toolCallId: tc.id,
         output: "Cancelled: another tool failed validation",
@@ -77,7 +156,7 @@ export async function executeToolRound(
       content: "",
       timestamp: Date.now(),
       toolResults: allResults,
-      tokenCount: estimateMessageTokens({ id: "", role: "tool", content: "", timestamp: 0, toolResults: allResults }),
+      tokenCount: estimateMessageTokens({ id: "", role: "tool", content: "", timestamp: 0, toolResults: allResults }, { id: model, provider }),
     };
     await addMessage(sessionId, toolMsg);
 
@@ -85,14 +164,15 @@ export async function executeToolRound(
     for (const r of allResults) {
       pushEvent(sessionId, { type: "tool_result", data: r });
     }
+    recordLoopRound(sessionId, toolCalls, allResults);
 
     // Continue to next LLM round so it sees the errors
-    await streamNextRound(sessionId, model, provider, tools);
+    await streamNextRound(sessionId, model, provider, tools, session.fallbackModels ?? [], session.loopLimits);
     return;
   }
 
-  // Execute tools sequentially, checking for interruption between each
-  const allResults: ToolResult[] = [];
+  // Execute tools batch by batch, checking for interruption before and after each call
+  const resultsById = new Map<string, ToolResult>();
   let hadError = false;
   let wasInterrupted = false;
 
@@ -104,68 +184,80 @@ export async function executeToolRound(
     });
   };
 
-  for (let i = 0; i < toolCalls.length; i++) {
-    // Check if user cancelled before starting next tool
-    const stream = getStream(sessionId);
-    if (stream?.aborted) {
+  const runToolCall = async (toolCall: ToolCall): Promise<void> => {
+    // Check if user cancelled before starting this tool
+    if (wasInterrupted || getStream(sessionId)?.aborted) {
       wasInterrupted = true;
-      break;
-    }
-
-    if (hadError) {
-      const cancelledResult: ToolResult = {
-        toolCallId: toolCalls[i].id,
-        output: "Cancelled: previous tool failed",
-        isError: true,
-      };
-      allResults.push(cancelledResult);
-      pushEvent(sessionId, { type: "tool_result", data: cancelledResult });
-      continue;
+      return;
     }
 
+    // A refused call isn't a failure: the calls after it still run
+    const refusal = refusalOf(message, toolCall.id);
+    const refused = refusal !== null;
+    let result: ToolResult;
     try {
-      // This is async - user can cancel while this runs
-      const results = await executeToolCalls([toolCalls[i]], sessionId, onProgress);
-      const result = results[0];
-
-      // Check again after tool finished - user may have cancelled during execution
-      const streamAfter = getStream(sessionId);
-      if (streamAfter?.aborted) {
-        wasInterrupted = true;
-        break;
-      }
-
-      allResults.push(result);
-      pushEvent(sessionId, { type: "tool_result", data: result });
-
-      if (result.isError) {
-        hadError = true;
+      if (refusal) {
+        result = refusal;
+      } else {
+        // This is async - user can cancel while this runs, which aborts the signal
+        const signal = getStream(sessionId)?.abortController.signal;
+        const results = await executeToolCalls([toolCall], sessionId, onProgress, signal, {
+          messageId,
+          approvers: { [toolCall.id]: approverOf(message, toolCall.id) },
+        });
+        result = results[0];
       }
     } catch (err) {
-      const errorResult: ToolResult = {
-        toolCallId: toolCalls[i].id,
+      result = {
+        toolCallId: toolCall.id,
         output: `Error: ${err instanceof Error ? err.message : "Unknown error"}`,
         isError: true,
       };
-      allResults.push(errorResult);
-      pushEvent(sessionId, { type: "tool_result", data: errorResult });
+    }
+
+    // Check again after tool finished - user may have cancelled during execution.
+    // The tool's own result is kept: it says it was cancelled, or what it finished doing.
+    if (getStream(sessionId)?.aborted) {
+      wasInterrupted = true;
+    }
+
+    resultsById.set(toolCall.id, result);
+    pushEvent(sessionId, { type: "tool_result", data: result });
+    if (result.isError && !refused) {
       hadError = true;
     }
-  }
+  };
 
-  if (wasInterrupted) {
-    // Create "interrupted" results for all tool calls that didn't get results
-    const completedIds = new Set(allResults.map((r) => r.toolCallId));
-    for (const tc of toolCalls) {
-      if (!completedIds.has(tc.id)) {
-        allResults.push({
-          toolCallId: tc.id,
-          output: "Tool execution was interrupted by user.",
+  const concurrency = await getToolConcurrency();
+  for (const batch of planToolBatches(toolCalls)) {
+    if (wasInterrupted) break;
+
+    if (hadError) {
+      for (const toolCall of batch) {
+        const cancelledResult: ToolResult = {
+          toolCallId: toolCall.id,
+          output: "Cancelled: previous tool failed",
           isError: true,
-        });
+        };
+        resultsById.set(toolCall.id, cancelledResult);
+        pushEvent(sessionId, { type: "tool_result", data: cancelledResult });
       }
+      continue;
     }
 
+    await runWithConcurrency(batch, concurrency, runToolCall);
+  }
+
+  // Results stay in tool call order regardless of completion order.
+  // Tool calls that didn't get a result were interrupted before they started.
+  const allResults: ToolResult[] = toolCalls.map((tc) => resultsById.get(tc.id) ?? {
+    toolCallId: tc.id,
+    output: "Tool execution was interrupted by user.",
+    isError: true,
+  });
+
+  if (wasInterrupted) {
+
     // Save results on the assistant message (same as denyToolRound)
     await updateMessage(messageId, {
       approvalStatus: "denied",
@@ -179,7 +271,7 @@ export async function executeToolRound(
       content: "",
       timestamp: Date.now(),
       toolResults: allResults,
-      tokenCount: estimateMessageTokens({ id: "", role: "tool", content: "", timestamp: 0, toolResults: allResults }),
+      tokenCount: estimateMessageTokens({ id: "", role: "tool", content: "", timestamp: 0, toolResults: allResults }, { id: model, provider }),
     };
     await addMessage(sessionId, toolMsg);
 
@@ -201,12 +293,91 @@ export async function executeToolRound(
     content: "",
     timestamp: Date.now(),
     toolResults: allResults,
-    tokenCount: estimateMessageTokens({ id: "", role: "tool", content: "", timestamp: 0, toolResults: allResults }),
+    tokenCount: estimateMessageTokens({ id: "", role: "tool", content: "", timestamp: 0, toolResults: allResults }, { id: model, provider }),
   };
   await addMessage(sessionId, toolMsg);
+  recordLoopRound(sessionId, toolCalls, allResults);
 
   // Stream next LLM round
-  await streamNextRound(sessionId, model, provider, tools);
+  await streamNextRound(sessionId, model, provider, tools, session.fallbackModels ?? [], session.loopLimits);
+}
+
+/**
+ * Stream one LLM response into the session's active stream. Recoverable
+ * errors are retried and fail over along `chain`; every retry is pushed as
+ * a `retrying` event, which also discards the failed attempt's partial output.
+ * Returns the model that produced the response. `streamId` selects a run other
+ * than the session's chat stream; only the chat stream updates the session's
+ * context usage.
+ */
+export async function streamWithFailover<T extends ModelTarget>(
+  sessionId: string,
+  chain: T[],
+  history: MessagePart[],
+  tools: ToolDefinition[] | undefined,
+  signal: AbortSignal | undefined,
+  streamId = sessionId,
+): Promise<{ target: T; hasToolCalls: boolean }> {
+  const { result, target } = await withRetry(
+    chain,
+    async (target) => {
+      const provider = getProvider(target.provider);
+      const aiStream = provider.generateStream(history, target.id, tools, signal, sessionId);
+      let hasToolCalls = false;
+
+      for await (const chunk of aiStream) {
+        if (chunk.type === "text" && chunk.text) {
+          pushEvent(streamId, { type: "token", data: chunk.text });
+        } else if (chunk.type === "thinking" && chunk.thinking) {
+          pushEvent(streamId, { type: "thinking", data: chunk.thinking });
+        } else if (chunk.type === "tool_call" && chunk.toolCall) {
+          hasToolCalls = true;
+          pushEvent(streamId, { type: "tool_call", data: chunk.toolCall });
+        } else if (chunk.type === "tool_call_delta" && chunk.toolCallDelta) {
+          pushEvent(streamId, { type: "tool_call_delta", data: chunk.toolCallDelta });
+        } else if (chunk.type === "debug" && chunk.debug) {
+          pushEvent(streamId, { type: "debug", data: chunk.debug });
+        } else if (chunk.type === "usage" && chunk.usage) {
+          pushEvent(streamId, { type: "usage", data: chunk.usage });
+          if (streamId === sessionId) {
+            updateSessionTokenUsage(sessionId, chunk.usage).catch(console.error);
+          }
+          recordUsage({
+            sessionId,
+            messageId: getStream(streamId)?.assistantId,
+            provider: target.provider,
+            model: target.id,
+            purpose: "chat",
+            usage: chunk.usage,
+          }).catch(console.error);
+        }
+      }
+      return hasToolCalls;
+    },
+    {
+      signal,
+      onRetry: (info) => {
+        const assistantId = getStream(streamId)?.assistantId ?? "";
+        console.warn(
+          `[Retry] ${info.error.code} — attempt ${info.attempt}/${info.maxAttempts} on ${info.target.provider}:${info.target.id} in ${info.delayMs}ms`,
+        );
+        pushEvent(streamId, {
+          type: "retrying",
+          data: {
+            assistantId,
+            attempt: info.attempt,
+            maxAttempts: info.maxAttempts,
+            provider: info.target.provider,
+            model: info.target.id,
+            delayMs: info.delayMs,
+            error: info.error,
+          },
+        });
+      },
+    },
+  );
+
+  return { target, hasToolCalls: result };
 }
 
 /**
@@ -216,7 +387,9 @@ async function streamNextRound(
   sessionId: string,
   model: string,
   providerName: string,
-  tools?: ToolDefinition[],
+  tools: ToolDefinition[] | undefined,
+  fallbackModels: string[],
+  loopLimits: LoopLimits | undefined,
 ): Promise<void> {
   // Get LLM context (handles snapshots or legacy compaction messages)
   const history = await getLLMContext(sessionId);
@@ -240,7 +413,7 @@ async function streamNextRound(
       content: interruptContent,
       model,
       timestamp: Date.now(),
-      tokenCount: estimateMessageTokens({ id: newAssistantId, role: "assistant", content: interruptContent, timestamp: 0 }),
+      tokenCount: estimateMessageTokens({ id: newAssistantId, role: "assistant", content: interruptContent, timestamp: 0 }, { id: model, provider: providerName }),
     });
     pushEvent(sessionId, { type: "done", data: { hasToolCalls: false } });
     scheduleRemoval(sessionId);
@@ -262,35 +435,37 @@ async function streamNextRound(
   }
 
   try {
-    const provider = getProvider(providerName);
-    const aiStream = provider.generateStream(
+    const active = await streamWithFailover(
+      sessionId,
+      buildModelChain({ id: model, provider: providerName }, fallbackModels),
       history,
-      model,
-      tools as ToolDefinition[] | undefined,
+      tools,
       stream.abortController.signal,
-      sessionId,
     );
-    let hasToolCalls = false;
-
-    for await (const chunk of aiStream) {
-      if (chunk.type === "text" && chunk.text) {
-        pushEvent(sessionId, { type: "token", data: chunk.text });
-      } else if (chunk.type === "tool_call" && chunk.toolCall) {
-        hasToolCalls = true;
-        pushEvent(sessionId, { type: "tool_call", data: chunk.toolCall });
-      } else if (chunk.type === "debug" && chunk.debug) {
-        pushEvent(sessionId, { type: "debug", data: chunk.debug });
-      } else if (chunk.type === "usage" && chunk.usage) {
-        pushEvent(sessionId, { type: "usage", data: chunk.usage });
-        updateSessionTokenUsage(sessionId, chunk.usage).catch(console.error);
-      }
-    }
+    const hasToolCalls = active.hasToolCalls;
+    // A fallback that took over keeps the turn for the remaining rounds
+    model = active.target.id;
+    providerName = active.target.provider;
 
     // Save the assistant message to DB BEFORE pushing done so that the
     // frontend's onDone reload finds the message already persisted.
     const currentStream = getStream(sessionId);
+    // Approval policy: evaluated each round so rule and auto-approve changes take effect mid-turn
+    let approvalDecisions: ChatMessage["approvalDecisions"];
+    // A round the policy would run on its own waits for the user once the turn hits a loop limit
+    let loopLimit: ChatMessage["loopLimit"];
+    let toolCallPreviews: ChatMessage["toolCallPreviews"];
     if (currentStream) {
       const tc = currentStream.toolCalls.length > 0 ? currentStream.toolCalls : undefined;
+      if (hasToolCalls && tc) approvalDecisions = await evaluateApproval(sessionId, tc);
+      reconcileUsage({ id: model, provider: providerName }, currentStream, currentStream.usage);
+      recordLoopUsage(sessionId, currentStream.usage);
+      if (approvalDecisions && !needsHumanApproval(approvalDecisions)) {
+        loopLimit = checkLoopLimits(sessionId, await resolveLoopLimits(loopLimits)) ?? undefined;
+      }
+      if (tc && approvalDecisions && (needsHumanApproval(approvalDecisions) || loopLimit)) {
+        toolCallPreviews = await previewForApproval(sessionId, tc, approvalDecisions);
+      }
       await addMessage(sessionId, {
         id: newAssistantId,
         role: "assistant",
@@ -298,16 +473,25 @@ async function streamNextRound(
         model,
         timestamp: Date.now(),
         toolCalls: tc,
+        reasoning: currentStream.reasoning || undefined,
+        reasoningSignature: currentStream.reasoningSignature,
         approvalStatus: hasToolCalls ? "pending" : undefined,
+        approvalDecisions,
+        loopLimit,
+        toolCallPreviews,
         llmRequest: currentStream.requestBody,
         llmResponse: {
           content: currentStream.content,
           toolCalls: tc,
           usage: currentStream.usage,
         },
-        tokenCount: estimateMessageTokens({ id: newAssistantId, role: "assistant", content: currentStream.content, timestamp: 0, toolCalls: tc }),
+        tokenCount: estimateMessageTokens({ id: newAssistantId, role: "assistant", content: currentStream.content, timestamp: 0, toolCalls: tc, reasoning: currentStream.reasoning, reasoningSignature: currentStream.reasoningSignature }, { id: model, provider: providerName }),
         rawTokenCount: currentStream.usage?.outputTokens,
+        cost: currentStream.usage ? costOf(providerName, model, currentStream.usage) ?? undefined : undefined,
       });
+      if (loopLimit) {
+        pushEvent(sessionId, { type: "loop_limit", data: { messageId: newAssistantId, ...loopLimit } });
+      }
 
       // Update the last user message with inputTokens for billing tracking
       if (currentStream.usage?.inputTokens) {
@@ -325,9 +509,7 @@ async function streamNextRound(
       }
     }
 
-    // Auto-approve: re-read from session each round so mid-stream toggles take effect
-    const autoApprove = await getSessionAutoApprove(sessionId);
-    if (hasToolCalls && autoApprove) {
+    if (hasToolCalls && approvalDecisions && !needsHumanApproval(approvalDecisions) && !loopLimit) {
       const approved = await atomicApprove(newAssistantId);
       if (approved) {
         pushEvent(sessionId, { type: "auto_approved", data: { messageId: newAssistantId } });
@@ -337,7 +519,6 @@ async function streamNextRound(
           model,
           providerName,
           tools,
-          0,
         );
         return;
       }
@@ -374,9 +555,11 @@ async function streamNextRound(
           id: newAssistantId,
           role: "assistant",
           content: currentStream.content,
-          model,
+          model: currentStream.model,
           timestamp: Date.now(),
           toolCalls: tc,
+          reasoning: currentStream.reasoning || undefined,
+          reasoningSignature: currentStream.reasoningSignature,
           approvalStatus: tc ? "denied" : undefined,
           llmRequest: currentStream.requestBody,
           llmResponse: {
@@ -384,7 +567,7 @@ async function streamNextRound(
             toolCalls: tc,
             usage: currentStream.usage,
           },
-          tokenCount: estimateMessageTokens({ id: newAssistantId, role: "assistant", content: currentStream.content, timestamp: 0, toolCalls: tc }),
+          tokenCount: estimateMessageTokens({ id: newAssistantId, role: "assistant", content: currentStream.content, timestamp: 0, toolCalls: tc, reasoning: currentStream.reasoning, reasoningSignature: currentStream.reasoningSignature }, findModel(currentStream.model)),
           rawTokenCount: currentStream.usage?.outputTokens,
         });
       }
@@ -403,6 +586,7 @@ async function streamNextRound(
 /**
  * Create denial results for tool calls and persist to DB.
  */
+
 export async function denyToolRound(
   sessionId: string,
   messageId: string,
@@ -414,11 +598,9 @@ export async function denyToolRound(
   if (!message) throw new Error("Message not found");
   if (!message.toolCalls?.length) return;
 
-  const results: ToolResult[] = message.toolCalls.map((tc) => ({
-    toolCallId: tc.id,
-    output: "Tool call denied by user",
-    isError: true,
-  }));
+  const results: ToolResult[] = message.toolCalls.map((tc) =>
+    userDenial(tc.id, message.toolCallApprovals?.[tc.id]?.reason),
+  );
 
   await updateMessage(messageId, {
     approvalStatus: "denied",
@@ -431,7 +613,7 @@ export async function denyToolRound(
     content: "",
     timestamp: Date.now(),
     toolResults: results,
-    tokenCount: estimateMessageTokens({ id: "", role: "tool", content: "", timestamp: 0, toolResults: results }),
+    tokenCount: estimateMessageTokens({ id: "", role: "tool", content: "", timestamp: 0, toolResults: results }, message.model ? findModel(message.model) : undefined),
   };
   await addMessage(sessionId, toolMsg);
 }
@@ -1,4 +1,13 @@
-import type { ToolDefinition, ToolCall, ToolResult } from "@vladbot/shared";
+import type {
+  ToolCallApprover,
+  ToolDefinition,
+  ToolCall,
+  ToolCallPreview,
+  ToolExecutionOutcome,
+  ToolResult,
+} from "@vladbot/shared";
+import { checkArguments, formatArgumentErrors } from "./validateArgs.js";
+import { spillOversizedResult } from "./toolOutput.js";
 
 export type ToolProgressCallback = (
   toolCallId: string,
@@ -12,20 +21,70 @@ export interface ToolExecuteContext {
   sessionId?: string;
   toolCallId?: string;
   onProgress?: ToolProgressCallback;
+  /** Aborted when the user interrupts the stream; long-running tools should stop early. */
+  signal?: AbortSignal;
 }
 
 export interface Tool {
   definition: ToolDefinition;
   execute(args: Record<string, unknown>, sessionId?: string, context?: ToolExecuteContext): Promise<string>;
   validate?(args: Record<string, unknown>): { valid: boolean; error?: string };
+  /**
+   * Work out what a call would do without doing it, for the approval card.
+   * Must not change anything. Returns null when the operation has nothing to show.
+   */
+  preview?(args: Record<string, unknown>, sessionId?: string): Promise<ToolCallPreview | null>;
+}
+
+/** Where a batch of calls came from, for the audit log. */
+export interface ToolAuditContext {
+  messageId?: string;
+  /** Who let each call run, by tool call ID. Calls without an entry are logged as "direct". */
+  approvers?: Record<string, ToolCallApprover>;
+}
+
+/** A call that ran, as handed to the audit sink. */
+export interface ToolAuditEntry {
+  sessionId?: string;
+  messageId?: string;
+  toolCallId: string;
+  tool: string;
+  operation: string;
+  arguments: Record<string, unknown>;
+  startedAt: number;
+  finishedAt: number;
+  outcome: ToolExecutionOutcome;
+  outputBytes: number;
+  approval: ToolCallApprover;
+}
+
+/** The output of a tool stopped by the user. Tools may append partial output after a newline. */
+export const TOOL_CANCELLED = "Cancelled by user";
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new Error(TOOL_CANCELLED);
 }
 
 const registry = new Map<string, Tool>();
 
+let auditSink: ((entry: ToolAuditEntry) => void) | null = null;
+
+/**
+ * Where executed calls are reported. Kept injectable so the executor doesn't
+ * depend on the database; `registerAllTools` wires the audit log.
+ */
+export function setToolAuditSink(sink: ((entry: ToolAuditEntry) => void) | null): void {
+  auditSink = sink;
+}
+
 export function registerTool(tool: Tool): void {
   registry.set(tool.definition.name, tool);
 }
 
+export function unregisterTool(name: string): void {
+  registry.delete(name);
+}
+
 export function getToolDefinitions(): ToolDefinition[] {
   return Array.from(registry.values()).map((t) => t.definition);
 }
@@ -49,6 +108,21 @@ function resolveTool(
   return null;
 }
 
+/** The registered tool and operation a flat call name refers to. */
+export function resolveToolCallName(callName: string): { tool: string; operation: string } | null {
+  const resolved = resolveTool(callName);
+  return resolved ? { tool: resolved.tool.definition.name, operation: resolved.operation } : null;
+}
+
+/**
+ * Whether a call's operation is declared read-only, i.e. safe to run
+ * concurrently with other read-only calls. Unknown tools are not.
+ */
+export function isReadOnlyToolCall(call: ToolCall): boolean {
+  const resolved = resolveTool(call.name);
+  return resolved?.tool.definition.operations[resolved.operation].readOnly === true;
+}
+
 export function validateToolCalls(calls: ToolCall[]): ToolResult[] {
   const errors: ToolResult[] = [];
   for (const call of calls) {
@@ -61,7 +135,19 @@ export function validateToolCalls(calls: ToolCall[]): ToolResult[] {
       });
       continue;
     }
-    const args = { ...call.arguments, operation: resolved.operation };
+    const checked = checkArguments(
+      resolved.tool.definition.operations[resolved.operation],
+      call.arguments,
+    );
+    if (checked.errors.length > 0) {
+      errors.push({
+        toolCallId: call.id,
+        output: formatArgumentErrors(call.name, checked.errors),
+        isError: true,
+      });
+      continue;
+    }
+    const args = { ...checked.args, operation: resolved.operation };
     if (resolved.tool.validate) {
       const result = resolved.tool.validate(args);
       if (!result.valid) {
@@ -76,10 +162,55 @@ export function validateToolCalls(calls: ToolCall[]): ToolResult[] {
   return errors;
 }
 
+/** A preview that takes longer is dropped rather than holding up the approval card. */
+const PREVIEW_TIMEOUT_MS = 5000;
+
+/**
+ * Previews for the calls whose tools offer one, keyed by tool call ID. A
+ * preview that fails is reported as a note; one that times out is left out.
+ */
+export async function previewToolCalls(
+  calls: ToolCall[],
+  sessionId?: string,
+): Promise<Record<string, ToolCallPreview>> {
+  const previews: Record<string, ToolCallPreview> = {};
+  await Promise.all(calls.map(async (call) => {
+    const resolved = resolveTool(call.name);
+    if (!resolved?.tool.preview) return;
+    const checked = checkArguments(
+      resolved.tool.definition.operations[resolved.operation],
+      call.arguments,
+    );
+    if (checked.errors.length > 0) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), PREVIEW_TIMEOUT_MS);
+    });
+    try {
+      const preview = await Promise.race([
+        resolved.tool.preview({ ...checked.args, operation: resolved.operation }, sessionId),
+        timeout,
+      ]);
+      if (preview) previews[call.id] = preview;
+    } catch (err) {
+      previews[call.id] = {
+        kind: "note",
+        text: `No preview: ${err instanceof Error ? err.message : "preview failed"}`,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }));
+  return previews;
+}
+
 export async function executeToolCalls(
   calls: ToolCall[],
   sessionId?: string,
   onProgress?: ToolProgressCallback,
+  signal?: AbortSignal,
+  audit?: ToolAuditContext,
 ): Promise<ToolResult[]> {
   const results: ToolResult[] = [];
 
@@ -94,22 +225,57 @@ export async function executeToolCalls(
       continue;
     }
 
-    const args = { ...call.arguments, operation: resolved.operation };
+    // Calls are validated before they get here; this applies the same coercions
+    const checked = checkArguments(
+      resolved.tool.definition.operations[resolved.operation],
+      call.arguments,
+    );
+    if (checked.errors.length > 0) {
+      results.push({
+        toolCallId: call.id,
+        output: formatArgumentErrors(call.name, checked.errors),
+        isError: true,
+      });
+      continue;
+    }
+
+    const args = { ...checked.args, operation: resolved.operation };
     const context: ToolExecuteContext = {
       sessionId,
       toolCallId: call.id,
       onProgress,
+      signal,
     };
+    let result: ToolResult;
+    const startedAt = Date.now();
     try {
+      throwIfCancelled(signal);
       const output = await resolved.tool.execute(args, sessionId, context);
-      results.push({ toolCallId: call.id, output });
+      result = { toolCallId: call.id, output };
     } catch (err) {
-      results.push({
+      const message = err instanceof Error ? err.message : "Tool execution failed";
+      result = {
         toolCallId: call.id,
-        output: err instanceof Error ? err.message : "Tool execution failed",
+        // Whatever the tool threw on abort (SDK AbortErrors, killed processes), report it as a cancellation
+        output: signal?.aborted && !message.startsWith(TOOL_CANCELLED) ? TOOL_CANCELLED : message,
         isError: true,
-      });
+      };
     }
+    auditSink?.({
+      sessionId,
+      messageId: audit?.messageId,
+      toolCallId: call.id,
+      tool: resolved.tool.definition.name,
+      operation: resolved.operation,
+      arguments: checked.args,
+      startedAt,
+      finishedAt: Date.now(),
+      outcome: !result.isError ? "success" : result.output.startsWith(TOOL_CANCELLED) ? "cancelled" : "error",
+      outputBytes: Buffer.byteLength(result.output, "utf8"),
+      approval: audit?.approvers?.[call.id] ?? { kind: "direct" },
+    });
+    // Outputs over the token budget go to a session file; the model gets a preview and a handle
+    results.push(await spillOversizedResult(result, resolved.tool.definition.name, sessionId));
   }
 
   return results;
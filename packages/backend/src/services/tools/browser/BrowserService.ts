@@ -1,7 +1,8 @@
 import type { MessagePart } from "@vladbot/shared";
-import { AVAILABLE_MODELS, findModel } from "@vladbot/shared";
+import { DEFAULT_MODEL, findModel, getModels } from "@vladbot/shared";
 import { getSessionModel } from "../../sessionStore.js";
 import { getSetting } from "../../settingsStore.js";
+import { throwIfCancelled } from "../ToolExecutor.js";
 import { callSubLLMWithHistory } from "./SubLLM.js";
 import {
   DESCRIBE_SYSTEM_PROMPT,
@@ -87,8 +88,13 @@ export class BrowserService {
   /**
    * Describe what's on the current page.
    * Uses sub-LLM to analyze all pages and return a human-readable description.
+   * Aborting `signal` stops between pages and cancels the in-flight sub-LLM call.
    */
-  async describe(question?: string, onProgress?: ProgressCallback): Promise<DescribeResult> {
+  async describe(
+    question?: string,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal,
+  ): Promise<DescribeResult> {
     let pagesProcessed = 0;
     let totalElements = 0;
     let offset = 0;
@@ -103,6 +109,8 @@ export class BrowserService {
     let finalDescription = "";
 
     while (hasMore) {
+      throwIfCancelled(signal);
+
       // Get page content
       const contentResult = await this.getContentInternal(offset);
       pagesProcessed++;
@@ -126,6 +134,8 @@ export class BrowserService {
       const result = await callSubLLMWithHistory(messages, prompt, {
         provider: this.provider,
         model: this.model,
+        sessionId: this.sessionId,
+        signal,
       });
 
       messages = result.messages;
@@ -152,6 +162,7 @@ export class BrowserService {
     query: string,
     offset: number = 0,
     onProgress?: ProgressCallback,
+    signal?: AbortSignal,
   ): Promise<FindAllResult> {
     // Check if we need to perform a new search or use cached results
     const needsNewSearch = !this.findAllCache || this.findAllCache.query !== query;
@@ -159,7 +170,7 @@ export class BrowserService {
     if (needsNewSearch) {
       // Reset cache and perform new search
       this.findAllCache = null;
-      const elements = await this.performFindAllSearch(query, onProgress);
+      const elements = await this.performFindAllSearch(query, onProgress, signal);
       this.findAllCache = {
         query,
         elements,
@@ -204,6 +215,7 @@ export class BrowserService {
   private async performFindAllSearch(
     query: string,
     onProgress?: ProgressCallback,
+    signal?: AbortSignal,
   ): Promise<FoundElement[]> {
     let pagesProcessed = 0;
     let offset = 0;
@@ -218,6 +230,8 @@ export class BrowserService {
     let allElements: FoundElement[] = [];
 
     while (hasMore) {
+      throwIfCancelled(signal);
+
       // Get page content
       const contentResult = await this.getContentInternal(offset);
       pagesProcessed++;
@@ -237,6 +251,8 @@ export class BrowserService {
       const result = await callSubLLMWithHistory(messages, prompt, {
         provider: this.provider,
         model: this.model,
+        sessionId: this.sessionId,
+        signal,
       });
 
       messages = result.messages;
@@ -435,7 +451,8 @@ export async function resolveSessionModelInfo(
     const defaultModelSetting = await getSetting("default_model");
     modelInfo =
       (defaultModelSetting && findModel(defaultModelSetting)) ||
-      AVAILABLE_MODELS[0];
+      getModels()[0] ||
+      DEFAULT_MODEL;
   }
 
   return {
@@ -1,5 +1,6 @@
-import type { MessagePart } from "@vladbot/shared";
+import type { MessagePart, TokenUsage } from "@vladbot/shared";
 import { getProvider } from "../../ai/ProviderFactory.js";
+import { recordUsage } from "../../usageStore.js";
 
 export interface SubLLMOptions {
   /** Provider name (deepseek, gemini, anthropic) */
@@ -8,11 +9,26 @@ export interface SubLLMOptions {
   model: string;
   /** System prompt (optional) */
   systemPrompt?: string;
+  /** Session the call is billed to in the usage ledger */
+  sessionId?: string;
+  /** Aborts the request when the tool that made it is cancelled */
+  signal?: AbortSignal;
 }
 
 export interface SubLLMResult {
   text: string;
-  usage?: { inputTokens: number; outputTokens: number };
+  usage?: TokenUsage;
+}
+
+function recordSubLLMUsage(options: SubLLMOptions, usage?: TokenUsage): void {
+  if (!usage) return;
+  recordUsage({
+    sessionId: options.sessionId,
+    provider: options.provider,
+    model: options.model,
+    purpose: "browser",
+    usage,
+  }).catch(console.error);
 }
 
 /**
@@ -49,7 +65,10 @@ export async function callSubLLM(
     messages,
     options.model,
     undefined, // no tools
+    undefined, // no session settings: the sub-LLM keeps the default prompt and sampling
+    options.signal,
   );
+  recordSubLLMUsage(options, response.usage);
 
   return {
     text: response.text,
@@ -65,7 +84,7 @@ export async function callSubLLMWithHistory(
   messages: MessagePart[],
   userPrompt: string,
   options: SubLLMOptions,
-): Promise<{ text: string; messages: MessagePart[]; usage?: { inputTokens: number; outputTokens: number } }> {
+): Promise<{ text: string; messages: MessagePart[]; usage?: TokenUsage }> {
   const provider = getProvider(options.provider);
 
   // Add new user message
@@ -78,7 +97,10 @@ export async function callSubLLMWithHistory(
     updatedMessages,
     options.model,
     undefined, // no tools
+    undefined, // no session settings: the sub-LLM keeps the default prompt and sampling
+    options.signal,
   );
+  recordSubLLMUsage(options, response.usage);
 
   // Add assistant response to history
   updatedMessages.push({
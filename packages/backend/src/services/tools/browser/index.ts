@@ -227,7 +227,7 @@ Operations:
             }
           : undefined;
 
-        const result = await service.describe(args.question as string | undefined, onProgress);
+        const result = await service.describe(args.question as string | undefined, onProgress, context?.signal);
         return JSON.stringify({
           type: "browser_describe",
           description: result.description,
@@ -249,7 +249,7 @@ Operations:
             }
           : undefined;
 
-        const result = await service.findAll(query, offset, onProgress);
+        const result = await service.findAll(query, offset, onProgress, context?.signal);
         return JSON.stringify({
           type: "browser_find_all",
           elements: result.elements,
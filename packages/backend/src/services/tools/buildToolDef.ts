@@ -7,6 +7,7 @@ import type {
 export interface OperationSpec {
   params: string[];
   required?: string[];
+  readOnly?: boolean;
 }
 
 /**
@@ -54,6 +55,7 @@ export function buildOperationToolDef(config: {
     resolvedOps[opName] = {
       params: opParams,
       ...(required.length > 0 && { required }),
+      ...(spec.readOnly && { readOnly: true }),
     };
   }
 
@@ -81,7 +83,7 @@ export function flattenToolsForLLM(definitions: ToolDefinition[]): FlattenedTool
     for (const [opName, opDef] of Object.entries(def.operations)) {
       result.push({
         name: `${def.name}_${opName}`,
-        description: def.description,
+        description: opDef.description ?? def.description,
         parameters: {
           type: "object" as const,
           properties: opDef.params,
@@ -43,10 +43,12 @@ Supported operations:
       search_current: {
         params: ["query", "role", "limit", "offset"],
         required: ["query"],
+        readOnly: true,
       },
       search_all: {
         params: ["query", "role", "limit", "offset"],
         required: ["query"],
+        readOnly: true,
       },
     },
   }),
@@ -19,7 +19,16 @@ import path from "node:path";
 import { glob } from "glob";
 import type { Tool } from "./ToolExecutor.js";
 import { buildOperationToolDef } from "./buildToolDef.js";
-import type { JsonSchemaProperty } from "@vladbot/shared";
+import { unifiedDiff } from "./unifiedDiff.js";
+import type { JsonSchemaProperty, PreviewPath, ToolCallPreview } from "@vladbot/shared";
+
+/** Existing files larger than this aren't read for a write preview. */
+const MAX_DIFF_SOURCE_BYTES = 1024 * 1024;
+const MAX_DIFF_LINES = 400;
+/** Paths listed in a delete or move preview; the totals cover the whole walk. */
+const MAX_PREVIEW_PATHS = 200;
+/** Entries visited before a delete or move preview stops counting. */
+const MAX_PREVIEW_WALK = 10_000;
 
 // ---------------------------------------------------------------------------
 // Parameter schemas (each defined once, referenced by operations)
@@ -64,20 +73,20 @@ Supported operations:
 - search: Glob-based file search`,
     params: P,
     operations: {
-      list_directory: { params: ["path", "recursive", "max_depth", "show_hidden"], required: ["path"] },
-      read_file:      { params: ["path", "offset", "limit"], required: ["path"] },
+      list_directory: { params: ["path", "recursive", "max_depth", "show_hidden"], required: ["path"], readOnly: true },
+      read_file:      { params: ["path", "offset", "limit"], required: ["path"], readOnly: true },
       write_file:     { params: ["path", "content"], required: ["path", "content"] },
       append_file:    { params: ["path", "content"], required: ["path", "content"] },
       delete:         { params: ["path", "recursive"], required: ["path"] },
       mkdir:          { params: ["path", "recursive"], required: ["path"] },
       copy:           { params: ["source", "destination", "recursive"], required: ["source", "destination"] },
       move:           { params: ["source", "destination"], required: ["source", "destination"] },
-      stat:           { params: ["path"], required: ["path"] },
+      stat:           { params: ["path"], required: ["path"], readOnly: true },
       chmod:          { params: ["path", "mode"], required: ["path", "mode"] },
       symlink:        { params: ["target", "link_path"], required: ["target", "link_path"] },
       hardlink:       { params: ["target", "link_path"], required: ["target", "link_path"] },
-      read_link:      { params: ["path"], required: ["path"] },
-      search:         { params: ["pattern", "base_path"], required: ["pattern"] },
+      read_link:      { params: ["path"], required: ["path"], readOnly: true },
+      search:         { params: ["pattern", "base_path"], required: ["pattern"], readOnly: true },
     },
   }),
 
@@ -116,6 +125,23 @@ Supported operations:
         throw new Error(`Unknown operation: ${op}`);
     }
   },
+
+  async preview(args: Record<string, unknown>): Promise<ToolCallPreview | null> {
+    switch (args.operation) {
+      case "write_file":
+        return previewWrite(args, false);
+      case "append_file":
+        return previewWrite(args, true);
+      case "delete":
+        return previewDelete(args);
+      case "move":
+        return previewMove(args);
+      case "chmod":
+        return previewChmod(args);
+      default:
+        return null;
+    }
+  },
 };
 
 // ---------------------------------------------------------------------------
@@ -322,6 +348,153 @@ async function searchOp(args: Record<string, unknown>): Promise<string> {
   return `Found ${matches.length} match(es) in ${basePath}:\n${matches.join("\n")}`;
 }
 
+// ---------------------------------------------------------------------------
+// Previews (shown in the approval card; they must not change anything)
+// ---------------------------------------------------------------------------
+
+function isMissing(err: unknown): boolean {
+  return (err as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+async function lstatOrNull(p: string): Promise<Awaited<ReturnType<typeof lstat>> | null> {
+  try {
+    return await lstat(p);
+  } catch (err) {
+    if (isMissing(err)) return null;
+    throw err;
+  }
+}
+
+async function previewWrite(args: Record<string, unknown>, append: boolean): Promise<ToolCallPreview> {
+  const filePath = path.resolve(requireArg(args, "path"));
+  const content = requireArg(args, "content");
+
+  let current: Buffer | null = null;
+  try {
+    const stats = await stat(filePath);
+    if (stats.isDirectory()) return { kind: "note", text: `${filePath} is a directory; the write will fail` };
+    if (stats.size > MAX_DIFF_SOURCE_BYTES) {
+      return { kind: "note", text: `${filePath} is ${formatSize(stats.size)}, too large to diff` };
+    }
+    current = await readFile(filePath);
+  } catch (err) {
+    if (!isMissing(err)) throw err;
+    if (!(await lstatOrNull(path.dirname(filePath)))) {
+      return { kind: "note", text: `${path.dirname(filePath)} does not exist; the write will fail` };
+    }
+  }
+  if (current?.includes(0)) {
+    return { kind: "note", text: `${filePath} is a binary file (${formatSize(current.length)}) and will be ${append ? "appended to" : "overwritten"}` };
+  }
+
+  const oldText = current?.toString("utf-8") ?? "";
+  const { diff, truncated } = unifiedDiff(
+    oldText,
+    append ? oldText + content : content,
+    { old: current ? `a${filePath}` : "/dev/null", new: `b${filePath}` },
+    MAX_DIFF_LINES,
+  );
+  return { kind: "diff", path: filePath, diff, newFile: !current, truncated };
+}
+
+/** Every path under `root` (itself first), without following symlinks. */
+async function walkPaths(root: string, destinationOf?: (p: string) => string) {
+  const walk = { paths: [] as PreviewPath[], totalCount: 0, totalSize: 0, truncated: false };
+
+  const visit = async (p: string): Promise<void> => {
+    if (walk.totalCount >= MAX_PREVIEW_WALK) {
+      walk.truncated = true;
+      return;
+    }
+    const stats = await lstat(p);
+    const type: PreviewPath["type"] = stats.isSymbolicLink()
+      ? "symlink"
+      : stats.isDirectory()
+        ? "directory"
+        : stats.isFile()
+          ? "file"
+          : "other";
+    const size = type === "directory" ? 0 : stats.size;
+    walk.totalCount++;
+    walk.totalSize += size;
+    if (walk.paths.length < MAX_PREVIEW_PATHS) {
+      walk.paths.push({ path: p, type, size, ...(destinationOf && { destination: destinationOf(p) }) });
+    }
+    if (type !== "directory") return;
+
+    let entries: string[];
+    try {
+      entries = await readdir(p);
+    } catch {
+      // Unreadable directory: its contents can't be counted
+      walk.truncated = true;
+      return;
+    }
+    for (const entry of entries.sort()) {
+      await visit(path.join(p, entry));
+    }
+  };
+
+  await visit(root);
+  return walk;
+}
+
+async function previewDelete(args: Record<string, unknown>): Promise<ToolCallPreview> {
+  const target = path.resolve(requireArg(args, "path"));
+  const stats = await lstatOrNull(target);
+  if (!stats) return { kind: "note", text: `${target} does not exist; the delete will fail` };
+
+  const walk = await walkPaths(target);
+  return {
+    kind: "paths",
+    action: "delete",
+    ...walk,
+    ...(stats.isDirectory() && args.recursive !== true && {
+      warning: "This is a directory and recursive is off; the delete will fail",
+    }),
+  };
+}
+
+async function previewMove(args: Record<string, unknown>): Promise<ToolCallPreview> {
+  const source = path.resolve(requireArg(args, "source"));
+  const destination = path.resolve(requireArg(args, "destination"));
+  const stats = await lstatOrNull(source);
+  if (!stats) return { kind: "note", text: `${source} does not exist; the move will fail` };
+
+  const walk = await walkPaths(source, (p) => path.join(destination, path.relative(source, p)));
+  // rename() replaces a file, and a directory only when it is empty
+  const existing = await lstatOrNull(destination);
+  let warning: string | undefined;
+  if (existing && existing.isDirectory() !== stats.isDirectory()) {
+    warning = `${destination} exists and is ${existing.isDirectory() ? "a directory" : "not a directory"}; the move will fail`;
+  } else if (existing?.isDirectory()) {
+    warning = `${destination} exists; the move replaces it if it is empty and fails otherwise`;
+  } else if (existing) {
+    warning = `${destination} exists and will be replaced`;
+  }
+  return { kind: "paths", action: "move", ...walk, ...(warning && { warning }) };
+}
+
+function describeMode(mode: number): string {
+  const bits = "rwxrwxrwx";
+  const symbolic = [...bits].map((c, i) => (mode & (0o400 >> i) ? c : "-")).join("");
+  return `${(mode & 0o7777).toString(8).padStart(4, "0")} (${symbolic})`;
+}
+
+async function previewChmod(args: Record<string, unknown>): Promise<ToolCallPreview> {
+  const target = path.resolve(requireArg(args, "path"));
+  const mode = requireArg(args, "mode");
+  if (!/^[0-7]{1,4}$/.test(mode)) return { kind: "note", text: `"${mode}" is not an octal mode; the chmod will fail` };
+  let stats;
+  try {
+    stats = await stat(target);
+  } catch (err) {
+    if (isMissing(err)) return { kind: "note", text: `${target} does not exist; the chmod will fail` };
+    throw err;
+  }
+  return { kind: "permissions", path: target, from: describeMode(stats.mode), to: describeMode(parseInt(mode, 8)) };
+}
+
 async function buildTree(
   dirPath: string,
   prefix: string,
@@ -2,13 +2,18 @@ export {
   type Tool,
   type ToolProgressCallback,
   type ToolExecuteContext,
+  type ToolAuditContext,
   registerTool,
+  unregisterTool,
   getToolDefinitions,
   executeToolCalls,
+  previewToolCalls,
   validateToolCalls,
+  isReadOnlyToolCall,
+  resolveToolCallName,
 } from "./ToolExecutor.js";
 
-import { registerTool } from "./ToolExecutor.js";
+import { registerTool, setToolAuditSink } from "./ToolExecutor.js";
 import { filesystemTool } from "./filesystem.js";
 import { runCommandTool } from "./runCommand.js";
 import { vncTool } from "./vnc/index.js";
@@ -16,7 +21,10 @@ import { memoryTool } from "./memory.js";
 import { chatHistoryTool } from "./chatHistory.js";
 import { visionTool } from "./vision.js";
 import { browserTool } from "./browser/index.js";
+import { toolOutputTool, setToolOutputBudgetSource, DEFAULT_TOOL_OUTPUT_BUDGET } from "./toolOutput.js";
 import { hasVisionModel } from "../ai/toolResultImages.js";
+import { getRuntimeSetting } from "../../config/runtimeSettings.js";
+import { recordToolExecution } from "../toolAuditStore.js";
 
 export function registerAllTools(): void {
   registerTool(filesystemTool);
@@ -25,6 +33,14 @@ export function registerAllTools(): void {
   registerTool(memoryTool);
   registerTool(chatHistoryTool);
   registerTool(browserTool);
+  registerTool(toolOutputTool);
+  setToolOutputBudgetSource(async () => {
+    const budget = Number(await getRuntimeSetting("tool_output_token_budget"));
+    return Number.isFinite(budget) ? budget : DEFAULT_TOOL_OUTPUT_BUDGET;
+  });
+  setToolAuditSink((entry) => {
+    recordToolExecution(entry).catch(console.error);
+  });
   if (hasVisionModel()) {
     registerTool(visionTool);
   }
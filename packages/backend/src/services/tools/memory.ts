@@ -49,8 +49,8 @@ Supported operations:
     params: P,
     operations: {
       save:   { params: ["header", "text", "tags", "session_id"], required: ["header", "text"] },
-      search: { params: ["query", "tags", "date_from", "date_to", "session_id", "limit", "offset"] },
-      list:   { params: ["tags", "session_id", "limit", "offset", "order"] },
+      search: { params: ["query", "tags", "date_from", "date_to", "session_id", "limit", "offset"], readOnly: true },
+      list:   { params: ["tags", "session_id", "limit", "offset", "order"], readOnly: true },
       delete: { params: ["id"], required: ["id"] },
       update: { params: ["id", "header", "text", "tags"], required: ["id"] },
     },
@@ -0,0 +1,241 @@
+import { watch, type FSWatcher } from "node:fs";
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { JsonSchemaProperty, OperationDef, ToolPluginStatus } from "@vladbot/shared";
+import { getToolDefinitions, registerTool, unregisterTool, type Tool } from "./ToolExecutor.js";
+
+const PLUGIN_EXTENSIONS = [".js", ".mjs"];
+const SCHEMA_TYPES: JsonSchemaProperty["type"][] = ["string", "number", "boolean", "object", "array"];
+/** Editors save in several writes; wait for the file to settle before reloading. */
+const RELOAD_DEBOUNCE_MS = 200;
+
+let pluginDir: string | null = null;
+let watcher: FSWatcher | null = null;
+/** Keyed by file name within the plugin directory. */
+const plugins = new Map<string, ToolPluginStatus>();
+const reloadTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const listeners = new Set<() => void>();
+/** Appended to the import URL: ESM caches modules by URL, so each reload needs a new one. */
+let loadCount = 0;
+
+/** Subscribe to plugin loads, reloads and failures. */
+export function onToolPluginChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notify(): void {
+  for (const listener of listeners) listener();
+}
+
+function isPluginFile(file: string): boolean {
+  return PLUGIN_EXTENSIONS.includes(path.extname(file)) && !file.startsWith(".");
+}
+
+function isTool(value: unknown): value is Tool {
+  if (typeof value !== "object" || value === null) return false;
+  const { definition, execute } = value as Partial<Tool>;
+  return (
+    typeof execute === "function" &&
+    typeof definition?.name === "string" &&
+    typeof definition.operations === "object" &&
+    definition.operations !== null
+  );
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+/** What is wrong with a parameter schema at `where`, or null when it is valid. */
+function schemaProblem(schema: unknown, where: string): string | null {
+  if (!isRecord(schema)) return `${where} is not a schema object`;
+  const { type, description, enum: values, properties, items, required } = schema as Partial<JsonSchemaProperty>;
+  if (!SCHEMA_TYPES.includes(type!)) return `${where} has no valid "type"`;
+  if (description !== undefined && typeof description !== "string") return `${where}.description is not a string`;
+  if (values !== undefined && !isStringArray(values)) return `${where}.enum is not a string array`;
+  if (items !== undefined) {
+    const problem = schemaProblem(items, `${where}.items`);
+    if (problem) return problem;
+  }
+  if (properties !== undefined || required !== undefined) {
+    return paramsProblem(properties, required, where);
+  }
+  return null;
+}
+
+/** What is wrong with a set of parameters and their required names, or null. */
+function paramsProblem(params: unknown, required: unknown, where: string): string | null {
+  if (!isRecord(params)) return `${where} has no params object`;
+  for (const [key, schema] of Object.entries(params)) {
+    const problem = schemaProblem(schema, `${where}.${key}`);
+    if (problem) return problem;
+  }
+  if (required === undefined) return null;
+  if (!isStringArray(required)) return `${where}.required is not a string array`;
+  const unknown = required.find((key) => !(key in params));
+  return unknown === undefined ? null : `${where}.required names "${unknown}", which is not a parameter`;
+}
+
+/**
+ * Check a plugin tool's operations up front: a malformed one would otherwise
+ * load fine and then throw out of argument validation on every call.
+ */
+function checkOperations(tool: Tool): void {
+  const { name, operations } = tool.definition;
+  for (const [opName, op] of Object.entries(operations)) {
+    const where = `${name}.${opName}`;
+    if (!isRecord(op)) throw new Error(`Operation "${where}" is not an object`);
+    const { description, params, required } = op as Partial<OperationDef>;
+    if (description !== undefined && typeof description !== "string") {
+      throw new Error(`Operation "${where}" has a description that is not a string`);
+    }
+    const problem = paramsProblem(params, required, where);
+    if (problem) throw new Error(`Operation "${where}" is invalid: ${problem}`);
+  }
+}
+
+/** Every export of the module that is a Tool, default export first. */
+function toolsOf(mod: Record<string, unknown>): Tool[] {
+  const tools = new Set<Tool>();
+  if (isTool(mod.default)) tools.add(mod.default);
+  for (const value of Object.values(mod)) {
+    if (isTool(value)) tools.add(value);
+  }
+  return [...tools];
+}
+
+function unregisterPluginTools(plugin: ToolPluginStatus | undefined): void {
+  for (const name of plugin?.tools ?? []) unregisterTool(name);
+}
+
+/** The tool names registered by plugins other than `file`. */
+function namesOwnedElsewhere(file: string): Set<string> {
+  const names = new Set<string>();
+  for (const [other, plugin] of plugins) {
+    if (other !== file) for (const name of plugin.tools) names.add(name);
+  }
+  return names;
+}
+
+async function importTools(file: string): Promise<Tool[]> {
+  const url = `${pathToFileURL(path.join(pluginDir!, file)).href}?v=${++loadCount}`;
+  const tools = toolsOf(await import(url));
+  if (tools.length === 0) {
+    throw new Error("Module does not export a tool (an object with `definition` and `execute`)");
+  }
+
+  const ownedElsewhere = namesOwnedElsewhere(file);
+  const ownName = new Set(plugins.get(file)?.tools);
+  const registered = new Set(getToolDefinitions().map((d) => d.name));
+  const seen = new Set<string>();
+  for (const tool of tools) {
+    const name = tool.definition.name;
+    if (seen.has(name)) throw new Error(`Tool "${name}" is exported twice`);
+    seen.add(name);
+    checkOperations(tool);
+    if (ownedElsewhere.has(name) || (registered.has(name) && !ownName.has(name))) {
+      throw new Error(`Tool "${name}" is already registered`);
+    }
+  }
+  return tools;
+}
+
+/**
+ * (Re)load one plugin file. A failed load leaves the plugin's tools
+ * unregistered and records the error for the UI; it never throws.
+ */
+export async function loadToolPlugin(file: string): Promise<ToolPluginStatus> {
+  const previous = plugins.get(file);
+  let status: ToolPluginStatus;
+  try {
+    const tools = await importTools(file);
+    unregisterPluginTools(previous);
+    for (const tool of tools) registerTool(tool);
+    status = {
+      file,
+      state: "loaded",
+      tools: tools.map((t) => t.definition.name),
+      loadedAt: new Date().toISOString(),
+    };
+  } catch (err) {
+    unregisterPluginTools(previous);
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`Tool plugin "${file}" failed to load: ${message}`);
+    status = { file, state: "error", tools: [], error: message, loadedAt: new Date().toISOString() };
+  }
+  plugins.set(file, status);
+  notify();
+  return status;
+}
+
+export function unloadToolPlugin(file: string): void {
+  const plugin = plugins.get(file);
+  if (!plugin) return;
+  unregisterPluginTools(plugin);
+  plugins.delete(file);
+  notify();
+}
+
+function scheduleReload(file: string): void {
+  clearTimeout(reloadTimers.get(file));
+  reloadTimers.set(file, setTimeout(() => {
+    reloadTimers.delete(file);
+    void reloadIfPresent(file);
+  }, RELOAD_DEBOUNCE_MS));
+}
+
+async function reloadIfPresent(file: string): Promise<void> {
+  const files = await readdir(pluginDir!).catch(() => [] as string[]);
+  if (files.includes(file)) await loadToolPlugin(file);
+  else unloadToolPlugin(file);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Load every plugin in `dir` and reload plugins as their files change. A
+ * missing directory is not an error: there are just no plugins.
+ */
+export async function initToolPlugins(dir: string): Promise<void> {
+  closeToolPlugins();
+  pluginDir = path.resolve(dir);
+
+  let files: string[];
+  try {
+    files = await readdir(pluginDir);
+  } catch {
+    console.log(`No tool plugin directory at ${pluginDir}`);
+    return;
+  }
+  for (const file of files.filter(isPluginFile).sort()) {
+    await loadToolPlugin(file);
+  }
+
+  try {
+    watcher = watch(pluginDir, (_event, file) => {
+      if (file && isPluginFile(file)) scheduleReload(file);
+    });
+    watcher.on("error", (err) => console.error("Tool plugin watcher failed:", err));
+  } catch (err) {
+    console.error(`Cannot watch ${pluginDir} for plugin changes:`, err);
+  }
+}
+
+export function getToolPluginStatuses(): ToolPluginStatus[] {
+  return [...plugins.values()].sort((a, b) => a.file.localeCompare(b.file));
+}
+
+/** Stop watching and unregister every plugin tool (for graceful shutdown / tests). */
+export function closeToolPlugins(): void {
+  watcher?.close();
+  watcher = null;
+  for (const timer of reloadTimers.values()) clearTimeout(timer);
+  reloadTimers.clear();
+  for (const file of [...plugins.keys()]) unloadToolPlugin(file);
+}
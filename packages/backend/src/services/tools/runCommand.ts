@@ -1,14 +1,14 @@
-import { exec } from "node:child_process";
-import { promisify } from "node:util";
+import { spawn } from "node:child_process";
 import { stat } from "node:fs/promises";
 import path from "node:path";
-import type { Tool } from "./ToolExecutor.js";
-
-const execAsync = promisify(exec);
+import { TOOL_CANCELLED, type Tool, type ToolExecuteContext } from "./ToolExecutor.js";
 
 const DEFAULT_TIMEOUT = 30_000;
 const MAX_TIMEOUT = 300_000;
-const MAX_OUTPUT = 50_000;
+/** Output past the token budget is spilled to a file by the executor; this only bounds memory. */
+const MAX_BUFFER = 10 * 1024 * 1024;
+/** How long a stopped command gets to exit after SIGTERM before SIGKILL, and after SIGKILL before it is given up on. */
+const KILL_GRACE_MS = 2000;
 
 export const runCommandTool: Tool = {
   definition: {
@@ -50,7 +50,11 @@ This tool has the lowest priority. Prefer other available tools when they can ac
     },
   },
 
-  async execute(args: Record<string, unknown>): Promise<string> {
+  async execute(
+    args: Record<string, unknown>,
+    _sessionId?: string,
+    context?: ToolExecuteContext,
+  ): Promise<string> {
     const command = args.command as string;
     if (!command) throw new Error("Missing required argument: command");
 
@@ -68,28 +72,103 @@ This tool has the lowest priority. Prefer other available tools when they can ac
       throw new Error(`Invalid working directory: ${resolved}`);
     }
 
-    try {
-      const { stdout, stderr } = await execAsync(command, {
-        cwd: resolved,
-        timeout: timeoutMs,
-        maxBuffer: 10 * 1024 * 1024,
-      });
-
-      return formatOutput(0, stdout, stderr);
-    } catch (error: unknown) {
-      const err = error as Record<string, unknown>;
-      const code = err.code ?? err.status ?? "unknown";
-      const stdout = (err.stdout as string) || "";
-      const stderr = (err.stderr as string) || "";
-
-      if (err.killed) {
-        return `Command timed out after ${timeoutMs}ms\n${formatOutput(code, stdout, stderr)}`;
-      }
-      return formatOutput(code, stdout, stderr);
+    const result = await runInProcessGroup(command, resolved, timeoutMs, context?.signal);
+    const output = formatOutput(result.code, result.stdout, result.stderr);
+
+    if (result.cancelled) {
+      throw new Error(`${TOOL_CANCELLED}\n${output}`);
     }
+    if (result.timedOut) {
+      return `Command timed out after ${timeoutMs}ms\n${output}`;
+    }
+    return output;
   },
 };
 
+interface CommandResult {
+  code: number | string;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  cancelled: boolean;
+}
+
+/**
+ * Run a command via /bin/sh in its own process group, so a timeout or the
+ * abort signal stops everything it started, not just the shell. The group
+ * gets SIGTERM, then SIGKILL if it is still around after KILL_GRACE_MS; a
+ * command whose output stays open even then (a process that left the group)
+ * is given up on without waiting for `close`.
+ */
+function runInProcessGroup(
+  command: string,
+  cwd: string,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<CommandResult> {
+  return new Promise((resolve) => {
+    const child = spawn("/bin/sh", ["-c", command], { cwd, detached: true });
+    const result: CommandResult = { code: "unknown", stdout: "", stderr: "", timedOut: false, cancelled: false };
+
+    let settled = false;
+    let graceTimer: ReturnType<typeof setTimeout> | undefined;
+    const signalGroup = (sig: NodeJS.Signals) => {
+      try {
+        process.kill(-child.pid!, sig);
+      } catch {
+        // Already exited
+      }
+    };
+    const killGroup = () => {
+      if (graceTimer) return;
+      signalGroup("SIGTERM");
+      graceTimer = setTimeout(() => {
+        signalGroup("SIGKILL");
+        graceTimer = setTimeout(() => {
+          child.stdout.destroy();
+          child.stderr.destroy();
+          finish();
+        }, KILL_GRACE_MS);
+      }, KILL_GRACE_MS);
+    };
+    const onAbort = () => {
+      result.cancelled = true;
+      killGroup();
+    };
+    const timer = setTimeout(() => {
+      result.timedOut = true;
+      killGroup();
+    }, timeoutMs);
+
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener("abort", onAbort, { once: true });
+
+    child.stdout.setEncoding("utf8").on("data", (chunk: string) => {
+      if (result.stdout.length < MAX_BUFFER) result.stdout += chunk;
+    });
+    child.stderr.setEncoding("utf8").on("data", (chunk: string) => {
+      if (result.stderr.length < MAX_BUFFER) result.stderr += chunk;
+    });
+
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      clearTimeout(graceTimer);
+      signal?.removeEventListener("abort", onAbort);
+      resolve(result);
+    };
+    child.on("error", (err) => {
+      result.stderr += err.message;
+      finish();
+    });
+    child.on("close", (code) => {
+      if (code !== null) result.code = code;
+      finish();
+    });
+  });
+}
+
 function truncate(s: string, max: number): string {
   if (s.length <= max) return s;
   return s.slice(0, max) + "\n[truncated]";
@@ -100,7 +179,7 @@ function formatOutput(
   stdout: string,
   stderr: string,
 ): string {
-  const out = truncate(stdout || "(empty)", MAX_OUTPUT);
-  const err = truncate(stderr || "(empty)", MAX_OUTPUT);
+  const out = truncate(stdout || "(empty)", MAX_BUFFER);
+  const err = truncate(stderr || "(empty)", MAX_BUFFER);
   return `Exit code: ${code}\n--- stdout ---\n${out}\n--- stderr ---\n${err}`;
 }
@@ -0,0 +1,261 @@
+import { readFileSync } from "node:fs";
+import type { JsonSchemaProperty, ToolResult } from "@vladbot/shared";
+import type { Tool } from "./ToolExecutor.js";
+import { buildOperationToolDef } from "./buildToolDef.js";
+import { getSessionFilePath, saveSessionFile } from "../sessionFiles.js";
+import { countTokens } from "../tokenCounter.js";
+
+export const TOOL_OUTPUT_TOOL = "tool_output";
+
+/** Used until `setToolOutputBudgetSource` points at the runtime setting. */
+export const DEFAULT_TOOL_OUTPUT_BUDGET = 8000;
+/** The preview uses about half the budget (at ~4 chars per token): head first, then tail. */
+const PREVIEW_CHARS_PER_TOKEN = 2;
+const PREVIEW_TAIL_SHARE = 0.25;
+
+const DEFAULT_LINES = 100;
+const MAX_LINES = 1000;
+const MAX_GREP_MATCHES = 200;
+/** Lines longer than this are cut in tool_output results (minified JSON, base64). */
+const MAX_LINE_CHARS = 2000;
+/** tool_output results aren't spilled themselves, so they stop at this size. */
+const MAX_RESULT_CHARS = 40_000;
+
+let budgetSource: () => Promise<number> = async () => DEFAULT_TOOL_OUTPUT_BUDGET;
+
+/**
+ * Where the token budget comes from. Kept injectable so the executor doesn't
+ * depend on the settings store; `registerAllTools` wires the runtime setting.
+ * A budget of 0 or less turns spilling off.
+ */
+export function setToolOutputBudgetSource(source: () => Promise<number>): void {
+  budgetSource = source;
+}
+
+// ---------------------------------------------------------------------------
+// Spilling
+// ---------------------------------------------------------------------------
+
+/** Screenshot results carry their image inline or by URL; they're handled as images, not text. */
+function hasImage(output: string): boolean {
+  return /"image_(base64|url)"\s*:/.test(output);
+}
+
+function buildPreview(lines: string[], maxChars: number): { head: string[]; tail: string[] } {
+  const head: string[] = [];
+  const tail: string[] = [];
+  let budget = Math.floor(maxChars * (1 - PREVIEW_TAIL_SHARE));
+  let i = 0;
+  for (; i < lines.length && lines[i].length + 1 <= budget; i++) {
+    head.push(lines[i]);
+    budget -= lines[i].length + 1;
+  }
+  if (head.length === 0 && lines.length > 0) {
+    // One huge line: show its start
+    head.push(lines[0].slice(0, budget));
+    i = 1;
+  }
+  budget += Math.floor(maxChars * PREVIEW_TAIL_SHARE);
+  for (let j = lines.length - 1; j >= i && lines[j].length + 1 <= budget; j--) {
+    tail.unshift(lines[j]);
+    budget -= lines[j].length + 1;
+  }
+  return { head, tail };
+}
+
+/**
+ * Store a result over the token budget as a session file and replace its
+ * output with a preview and the handle the tool_output tool reads it by.
+ * Results without a session (nowhere to store them), images and the
+ * tool_output tool's own results pass through unchanged.
+ */
+export async function spillOversizedResult(
+  result: ToolResult,
+  toolName: string,
+  sessionId?: string,
+): Promise<ToolResult> {
+  if (!sessionId || toolName === TOOL_OUTPUT_TOOL || hasImage(result.output)) return result;
+  const budget = await budgetSource();
+  // A token is at least one character, so short outputs skip the tokenizer
+  if (budget <= 0 || result.output.length <= budget) return result;
+  const tokens = countTokens(result.output);
+  if (tokens <= budget) return result;
+
+  const handle = saveSessionFile(sessionId, Buffer.from(result.output, "utf8"), "txt");
+  const lines = result.output.split("\n");
+  const { head, tail } = buildPreview(lines, budget * PREVIEW_CHARS_PER_TOKEN);
+  const skipped = lines.length - head.length - tail.length;
+
+  const parts = [
+    `[Output too large: ${tokens} tokens, ${lines.length} lines (budget ${budget} tokens). ` +
+      `The full output is stored with handle "${handle}". Read the rest with ` +
+      `${TOOL_OUTPUT_TOOL}_read, ${TOOL_OUTPUT_TOOL}_grep, ${TOOL_OUTPUT_TOOL}_head or ${TOOL_OUTPUT_TOOL}_tail.]`,
+    `--- lines 1-${head.length} ---`,
+    ...head,
+  ];
+  if (skipped > 0) parts.push(`--- ${skipped} lines omitted ---`);
+  if (tail.length > 0) {
+    parts.push(`--- lines ${lines.length - tail.length + 1}-${lines.length} ---`, ...tail);
+  }
+
+  return {
+    ...result,
+    output: parts.join("\n"),
+    spilled: {
+      handle,
+      url: `/api/sessions/${sessionId}/files/${handle}`,
+      tokens,
+      lines: lines.length,
+      budget,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Retrieval tool
+// ---------------------------------------------------------------------------
+
+const P = {
+  handle: {
+    type: "string",
+    description: "The handle from an \"[Output too large …]\" result.",
+  },
+  offset: {
+    type: "number",
+    description: "First line to return, 1-based (default 1).",
+  },
+  limit: {
+    type: "number",
+    description: `Number of lines to return (default ${DEFAULT_LINES}, max ${MAX_LINES}).`,
+  },
+  pattern: {
+    type: "string",
+    description: "Regular expression to search for (JavaScript syntax).",
+  },
+  ignore_case: {
+    type: "boolean",
+    description: "Match case-insensitively (default false).",
+  },
+  context: {
+    type: "number",
+    description: "Lines of context around each match (default 0, max 10).",
+  },
+} satisfies Record<string, JsonSchemaProperty>;
+
+function readLines(handle: string, sessionId?: string): string[] {
+  if (!sessionId) throw new Error("Session ID required for tool_output");
+  const filePath = getSessionFilePath(sessionId, handle);
+  if (!filePath || !handle.endsWith(".txt")) throw new Error(`Unknown tool output handle: ${handle}`);
+  return readFileSync(filePath, "utf8").split("\n");
+}
+
+function clampLines(value: unknown): number {
+  const n = Number(value) || DEFAULT_LINES;
+  return Math.max(1, Math.min(MAX_LINES, Math.floor(n)));
+}
+
+function cutLine(line: string): string {
+  return line.length > MAX_LINE_CHARS ? `${line.slice(0, MAX_LINE_CHARS)}… [${line.length - MAX_LINE_CHARS} more chars]` : line;
+}
+
+/**
+ * Append lines `from`..`to` (1-based, inclusive) to `out`, numbered like
+ * `cat -n`, until `out` reaches MAX_RESULT_CHARS. Returns the last line added.
+ */
+function appendRange(out: string[], lines: string[], from: number, to: number): number {
+  let size = out.reduce((sum, line) => sum + line.length + 1, 0);
+  for (let n = from; n <= to; n++) {
+    const line = `${n}\t${cutLine(lines[n - 1])}`;
+    if (size + line.length > MAX_RESULT_CHARS && n > from) return n - 1;
+    out.push(line);
+    size += line.length + 1;
+  }
+  return to;
+}
+
+function readRange(lines: string[], offset: number, limit: number): string {
+  const from = Math.max(1, Math.floor(offset));
+  if (from > lines.length) return `Offset ${from} is past the end (${lines.length} lines)`;
+  const out: string[] = [];
+  const to = appendRange(out, lines, from, Math.min(lines.length, from + limit - 1));
+  if (to < lines.length) out.push(`[lines ${from}-${to} of ${lines.length}; continue with offset ${to + 1}]`);
+  return out.join("\n");
+}
+
+function grep(lines: string[], args: Record<string, unknown>): string {
+  const pattern = args.pattern as string;
+  if (!pattern) throw new Error("Missing required argument: pattern");
+  let re: RegExp;
+  try {
+    re = new RegExp(pattern, args.ignore_case ? "i" : "");
+  } catch (err) {
+    throw new Error(`Invalid pattern: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const context = Math.max(0, Math.min(10, Math.floor(Number(args.context) || 0)));
+
+  const matches: number[] = [];
+  let total = 0;
+  lines.forEach((line, i) => {
+    if (!re.test(line)) return;
+    total++;
+    if (matches.length < MAX_GREP_MATCHES) matches.push(i + 1);
+  });
+  if (total === 0) return "No matches";
+
+  const out: string[] = [];
+  let lastEnd = 0;
+  let shown = 0;
+  for (const n of matches) {
+    const from = Math.max(1, n - context, lastEnd + 1);
+    const to = Math.min(lines.length, n + context);
+    if (from > to) continue;
+    if (lastEnd > 0 && from > lastEnd + 1) out.push("--");
+    lastEnd = appendRange(out, lines, from, to);
+    if (lastEnd < n) break;
+    shown++;
+    if (lastEnd < to) break;
+  }
+  const header = total > shown
+    ? `${total} matching lines, showing the first ${shown}`
+    : `${total} matching line${total === 1 ? "" : "s"}`;
+  return `${header}\n${out.join("\n")}`;
+}
+
+export const toolOutputTool: Tool = {
+  definition: buildOperationToolDef({
+    name: TOOL_OUTPUT_TOOL,
+    description: `Read tool outputs that were too large to return in full. Such a result starts with "[Output too large …]", shows only a preview and names a handle; pass that handle here.
+
+Supported operations:
+- read: Lines from offset, numbered.
+- grep: Lines matching a regular expression, with optional context.
+- head: The first lines.
+- tail: The last lines.`,
+    params: P,
+    operations: {
+      read: { params: ["handle", "offset", "limit"], required: ["handle"], readOnly: true },
+      grep: { params: ["handle", "pattern", "ignore_case", "context"], required: ["handle", "pattern"], readOnly: true },
+      head: { params: ["handle", "limit"], required: ["handle"], readOnly: true },
+      tail: { params: ["handle", "limit"], required: ["handle"], readOnly: true },
+    },
+  }),
+
+  async execute(args: Record<string, unknown>, sessionId?: string): Promise<string> {
+    const lines = readLines(args.handle as string, sessionId);
+    const op = args.operation as string;
+    switch (op) {
+      case "read":
+        return readRange(lines, Number(args.offset) || 1, clampLines(args.limit));
+      case "grep":
+        return grep(lines, args);
+      case "head":
+        return readRange(lines, 1, clampLines(args.limit));
+      case "tail": {
+        const limit = clampLines(args.limit);
+        return readRange(lines, Math.max(1, lines.length - limit + 1), limit);
+      }
+      default:
+        throw new Error(`Unknown tool_output operation: ${op}`);
+    }
+  },
+};
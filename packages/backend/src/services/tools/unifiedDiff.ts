@@ -0,0 +1,169 @@
+/** Lines of unchanged context around each change. */
+const CONTEXT_LINES = 3;
+/**
+ * Edit distance at which the line diff gives up and shows the whole file as
+ * replaced; keeps the O(D²) trace small for unrelated contents.
+ */
+const MAX_EDITS = 2000;
+
+interface DiffOp {
+  type: " " | "-" | "+";
+  line: string;
+  /** The line has no newline after it (the end of a file that doesn't end with one). */
+  noEol?: boolean;
+}
+
+interface Line {
+  text: string;
+  noEol?: boolean;
+}
+
+function splitLines(text: string): Line[] {
+  if (text === "") return [];
+  const parts = text.split("\n");
+  if (parts[parts.length - 1] === "") {
+    parts.pop();
+    return parts.map((t) => ({ text: t }));
+  }
+  return parts.map((t, i) => (i === parts.length - 1 ? { text: t, noEol: true } : { text: t }));
+}
+
+const sameLine = (a: Line, b: Line) => a.text === b.text && !a.noEol === !b.noEol;
+const op = (type: DiffOp["type"], line: Line): DiffOp => ({ type, line: line.text, noEol: line.noEol });
+
+/**
+ * Myers' O((N+M)D) shortest edit script. The V array is snapshotted per
+ * step (only the diagonals that step can reach) for the backtrack. Returns
+ * null past MAX_EDITS.
+ */
+function shortestEdit(a: Line[], b: Line[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDITS);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && sameLine(a[x], b[y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(trace, a, b);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], a: Line[], b: Line[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d - 1];
+    const at = (k: number) => prev[k + d - 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push(op(" ", a[--x]));
+      y--;
+    }
+    if (x === prevX) ops.push(op("+", b[--y]));
+    else ops.push(op("-", a[--x]));
+  }
+  while (x > 0 && y > 0) {
+    ops.push(op(" ", a[--x]));
+    y--;
+  }
+  return ops.reverse();
+}
+
+function diffLines(a: Line[], b: Line[]): DiffOp[] {
+  // Edits usually touch a small part of a file: match the common ends first
+  let start = 0;
+  while (start < a.length && start < b.length && sameLine(a[start], b[start])) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && sameLine(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = shortestEdit(middleA, middleB) ?? [
+    ...middleA.map((l) => op("-", l)),
+    ...middleB.map((l) => op("+", l)),
+  ];
+  return [
+    ...a.slice(0, start).map((l) => op(" ", l)),
+    ...middle,
+    ...a.slice(endA).map((l) => op(" ", l)),
+  ];
+}
+
+function range(start: number, count: number): string {
+  // An empty range names the line before it
+  const first = count === 0 ? start : start + 1;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
+
+/**
+ * A unified diff (`diff -u` format) between two texts, or "" when they are
+ * equal. Stops after `maxLines` output lines and reports whether it did.
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  labels: { old: string; new: string },
+  maxLines = Infinity,
+): { diff: string; truncated: boolean } {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const changes = ops.flatMap((o, i) => (o.type === " " ? [] : [i]));
+  if (changes.length === 0) return { diff: "", truncated: false };
+
+  const out = [`--- ${labels.old}`, `+++ ${labels.new}`];
+  let truncated = false;
+  let c = 0;
+  while (c < changes.length) {
+    // A hunk takes in every change within two contexts of the previous one
+    let last = c;
+    while (last + 1 < changes.length && changes[last + 1] - changes[last] <= 2 * CONTEXT_LINES) last++;
+    const from = Math.max(0, changes[c] - CONTEXT_LINES);
+    const to = Math.min(ops.length, changes[last] + CONTEXT_LINES + 1);
+
+    let oldStart = 0;
+    let newStart = 0;
+    for (let i = 0; i < from; i++) {
+      if (ops[i].type !== "+") oldStart++;
+      if (ops[i].type !== "-") newStart++;
+    }
+    const hunk = ops.slice(from, to);
+    const oldCount = hunk.filter((o) => o.type !== "+").length;
+    const newCount = hunk.filter((o) => o.type !== "-").length;
+
+    const lines = [`@@ -${range(oldStart, oldCount)} +${range(newStart, newCount)} @@`];
+    for (const o of hunk) {
+      lines.push(`${o.type}${o.line}`);
+      if (o.noEol) lines.push("\\ No newline at end of file");
+    }
+    if (out.length + lines.length > maxLines) {
+      // A first hunk that is too long on its own is cut, so something shows
+      if (out.length === 2) out.push(...lines.slice(0, Math.max(1, maxLines - 2)));
+      truncated = true;
+      break;
+    }
+    out.push(...lines);
+    c = last + 1;
+  }
+  return { diff: out.join("\n"), truncated };
+}
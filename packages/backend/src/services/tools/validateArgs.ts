@@ -0,0 +1,131 @@
+import type { JsonSchemaProperty, OperationDef } from "@vladbot/shared";
+
+/** A call's arguments checked against its operation's schema. */
+export interface ArgumentCheck {
+  /** The arguments with common mistakes coerced, e.g. "5" to 5 for a number. */
+  args: Record<string, unknown>;
+  /** One line per problem, each starting with the argument's path. */
+  errors: string[];
+}
+
+const NUMERIC = /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return `string ${JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value)}`;
+  return typeof value;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fix the mistakes models commonly make: numbers and booleans sent as
+ * strings (or the reverse), arrays and objects sent as JSON text.
+ * Anything that doesn't convert cleanly is returned unchanged.
+ */
+function coerce(schema: JsonSchemaProperty, value: unknown): unknown {
+  switch (schema.type) {
+    case "string":
+      return typeof value === "number" || typeof value === "boolean" ? String(value) : value;
+    case "number":
+      return typeof value === "string" && NUMERIC.test(value.trim()) ? Number(value.trim()) : value;
+    case "boolean":
+      if (typeof value !== "string") return value;
+      if (value.trim().toLowerCase() === "true") return true;
+      if (value.trim().toLowerCase() === "false") return false;
+      return value;
+    case "array": {
+      if (typeof value !== "string" || !value.trim().startsWith("[")) return value;
+      const parsed = parseJson(value);
+      return Array.isArray(parsed) ? parsed : value;
+    }
+    case "object": {
+      if (typeof value !== "string" || !value.trim().startsWith("{")) return value;
+      const parsed = parseJson(value);
+      return isPlainObject(parsed) ? parsed : value;
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasType(schema: JsonSchemaProperty, value: unknown): boolean {
+  switch (schema.type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+  }
+}
+
+function checkValue(schema: JsonSchemaProperty, raw: unknown, path: string, errors: string[]): unknown {
+  const value = coerce(schema, raw);
+  if (!hasType(schema, value)) {
+    errors.push(`${path}: expected ${schema.type}, got ${describe(raw)}`);
+    return raw;
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    errors.push(`${path}: must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(", ")}, got ${describe(raw)}`);
+    return value;
+  }
+  if (schema.type === "array" && schema.items) {
+    return (value as unknown[]).map((item, i) => checkValue(schema.items!, item, `${path}[${i}]`, errors));
+  }
+  if (schema.type === "object" && schema.properties) {
+    return checkObject(schema.properties, schema.required, value as Record<string, unknown>, `${path}.`, errors);
+  }
+  return value;
+}
+
+/** Check the declared properties of `obj`; undeclared ones pass through untouched. */
+function checkObject(
+  properties: Record<string, JsonSchemaProperty>,
+  required: string[] | undefined,
+  obj: Record<string, unknown>,
+  prefix: string,
+  errors: string[],
+): Record<string, unknown> {
+  const result = { ...obj };
+  for (const name of required ?? []) {
+    if (obj[name] === undefined || obj[name] === null) {
+      errors.push(`${prefix}${name}: required argument is missing`);
+    }
+  }
+  for (const [name, schema] of Object.entries(properties)) {
+    const value = obj[name];
+    // Models often send null for optional arguments they mean to leave out
+    if (value === undefined || value === null) continue;
+    result[name] = checkValue(schema, value, `${prefix}${name}`, errors);
+  }
+  return result;
+}
+
+/**
+ * Check a call's arguments against its operation's schema, including nested
+ * `items` and `properties`, coercing common mistakes on the way.
+ */
+export function checkArguments(op: OperationDef, args: Record<string, unknown>): ArgumentCheck {
+  const errors: string[] = [];
+  const checked = checkObject(op.params, op.required, args, "", errors);
+  return { args: checked, errors };
+}
+
+/** The error result text for a call whose arguments failed `checkArguments`. */
+export function formatArgumentErrors(callName: string, errors: string[]): string {
+  return `Invalid arguments for ${callName}:\n${errors.map((e) => `- ${e}`).join("\n")}`;
+}
@@ -1,4 +1,4 @@
-import type { Tool } from "./ToolExecutor.js";
+import type { Tool, ToolExecuteContext } from "./ToolExecutor.js";
 import {
   getLatestImage,
   queryVisionModel,
@@ -23,11 +23,16 @@ export const visionTool: Tool = {
           },
         },
         required: ["prompt"],
+        readOnly: true,
       },
     },
   },
 
-  async execute(args: Record<string, unknown>, sessionId?: string): Promise<string> {
+  async execute(
+    args: Record<string, unknown>,
+    sessionId?: string,
+    context?: ToolExecuteContext,
+  ): Promise<string> {
     const prompt = args.prompt as string;
     if (!prompt) {
       return JSON.stringify({ error: "prompt is required" });
@@ -44,7 +49,7 @@ export const visionTool: Tool = {
       });
     }
 
-    const result = await queryVisionModel(prompt, image.base64, image.mimeType, sessionId);
+    const result = await queryVisionModel(prompt, image.base64, image.mimeType, sessionId, context?.signal);
     return JSON.stringify({ result });
   },
 };
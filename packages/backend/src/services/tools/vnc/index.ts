@@ -1,4 +1,4 @@
-import type { Tool } from "../ToolExecutor.js";
+import type { Tool, ToolExecuteContext } from "../ToolExecutor.js";
 import { buildOperationToolDef } from "../buildToolDef.js";
 import type { JsonSchemaProperty } from "@vladbot/shared";
 import { takeScreenshot, markScreenshot } from "./operations/screenshot.js";
@@ -114,7 +114,11 @@ Key names for press_key (case-insensitive, many synonyms accepted):
     return { valid: true };
   },
 
-  async execute(args: Record<string, unknown>, sessionId?: string): Promise<string> {
+  async execute(
+    args: Record<string, unknown>,
+    sessionId?: string,
+    context?: ToolExecuteContext,
+  ): Promise<string> {
     const op = args.operation as string;
     switch (op) {
       case "screenshot":
@@ -122,13 +126,13 @@ Key names for press_key (case-insensitive, many synonyms accepted):
       case "mark_screenshot":
         return markScreenshot(args, sessionId);
       case "move_mouse":
-        return moveMouse(args);
+        return moveMouse(args, context?.signal);
       case "click":
-        return click(args);
+        return click(args, context?.signal);
       case "scroll":
-        return scroll(args);
+        return scroll(args, context?.signal);
       case "type_text":
-        return typeText(args);
+        return typeText(args, context?.signal);
       case "press_key":
         return pressKey(args);
       case "get_coordinates":
@@ -1,3 +1,4 @@
+import { TOOL_CANCELLED } from "../../ToolExecutor.js";
 import { resolveConnection } from "../VncConnection.js";
 import { charToKeysym, parseShortcut, KEYSYM } from "../keysym.js";
 import {
@@ -20,8 +21,13 @@ function sendKey(
   client.keyEvent(keysym, isDown ? 1 : 0);
 }
 
+/**
+ * Type text with human-like timing. Aborting `signal` stops between
+ * characters, never with a key still held down.
+ */
 export async function typeText(
   args: Record<string, unknown>,
+  signal?: AbortSignal,
 ): Promise<string> {
   const text = args.text as string;
   if (!text) throw new Error("Missing required argument: text");
@@ -31,6 +37,9 @@ export async function typeText(
   const delays = generateTypingDelays(text);
 
   for (let i = 0; i < text.length; i++) {
+    if (signal?.aborted) {
+      throw new Error(`${TOOL_CANCELLED}\nTyped ${i} of ${text.length} characters`);
+    }
     const char = text[i];
     const keysym = charToKeysym(char);
 
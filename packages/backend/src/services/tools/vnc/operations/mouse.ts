@@ -1,3 +1,4 @@
+import { TOOL_CANCELLED, throwIfCancelled } from "../../ToolExecutor.js";
 import { resolveConnection } from "../VncConnection.js";
 import { generateMousePath } from "../humanize/mouseMovement.js";
 import { BUTTON, type Point } from "../types.js";
@@ -20,8 +21,13 @@ function setMousePos(args: Record<string, unknown>, pos: Point): void {
   mousePositions.set(key, pos);
 }
 
+/**
+ * Move along a humanized path. Aborting `signal` stops mid-path; the
+ * pointer stays where it got to.
+ */
 export async function moveMouse(
   args: Record<string, unknown>,
+  signal?: AbortSignal,
 ): Promise<string> {
   const x = Number(args.x);
   const y = Number(args.y);
@@ -40,7 +46,12 @@ export async function moveMouse(
     const p = points[i];
     const cx = Math.max(0, Math.min(conn.width - 1, p.x));
     const cy = Math.max(0, Math.min(conn.height - 1, p.y));
+    if (signal?.aborted) {
+      const at = getMousePos(args);
+      throw new Error(`${TOOL_CANCELLED}\nMouse stopped at (${at.x}, ${at.y})`);
+    }
     client.pointerEvent(cx, cy, BUTTON.NONE);
+    setMousePos(args, { x: cx, y: cy });
     if (i < points.length - 1 && delays[i] > 0) {
       await sleep(delays[i]);
     }
@@ -50,7 +61,10 @@ export async function moveMouse(
   return `Mouse moved to (${x}, ${y}) with ${points.length} steps`;
 }
 
-export async function click(args: Record<string, unknown>): Promise<string> {
+export async function click(
+  args: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<string> {
   const x = Number(args.x);
   const y = Number(args.y);
   if (isNaN(x) || isNaN(y))
@@ -79,8 +93,8 @@ export async function click(args: Record<string, unknown>): Promise<string> {
       buttonMask = BUTTON.LEFT;
   }
 
-  // Move to click position
-  await moveMouse(args);
+  // Move to click position; cancelling here is safe, nothing is pressed yet
+  await moveMouse(args, signal);
 
   // Press modifier keys if specified
   for (const key of holdKeys) {
@@ -111,6 +125,16 @@ export async function click(args: Record<string, unknown>): Promise<string> {
         buttonMask,
       );
       if (i < points.length - 1) await sleep(delays[i]);
+      if (signal?.aborted) {
+        // Drop the drag where it is rather than leave the button held
+        client.pointerEvent(p.x, p.y, BUTTON.NONE);
+        setMousePos(args, p);
+        for (const key of [...holdKeys].reverse()) {
+          const sym = KEYSYM[key] || charToKeysym(key);
+          if (sym) client.keyEvent(sym, false);
+        }
+        throw new Error(`${TOOL_CANCELLED}\nDrag released at (${p.x}, ${p.y})`);
+      }
     }
 
     client.pointerEvent(dragToX, dragToY, BUTTON.NONE);
@@ -141,7 +165,10 @@ export async function click(args: Record<string, unknown>): Promise<string> {
   return `${action} at (${x}, ${y})`;
 }
 
-export async function scroll(args: Record<string, unknown>): Promise<string> {
+export async function scroll(
+  args: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<string> {
   const x = Number(args.x);
   const y = Number(args.y);
   const direction = (args.direction as string) || "down";
@@ -154,7 +181,7 @@ export async function scroll(args: Record<string, unknown>): Promise<string> {
   const client = await conn.getClient();
 
   // Move to scroll position first
-  await moveMouse(args);
+  await moveMouse(args, signal);
 
   let scrollButton: number;
   switch (direction) {
@@ -169,6 +196,7 @@ export async function scroll(args: Record<string, unknown>): Promise<string> {
   }
 
   for (let i = 0; i < amount; i++) {
+    throwIfCancelled(signal);
     client.pointerEvent(x, y, scrollButton);
     await sleep(10 + Math.random() * 20);
     client.pointerEvent(x, y, BUTTON.NONE);
@@ -0,0 +1,171 @@
+import type {
+  ModelInfo,
+  TokenUsage,
+  UsageGroupBy,
+  UsagePurpose,
+  UsageReport,
+  UsageReportRow,
+  UsageTotals,
+} from "@vladbot/shared";
+import { findModel } from "@vladbot/shared";
+import pool from "./db.js";
+
+/** Prompt-cache pricing relative to the input price (Anthropic rates). */
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REPORT_DAYS = 30;
+
+/**
+ * USD cost of one LLM call. Prices are per million tokens; cached prompt
+ * tokens are billed at the cache write/read rates instead of the input rate.
+ * Returns null when the model has no pricing.
+ */
+export function computeCost(
+  model: Pick<ModelInfo, "inputPrice" | "outputPrice"> | undefined,
+  usage: TokenUsage,
+): number | null {
+  if (model?.inputPrice == null || model.outputPrice == null) return null;
+  const cacheWrite = usage.cacheCreationInputTokens ?? 0;
+  const cacheRead = usage.cacheReadInputTokens ?? 0;
+  const uncached = Math.max(0, usage.inputTokens - cacheWrite - cacheRead);
+  const input =
+    uncached +
+    cacheWrite * CACHE_WRITE_MULTIPLIER +
+    cacheRead * CACHE_READ_MULTIPLIER;
+  return (input * model.inputPrice + usage.outputTokens * model.outputPrice) / 1_000_000;
+}
+
+/** Cost of a call by "provider" + "modelId", looked up in the model registry. */
+export function costOf(provider: string, model: string, usage: TokenUsage): number | null {
+  return computeCost(findModel(`${provider}:${model}`), usage);
+}
+
+/**
+ * Append an LLM call to the usage ledger. Returns the computed cost (null
+ * when the model has no pricing). Callers fire-and-forget with .catch().
+ */
+export async function recordUsage(entry: {
+  sessionId?: string | null;
+  messageId?: string | null;
+  provider: string;
+  model: string;
+  purpose: UsagePurpose;
+  usage: TokenUsage;
+}): Promise<number | null> {
+  const cost = costOf(entry.provider, entry.model, entry.usage);
+  await pool.query(
+    `INSERT INTO usage_ledger (session_id, message_id, provider, model, purpose, input_tokens, output_tokens,
+                               cache_creation_input_tokens, cache_read_input_tokens, cost)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+    [
+      entry.sessionId || null,
+      entry.messageId || null,
+      entry.provider,
+      entry.model,
+      entry.purpose,
+      entry.usage.inputTokens,
+      entry.usage.outputTokens,
+      entry.usage.cacheCreationInputTokens ?? 0,
+      entry.usage.cacheReadInputTokens ?? 0,
+      cost,
+    ],
+  );
+  return cost;
+}
+
+const GROUP_EXPRESSIONS: Record<UsageGroupBy, { key: string; label: string; order: string }> = {
+  day: {
+    key: "to_char(date_trunc('day', l.created_at), 'YYYY-MM-DD')",
+    label: "to_char(date_trunc('day', l.created_at), 'YYYY-MM-DD')",
+    order: "key DESC",
+  },
+  session: {
+    key: "coalesce(l.session_id::text, '')",
+    label: "coalesce(s.title, '(no session)')",
+    order: "cost DESC, key",
+  },
+  model: {
+    key: "l.provider || ':' || l.model",
+    label: "l.provider || ':' || l.model",
+    order: "cost DESC, key",
+  },
+  purpose: {
+    key: "l.purpose",
+    label: "l.purpose",
+    order: "cost DESC, key",
+  },
+};
+
+function toIsoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function rowToReportRow(row: Record<string, unknown>): UsageReportRow {
+  return {
+    key: row.key as string,
+    label: row.label as string,
+    calls: Number(row.calls),
+    inputTokens: Number(row.input_tokens),
+    outputTokens: Number(row.output_tokens),
+    cacheCreationInputTokens: Number(row.cache_creation_input_tokens),
+    cacheReadInputTokens: Number(row.cache_read_input_tokens),
+    cost: Number(row.cost),
+    unpricedCalls: Number(row.unpriced_calls),
+  };
+}
+
+/**
+ * Aggregate the ledger between `from` (inclusive) and `to` (exclusive) ISO
+ * days. Defaults to the last 30 days including today.
+ */
+export async function getUsageReport(params: {
+  groupBy: UsageGroupBy;
+  from?: string;
+  to?: string;
+}): Promise<UsageReport> {
+  const to = params.to ?? toIsoDay(new Date(Date.now() + DAY_MS));
+  const from = params.from ?? toIsoDay(new Date(Date.parse(to) - DEFAULT_REPORT_DAYS * DAY_MS));
+  const group = GROUP_EXPRESSIONS[params.groupBy];
+
+  const result = await pool.query(
+    `SELECT ${group.key} AS key,
+            ${group.label} AS label,
+            count(*)::int AS calls,
+            coalesce(sum(l.input_tokens), 0)::bigint AS input_tokens,
+            coalesce(sum(l.output_tokens), 0)::bigint AS output_tokens,
+            coalesce(sum(l.cache_creation_input_tokens), 0)::bigint AS cache_creation_input_tokens,
+            coalesce(sum(l.cache_read_input_tokens), 0)::bigint AS cache_read_input_tokens,
+            coalesce(sum(l.cost), 0) AS cost,
+            (count(*) FILTER (WHERE l.cost IS NULL))::int AS unpriced_calls
+     FROM usage_ledger l
+     LEFT JOIN sessions s ON s.id = l.session_id
+     WHERE l.created_at >= $1::date AND l.created_at < $2::date
+     GROUP BY 1, 2
+     ORDER BY ${group.order}`,
+    [from, to],
+  );
+
+  const rows = result.rows.map(rowToReportRow);
+  const total: UsageTotals = {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    cost: 0,
+    unpricedCalls: 0,
+  };
+  for (const row of rows) {
+    total.calls += row.calls;
+    total.inputTokens += row.inputTokens;
+    total.outputTokens += row.outputTokens;
+    total.cacheCreationInputTokens += row.cacheCreationInputTokens;
+    total.cacheReadInputTokens += row.cacheReadInputTokens;
+    total.cost += row.cost;
+    total.unpricedCalls += row.unpricedCalls;
+  }
+
+  return { groupBy: params.groupBy, from, to, rows, total };
+}
@@ -1,8 +1,17 @@
 import { randomUUID } from "node:crypto";
 import { z } from "zod";
-import type { ChatMessage, ModelInfo, SSEEvent } from "@vladbot/shared";
-import { AVAILABLE_MODELS, findModel, formatModelField } from "@vladbot/shared";
+import type {
+  ApprovalChange,
+  ChatMessage,
+  McpServer,
+  McpServerConfig,
+  ModelInfo,
+  SSEEvent,
+  ToolCallApproval,
+} from "@vladbot/shared";
+import { DEFAULT_MODEL, findModel, formatModelField } from "@vladbot/shared";
 import { registerHandler, watchSession, unwatchSession, getSessionWatchers, broadcastToAllClients } from "./wsServer.js";
+import type { HandlerContext } from "./wsServer.js";
 import { env } from "../config/env.js";
 import {
   createSession,
@@ -11,13 +20,17 @@ import {
   getMessages,
   updateSessionTitle,
   updateSession,
-  getSessionAutoApprove,
   getSessionModel,
   deleteSession,
   addMessage,
   updateMessage,
   atomicApprove,
+  atomicDeny,
+  recordToolCallApprovals,
+  type ToolCallEdit,
   updateSessionTokenUsage,
+  setActiveLeaf,
+  findNewestLeaf,
 } from "../services/sessionStore.js";
 import { saveSessionFile } from "../services/sessionFiles.js";
 import {
@@ -26,13 +39,58 @@ import {
   pushEvent,
   scheduleRemoval,
 } from "../services/streamRegistry.js";
-import { executeToolRound, denyToolRound } from "../services/toolLoop.js";
+import { executeToolRound, denyToolRound, streamWithFailover } from "../services/toolLoop.js";
+import {
+  checkLoopLimits,
+  clearLoopTurn,
+  continueLoopTurn,
+  recordLoopUsage,
+  resolveLoopLimits,
+  startLoopTurn,
+} from "../services/loopGuard.js";
+import {
+  getCompare,
+  toCompareRun,
+  startCompare,
+  runCompare,
+  keepCandidate,
+  discardCompare,
+} from "../services/compareRuns.js";
 import { getToolDefinitions, executeToolCalls, validateToolCalls } from "../services/tools/index.js";
-import { estimateMessageTokens } from "../services/tokenCounter.js";
+import { estimateMessageTokens, reconcileUsage } from "../services/tokenCounter.js";
+import { computeCost, getUsageReport } from "../services/usageStore.js";
+import { listToolExecutions } from "../services/toolAuditStore.js";
 import { getSetting, putSettings } from "../services/settingsStore.js";
+import { listModels, createModel, updateModel, deleteModel } from "../services/modelStore.js";
+import { listPersonas, getPersona, createPersona, updatePersona, deletePersona } from "../services/personaStore.js";
+import {
+  listMcpServers,
+  getMcpServer,
+  createMcpServer,
+  updateMcpServer,
+  deleteMcpServer,
+} from "../services/mcpServerStore.js";
+import { applyMcpServer, removeMcpServer, getMcpServerStatus, onMcpChange } from "../services/mcp/mcpManager.js";
+import { getToolPluginStatuses, onToolPluginChange } from "../services/tools/pluginLoader.js";
+import {
+  claimMcpApproval,
+  expireMcpApproval,
+  hasPendingMcpApproval,
+  isMcpCallMessage,
+  onMcpServerEvent,
+} from "../services/mcp/mcpServer.js";
+import {
+  listApprovalRules,
+  createApprovalRule,
+  updateApprovalRule,
+  deleteApprovalRule,
+} from "../services/approvalRuleStore.js";
+import { evaluateApproval, needsHumanApproval, previewForApproval } from "../services/approvalPolicy.js";
 import { getAllRuntimeSettings } from "../config/runtimeSettings.js";
-import { getProvider } from "../services/ai/ProviderFactory.js";
+import { OPENAI_COMPATIBLE_PROVIDER } from "../services/ai/OpenAICompatibleProvider.js";
+import { REPLAY_PROVIDER } from "../services/ai/ReplayProvider.js";
 import { classifyLLMError } from "../services/ai/errorClassifier.js";
+import { buildModelChain } from "../services/ai/retryPolicy.js";
 import { cleanupBrowserSession, getActiveBrowserSessions } from "../services/tools/browser/connection.js";
 import { cleanupBrowserServiceCache } from "../services/tools/browser/BrowserService.js";
 import { clearLatestImage } from "../services/ai/toolResultImages.js";
@@ -46,6 +104,8 @@ import {
 import { generateSessionName } from "../services/sessionNaming.js";
 import {
   chatRequestSchema,
+  loopLimitsSchema,
+  samplingParamsSchema,
   toolExecuteSchema,
 } from "../routes/schemas.js";
 
@@ -69,6 +129,8 @@ const providerKeyMap: Record<string, string> = {
   anthropic: "ANTHROPIC_API_KEY",
   gemini: "GOOGLE_GEMINI_API_KEY",
   deepseek: "DEEPSEEK_API_KEY",
+  [OPENAI_COMPATIBLE_PROVIDER]: "OPENAI_COMPATIBLE_BASE_URL",
+  [REPLAY_PROVIDER]: "LLM_REPLAY_CASSETTE",
 };
 
 /**
@@ -89,7 +151,8 @@ async function resolveSessionModel(sessionId: string): Promise<ModelInfo> {
   const defaultModelSetting = await getSetting("default_model");
   const defaultModel =
     (defaultModelSetting && findModel(defaultModelSetting)) ||
-    AVAILABLE_MODELS[0];
+    listModels()[0] ||
+    DEFAULT_MODEL;
 
   // Lazy-migrate
   await updateSession(sessionId, { model: formatModelField(defaultModel) });
@@ -97,15 +160,309 @@ async function resolveSessionModel(sessionId: string): Promise<ModelInfo> {
   return defaultModel;
 }
 
-registerHandler("models.list", async () => {
-  return AVAILABLE_MODELS.filter((m) => {
-    const key = providerKeyMap[m.provider];
-    return key ? !!env[key as keyof typeof env] : false;
+function isProviderConfigured(provider: string): boolean {
+  const key = providerKeyMap[provider];
+  return key ? !!env[key as keyof typeof env] : false;
+}
+
+/** Models from the registry; by default only those whose provider is configured. */
+registerHandler("models.list", async (payload) => {
+  const schema = z.object({ all: z.boolean().optional() });
+  const parsed = schema.safeParse(payload ?? {});
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  const models = listModels();
+  return parsed.data.all ? models : models.filter((m) => isProviderConfigured(m.provider));
+});
+
+const modelFieldsSchema = z.object({
+  name: z.string().min(1).max(200),
+  contextWindow: z.number().int().positive(),
+  nativeVision: z.boolean(),
+  maxOutputTokens: z.number().int().positive().nullable(),
+  inputPrice: z.number().nonnegative().nullable(),
+  outputPrice: z.number().nonnegative().nullable(),
+});
+
+const modelKeySchema = z.object({
+  provider: z.string().refine((p) => p in providerKeyMap, { message: "Unknown provider" }),
+  id: z.string().min(1).max(200),
+});
+
+registerHandler("models.create", async (payload) => {
+  const schema = modelKeySchema.merge(modelFieldsSchema.partial({
+    nativeVision: true,
+    maxOutputTokens: true,
+    inputPrice: true,
+    outputPrice: true,
+  }));
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  const { maxOutputTokens, inputPrice, outputPrice, ...rest } = parsed.data;
+  const model = await createModel({
+    ...rest,
+    nativeVision: rest.nativeVision ?? false,
+    maxOutputTokens: maxOutputTokens ?? undefined,
+    inputPrice: inputPrice ?? undefined,
+    outputPrice: outputPrice ?? undefined,
+  });
+  if (!model) throw new WsError(409, `Model ${parsed.data.provider}:${parsed.data.id} already exists`);
+  broadcastToAllClients("__models__", { type: "models_changed", data: {} });
+  return model;
+});
+
+registerHandler("models.update", async (payload) => {
+  const schema = modelKeySchema.merge(modelFieldsSchema.partial());
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  const { provider, id, ...updates } = parsed.data;
+  const model = await updateModel(provider, id, updates);
+  if (!model) throw new WsError(404, "Model not found");
+  broadcastToAllClients("__models__", { type: "models_changed", data: {} });
+  return model;
+});
+
+registerHandler("models.delete", async (payload) => {
+  const parsed = modelKeySchema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  const deleted = await deleteModel(parsed.data.provider, parsed.data.id);
+  if (!deleted) throw new WsError(404, "Model not found");
+  broadcastToAllClients("__models__", { type: "models_changed", data: {} });
+  return {};
+});
+
+// ---------------------------------------------------------------------------
+// Personas
+// ---------------------------------------------------------------------------
+
+const personaFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  systemPrompt: z.string().max(50_000),
+  model: z.string().refine((m) => m === "" || !!findModel(m), { message: "Unknown model" }),
+  sampling: samplingParamsSchema,
+});
+
+registerHandler("personas.list", async () => {
+  return await listPersonas();
+});
+
+registerHandler("personas.create", async (payload) => {
+  const schema = personaFieldsSchema.partial({ systemPrompt: true, model: true, sampling: true });
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  const persona = await createPersona({
+    name: parsed.data.name,
+    systemPrompt: parsed.data.systemPrompt ?? "",
+    model: parsed.data.model ?? "",
+    sampling: parsed.data.sampling ?? {},
+  });
+  if (!persona) throw new WsError(409, `Persona "${parsed.data.name}" already exists`);
+  broadcastToAllClients("__personas__", { type: "personas_changed", data: {} });
+  return persona;
+});
+
+registerHandler("personas.update", async (payload) => {
+  const schema = z.object({ id: z.string().min(1) }).merge(personaFieldsSchema.partial());
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  const { id, ...updates } = parsed.data;
+  const persona = await updatePersona(id, updates);
+  if (!persona) throw new WsError(404, "Persona not found");
+  broadcastToAllClients("__personas__", { type: "personas_changed", data: {} });
+  return persona;
+});
+
+registerHandler("personas.delete", async (payload) => {
+  const schema = z.object({ id: z.string().min(1) });
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  const deleted = await deletePersona(parsed.data.id);
+  if (!deleted) throw new WsError(404, "Persona not found");
+  broadcastToAllClients("__personas__", { type: "personas_changed", data: {} });
+  return {};
+});
+
+// ---------------------------------------------------------------------------
+// Approval rules
+// ---------------------------------------------------------------------------
+
+const argumentMatcherSchema = z
+  .object({
+    param: z.string().trim().min(1),
+    kind: z.enum(["glob", "regex"]),
+    pattern: z.string().min(1),
+    negate: z.boolean().optional(),
+  })
+  .refine(
+    (m) => {
+      if (m.kind !== "regex") return true;
+      try {
+        new RegExp(m.pattern);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: "Invalid regular expression" },
+  );
+
+const approvalRuleFieldsSchema = z.object({
+  description: z.string().max(200),
+  tool: z.string().trim().min(1),
+  operation: z.string().trim().min(1),
+  args: z.array(argumentMatcherSchema),
+  outcome: z.enum(["allow", "ask", "deny"]),
+  enabled: z.boolean(),
+});
+
+registerHandler("approvalRules.list", async (payload) => {
+  const schema = z.object({ sessionId: z.string().min(1).optional() });
+  const parsed = schema.safeParse(payload ?? {});
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  return await listApprovalRules(parsed.data.sessionId);
+});
+
+registerHandler("approvalRules.create", async (payload) => {
+  const schema = approvalRuleFieldsSchema
+    .partial({ description: true, operation: true, args: true, enabled: true })
+    .extend({ sessionId: z.string().min(1).nullable() });
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  if (parsed.data.sessionId && (await getSessionModel(parsed.data.sessionId)) === null) {
+    throw new WsError(404, "Session not found");
+  }
+  const rule = await createApprovalRule({
+    sessionId: parsed.data.sessionId,
+    description: parsed.data.description ?? "",
+    tool: parsed.data.tool,
+    operation: parsed.data.operation ?? "*",
+    args: parsed.data.args ?? [],
+    outcome: parsed.data.outcome,
+    enabled: parsed.data.enabled ?? true,
   });
+  broadcastToAllClients("__approval_rules__", { type: "approval_rules_changed", data: {} });
+  return rule;
+});
+
+registerHandler("approvalRules.update", async (payload) => {
+  const schema = z.object({ id: z.string().min(1) }).merge(approvalRuleFieldsSchema.partial());
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  const { id, ...updates } = parsed.data;
+  const rule = await updateApprovalRule(id, updates);
+  if (!rule) throw new WsError(404, "Approval rule not found");
+  broadcastToAllClients("__approval_rules__", { type: "approval_rules_changed", data: {} });
+  return rule;
+});
+
+registerHandler("approvalRules.delete", async (payload) => {
+  const schema = z.object({ id: z.string().min(1) });
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  const deleted = await deleteApprovalRule(parsed.data.id);
+  if (!deleted) throw new WsError(404, "Approval rule not found");
+  broadcastToAllClients("__approval_rules__", { type: "approval_rules_changed", data: {} });
+  return {};
+});
+
+// ---------------------------------------------------------------------------
+// MCP servers
+// ---------------------------------------------------------------------------
+
+const mcpServerFieldsSchema = z.object({
+  // No underscores: the name is part of `mcp_<name>_<tool>` function names
+  name: z.string().regex(/^[a-zA-Z0-9-]{1,40}$/, "Use letters, digits and dashes only"),
+  transport: z.enum(["stdio", "http"]),
+  command: z.string().default(""),
+  args: z.array(z.string()).default([]),
+  env: z.record(z.string()).default({}),
+  url: z.string().default(""),
+  headers: z.record(z.string()).default({}),
+  enabled: z.boolean().default(true),
+});
+
+function checkMcpTransport(fields: { transport: string; command: string; url: string }): void {
+  if (fields.transport === "stdio" && !fields.command.trim()) {
+    throw new WsError(400, "A stdio MCP server needs a command");
+  }
+  if (fields.transport === "http" && !/^https?:\/\//.test(fields.url)) {
+    throw new WsError(400, "An HTTP MCP server needs an http(s) URL");
+  }
+}
+
+function withMcpStatus(config: McpServerConfig): McpServer {
+  return { ...config, status: getMcpServerStatus(config.id) };
+}
+
+onMcpChange(() => {
+  broadcastToAllClients("__tools__", { type: "tools_changed", data: {} });
+});
+
+// Calls from MCP clients show up in their own chat session for approval
+onMcpServerEvent((sessionId, event) => {
+  if (event.type === "session_created") {
+    broadcastToAllClients(sessionId, event);
+    return;
+  }
+  for (const watcher of getSessionWatchers(sessionId)) {
+    watcher.push(sessionId, event);
+  }
+});
+
+registerHandler("mcp.servers.list", async () => {
+  return (await listMcpServers()).map(withMcpStatus);
+});
+
+registerHandler("mcp.servers.create", async (payload) => {
+  const parsed = mcpServerFieldsSchema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  checkMcpTransport(parsed.data);
+  const config = await createMcpServer(parsed.data);
+  if (!config) throw new WsError(409, `MCP server "${parsed.data.name}" already exists`);
+  await applyMcpServer(config);
+  return withMcpStatus(config);
+});
+
+registerHandler("mcp.servers.update", async (payload) => {
+  const schema = z.object({ id: z.string().min(1) }).merge(mcpServerFieldsSchema.partial());
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  const { id, ...updates } = parsed.data;
+  const existing = await getMcpServer(id);
+  if (!existing) throw new WsError(404, "MCP server not found");
+  checkMcpTransport({ ...existing, ...updates });
+  const config = await updateMcpServer(id, updates);
+  if (!config) throw new WsError(404, "MCP server not found");
+  await applyMcpServer(config);
+  return withMcpStatus(config);
+});
+
+registerHandler("mcp.servers.delete", async (payload) => {
+  const schema = z.object({ id: z.string().min(1) });
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  const deleted = await deleteMcpServer(parsed.data.id);
+  if (!deleted) throw new WsError(404, "MCP server not found");
+  await removeMcpServer(parsed.data.id);
+  return {};
+});
+
+registerHandler("mcp.servers.reconnect", async (payload) => {
+  const schema = z.object({ id: z.string().min(1) });
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  const config = await getMcpServer(parsed.data.id);
+  if (!config) throw new WsError(404, "MCP server not found");
+  await applyMcpServer(config);
+  return withMcpStatus(config);
+});
+
+// Plugin loads and failures change the tool list and its plugin statuses
+onToolPluginChange(() => {
+  broadcastToAllClients("__tools__", { type: "tools_changed", data: {} });
 });
 
 registerHandler("tools.list", async () => {
-  return { definitions: getToolDefinitions() };
+  return { definitions: getToolDefinitions(), plugins: getToolPluginStatuses() };
 });
 
 registerHandler("chat.tools.validate", async (payload) => {
@@ -115,10 +472,13 @@ registerHandler("chat.tools.validate", async (payload) => {
   return { errors };
 });
 
-registerHandler("chat.tools.execute", async (payload) => {
+registerHandler("chat.tools.execute", async (payload, ctx) => {
   const parsed = toolExecuteSchema.safeParse(payload);
   if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
-  const results = await executeToolCalls(parsed.data.toolCalls, parsed.data.sessionId);
+  const approvers = Object.fromEntries(
+    parsed.data.toolCalls.map((tc) => [tc.id, { kind: "direct" as const, by: ctx.device }]),
+  );
+  const results = await executeToolCalls(parsed.data.toolCalls, parsed.data.sessionId, undefined, undefined, { approvers });
   return { results };
 });
 
@@ -131,24 +491,39 @@ registerHandler("sessions.list", async () => {
 });
 
 registerHandler("sessions.create", async (payload, ctx) => {
-  const schema = z.object({ title: z.string().optional(), model: z.string().optional() });
+  const schema = z.object({
+    title: z.string().optional(),
+    model: z.string().optional(),
+    personaId: z.string().optional(),
+  });
   const parsed = schema.safeParse(payload);
   if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
 
-  // Resolve model: explicit param > default_model setting > first available
+  const persona = parsed.data.personaId ? await getPersona(parsed.data.personaId) : null;
+  if (parsed.data.personaId && !persona) throw new WsError(404, "Persona not found");
+
+  // Resolve model: explicit param > persona model > default_model setting > first available
   let modelInfo: ModelInfo | undefined;
-  if (parsed.data.model) {
-    modelInfo = findModel(parsed.data.model);
+  const requestedModel = parsed.data.model || persona?.model;
+  if (requestedModel) {
+    modelInfo = findModel(requestedModel);
   }
   if (!modelInfo) {
     const defaultModelSetting = await getSetting("default_model");
     modelInfo =
       (defaultModelSetting && findModel(defaultModelSetting)) ||
-      AVAILABLE_MODELS[0];
+      listModels()[0] ||
+      DEFAULT_MODEL;
   }
 
   const visionModel = await getSetting("vision_model") ?? "";
-  const session = await createSession(parsed.data.title, formatModelField(modelInfo), visionModel);
+  const session = await createSession(
+    parsed.data.title,
+    formatModelField(modelInfo),
+    visionModel,
+    persona?.systemPrompt,
+    persona?.sampling,
+  );
   ctx.broadcastGlobal("__sessions__", { type: "session_created", data: session });
   return session;
 });
@@ -168,15 +543,36 @@ registerHandler("sessions.update", async (payload, ctx) => {
     title: z.string().min(1).max(200).optional(),
     autoApprove: z.boolean().optional(),
     visionModel: z.string().optional(),
-  }).refine((d) => d.title !== undefined || d.autoApprove !== undefined || d.visionModel !== undefined, {
-    message: "At least one of title, autoApprove, or visionModel must be provided",
-  });
+    fallbackModels: z.array(
+      z.string().refine((m) => !!findModel(m), { message: "Unknown model" }),
+    ).max(5).optional(),
+    thinkingBudget: z.number().int().min(0).max(64_000).optional(),
+    systemPrompt: z.string().max(50_000).optional(),
+    sampling: samplingParamsSchema.optional(),
+    loopLimits: loopLimitsSchema.optional(),
+  }).refine(
+    (d) =>
+      d.title !== undefined ||
+      d.autoApprove !== undefined ||
+      d.visionModel !== undefined ||
+      d.fallbackModels !== undefined ||
+      d.thinkingBudget !== undefined ||
+      d.systemPrompt !== undefined ||
+      d.sampling !== undefined ||
+      d.loopLimits !== undefined,
+    { message: "At least one of title, autoApprove, visionModel, fallbackModels, thinkingBudget, systemPrompt, sampling, or loopLimits must be provided" },
+  );
   const parsed = schema.safeParse(payload);
   if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
   const session = await updateSession(parsed.data.id, {
     title: parsed.data.title,
     autoApprove: parsed.data.autoApprove,
     visionModel: parsed.data.visionModel,
+    fallbackModels: parsed.data.fallbackModels,
+    thinkingBudget: parsed.data.thinkingBudget,
+    systemPrompt: parsed.data.systemPrompt,
+    sampling: parsed.data.sampling,
+    loopLimits: parsed.data.loopLimits,
   });
   if (!session) throw new WsError(404, "Session not found");
   // Broadcast to ALL clients including sender
@@ -199,6 +595,8 @@ registerHandler("sessions.delete", async (payload, ctx) => {
   });
   cleanupBrowserServiceCache(parsed.data.id);
   clearLatestImage(parsed.data.id);
+  discardCompare(parsed.data.id);
+  clearLoopTurn(parsed.data.id);
 
   ctx.broadcastGlobal("__sessions__", { type: "session_deleted", data: { id: parsed.data.id } });
   return {};
@@ -227,8 +625,10 @@ registerHandler("sessions.watch", async (payload, ctx) => {
       data: {
         assistantId: stream.assistantId,
         content: stream.content,
+        reasoning: stream.reasoning,
         model: stream.model,
         toolCalls: stream.toolCalls,
+        partialToolCalls: stream.partialToolCalls,
       },
     });
   }
@@ -319,7 +719,7 @@ registerHandler("messages.create", async (payload, ctx) => {
     message.images = urls;
   }
 
-  message.tokenCount = estimateMessageTokens(message);
+  message.tokenCount = estimateMessageTokens(message, findModel(session.model));
   const dbId = await addMessage(sessionId, message);
   message.id = dbId;
 
@@ -377,20 +777,8 @@ registerHandler("messages.update", async (payload) => {
   return {};
 });
 
-registerHandler("messages.approve", async (payload, ctx) => {
-  const schema = z.object({
-    sessionId: z.string().min(1),
-    messageId: z.string().min(1),
-  });
-  const parsed = schema.safeParse(payload);
-  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
-
-  const { sessionId, messageId } = parsed.data;
-
-  const modelInfo = await resolveSessionModel(sessionId);
-  const model = modelInfo.id;
-  const tools = getToolDefinitions();
-
+/** Load a message and check it is still waiting for approval. */
+async function getPendingMessage(sessionId: string, messageId: string): Promise<ChatMessage> {
   const session = await getSession(sessionId);
   if (!session) throw new WsError(404, "Session not found");
 
@@ -400,15 +788,76 @@ registerHandler("messages.approve", async (payload, ctx) => {
   if (message.approvalStatus !== "pending") {
     throw new WsError(409, `Message approval status is '${message.approvalStatus}', expected 'pending'`);
   }
+  return message;
+}
+
+/** The same verdict for every call of `message` nobody has decided yet. */
+function undecidedApprovals(message: ChatMessage, approval: ToolCallApproval): Record<string, ToolCallApproval> {
+  return Object.fromEntries(
+    (message.toolCalls ?? [])
+      .filter((tc) => !message.toolCallApprovals?.[tc.id])
+      .map((tc) => [tc.id, approval]),
+  );
+}
+
+/**
+ * Tell every device about the recorded verdicts and, once each call of the
+ * round has one, settle it: all denied finishes the round without another
+ * LLM turn, otherwise the approved calls run and denied ones answer with
+ * their reason.
+ */
+async function settleApproval(
+  ctx: HandlerContext,
+  sessionId: string,
+  messageId: string,
+  recorded: Pick<ChatMessage, "toolCalls" | "toolCallApprovals" | "approvalDecisions">,
+): Promise<ApprovalChange> {
+  const toolCalls = recorded.toolCalls ?? [];
+  const approvals = recorded.toolCallApprovals ?? {};
+  const change: ApprovalChange = { messageId, approvalStatus: "pending", ...recorded };
+
+  if (!toolCalls.every((tc) => approvals[tc.id])) {
+    ctx.broadcastToSession(sessionId, { type: "approval_changed", data: change });
+    return change;
+  }
+
+  // An MCP client's call runs in the client's request; there is no LLM round to continue
+  const mcpCall = isMcpCallMessage(recorded);
+  const mcpWaiter = mcpCall ? claimMcpApproval(messageId) : undefined;
+
+  if (toolCalls.every((tc) => approvals[tc.id].status === "denied")) {
+    if (!(await atomicDeny(messageId))) {
+      mcpWaiter?.expire("it was decided by a concurrent request");
+      throw new WsError(409, "Message was already decided by a concurrent request");
+    }
+    await denyToolRound(sessionId, messageId);
+    change.approvalStatus = "denied";
+    mcpWaiter?.settle(change);
+    ctx.broadcastToSession(sessionId, { type: "approval_changed", data: change });
+    return change;
+  }
+
+  // The client stopped waiting meanwhile; the expiry closes the message
+  if (mcpCall && !mcpWaiter) throw new WsError(410, "The MCP client is no longer waiting for this call");
+
+  const modelInfo = await resolveSessionModel(sessionId);
+  const model = modelInfo.id;
+  const tools = getToolDefinitions();
 
   const updated = await atomicApprove(messageId);
-  if (!updated) throw new WsError(409, "Message was already approved by a concurrent request");
+  if (!updated) {
+    mcpWaiter?.expire("it was decided by a concurrent request");
+    throw new WsError(409, "Message was already approved by a concurrent request");
+  }
+  change.approvalStatus = "approved";
 
   // Notify all other watchers that this message was approved
-  ctx.broadcastToSession(sessionId, {
-    type: "approval_changed",
-    data: { messageId, approvalStatus: "approved" },
-  });
+  ctx.broadcastToSession(sessionId, { type: "approval_changed", data: change });
+
+  if (mcpWaiter) {
+    mcpWaiter.settle(change);
+    return change;
+  }
 
   // Create a fresh stream and register this WS as subscriber
   const stream = createStream(sessionId, messageId, model);
@@ -430,7 +879,7 @@ registerHandler("messages.approve", async (payload, ctx) => {
     // Notify watcher that approval happened + stream started
     watcher.push(sessionId, {
       type: "snapshot",
-      data: { assistantId: messageId, content: stream.content, model, toolCalls: stream.toolCalls },
+      data: { assistantId: messageId, content: stream.content, reasoning: stream.reasoning, model, toolCalls: stream.toolCalls },
     });
   }
 
@@ -451,36 +900,214 @@ registerHandler("messages.approve", async (payload, ctx) => {
     scheduleRemoval(sessionId);
   });
 
-  return {};
+  return change;
+}
+
+/**
+ * An MCP client's call can only run while the client's request waits for the
+ * verdict. One left pending by a restart or a client that went away is
+ * closed as expired instead of being run for nobody.
+ */
+async function rejectStaleMcpCall(sessionId: string, message: ChatMessage): Promise<void> {
+  if (!isMcpCallMessage(message) || hasPendingMcpApproval(message.id)) return;
+  await expireMcpApproval(sessionId, message, "the MCP client is no longer waiting for it");
+  throw new WsError(410, "The MCP client is no longer waiting for this call");
+}
+
+registerHandler("messages.approve", async (payload, ctx) => {
+  const schema = z.object({
+    sessionId: z.string().min(1),
+    messageId: z.string().min(1),
+    toolCallId: z.string().min(1).optional(),
+    arguments: z.record(z.unknown()).optional(),
+  }).refine((d) => !d.arguments || d.toolCallId, {
+    message: "arguments can only be edited for a single toolCallId",
+  });
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+
+  const { sessionId, messageId, toolCallId } = parsed.data;
+  const message = await getPendingMessage(sessionId, messageId);
+  await rejectStaleMcpCall(sessionId, message);
+
+  let recorded;
+  if (toolCallId) {
+    const index = (message.toolCalls ?? []).findIndex((tc) => tc.id === toolCallId);
+    if (index < 0) throw new WsError(404, "Tool call not found");
+    const original = message.toolCalls![index];
+
+    const approval: ToolCallApproval = { status: "approved", ...(ctx.device && { device: ctx.device }) };
+    let edit: ToolCallEdit | undefined;
+    if (parsed.data.arguments) {
+      const edited = { ...original, arguments: parsed.data.arguments };
+      const [invalid] = validateToolCalls([edited]);
+      if (invalid) throw new WsError(400, invalid.output);
+      // Rules judge the arguments that will actually run
+      const decisions = await evaluateApproval(sessionId, [edited]);
+      approval.originalArguments = original.arguments;
+      edit = { index, arguments: parsed.data.arguments, decision: decisions[toolCallId] };
+    }
+    recorded = await recordToolCallApprovals(messageId, { [toolCallId]: approval }, [toolCallId], edit);
+    if (!recorded) throw new WsError(409, "Tool call was already approved or denied");
+  } else {
+    recorded = await recordToolCallApprovals(
+      messageId,
+      undecidedApprovals(message, { status: "approved", ...(ctx.device && { device: ctx.device }) }),
+    );
+    if (!recorded) throw new WsError(409, "Message was already approved by a concurrent request");
+  }
+
+  return settleApproval(ctx, sessionId, messageId, recorded);
 });
 
 registerHandler("messages.deny", async (payload, ctx) => {
   const schema = z.object({
     sessionId: z.string().min(1),
     messageId: z.string().min(1),
+    toolCallId: z.string().min(1).optional(),
+    reason: z.string().trim().max(2000).optional(),
+  });
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+
+  const { sessionId, messageId, toolCallId } = parsed.data;
+  const message = await getPendingMessage(sessionId, messageId);
+
+  const approval: ToolCallApproval = {
+    status: "denied",
+    ...(parsed.data.reason && { reason: parsed.data.reason }),
+    ...(ctx.device && { device: ctx.device }),
+  };
+  let recorded;
+  if (toolCallId) {
+    if (!message.toolCalls?.some((tc) => tc.id === toolCallId)) throw new WsError(404, "Tool call not found");
+    recorded = await recordToolCallApprovals(messageId, { [toolCallId]: approval }, [toolCallId]);
+    if (!recorded) throw new WsError(409, "Tool call was already approved or denied");
+  } else {
+    recorded = await recordToolCallApprovals(messageId, undecidedApprovals(message, approval));
+    if (!recorded) throw new WsError(409, "Message was already decided by a concurrent request");
+  }
+
+  return settleApproval(ctx, sessionId, messageId, recorded);
+});
+
+registerHandler("messages.continueLoop", async (payload, ctx) => {
+  const schema = z.object({
+    sessionId: z.string().min(1),
+    messageId: z.string().min(1),
+    rounds: z.number().int().min(1).max(1000),
   });
   const parsed = schema.safeParse(payload);
   if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
 
+  const { sessionId, messageId, rounds } = parsed.data;
+  const message = await getPendingMessage(sessionId, messageId);
+  if (!message.loopLimit) throw new WsError(409, "The tool loop is not paused at this message");
+
+  const recorded = await recordToolCallApprovals(
+    messageId,
+    undecidedApprovals(message, { status: "approved", ...(ctx.device && { device: ctx.device }) }),
+  );
+  if (!recorded) throw new WsError(409, "Message was already approved by a concurrent request");
+  continueLoopTurn(sessionId, rounds);
+
+  return settleApproval(ctx, sessionId, messageId, recorded);
+});
+
+// ---------------------------------------------------------------------------
+// Branches
+// ---------------------------------------------------------------------------
+
+/**
+ * Branch changes would strand a reply that is still being written to the old
+ * branch, or a compare run whose winner has not been picked yet.
+ */
+function rejectWhileStreaming(sessionId: string): void {
+  const stream = getStream(sessionId);
+  if (stream && !stream.done) throw new WsError(409, "A response is still streaming");
+  if (getCompare(sessionId)) throw new WsError(409, "A compare run is waiting for a pick");
+}
+
+/** Send the latest page of the new active branch to this client and all other watchers. */
+async function pushBranch(sessionId: string, ctx: HandlerContext): Promise<void> {
+  const page = await getMessages(sessionId);
+  const event: SSEEvent = {
+    type: "branch_changed",
+    data: { messages: page.messages.map(enrichMessageForDisplay), hasMore: page.hasMore },
+  };
+  ctx.push(sessionId, event);
+  ctx.broadcastToSession(sessionId, event);
+}
+
+const branchTargetSchema = z.object({
+  sessionId: z.string().min(1),
+  messageId: z.string().min(1),
+});
+
+registerHandler("messages.regenerate", async (payload, ctx) => {
+  const parsed = branchTargetSchema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+
   const { sessionId, messageId } = parsed.data;
+  rejectWhileStreaming(sessionId);
   const session = await getSession(sessionId);
   if (!session) throw new WsError(404, "Session not found");
 
   const message = session.messages.find((m) => m.id === messageId);
   if (!message) throw new WsError(404, "Message not found");
+  if (message.role !== "assistant") throw new WsError(400, "Only assistant messages can be regenerated");
 
-  if (message.approvalStatus !== "pending") {
-    throw new WsError(409, `Message approval status is '${message.approvalStatus}', expected 'pending'`);
-  }
+  // The new reply is streamed as a sibling of the old one
+  await setActiveLeaf(sessionId, message.parentId ?? null);
+  await pushBranch(sessionId, ctx);
 
-  await denyToolRound(sessionId, messageId);
+  const assistantId = randomUUID();
+  await startChatStream(sessionId, assistantId, ctx);
+  return { assistantId };
+});
 
-  // Notify other clients watching this session
-  ctx.broadcastToSession(sessionId, {
-    type: "approval_changed",
-    data: { messageId, approvalStatus: "denied" },
-  });
+registerHandler("messages.edit", async (payload, ctx) => {
+  const parsed = branchTargetSchema.extend({ content: z.string() }).safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+
+  const { sessionId, messageId, content } = parsed.data;
+  rejectWhileStreaming(sessionId);
+  const session = await getSession(sessionId);
+  if (!session) throw new WsError(404, "Session not found");
+
+  const original = session.messages.find((m) => m.id === messageId);
+  if (!original) throw new WsError(404, "Message not found");
+  if (original.role !== "user") throw new WsError(400, "Only user messages can be edited");
+
+  // The edited message starts a sibling branch; the original branch is kept
+  await setActiveLeaf(sessionId, original.parentId ?? null);
+  const edited: ChatMessage = {
+    id: randomUUID(),
+    role: "user",
+    content,
+    images: original.images,
+    timestamp: Date.now(),
+  };
+  edited.tokenCount = estimateMessageTokens(edited, findModel(session.model));
+  await addMessage(sessionId, edited);
+  await pushBranch(sessionId, ctx);
+
+  const assistantId = randomUUID();
+  await startChatStream(sessionId, assistantId, ctx);
+  return { messageId: edited.id, assistantId };
+});
+
+registerHandler("messages.switchBranch", async (payload, ctx) => {
+  const parsed = branchTargetSchema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
 
+  const { sessionId, messageId } = parsed.data;
+  rejectWhileStreaming(sessionId);
+  const leaf = await findNewestLeaf(sessionId, messageId);
+  if (!leaf) throw new WsError(404, "Message not found");
+
+  await setActiveLeaf(sessionId, leaf);
+  await pushBranch(sessionId, ctx);
   return {};
 });
 
@@ -733,24 +1360,67 @@ registerHandler("settings.update", async (payload, ctx) => {
 });
 
 // ---------------------------------------------------------------------------
-// Streaming: chat.stream
+// Usage
 // ---------------------------------------------------------------------------
 
-registerHandler("chat.stream", async (payload, ctx) => {
-  const parsed = chatRequestSchema.safeParse(payload);
+registerHandler("usage.report", async (payload) => {
+  const isoDay = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+  const schema = z.object({
+    groupBy: z.enum(["day", "session", "model", "purpose"]),
+    from: isoDay.optional(),
+    to: isoDay.optional(),
+  });
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  return getUsageReport(parsed.data);
+});
+
+// ---------------------------------------------------------------------------
+// Audit
+// ---------------------------------------------------------------------------
+
+registerHandler("audit.list", async (payload) => {
+  const isoDay = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+  const schema = z.object({
+    sessionId: z.string().min(1).optional(),
+    tool: z.string().min(1).optional(),
+    operation: z.string().min(1).optional(),
+    outcome: z.enum(["success", "error", "cancelled"]).optional(),
+    approval: z.enum(["user", "rule", "auto", "direct"]).optional(),
+    search: z.string().trim().min(1).max(500).optional(),
+    from: isoDay.optional(),
+    to: isoDay.optional(),
+    limit: z.number().int().min(1).max(5000).optional(),
+    offset: z.number().int().min(0).optional(),
+  });
+  const parsed = schema.safeParse(payload);
   if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  return listToolExecutions(parsed.data);
+});
 
-  const { sessionId } = parsed.data;
-  const assistantId = parsed.data.assistantId ?? randomUUID();
+// ---------------------------------------------------------------------------
+// Streaming: chat.stream
+// ---------------------------------------------------------------------------
 
+/**
+ * Stream an assistant reply onto the session's active branch. The requesting
+ * client and all other session watchers are subscribed; the LLM call itself
+ * runs in the background.
+ */
+async function startChatStream(
+  sessionId: string,
+  assistantId: string,
+  ctx: HandlerContext,
+): Promise<void> {
   // Resolve model/provider/tools from the session (server is source of truth)
   const modelInfo = await resolveSessionModel(sessionId);
   const model = modelInfo.id;
   const providerName = modelInfo.provider;
   const tools = getToolDefinitions();
 
-  // Register stream in the registry
+  // Register stream in the registry; a reply to the user starts a new turn of the tool loop
   createStream(sessionId, assistantId, model);
+  startLoopTurn(sessionId);
 
   // Register this WS connection as a subscriber
   const stream = getStream(sessionId);
@@ -838,65 +1508,49 @@ registerHandler("chat.stream", async (payload, ctx) => {
 
       const history = await getLLMContext(sessionId);
 
-      const provider = getProvider(providerName);
-      const stream = getStream(sessionId);
-      const aiStream = provider.generateStream(
+      // Retries and fallback models run inside; a fallback that takes over
+      // keeps the rest of the turn, including the tool loop.
+      const chain = buildModelChain(modelInfo, session.fallbackModels);
+      const { target: active, hasToolCalls } = await streamWithFailover(
+        sessionId,
+        chain,
         history,
-        model,
         tools,
-        stream?.abortController.signal,
-        sessionId,
+        getStream(sessionId)?.abortController.signal,
       );
-      let hasToolCalls = false;
-
-      for await (const chunk of aiStream) {
-        if (chunk.type === "text" && chunk.text) {
-          const event: SSEEvent = { type: "token", data: chunk.text };
-          if (sessionId && assistantId) {
-            pushEvent(sessionId, event);
-          } else {
-            ctx.push("", event);
-          }
-        } else if (chunk.type === "tool_call" && chunk.toolCall) {
-          hasToolCalls = true;
-          const event: SSEEvent = { type: "tool_call", data: chunk.toolCall };
-          if (sessionId && assistantId) {
-            pushEvent(sessionId, event);
-          } else {
-            ctx.push("", event);
-          }
-        } else if (chunk.type === "debug" && chunk.debug) {
-          const event: SSEEvent = { type: "debug", data: chunk.debug };
-          if (sessionId && assistantId) {
-            pushEvent(sessionId, event);
-          } else {
-            ctx.push("", event);
-          }
-        } else if (chunk.type === "usage" && chunk.usage) {
-          const event: SSEEvent = { type: "usage", data: chunk.usage };
-          if (sessionId && assistantId) {
-            pushEvent(sessionId, event);
-          } else {
-            ctx.push("", event);
-          }
-          if (sessionId) {
-            updateSessionTokenUsage(sessionId, chunk.usage).catch(console.error);
-          }
-        }
-      }
+      const activeModel = findModel(`${active.provider}:${active.id}`) ?? modelInfo;
 
       // Save assistant message to DB before pushing done
+      let approvalDecisions: ChatMessage["approvalDecisions"];
+      let loopLimit: ChatMessage["loopLimit"];
+      let toolCallPreviews: ChatMessage["toolCallPreviews"];
       if (sessionId && assistantId) {
         const stream = getStream(sessionId);
         if (stream) {
+          reconcileUsage(activeModel, stream, stream.usage);
+          recordLoopUsage(sessionId, stream.usage);
+          if (hasToolCalls && stream.toolCalls.length > 0) {
+            approvalDecisions = await evaluateApproval(sessionId, stream.toolCalls);
+            if (!needsHumanApproval(approvalDecisions)) {
+              loopLimit = checkLoopLimits(sessionId, await resolveLoopLimits(session.loopLimits)) ?? undefined;
+            }
+            if (needsHumanApproval(approvalDecisions) || loopLimit) {
+              toolCallPreviews = await previewForApproval(sessionId, stream.toolCalls, approvalDecisions);
+            }
+          }
           const msg = {
             id: assistantId,
             role: "assistant" as const,
             content: stream.content,
-            model,
+            model: activeModel.id,
             timestamp: Date.now(),
             toolCalls: stream.toolCalls.length > 0 ? stream.toolCalls : undefined,
+            reasoning: stream.reasoning || undefined,
+            reasoningSignature: stream.reasoningSignature,
             approvalStatus: hasToolCalls ? ("pending" as const) : undefined,
+            approvalDecisions,
+            loopLimit,
+            toolCallPreviews,
             llmRequest: stream.requestBody,
             llmResponse: {
               content: stream.content,
@@ -909,10 +1563,16 @@ registerHandler("chat.stream", async (payload, ctx) => {
               content: stream.content,
               timestamp: 0,
               toolCalls: stream.toolCalls.length > 0 ? stream.toolCalls : undefined,
-            }),
+              reasoning: stream.reasoning,
+              reasoningSignature: stream.reasoningSignature,
+            }, activeModel),
             rawTokenCount: stream.usage?.outputTokens,
+            cost: stream.usage ? computeCost(activeModel, stream.usage) ?? undefined : undefined,
           };
           await addMessage(sessionId, msg);
+          if (loopLimit) {
+            pushEvent(sessionId, { type: "loop_limit", data: { messageId: assistantId, ...loopLimit } });
+          }
 
           if (stream.usage?.inputTokens) {
             const session = await getSession(sessionId);
@@ -930,31 +1590,28 @@ registerHandler("chat.stream", async (payload, ctx) => {
         }
       }
 
-      // Auto-approve: if enabled for this session, approve and execute tools without client round-trip
-      if (hasToolCalls && sessionId && assistantId) {
-        const autoApprove = await getSessionAutoApprove(sessionId);
-        if (autoApprove) {
-          const approved = await atomicApprove(assistantId);
-          if (approved) {
-            pushEvent(sessionId, { type: "auto_approved", data: { messageId: assistantId } });
-            executeToolRound(
-              sessionId,
-              assistantId,
-              model,
-              providerName,
-              tools,
-              0,
-            ).catch((err) => {
-              console.error("Auto-approve tool execution failed:", err);
-              const classified = classifyLLMError(
-                err instanceof Error ? err : new Error("Unknown error"),
-              );
-              pushEvent(sessionId, { type: "error", data: classified });
-              pushEvent(sessionId, { type: "done", data: { hasToolCalls: false } });
-              scheduleRemoval(sessionId);
-            });
-            return; // Don't push done — tool loop continues the stream
-          }
+      // Auto-approve: when the approval policy asks nothing of the user, approve and
+      // execute tools without client round-trip
+      if (hasToolCalls && sessionId && assistantId && approvalDecisions && !needsHumanApproval(approvalDecisions) && !loopLimit) {
+        const approved = await atomicApprove(assistantId);
+        if (approved) {
+          pushEvent(sessionId, { type: "auto_approved", data: { messageId: assistantId } });
+          executeToolRound(
+            sessionId,
+            assistantId,
+            activeModel.id,
+            activeModel.provider,
+            tools,
+          ).catch((err) => {
+            console.error("Auto-approve tool execution failed:", err);
+            const classified = classifyLLMError(
+              err instanceof Error ? err : new Error("Unknown error"),
+            );
+            pushEvent(sessionId, { type: "error", data: classified });
+            pushEvent(sessionId, { type: "done", data: { hasToolCalls: false } });
+            scheduleRemoval(sessionId);
+          });
+          return; // Don't push done — tool loop continues the stream
         }
       }
 
@@ -968,17 +1625,17 @@ registerHandler("chat.stream", async (payload, ctx) => {
           if (stream?.usage) {
             // Check threshold first before starting compaction
             const totalTokens = stream.usage.inputTokens + stream.usage.outputTokens;
-            const pct = modelInfo.contextWindow > 0
-              ? (totalTokens / modelInfo.contextWindow) * 100
+            const pct = activeModel.contextWindow > 0
+              ? (totalTokens / activeModel.contextWindow) * 100
               : 0;
-            console.log(`[Compaction] Post-done check: ${totalTokens} tokens, ${pct.toFixed(1)}% of ${modelInfo.contextWindow}`);
+            console.log(`[Compaction] Post-done check: ${totalTokens} tokens, ${pct.toFixed(1)}% of ${activeModel.contextWindow}`);
 
             if (pct >= 90) {
               // Send compaction_started BEFORE starting compaction
               pushEvent(sessionId, { type: "compaction_started", data: { sessionId } });
 
               const compactResult = await autoCompactIfNeeded(
-                sessionId, model, providerName, stream.usage,
+                sessionId, activeModel.id, activeModel.provider, stream.usage,
               );
               if (compactResult) {
                 pushEvent(sessionId, { type: "compaction", data: compactResult.compactionMessage });
@@ -1013,9 +1670,11 @@ registerHandler("chat.stream", async (payload, ctx) => {
               id: assistantId,
               role: "assistant" as const,
               content: stream.content,
-              model,
+              model: stream.model,
               timestamp: Date.now(),
               toolCalls: stream.toolCalls.length > 0 ? stream.toolCalls : undefined,
+              reasoning: stream.reasoning || undefined,
+              reasoningSignature: stream.reasoningSignature,
               // When interrupted, mark as cancelled (not pending) so UI shows correct status
               approvalStatus: stream.toolCalls.length > 0 ? ("cancelled" as const) : undefined,
               llmRequest: stream.requestBody,
@@ -1030,7 +1689,9 @@ registerHandler("chat.stream", async (payload, ctx) => {
                 content: stream.content,
                 timestamp: 0,
                 toolCalls: stream.toolCalls.length > 0 ? stream.toolCalls : undefined,
-              }),
+                reasoning: stream.reasoning,
+                reasoningSignature: stream.reasoningSignature,
+              }, findModel(stream.model)),
               rawTokenCount: stream.usage?.outputTokens,
             };
             await addMessage(sessionId, msg);
@@ -1056,11 +1717,126 @@ registerHandler("chat.stream", async (payload, ctx) => {
 
   // Fire and forget — the push events carry the streaming data
   streamAsync().catch(console.error);
+}
+
+registerHandler("chat.stream", async (payload, ctx) => {
+  const parsed = chatRequestSchema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+  if (getCompare(parsed.data.sessionId)) throw new WsError(409, "A compare run is waiting for a pick");
+
+  const assistantId = parsed.data.assistantId ?? randomUUID();
+  await startChatStream(parsed.data.sessionId, assistantId, ctx);
 
   // Return ACK immediately
   return {};
 });
 
+// ---------------------------------------------------------------------------
+// Streaming: chat.compare
+// ---------------------------------------------------------------------------
+
+const MAX_COMPARE_MODELS = 4;
+
+registerHandler("chat.compare", async (payload, ctx) => {
+  const schema = z.object({
+    sessionId: z.string().min(1),
+    models: z.array(z.string().min(1)).min(2).max(MAX_COMPARE_MODELS),
+  });
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+
+  const { sessionId, models } = parsed.data;
+  if (new Set(models).size !== models.length) throw new WsError(400, "Models must be distinct");
+  rejectWhileStreaming(sessionId);
+  const session = await getSession(sessionId);
+  if (!session) throw new WsError(404, "Session not found");
+
+  const last = session.messages[session.messages.length - 1];
+  if (last?.role !== "user") throw new WsError(400, "Compare needs a user message to answer");
+
+  const targets = models.map((field) => {
+    const modelInfo = findModel(field);
+    if (!modelInfo) throw new WsError(400, `Unknown model: ${field}`);
+    if (!isProviderConfigured(modelInfo.provider)) {
+      throw new WsError(400, `Provider not configured: ${modelInfo.provider}`);
+    }
+    return modelInfo;
+  });
+
+  const run = startCompare(sessionId, last.id, targets);
+  const info = toCompareRun(run);
+
+  // Every candidate streams to this client and all other session watchers,
+  // tagged so the client can route it to the right column
+  const clients = [ctx, ...getSessionWatchers(sessionId).filter((w) => w.ws !== ctx.ws)];
+  for (const candidate of run.candidates) {
+    const stream = getStream(candidate.streamId);
+    if (!stream) continue;
+    for (const client of clients) {
+      const subscriber = (event: SSEEvent) => {
+        client.push(sessionId, {
+          type: "compare_event",
+          data: { compareId: run.compareId, candidateId: candidate.candidateId, event },
+        });
+      };
+      stream.subscribers.add(subscriber);
+      client.addSubscription(candidate.streamId, subscriber);
+    }
+  }
+
+  const started: SSEEvent = { type: "compare_started", data: info };
+  ctx.push(sessionId, started);
+  ctx.broadcastToSession(sessionId, started);
+
+  // Run in background — the push events carry the streaming data
+  getLLMContext(sessionId)
+    .then((history) => runCompare(run, history))
+    .catch(console.error);
+
+  return info;
+});
+
+const compareTargetSchema = z.object({
+  sessionId: z.string().min(1),
+  compareId: z.string().min(1),
+});
+
+registerHandler("chat.compare.pick", async (payload, ctx) => {
+  const parsed = compareTargetSchema.extend({ candidateId: z.string().min(1) }).safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+
+  const { sessionId, compareId, candidateId } = parsed.data;
+  const run = getCompare(sessionId);
+  if (!run || run.compareId !== compareId) throw new WsError(404, "Compare run not found");
+
+  const candidate = run.candidates.find((c) => c.candidateId === candidateId);
+  if (!candidate) throw new WsError(404, "Candidate not found");
+  const stream = getStream(candidate.streamId);
+  if (!stream?.done) throw new WsError(409, "Candidate is still streaming");
+  if (stream.error) throw new WsError(400, "Candidate failed");
+
+  const message = enrichMessageForDisplay(await keepCandidate(run, candidate));
+  const resolved: SSEEvent = { type: "compare_resolved", data: { compareId, message } };
+  ctx.push(sessionId, resolved);
+  ctx.broadcastToSession(sessionId, resolved);
+  return { message };
+});
+
+registerHandler("chat.compare.cancel", async (payload, ctx) => {
+  const parsed = compareTargetSchema.safeParse(payload);
+  if (!parsed.success) throw new WsError(400, JSON.stringify(parsed.error.flatten()));
+
+  const { sessionId, compareId } = parsed.data;
+  const run = getCompare(sessionId);
+  if (!run || run.compareId !== compareId) throw new WsError(404, "Compare run not found");
+
+  discardCompare(sessionId);
+  const resolved: SSEEvent = { type: "compare_resolved", data: { compareId, message: null } };
+  ctx.push(sessionId, resolved);
+  ctx.broadcastToSession(sessionId, resolved);
+  return {};
+});
+
 // ---------------------------------------------------------------------------
 // Streaming: chat.subscribe (reconnection)
 // ---------------------------------------------------------------------------
@@ -1082,8 +1858,10 @@ registerHandler("chat.subscribe", async (payload, ctx) => {
     data: {
       assistantId: stream.assistantId,
       content: stream.content,
+      reasoning: stream.reasoning,
       model: stream.model,
       toolCalls: stream.toolCalls,
+      partialToolCalls: stream.partialToolCalls,
     },
   };
   ctx.push(sessionId, snapshotEvent);
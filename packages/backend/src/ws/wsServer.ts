@@ -1,3 +1,4 @@
+import type { IncomingMessage } from "node:http";
 import type { WebSocket } from "ws";
 import type { WsRequest, WsResponse, WsPush, SSEEvent } from "@vladbot/shared";
 import { NON_RETRYABLE_TYPES, MAX_RETRY_COUNT, DEFAULT_RETRY_COUNT, API_VERSION } from "@vladbot/shared";
@@ -15,8 +16,8 @@ export type WsHandler = (
 export interface HandlerContext {
   /** Send a push event to this client. */
   push: (sessionId: string, event: SSEEvent) => void;
-  /** Register a stream subscriber that will be cleaned up on disconnect. */
-  addSubscription: (sessionId: string, callback: (event: SSEEvent) => void) => void;
+  /** Register a stream subscriber that will be cleaned up on disconnect. Keyed by stream ID. */
+  addSubscription: (streamId: string, callback: (event: SSEEvent) => void) => void;
   /** The raw WebSocket (for rare cases that need it). */
   ws: WebSocket;
   /** API version negotiated during handshake. */
@@ -25,6 +26,8 @@ export interface HandlerContext {
   broadcastToSession: (sessionId: string, event: SSEEvent) => void;
   /** Broadcast a push event to all connected clients (excluding this one). */
   broadcastGlobal: (sessionId: string, event: SSEEvent) => void;
+  /** The client's browser, OS and address, e.g. "Firefox on Linux (192.168.1.20)"; recorded with approvals. */
+  device?: string;
 }
 
 /** Per-connection state. */
@@ -32,7 +35,7 @@ interface ConnectionState {
   retryCount: number;
   apiVersion: number;
   alive: boolean;
-  /** Stream subscribers registered by this connection (for cleanup). */
+  /** Stream subscribers registered by this connection (for cleanup), keyed by stream ID. */
   subscriptions: Map<string, (event: SSEEvent) => void>;
   /** Session IDs this connection is watching. */
   watchedSessions: Set<string>;
@@ -44,7 +47,7 @@ interface ConnectionEntry {
   state: ConnectionState;
   pingTimer: ReturnType<typeof setInterval>;
   push: (sessionId: string, event: SSEEvent) => void;
-  addSubscription: (sessionId: string, callback: (event: SSEEvent) => void) => void;
+  addSubscription: (streamId: string, callback: (event: SSEEvent) => void) => void;
 }
 
 // ---------------------------------------------------------------------------
@@ -61,6 +64,41 @@ export function getHandlers(): ReadonlyMap<string, WsHandler> {
   return handlers;
 }
 
+// ---------------------------------------------------------------------------
+// Device names
+// ---------------------------------------------------------------------------
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+/** A short name for the device behind a WebSocket upgrade request. */
+export function describeDevice(req: Pick<IncomingMessage, "headers" | "socket">): string {
+  const ua = req.headers["user-agent"] ?? "";
+  const browser = BROWSERS.find(([re]) => re.test(ua))?.[1];
+  const system = SYSTEMS.find(([re]) => re.test(ua))?.[1];
+  const client = browser && system ? `${browser} on ${system}` : browser ?? system ?? (ua.split(" ")[0] || "Unknown client");
+
+  // Behind the dev server or a reverse proxy, the socket's peer is the proxy
+  const forwarded = req.headers["x-forwarded-for"];
+  const address = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0].trim()
+    || req.socket.remoteAddress?.replace(/^::ffff:/, "");
+  return address ? `${client} (${address})` : client;
+}
+
 // ---------------------------------------------------------------------------
 // Connection handler
 // ---------------------------------------------------------------------------
@@ -74,7 +112,7 @@ export function getConnectionCount(): number {
   return connections.size;
 }
 
-export function handleWsConnection(ws: WebSocket): void {
+export function handleWsConnection(ws: WebSocket, req?: IncomingMessage): void {
   const state: ConnectionState = {
     retryCount: DEFAULT_RETRY_COUNT,
     apiVersion: 1,
@@ -119,14 +157,14 @@ export function handleWsConnection(ws: WebSocket): void {
     send({ push: true, sessionId, event });
   }
 
-  function addSubscription(sessionId: string, callback: (event: SSEEvent) => void): void {
-    // Remove previous subscription for this session if any
-    const prev = state.subscriptions.get(sessionId);
+  function addSubscription(streamId: string, callback: (event: SSEEvent) => void): void {
+    // Remove previous subscription for this stream if any
+    const prev = state.subscriptions.get(streamId);
     if (prev) {
-      const stream = getStream(sessionId);
+      const stream = getStream(streamId);
       if (stream) stream.subscribers.delete(prev);
     }
-    state.subscriptions.set(sessionId, callback);
+    state.subscriptions.set(streamId, callback);
   }
 
   function broadcastToSession(sessionId: string, event: SSEEvent): void {
@@ -145,7 +183,7 @@ export function handleWsConnection(ws: WebSocket): void {
     }
   }
 
-  const ctx: HandlerContext = { push: pushEvent, addSubscription, ws, get apiVersion() { return state.apiVersion; }, broadcastToSession, broadcastGlobal };
+  const ctx: HandlerContext = { push: pushEvent, addSubscription, ws, get apiVersion() { return state.apiVersion; }, broadcastToSession, broadcastGlobal, device: req && describeDevice(req) };
 
   // Message handler
   ws.on("message", async (raw) => {
@@ -215,8 +253,8 @@ export function handleWsConnection(ws: WebSocket): void {
     clearInterval(pingTimer);
     connections.delete(conn);
     // Remove all stream subscriptions
-    for (const [sessionId, callback] of state.subscriptions) {
-      const stream = getStream(sessionId);
+    for (const [streamId, callback] of state.subscriptions) {
+      const stream = getStream(streamId);
       if (stream) {
         stream.subscribers.delete(callback);
       }
@@ -1,6 +1,6 @@
 import { useState, useCallback, useMemo } from "react";
-import type { ModelInfo } from "@vladbot/shared";
-import { findModel } from "@vladbot/shared";
+import type { LoopLimits, ModelInfo, SamplingParams } from "@vladbot/shared";
+import { findModel, formatModelField } from "@vladbot/shared";
 import Header from "./components/Layout/Header.js";
 import type { View } from "./components/Layout/Header.js";
 import Sidebar from "./components/Sidebar/Sidebar.js";
@@ -8,19 +8,28 @@ import ChatContainer from "./components/Chat/ChatContainer.js";
 import MemoryManager from "./components/Memory/MemoryManager.js";
 import ToolTester from "./components/Tools/ToolTester.js";
 import SettingsPage from "./components/Settings/SettingsPage.js";
+import UsageDashboard from "./components/Usage/UsageDashboard.js";
+import AuditLog from "./components/Audit/AuditLog.js";
 import ConnectionOverlay from "./components/Layout/ConnectionOverlay.js";
 import { useModels } from "./hooks/useModels.js";
+import { usePersonas } from "./hooks/usePersonas.js";
 import { useChat } from "./hooks/useChat.js";
 import { useTools } from "./hooks/useTools.js";
 import { useSessions } from "./hooks/useSessions.js";
 import { useSettings } from "./hooks/useSettings.js";
-import { updateSessionVisionModelApi } from "./services/api.js";
+import {
+  updateSessionFallbackModelsApi,
+  updateSessionGenerationApi,
+  updateSessionThinkingBudgetApi,
+  updateSessionVisionModelApi,
+} from "./services/api.js";
 import type { DebugEntry } from "./services/api.js";
 
 export default function App() {
   const { settings, saveSettings } = useSettings();
   const { models, loading: modelsLoading } = useModels();
-  const { toolDefinitions } = useTools();
+  const { toolDefinitions, plugins: toolPlugins } = useTools();
+  const { personas } = usePersonas();
   const {
     sessions,
     activeSessionId,
@@ -33,10 +42,16 @@ export default function App() {
     setSessionAutoApprove,
   } = useSessions();
 
-  // Derive selectedModel from the active session's stored model ("provider:modelId" format)
+  // Derive selectedModel from the active session's stored model ("provider:modelId" format).
+  // The server's list comes first: it includes models configured only on the backend.
   const selectedModel = useMemo(() => {
     if (!activeSession?.model) return models[0] ?? null;
-    return findModel(activeSession.model) ?? models[0] ?? null;
+    return (
+      models.find((m) => formatModelField(m) === activeSession.model) ??
+      findModel(activeSession.model) ??
+      models[0] ??
+      null
+    );
   }, [activeSession?.model, models]);
 
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -68,8 +83,44 @@ export default function App() {
     [activeSessionId],
   );
 
-  const handleNewChat = useCallback(async () => {
-    await createNewSession();
+  const handleFallbackModelsChange = useCallback(
+    async (value: string[]) => {
+      if (!activeSessionId) return;
+      try {
+        await updateSessionFallbackModelsApi(activeSessionId, value);
+      } catch (err) {
+        console.error("Failed to save fallback models:", err);
+      }
+    },
+    [activeSessionId],
+  );
+
+  const handleThinkingBudgetChange = useCallback(
+    async (value: number) => {
+      if (!activeSessionId) return;
+      try {
+        await updateSessionThinkingBudgetApi(activeSessionId, value);
+      } catch (err) {
+        console.error("Failed to save thinking budget:", err);
+      }
+    },
+    [activeSessionId],
+  );
+
+  const handleGenerationSettingsSave = useCallback(
+    async (systemPrompt: string, sampling: SamplingParams, loopLimits: LoopLimits) => {
+      if (!activeSessionId) return;
+      try {
+        await updateSessionGenerationApi(activeSessionId, systemPrompt, sampling, loopLimits);
+      } catch (err) {
+        console.error("Failed to save session settings:", err);
+      }
+    },
+    [activeSessionId],
+  );
+
+  const handleNewChat = useCallback(async (personaId?: string) => {
+    await createNewSession(undefined, personaId);
     setSidebarOpen(false);
   }, [createNewSession]);
 
@@ -90,6 +141,13 @@ export default function App() {
     sendMessage,
     approveToolCalls,
     denyToolCalls,
+    continueLoop,
+    regenerateMessage,
+    editMessage,
+    switchBranch,
+    compare,
+    pickCompareWinner,
+    cancelCompare,
     compactContext,
     compactionError,
     switchModel,
@@ -99,6 +157,7 @@ export default function App() {
     trimToLatestPage,
     cancelStream,
     toolProgress,
+    retryStatus,
   } = useChat(
     activeSessionId,
     createNewSession,
@@ -143,6 +202,14 @@ export default function App() {
           visionModel={visionModel}
           onVisionModelChange={handleVisionModelChange}
           visionOverrideWarning={visionOverrideWarning}
+          fallbackModels={activeSession?.fallbackModels}
+          onFallbackModelsChange={handleFallbackModelsChange}
+          thinkingBudget={activeSession?.thinkingBudget}
+          onThinkingBudgetChange={handleThinkingBudgetChange}
+          systemPrompt={activeSession?.systemPrompt}
+          sampling={activeSession?.sampling}
+          loopLimits={activeSession?.loopLimits}
+          onGenerationSettingsSave={handleGenerationSettingsSave}
         />
         <div className="app-body">
           {currentView === "chat" && (
@@ -151,6 +218,7 @@ export default function App() {
               activeSessionId={activeSessionId}
               onSelectSession={selectSession}
               onNewChat={handleNewChat}
+              personas={personas}
               onDeleteSession={deleteSessionById}
               isOpen={sidebarOpen}
               onClose={() => setSidebarOpen(false)}
@@ -166,6 +234,14 @@ export default function App() {
               onCancel={cancelStream}
               onApproveToolCalls={approveToolCalls}
               onDenyToolCalls={denyToolCalls}
+              onContinueLoop={continueLoop}
+              onRegenerate={regenerateMessage}
+              onEditMessage={editMessage}
+              onSwitchBranch={switchBranch}
+              models={models}
+              compare={compare}
+              onPickCompare={pickCompareWinner}
+              onCancelCompare={cancelCompare}
               tokenUsage={tokenUsage}
               contextWindow={selectedModel?.contextWindow ?? 0}
               onCompact={compactContext}
@@ -179,15 +255,20 @@ export default function App() {
               onLoadMore={loadOlderMessages}
               onTrimOlder={trimToLatestPage}
               toolProgress={toolProgress}
+              retryStatus={retryStatus}
             />
           )}
           {currentView === "memories" && <MemoryManager />}
-          {currentView === "tools" && <ToolTester tools={toolDefinitions} />}
+          {currentView === "tools" && <ToolTester tools={toolDefinitions} plugins={toolPlugins} />}
+          {currentView === "usage" && <UsageDashboard />}
+          {currentView === "audit" && <AuditLog sessions={sessions} tools={toolDefinitions} />}
           {currentView === "settings" && (
             <SettingsPage
               settings={settings}
               models={models}
               onSave={saveSettings}
+              tools={toolDefinitions}
+              session={activeSession ? { id: activeSession.id, title: activeSession.title } : null}
             />
           )}
         </div>
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import type { ToolExecution } from "@vladbot/shared";
+import { toolExecutionsCsv } from "../components/Audit/AuditLog.js";
+
+const execution = (overrides: Partial<ToolExecution> = {}): ToolExecution => ({
+  id: "e1",
+  sessionId: "s1",
+  sessionTitle: "Deploy",
+  messageId: "m1",
+  toolCallId: "tc1",
+  tool: "run_command",
+  operation: "execute",
+  arguments: { command: "ls" },
+  startedAt: Date.parse("2026-10-01T10:00:00.000Z"),
+  finishedAt: Date.parse("2026-10-01T10:00:01.500Z"),
+  durationMs: 1500,
+  outcome: "success",
+  outputBytes: 120,
+  approval: { kind: "user", by: "Firefox on Linux (10.0.0.2)" },
+  ...overrides,
+});
+
+describe("toolExecutionsCsv", () => {
+  it("writes a header and one row per execution", () => {
+    const lines = toolExecutionsCsv([execution()]).split("\r\n");
+    expect(lines[0]).toBe(
+      "started_at,finished_at,duration_ms,session_id,session_title,message_id,tool_call_id,tool,operation," +
+        "arguments,outcome,output_bytes,approval,approved_by,approval_rule_id",
+    );
+    expect(lines[1]).toBe(
+      '2026-10-01T10:00:00.000Z,2026-10-01T10:00:01.500Z,1500,s1,Deploy,m1,tc1,run_command,execute,' +
+        '"{""command"":""ls""}",success,120,user,Firefox on Linux (10.0.0.2),',
+    );
+    expect(lines[2]).toBe("");
+  });
+
+  it("quotes line breaks and defuses spreadsheet formulas", () => {
+    const csv = toolExecutionsCsv([
+      execution({ sessionId: null, sessionTitle: "=HYPERLINK(\"x\")", arguments: { text: "a\nb" } }),
+    ]);
+    const row = csv.split("\r\n")[1];
+    expect(row).toContain(`,,"'=HYPERLINK(""x"")",`);
+    expect(row).toContain('"{""text"":""a\\nb""}"');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { applyCompareEvent, initCompareState } from "../hooks/useChat.js";
+
+const run = {
+  compareId: "cmp-1",
+  candidates: [
+    { candidateId: "a", model: "anthropic:claude" },
+    { candidateId: "b", model: "gemini:gemini" },
+  ],
+};
+
+describe("applyCompareEvent", () => {
+  it("streams tokens into the candidate's own column", () => {
+    let state = initCompareState(run);
+    state = applyCompareEvent(state, "a", { type: "token", data: "Hel" });
+    state = applyCompareEvent(state, "b", { type: "token", data: "Hi" });
+    state = applyCompareEvent(state, "a", { type: "token", data: "lo" });
+
+    expect(state.columns.map((c) => c.content)).toEqual(["Hello", "Hi"]);
+  });
+
+  it("discards partial output when the candidate is retried", () => {
+    let state = initCompareState(run);
+    state = applyCompareEvent(state, "a", { type: "thinking", data: { text: "hmm" } });
+    state = applyCompareEvent(state, "a", { type: "token", data: "partial" });
+    const retry = {
+      assistantId: "a",
+      attempt: 1,
+      maxAttempts: 3,
+      provider: "anthropic",
+      model: "claude",
+      delayMs: 1000,
+      error: { message: "Overloaded", code: "OVERLOADED" as const, recoverable: true },
+    };
+    state = applyCompareEvent(state, "a", { type: "retrying", data: retry });
+
+    expect(state.columns[0]).toMatchObject({ content: "", reasoning: "", retry });
+    state = applyCompareEvent(state, "a", { type: "token", data: "fresh" });
+    expect(state.columns[0].retry).toBeUndefined();
+  });
+
+  it("marks columns done, keeping the error of a failed candidate", () => {
+    let state = initCompareState(run);
+    state = applyCompareEvent(state, "a", { type: "done", data: { hasToolCalls: false } });
+    state = applyCompareEvent(state, "b", {
+      type: "error",
+      data: { message: "No key", code: "AUTH_ERROR", recoverable: false },
+    });
+
+    expect(state.columns[0].done).toBe(true);
+    expect(state.columns[0].error).toBeUndefined();
+    expect(state.columns[1]).toMatchObject({ done: true, error: { code: "AUTH_ERROR" } });
+  });
+});
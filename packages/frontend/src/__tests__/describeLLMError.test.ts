@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { describeLLMError } from "../hooks/useChat.js";
+
+describe("describeLLMError", () => {
+  it("adds an actionable hint for known error codes", () => {
+    expect(describeLLMError({ message: "Overloaded", code: "OVERLOADED", recoverable: true })).toBe(
+      "Error: Overloaded\n\nThe provider is overloaded. Try again later or configure a fallback model in Settings.",
+    );
+  });
+
+  it("tells the user how long to wait when the provider sent a retry hint", () => {
+    const text = describeLLMError({ message: "Slow down", code: "RATE_LIMIT", recoverable: true, retryAfterMs: 12_500 });
+    expect(text).toContain("Try again in 13s.");
+  });
+
+  it("includes the provider request ID for support", () => {
+    const text = describeLLMError({
+      message: "Internal server error",
+      code: "PROVIDER_ERROR",
+      recoverable: true,
+      requestId: "req_011",
+    });
+    expect(text).toBe("Error: Internal server error\n\nRequest ID: req_011");
+  });
+
+  it("keeps unknown errors to the message alone", () => {
+    expect(describeLLMError({ message: "boom", code: "UNKNOWN", recoverable: false })).toBe("Error: boom");
+  });
+});
@@ -39,6 +39,15 @@ describe("mergeMessages", () => {
     expect(merged[0].content).toBe("updated content");
   });
 
+  it("uses DB message when reasoning differs", () => {
+    const local = [msg({ id: "1", content: "42", reasoning: "Let me" })];
+    const db = [msg({ id: "1", content: "42", reasoning: "Let me think." })];
+
+    const merged = mergeMessages(local, db);
+
+    expect(merged[0]).toBe(db[0]);
+  });
+
   it("adds new messages from DB that are not in local state", () => {
     const local = [msg({ id: "1", content: "hi" })];
     const db = [
@@ -182,6 +191,21 @@ describe("mergeMessages", () => {
     expect(merged[0].rawTokenCount).toBe(100);
   });
 
+  it("uses DB version when local is missing tool call previews", () => {
+    const local = [msg({ id: "1", content: "hello", tokenCount: 5, rawTokenCount: 100 })];
+    const db = [msg({
+      id: "1",
+      content: "hello",
+      tokenCount: 5,
+      rawTokenCount: 100,
+      toolCallPreviews: { tc1: { kind: "note", text: "/tmp/x does not exist; the delete will fail" } },
+    })];
+
+    const merged = mergeMessages(local, db);
+
+    expect(merged[0]).toBe(db[0]);
+  });
+
   it("preserves local when both have token counts", () => {
     const local = [msg({ id: "1", content: "hello", tokenCount: 5, rawTokenCount: 100 })];
     const db = [msg({ id: "1", content: "hello", tokenCount: 5, rawTokenCount: 100 })];
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import type { ChatMessage } from "@vladbot/shared";
+import { applyApprovalChange, mergeMessages, withToolCallApproval } from "../hooks/useChat.js";
+
+const pending: ChatMessage = {
+  id: "a1",
+  role: "assistant",
+  content: "",
+  timestamp: 1,
+  toolCalls: [
+    { id: "tc1", name: "filesystem_delete", arguments: { path: "/tmp/a" } },
+    { id: "tc2", name: "run_command_execute", arguments: { command: "ls" } },
+  ],
+  approvalStatus: "pending",
+  toolStatuses: { tc1: "pending", tc2: "pending" },
+};
+
+describe("withToolCallApproval", () => {
+  it("records a verdict for one call", () => {
+    const next = withToolCallApproval(pending, { status: "denied", reason: "no" }, "tc1");
+    expect(next.toolCallApprovals).toEqual({ tc1: { status: "denied", reason: "no" } });
+    expect(next.toolStatuses).toBeUndefined();
+  });
+
+  it("leaves calls that already have a verdict alone when deciding the rest", () => {
+    const first = withToolCallApproval(pending, { status: "denied" }, "tc1");
+    const next = withToolCallApproval(first, { status: "approved" });
+    expect(next.toolCallApprovals).toEqual({ tc1: { status: "denied" }, tc2: { status: "approved" } });
+  });
+});
+
+describe("applyApprovalChange", () => {
+  it("takes edited arguments and verdicts from another device", () => {
+    const next = applyApprovalChange(pending, {
+      messageId: "a1",
+      approvalStatus: "pending",
+      toolCalls: [pending.toolCalls![0], { id: "tc2", name: "run_command_execute", arguments: { command: "ls -la" } }],
+      toolCallApprovals: { tc2: { status: "approved", originalArguments: { command: "ls" } } },
+    });
+    expect(next.toolCalls![1].arguments).toEqual({ command: "ls -la" });
+    expect(next.toolCallApprovals?.tc2.originalArguments).toEqual({ command: "ls" });
+    expect(next.approvalStatus).toBe("pending");
+  });
+
+  it("keeps local calls when the change only moves the status", () => {
+    const next = applyApprovalChange(pending, { messageId: "a1", approvalStatus: "approved" });
+    expect(next.toolCalls).toBe(pending.toolCalls);
+    expect(next.approvalStatus).toBe("approved");
+  });
+});
+
+describe("mergeMessages", () => {
+  it("drops an optimistic verdict the server never recorded", () => {
+    const local = [withToolCallApproval(pending, { status: "approved" }, "tc1")];
+    const merged = mergeMessages(local, [pending]);
+    expect(merged[0]).toBe(pending);
+  });
+});
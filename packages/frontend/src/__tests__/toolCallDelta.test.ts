@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import type { ChatMessage } from "@vladbot/shared";
+import { appendToolCallDelta, dropPartialToolCall } from "../hooks/useChat.js";
+
+const user: ChatMessage = { id: "u1", role: "user", content: "List files", timestamp: 1 };
+
+describe("appendToolCallDelta", () => {
+  it("creates the assistant message on the first delta of a round", () => {
+    const next = appendToolCallDelta([user], "a1", "claude", { id: "tc1", name: "filesystem", delta: '{"pa' });
+
+    expect(next).toHaveLength(2);
+    expect(next[1]).toMatchObject({
+      id: "a1",
+      role: "assistant",
+      model: "claude",
+      partialToolCalls: [{ id: "tc1", name: "filesystem", arguments: '{"pa' }],
+    });
+  });
+
+  it("appends argument text per tool call", () => {
+    let messages = appendToolCallDelta([user], "a1", "claude", { id: "tc1", name: "filesystem", delta: '{"pa' });
+    messages = appendToolCallDelta(messages, "a1", "claude", { id: "tc2", name: "run_command", delta: '{"cmd"' });
+    messages = appendToolCallDelta(messages, "a1", "claude", { id: "tc1", name: "filesystem", delta: 'th": "/"}' });
+
+    expect(messages[1].partialToolCalls).toEqual([
+      { id: "tc1", name: "filesystem", arguments: '{"path": "/"}' },
+      { id: "tc2", name: "run_command", arguments: '{"cmd"' },
+    ]);
+  });
+
+  it("updates the last assistant message when no ID is known", () => {
+    const assistant: ChatMessage = { id: "a1", role: "assistant", content: "Sure", timestamp: 2 };
+    const next = appendToolCallDelta([user, assistant], "", "", { id: "tc1", name: "filesystem", delta: "{" });
+
+    expect(next).toHaveLength(2);
+    expect(next[1].content).toBe("Sure");
+    expect(next[1].partialToolCalls).toEqual([{ id: "tc1", name: "filesystem", arguments: "{" }]);
+  });
+});
+
+describe("dropPartialToolCall", () => {
+  it("removes the call that arrived complete", () => {
+    const partials = [
+      { id: "tc1", name: "filesystem", arguments: "{}" },
+      { id: "tc2", name: "run_command", arguments: "{" },
+    ];
+
+    expect(dropPartialToolCall(partials, "tc1")).toEqual([partials[1]]);
+    expect(dropPartialToolCall([partials[0]], "tc1")).toBeUndefined();
+  });
+});
@@ -0,0 +1,323 @@
+import { useEffect, useState } from "react";
+import type {
+  Session,
+  ToolApprovalKind,
+  ToolDefinition,
+  ToolExecution,
+  ToolExecutionFilter,
+  ToolExecutionOutcome,
+  ToolExecutionPage,
+} from "@vladbot/shared";
+import { fetchToolExecutionsApi } from "../../services/api.js";
+import "../../styles/usage.css";
+import "../../styles/audit.css";
+
+const PAGE_SIZE = 100;
+/** Rows per request while exporting; the server's maximum. */
+const EXPORT_PAGE_SIZE = 5000;
+const SEARCH_DEBOUNCE_MS = 300;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OUTCOMES: { value: ToolExecutionOutcome; label: string }[] = [
+  { value: "success", label: "Succeeded" },
+  { value: "error", label: "Failed" },
+  { value: "cancelled", label: "Cancelled" },
+];
+
+const APPROVAL_LABELS: Record<ToolApprovalKind, string> = {
+  user: "User",
+  rule: "Rule",
+  auto: "Auto-approve",
+  direct: "Tools page",
+};
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function nextDay(day: string): string {
+  return isoDay(new Date(Date.parse(day) + DAY_MS));
+}
+
+function fmtDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(ms < 10_000 ? 2 : 1)} s`;
+}
+
+function fmtBytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function approvalLabel(execution: ToolExecution): string {
+  const kind = APPROVAL_LABELS[execution.approval.kind] ?? execution.approval.kind;
+  return execution.approval.by ? `${kind}: ${execution.approval.by}` : kind;
+}
+
+// ---------------------------------------------------------------------------
+// CSV export
+// ---------------------------------------------------------------------------
+
+const CSV_COLUMNS: [string, (e: ToolExecution) => string | number][] = [
+  ["started_at", (e) => new Date(e.startedAt).toISOString()],
+  ["finished_at", (e) => new Date(e.finishedAt).toISOString()],
+  ["duration_ms", (e) => e.durationMs],
+  ["session_id", (e) => e.sessionId ?? ""],
+  ["session_title", (e) => e.sessionTitle ?? ""],
+  ["message_id", (e) => e.messageId ?? ""],
+  ["tool_call_id", (e) => e.toolCallId],
+  ["tool", (e) => e.tool],
+  ["operation", (e) => e.operation],
+  ["arguments", (e) => JSON.stringify(e.arguments)],
+  ["outcome", (e) => e.outcome],
+  ["output_bytes", (e) => e.outputBytes],
+  ["approval", (e) => e.approval.kind],
+  ["approved_by", (e) => e.approval.by ?? ""],
+  ["approval_rule_id", (e) => e.approval.ruleId ?? ""],
+];
+
+function csvCell(value: string | number): string {
+  if (typeof value === "number") return String(value);
+  // Arguments come from the model: keep spreadsheets from evaluating them as formulas
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** The executions as CSV, one row each, with a header row. */
+export function toolExecutionsCsv(executions: ToolExecution[]): string {
+  const lines = [CSV_COLUMNS.map(([name]) => name).join(",")];
+  for (const execution of executions) {
+    lines.push(CSV_COLUMNS.map(([, get]) => csvCell(get(execution))).join(","));
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+async function fetchAllExecutions(filter: ToolExecutionFilter): Promise<ToolExecution[]> {
+  const all: ToolExecution[] = [];
+  for (;;) {
+    const page = await fetchToolExecutionsApi(filter, EXPORT_PAGE_SIZE, all.length);
+    all.push(...page.executions);
+    if (page.executions.length < EXPORT_PAGE_SIZE || all.length >= page.total) return all;
+  }
+}
+
+function download(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+interface AuditLogProps {
+  sessions: Session[];
+  tools: ToolDefinition[];
+}
+
+export default function AuditLog({ sessions, tools }: AuditLogProps) {
+  const [sessionId, setSessionId] = useState("");
+  const [tool, setTool] = useState("");
+  const [outcome, setOutcome] = useState<ToolExecutionOutcome | "">("");
+  const [approval, setApproval] = useState<ToolApprovalKind | "">("");
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  // Inclusive day range in the UI; the API takes an exclusive end
+  const [from, setFrom] = useState(() => isoDay(new Date(Date.now() - 6 * DAY_MS)));
+  const [to, setTo] = useState(() => isoDay(new Date()));
+  const [position, setPosition] = useState({ filterKey: "", offset: 0 });
+  const [page, setPage] = useState<ToolExecutionPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const filter: ToolExecutionFilter = {
+    ...(sessionId && { sessionId }),
+    ...(tool && { tool }),
+    ...(outcome && { outcome }),
+    ...(approval && { approval }),
+    ...(search && { search }),
+    ...(from && { from }),
+    ...(to && { to: nextDay(to) }),
+  };
+  const filterKey = JSON.stringify(filter);
+  // A new filter starts again at the newest page
+  const offset = position.filterKey === filterKey ? position.offset : 0;
+  const setOffset = (value: number) => setPosition({ filterKey, offset: value });
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchToolExecutionsApi(JSON.parse(filterKey) as ToolExecutionFilter, PAGE_SIZE, offset)
+      .then((data) => {
+        if (!cancelled) setPage(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load the audit log");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filterKey, offset]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const executions = await fetchAllExecutions(filter);
+      download(`tool-executions-${from || "all"}-to-${to || isoDay(new Date())}.csv`, toolExecutionsCsv(executions), "text/csv");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const toolNames = tools.map((t) => t.name).sort();
+  if (tool && !toolNames.includes(tool)) toolNames.push(tool);
+
+  return (
+    <div className="usage-page">
+      <div className="usage-content audit-content">
+        <h2 className="usage-title">Tool audit log</h2>
+
+        <div className="usage-toolbar">
+          <select className="audit-filter" value={sessionId} onChange={(e) => setSessionId(e.target.value)}>
+            <option value="">All sessions</option>
+            {sessions.map((s) => (
+              <option key={s.id} value={s.id}>{s.title}</option>
+            ))}
+          </select>
+          <select className="audit-filter" value={tool} onChange={(e) => setTool(e.target.value)}>
+            <option value="">All tools</option>
+            {toolNames.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <select
+            className="audit-filter"
+            value={outcome}
+            onChange={(e) => setOutcome(e.target.value as ToolExecutionOutcome | "")}
+          >
+            <option value="">Any outcome</option>
+            {OUTCOMES.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select
+            className="audit-filter"
+            value={approval}
+            onChange={(e) => setApproval(e.target.value as ToolApprovalKind | "")}
+          >
+            <option value="">Any approval</option>
+            {(Object.keys(APPROVAL_LABELS) as ToolApprovalKind[]).map((kind) => (
+              <option key={kind} value={kind}>{APPROVAL_LABELS[kind]}</option>
+            ))}
+          </select>
+          <input
+            className="audit-filter audit-search"
+            type="search"
+            placeholder="Search arguments"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+        </div>
+
+        <div className="usage-toolbar">
+          <label className="usage-range">
+            From
+            <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+          </label>
+          <label className="usage-range">
+            To
+            <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+          </label>
+          <button
+            className="audit-btn audit-export"
+            onClick={handleExport}
+            disabled={exporting || !page || page.total === 0}
+          >
+            {exporting ? "Exporting..." : "Export CSV"}
+          </button>
+        </div>
+
+        {error && <div className="usage-error">{error}</div>}
+        {loading && !page && <div className="usage-empty">Loading...</div>}
+        {page && page.total === 0 && !loading && (
+          <div className="usage-empty">No tool calls match these filters.</div>
+        )}
+        {page && page.executions.length > 0 && (
+          <>
+            <table className={`usage-table audit-table${loading ? " usage-table-loading" : ""}`}>
+              <thead>
+                <tr>
+                  <th>Started</th>
+                  <th>Session</th>
+                  <th>Call</th>
+                  <th>Arguments</th>
+                  <th className="usage-num">Duration</th>
+                  <th>Outcome</th>
+                  <th className="usage-num">Output</th>
+                  <th>Approved by</th>
+                </tr>
+              </thead>
+              <tbody>
+                {page.executions.map((e) => {
+                  const args = JSON.stringify(e.arguments);
+                  return (
+                    <tr key={e.id}>
+                      <td className="audit-time">{new Date(e.startedAt).toLocaleString()}</td>
+                      <td className="usage-label audit-session" title={e.sessionId ?? undefined}>
+                        {e.sessionTitle ?? (e.sessionId ? "(deleted)" : "—")}
+                      </td>
+                      <td className="audit-call">{e.tool}_{e.operation}</td>
+                      <td className="audit-args" title={args}>{args}</td>
+                      <td className="usage-num">{fmtDuration(e.durationMs)}</td>
+                      <td className={`audit-outcome audit-outcome-${e.outcome}`}>
+                        {OUTCOMES.find((o) => o.value === e.outcome)?.label ?? e.outcome}
+                      </td>
+                      <td className="usage-num">{fmtBytes(e.outputBytes)}</td>
+                      <td className="usage-label audit-approval" title={approvalLabel(e)}>{approvalLabel(e)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <div className="audit-pager">
+              <span>
+                {offset + 1}–{offset + page.executions.length} of {page.total.toLocaleString()}
+              </span>
+              <button
+                className="audit-btn"
+                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                disabled={loading || offset === 0}
+              >
+                Newer
+              </button>
+              <button
+                className="audit-btn"
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={loading || offset + page.executions.length >= page.total}
+              >
+                Older
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
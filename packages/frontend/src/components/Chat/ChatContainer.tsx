@@ -1,5 +1,6 @@
-import type { ChatMessage } from "@vladbot/shared";
+import type { ChatMessage, ModelInfo, RetryInfo, TokenUsage } from "@vladbot/shared";
 import type { DebugEntry } from "../../services/api.js";
+import type { CompareState } from "../../hooks/useChat.js";
 import MessageList from "./MessageList.js";
 import ChatInput from "./ChatInput.js";
 
@@ -8,11 +9,20 @@ interface ChatContainerProps {
   debugByMessage: Record<string, DebugEntry[]>;
   isStreaming: boolean;
   isLoadingSession?: boolean;
-  onSend: (message: string, images?: string[]) => void;
+  onSend: (message: string, images?: string[], compareModels?: string[]) => void;
   onCancel: () => void;
-  onApproveToolCalls: (messageId: string) => void;
-  onDenyToolCalls: (messageId: string) => void;
-  tokenUsage: { inputTokens: number; outputTokens: number } | null;
+  onApproveToolCalls: (messageId: string, toolCallId?: string, args?: Record<string, unknown>) => void;
+  onDenyToolCalls: (messageId: string, toolCallId?: string, reason?: string) => void;
+  onContinueLoop: (messageId: string, rounds: number) => void;
+  onRegenerate: (messageId: string) => void;
+  onEditMessage: (messageId: string, content: string) => void;
+  onSwitchBranch: (messageId: string) => void;
+  /** Models offered for compare mode. */
+  models?: ModelInfo[];
+  compare?: CompareState | null;
+  onPickCompare?: (candidateId: string) => void;
+  onCancelCompare?: () => void;
+  tokenUsage: TokenUsage | null;
   contextWindow: number;
   onCompact?: () => void;
   isCompacting?: boolean;
@@ -25,6 +35,7 @@ interface ChatContainerProps {
   onLoadMore?: () => void;
   onTrimOlder?: () => void;
   toolProgress?: Record<string, { progress: number; total: number; message?: string }>;
+  retryStatus?: RetryInfo | null;
 }
 
 export default function ChatContainer({
@@ -36,6 +47,14 @@ export default function ChatContainer({
   onCancel,
   onApproveToolCalls,
   onDenyToolCalls,
+  onContinueLoop,
+  onRegenerate,
+  onEditMessage,
+  onSwitchBranch,
+  models,
+  compare,
+  onPickCompare,
+  onCancelCompare,
   tokenUsage,
   contextWindow,
   onCompact,
@@ -49,6 +68,7 @@ export default function ChatContainer({
   onLoadMore,
   onTrimOlder,
   toolProgress,
+  retryStatus,
 }: ChatContainerProps) {
   return (
     <div className="chat-container">
@@ -60,17 +80,27 @@ export default function ChatContainer({
         isLoadingSession={isLoadingSession}
         onApproveToolCalls={onApproveToolCalls}
         onDenyToolCalls={onDenyToolCalls}
+        onContinueLoop={onContinueLoop}
+        onRegenerate={onRegenerate}
+        onEditMessage={onEditMessage}
+        onSwitchBranch={onSwitchBranch}
+        compare={compare}
+        onPickCompare={onPickCompare}
+        onCancelCompare={onCancelCompare}
         hasMore={hasMore}
         isLoadingOlder={isLoadingOlder}
         onLoadMore={onLoadMore}
         onTrimOlder={onTrimOlder}
         toolProgress={toolProgress}
+        retryStatus={retryStatus}
       />
       <ChatInput
         onSend={onSend}
         onCancel={onCancel}
-        disabled={isStreaming}
+        // A compare run must be resolved before the conversation continues
+        disabled={isStreaming || !!compare}
         isStreaming={isStreaming}
+        models={models}
         autoApprove={autoApprove}
         onToggleAutoApprove={onToggleAutoApprove}
         tokenUsage={tokenUsage}
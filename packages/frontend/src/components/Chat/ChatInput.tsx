@@ -1,4 +1,7 @@
 import { useRef, useState, useEffect, memo, type FormEvent, type KeyboardEvent, type ClipboardEvent } from "react";
+import type { ModelInfo, TokenUsage } from "@vladbot/shared";
+import { formatModelField } from "@vladbot/shared";
+import { cacheHitRatio } from "./ContextMeter.js";
 
 interface PendingImage {
   name: string;
@@ -6,30 +9,41 @@ interface PendingImage {
 }
 
 interface ChatInputProps {
-  onSend: (message: string, images?: string[]) => void;
+  onSend: (message: string, images?: string[], compareModels?: string[]) => void;
   onCancel: () => void;
   disabled: boolean;
   isStreaming: boolean;
   autoApprove?: boolean;
   onToggleAutoApprove?: () => void;
-  tokenUsage: { inputTokens: number; outputTokens: number } | null;
+  tokenUsage: TokenUsage | null;
   contextWindow: number;
   onCompact?: () => void;
   isCompacting?: boolean;
   compactionError?: string | null;
   verbatimBudget?: number;
+  /** Models offered for compare mode; the picker is hidden when fewer than two. */
+  models?: ModelInfo[];
 }
 
-function ChatInput({ onSend, onCancel, disabled, isStreaming, autoApprove, onToggleAutoApprove, tokenUsage, contextWindow, onCompact, isCompacting, compactionError, verbatimBudget }: ChatInputProps) {
+/** Models answering side by side per message, like the backend's limit. */
+const MAX_COMPARE_MODELS = 4;
+
+function ChatInput({ onSend, onCancel, disabled, isStreaming, autoApprove, onToggleAutoApprove, tokenUsage, contextWindow, onCompact, isCompacting, compactionError, verbatimBudget, models }: ChatInputProps) {
   const [input, setInput] = useState("");
   const [images, setImages] = useState<PendingImage[]>([]);
+  /** "provider:modelId" of each model to compare; compare mode is on with two or more. */
+  const [compareModels, setCompareModels] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const doSend = () => {
     const trimmed = input.trim();
     if ((!trimmed && images.length === 0) || disabled) return;
-    onSend(trimmed, images.length > 0 ? images.map((i) => i.dataUri) : undefined);
+    onSend(
+      trimmed,
+      images.length > 0 ? images.map((i) => i.dataUri) : undefined,
+      compareModels.length >= 2 ? compareModels : undefined,
+    );
     setInput("");
     setImages([]);
     requestAnimationFrame(() => textareaRef.current?.focus());
@@ -84,6 +98,12 @@ function ChatInput({ onSend, onCancel, disabled, isStreaming, autoApprove, onTog
     setImages((prev) => prev.filter((_, i) => i !== index));
   };
 
+  const toggleCompareModel = (field: string) => {
+    setCompareModels((prev) =>
+      prev.includes(field) ? prev.filter((m) => m !== field) : [...prev, field],
+    );
+  };
+
   // Restore focus when textarea becomes enabled after streaming
   useEffect(() => {
     if (!disabled) {
@@ -172,6 +192,38 @@ function ChatInput({ onSend, onCancel, disabled, isStreaming, autoApprove, onTog
             </button>
           )}
         <div className="chat-input-right">
+          {models && models.length >= 2 && (
+            <details className="compare-picker">
+              <summary
+                className={`chat-action-btn${compareModels.length >= 2 ? " compare-picker-on" : ""}`}
+                title="Compare models: send the next message to several models side by side"
+              >
+                {"\u2696"}{compareModels.length >= 2 ? compareModels.length : ""}
+              </summary>
+              <div className="compare-picker-menu">
+                {models.map((m) => {
+                  const field = formatModelField(m);
+                  const checked = compareModels.includes(field);
+                  return (
+                    <label key={field} className="compare-picker-option">
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        disabled={!checked && compareModels.length >= MAX_COMPARE_MODELS}
+                        onChange={() => toggleCompareModel(field)}
+                      />
+                      {m.name}
+                    </label>
+                  );
+                })}
+                <div className="compare-picker-hint">
+                  {compareModels.length >= 2
+                    ? `Next message goes to ${compareModels.length} models`
+                    : `Pick 2\u2013${MAX_COMPARE_MODELS} models`}
+                </div>
+              </div>
+            </details>
+          )}
           {onToggleAutoApprove && (
             <button
               type="button"
@@ -191,11 +243,13 @@ function ChatInput({ onSend, onCancel, disabled, isStreaming, autoApprove, onTog
             if (compactionError) color = "#e05555";
             else if (pct >= 90) color = "#e05555";
             else if (pct >= 70) color = "#d4a03c";
+            const hitRatio = tokenUsage ? cacheHitRatio(tokenUsage) : null;
+            const cacheNote = hitRatio !== null ? ` (cache hit ${hitRatio}%)` : "";
             const title = compactionError
               ? `Compaction failed: ${compactionError}`
               : tooLow
-                ? `Context ${pct}% — verbatim tail budget is ${minPct}%, nothing to compact`
-                : `Context ${pct}% \u2014 click to compact`;
+                ? `Context ${pct}%${cacheNote} — verbatim tail budget is ${minPct}%, nothing to compact`
+                : `Context ${pct}%${cacheNote} \u2014 click to compact`;
             return (
               <button
                 type="button"
@@ -229,7 +283,9 @@ export default memo(ChatInput, (prev, next) => {
     prev.isCompacting === next.isCompacting &&
     prev.compactionError === next.compactionError &&
     prev.verbatimBudget === next.verbatimBudget &&
+    prev.models === next.models &&
     prev.tokenUsage?.inputTokens === next.tokenUsage?.inputTokens &&
-    prev.tokenUsage?.outputTokens === next.tokenUsage?.outputTokens
+    prev.tokenUsage?.outputTokens === next.tokenUsage?.outputTokens &&
+    prev.tokenUsage?.cacheReadInputTokens === next.tokenUsage?.cacheReadInputTokens
   );
 });
@@ -0,0 +1,58 @@
+import Markdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import type { CompareState } from "../../hooks/useChat.js";
+import { describeLLMError } from "../../hooks/useChat.js";
+
+interface CompareColumnsProps {
+  compare: CompareState;
+  onPick: (candidateId: string) => void;
+  onCancel: () => void;
+}
+
+/** Replies of a compare run side by side; the user keeps one of them. */
+export default function CompareColumns({ compare, onPick, onCancel }: CompareColumnsProps) {
+  const allDone = compare.columns.every((col) => col.done);
+  return (
+    <div className="compare">
+      <div className="compare-header">
+        <span>{allDone ? "Pick the reply to keep" : "Comparing models..."}</span>
+        <button className="compare-cancel" onClick={onCancel}>
+          Discard all
+        </button>
+      </div>
+      <div className="compare-columns">
+        {compare.columns.map((col) => (
+          <div key={col.candidateId} className={`compare-column${col.error ? " compare-column-error" : ""}`}>
+            <div className="compare-column-model">{col.model}</div>
+            {col.reasoning && (
+              <details className="message-reasoning">
+                <summary>{col.content ? "Thought process" : "Thinking…"}</summary>
+                <div className="message-reasoning-content">{col.reasoning}</div>
+              </details>
+            )}
+            <div className="compare-column-content">
+              {col.error ? (
+                describeLLMError(col.error)
+              ) : col.retry ? (
+                <span className="compare-column-status">
+                  Retrying ({col.retry.attempt}/{col.retry.maxAttempts})...
+                </span>
+              ) : col.content ? (
+                <Markdown remarkPlugins={[remarkGfm]}>{col.content}</Markdown>
+              ) : (
+                !col.done && <span className="compare-column-status">Waiting for reply...</span>
+              )}
+            </div>
+            <button
+              className="compare-pick"
+              onClick={() => onPick(col.candidateId)}
+              disabled={!col.done || !!col.error}
+            >
+              Keep this reply
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
+import type { TokenUsage } from "@vladbot/shared";
+
 interface ContextMeterProps {
-  usage: { inputTokens: number; outputTokens: number };
+  usage: TokenUsage;
   contextWindow: number;
   onCompact?: () => void;
   isCompacting?: boolean;
@@ -12,6 +14,17 @@ function formatTokens(n: number): string {
   return String(n);
 }
 
+/**
+ * Share of the prompt served from the provider's prompt cache, in percent.
+ * null when the provider reported no cache activity.
+ */
+export function cacheHitRatio(usage: TokenUsage): number | null {
+  const read = usage.cacheReadInputTokens ?? 0;
+  const created = usage.cacheCreationInputTokens ?? 0;
+  if ((read === 0 && created === 0) || usage.inputTokens <= 0) return null;
+  return Math.round((read / usage.inputTokens) * 100);
+}
+
 export default function ContextMeter({
   usage,
   contextWindow,
@@ -21,13 +34,17 @@ export default function ContextMeter({
 }: ContextMeterProps) {
   const totalUsed = usage.inputTokens + usage.outputTokens;
   const pct = Math.min(100, Math.round((totalUsed / contextWindow) * 100));
+  const hitRatio = cacheHitRatio(usage);
+  const cacheTitle = hitRatio !== null
+    ? ` — cache: ${formatTokens(usage.cacheReadInputTokens ?? 0)} read, ${formatTokens(usage.cacheCreationInputTokens ?? 0)} written`
+    : "";
 
   let color = "var(--text-muted)";
   if (pct >= 90) color = "#e05555";
   else if (pct >= 70) color = "#d4a03c";
 
   return (
-    <div className="context-meter" title={`${formatTokens(totalUsed)} / ${formatTokens(contextWindow)} tokens`}>
+    <div className="context-meter" title={`${formatTokens(totalUsed)} / ${formatTokens(contextWindow)} tokens${cacheTitle}`}>
       {onCompact && (
         <button
           className="compact-btn"
@@ -47,6 +64,9 @@ export default function ContextMeter({
       <span className="context-meter-label" style={{ color }}>
         Context {pct}%
       </span>
+      {hitRatio !== null && (
+        <span className="context-meter-cache">Cache {hitRatio}%</span>
+      )}
     </div>
   );
 }
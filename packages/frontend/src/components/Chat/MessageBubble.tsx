@@ -1,7 +1,7 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useRef, useState, type ReactNode } from "react";
 import Markdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import type { ChatMessage } from "@vladbot/shared";
+import type { ChatMessage, LoopLimitHit } from "@vladbot/shared";
 import type { DebugEntry } from "../../services/api.js";
 import ToolCallBubble from "./ToolCallBubble.js";
 import type { ToolCallStatus } from "./ToolCallBubble.js";
@@ -36,16 +36,69 @@ function TokenCount({ message }: { message: ChatMessage }) {
     label = fmtShort(raw!);
     tip = `Actual: ${fmtExact(raw!)} ${rawLabel} (LLM-reported)`;
   }
+  if (message.cost != null) {
+    tip += ` · Cost: $${message.cost.toFixed(4)}`;
+  }
   return (
     <span className="message-token-count" title={tip}>{label}</span>
   );
 }
 
+/** Rounds offered by the "continue" button of a paused tool loop. */
+const DEFAULT_CONTINUE_ROUNDS = 10;
+
+function LoopLimitNotice({
+  loopLimit,
+  onContinue,
+  onStop,
+}: {
+  loopLimit: LoopLimitHit;
+  onContinue: (rounds: number) => void;
+  onStop: () => void;
+}) {
+  const [rounds, setRounds] = useState(String(DEFAULT_CONTINUE_ROUNDS));
+  const count = Math.max(1, Math.floor(Number(rounds)) || DEFAULT_CONTINUE_ROUNDS);
+  const seconds = Math.round(loopLimit.elapsedMs / 1000);
+
+  return (
+    <div className="loop-limit">
+      <div className="loop-limit-reason">Paused: {loopLimit.detail}.</div>
+      <div className="loop-limit-progress">
+        {loopLimit.rounds} round{loopLimit.rounds === 1 ? "" : "s"} · {seconds}s · {fmtShort(loopLimit.tokens)} tokens so far
+      </div>
+      <div className="tool-calls-actions">
+        <button className="tool-call-approve" onClick={() => onContinue(count)}>
+          Continue {count} more round{count === 1 ? "" : "s"}
+        </button>
+        <input
+          className="loop-limit-rounds"
+          type="number"
+          min={1}
+          value={rounds}
+          onChange={(e) => setRounds(e.target.value)}
+          aria-label="Rounds to continue"
+        />
+        <button className="tool-call-deny" onClick={onStop}>
+          Stop
+        </button>
+      </div>
+    </div>
+  );
+}
+
 interface MessageBubbleProps {
   message: ChatMessage;
   debugEntries?: DebugEntry[];
-  onApprove?: () => void;
-  onDeny?: () => void;
+  /** Approve one call (optionally with edited arguments), or every undecided call without an ID. */
+  onApprove?: (toolCallId?: string, args?: Record<string, unknown>) => void;
+  onDeny?: (toolCallId?: string, reason?: string) => void;
+  /** Run a round the tool loop paused at and allow this many more. */
+  onContinueLoop?: (rounds: number) => void;
+  /** Stream a new version of this assistant reply. */
+  onRegenerate?: () => void;
+  /** Resend this user message with new content as a new branch. */
+  onEdit?: (content: string) => void;
+  branchNav?: ReactNode;
   toolProgress?: Record<string, { progress: number; total: number; message?: string }>;
 }
 
@@ -69,12 +122,19 @@ function getToolStatusFallback(
   // Cancelled by user (stream interrupted)
   if (status === "cancelled") return "cancelled";
 
-  // Not approved yet (and no results exist from a previous execution)
-  if (status === "pending" && results.length === 0) return "pending";
+  // Not approved yet (and no results exist from a previous execution);
+  // calls already decided wait for the rest of the round
+  const verdict = message.toolCallApprovals?.[tc.id];
+  if (status === "pending" && results.length === 0) {
+    return !verdict ? "pending" : verdict.status === "denied" ? "cancelled" : "waiting";
+  }
   if (status === "denied") return "cancelled";
 
-  // Approved — check if a previous tool errored
-  const prevErrored = results.some((r) => r.isError);
+  // Approved — check if a previous tool errored (refused calls don't stop the rest)
+  const refused = (id: string) =>
+    message.toolCallApprovals?.[id]?.status === "denied" ||
+    message.approvalDecisions?.[id]?.outcome === "deny";
+  const prevErrored = results.some((r) => r.isError && !refused(r.toolCallId));
   if (prevErrored) return "cancelled";
 
   // Approved, no prev error — executing or waiting
@@ -87,12 +147,17 @@ export default function MessageBubble({
   debugEntries,
   onApprove,
   onDeny,
+  onContinueLoop,
+  onRegenerate,
+  onEdit,
+  branchNav,
   toolProgress,
 }: MessageBubbleProps) {
   const isUser = message.role === "user";
 
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const [showLogs, setShowLogs] = useState(false);
+  const [editDraft, setEditDraft] = useState<string | null>(null);
 
   // Don't render tool-role messages directly (their results show in the assistant bubble)
   // Use displayType from backend if available, otherwise check role
@@ -120,10 +185,16 @@ export default function MessageBubble({
 
   const hasToolCalls = message.toolCalls && message.toolCalls.length > 0;
   const hasResults = message.toolResults && message.toolResults.length > 0;
+  const hasPartialToolCalls = !!message.partialToolCalls?.length;
 
-  // Derive button visibility from DB-persisted approvalStatus (no local state)
-  const showApproveButtons =
+  // Derive button visibility from DB-persisted approvalStatus (no local state).
+  // Each call has its own buttons; the bulk ones appear once several are undecided.
+  const canReview =
     hasToolCalls && message.approvalStatus === "pending" && !hasResults;
+  const undecidedCount = (message.toolCalls ?? []).filter(
+    (tc) => !message.toolCallApprovals?.[tc.id],
+  ).length;
+  const showApproveButtons = canReview && undecidedCount > 1;
 
   const handleApprove = () => {
     onApprove?.();
@@ -141,6 +212,14 @@ export default function MessageBubble({
   }, []);
 
   const hasLogs = debugEntries && debugEntries.length > 0;
+  const canRegenerate = !isUser && !!onRegenerate;
+  const canEdit = isUser && !!onEdit;
+
+  const handleEditSave = () => {
+    if (editDraft === null) return;
+    if (editDraft.trim() && editDraft !== message.content) onEdit?.(editDraft);
+    setEditDraft(null);
+  };
 
   return (
     <div
@@ -150,8 +229,33 @@ export default function MessageBubble({
         <span className="message-role">
           {isUser ? "You" : (message.model ?? "Assistant")}
         </span>
+        {branchNav}
       </div>
-      {message.content && (
+      {message.reasoning && (
+        <details className="message-reasoning">
+          <summary>{message.content || hasToolCalls ? "Thought process" : "Thinking…"}</summary>
+          <div className="message-reasoning-content">{message.reasoning}</div>
+        </details>
+      )}
+      {editDraft !== null ? (
+        <div className="message-edit">
+          <textarea
+            className="message-edit-input"
+            value={editDraft}
+            onChange={(e) => setEditDraft(e.target.value)}
+            rows={Math.min(10, editDraft.split("\n").length + 1)}
+            autoFocus
+          />
+          <div className="message-edit-actions">
+            <button className="message-edit-save" onClick={handleEditSave}>
+              Send
+            </button>
+            <button className="message-edit-cancel" onClick={() => setEditDraft(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : message.content && (
         <div className="message-content">
           {isUser ? (
             message.content
@@ -169,9 +273,9 @@ export default function MessageBubble({
           ))}
         </div>
       )}
-      {hasToolCalls && (
+      {(hasToolCalls || hasPartialToolCalls) && (
         <div className="tool-calls-container">
-          {message.toolCalls!.map((tc, index) => {
+          {(message.toolCalls ?? []).map((tc, index) => {
             const result = message.toolResults?.find(
               (r) => r.toolCallId === tc.id,
             );
@@ -190,30 +294,63 @@ export default function MessageBubble({
                 result={result}
                 status={status}
                 progress={tcProgress}
+                decision={message.approvalDecisions?.[tc.id]}
+                approval={message.toolCallApprovals?.[tc.id]}
+                preview={message.toolCallPreviews?.[tc.id]}
+                onApprove={canReview && onApprove ? (args) => onApprove(tc.id, args) : undefined}
+                onDeny={canReview && onDeny ? (reason) => onDeny(tc.id, reason) : undefined}
               />
             );
           })}
+          {message.partialToolCalls?.map((tc) => (
+            <ToolCallBubble
+              key={tc.id}
+              toolCall={{ id: tc.id, name: tc.name, arguments: {} }}
+              status="pending"
+              partialArguments={tc.arguments}
+            />
+          ))}
+
+          {canReview && message.loopLimit && onContinueLoop && onDeny && (
+            <LoopLimitNotice
+              loopLimit={message.loopLimit}
+              onContinue={onContinueLoop}
+              onStop={() => onDeny(undefined, `Stopped by the user at the loop limit: ${message.loopLimit!.detail}`)}
+            />
+          )}
 
-          {showApproveButtons && (
+          {showApproveButtons && !message.loopLimit && (
             <div className="tool-calls-actions">
               <button className="tool-call-approve" onClick={handleApprove}>
-                Approve
+                Approve all
               </button>
               <button className="tool-call-deny" onClick={handleDeny}>
-                Deny
+                Deny all
               </button>
             </div>
           )}
 
         </div>
       )}
-      {(hasLogs || message.tokenCount || message.rawTokenCount) && (
+      {(hasLogs || canRegenerate || canEdit || message.tokenCount || message.rawTokenCount) && (
         <div className="message-footer">
-          {hasLogs ? (
-            <span className="logs-link" onClick={() => setShowLogs(true)}>
-              logs
-            </span>
-          ) : <span />}
+          <span className="message-footer-links">
+            {hasLogs && (
+              <span className="logs-link" onClick={() => setShowLogs(true)}>
+                logs
+              </span>
+            )}
+            {canRegenerate && (
+              <span className="logs-link" onClick={onRegenerate}>
+                regenerate
+              </span>
+            )}
+            {canEdit && editDraft === null && (
+              <span className="logs-link" onClick={() => setEditDraft(message.content)}>
+                edit
+              </span>
+            )}
+          </span>
           <TokenCount message={message} />
         </div>
       )}
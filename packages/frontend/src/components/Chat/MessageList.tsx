@@ -1,7 +1,9 @@
 import { useCallback, useEffect, useRef } from "react";
-import type { ChatMessage } from "@vladbot/shared";
+import type { ChatMessage, RetryInfo } from "@vladbot/shared";
 import type { DebugEntry } from "../../services/api.js";
+import type { CompareState } from "../../hooks/useChat.js";
 import MessageBubble from "./MessageBubble.js";
+import CompareColumns from "./CompareColumns.js";
 import StreamingIndicator from "./StreamingIndicator.js";
 
 interface MessageListProps {
@@ -10,13 +12,57 @@ interface MessageListProps {
   isStreaming: boolean;
   isCompacting?: boolean;
   isLoadingSession?: boolean;
-  onApproveToolCalls: (messageId: string) => void;
-  onDenyToolCalls: (messageId: string) => void;
+  onApproveToolCalls: (messageId: string, toolCallId?: string, args?: Record<string, unknown>) => void;
+  onDenyToolCalls: (messageId: string, toolCallId?: string, reason?: string) => void;
+  onContinueLoop: (messageId: string, rounds: number) => void;
+  onRegenerate?: (messageId: string) => void;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onSwitchBranch?: (messageId: string) => void;
+  compare?: CompareState | null;
+  onPickCompare?: (candidateId: string) => void;
+  onCancelCompare?: () => void;
   hasMore?: boolean;
   isLoadingOlder?: boolean;
   onLoadMore?: () => void;
   onTrimOlder?: () => void;
   toolProgress?: Record<string, { progress: number; total: number; message?: string }>;
+  retryStatus?: RetryInfo | null;
+}
+
+/** ‹ 2/3 › arrows to step between alternative versions of a message. */
+function BranchNav({
+  message,
+  onSwitch,
+  disabled,
+}: {
+  message: ChatMessage;
+  onSwitch: (messageId: string) => void;
+  disabled: boolean;
+}) {
+  const siblings = message.siblingIds;
+  if (!siblings || siblings.length < 2) return null;
+  const index = siblings.indexOf(message.id);
+  return (
+    <span className="branch-nav">
+      <button
+        className="branch-nav-btn"
+        onClick={() => onSwitch(siblings[index - 1])}
+        disabled={disabled || index <= 0}
+        aria-label="Previous version"
+      >
+        ‹
+      </button>
+      {index + 1}/{siblings.length}
+      <button
+        className="branch-nav-btn"
+        onClick={() => onSwitch(siblings[index + 1])}
+        disabled={disabled || index >= siblings.length - 1}
+        aria-label="Next version"
+      >
+        ›
+      </button>
+    </span>
+  );
 }
 
 export default function MessageList({
@@ -27,12 +73,22 @@ export default function MessageList({
   isLoadingSession,
   onApproveToolCalls,
   onDenyToolCalls,
+  onContinueLoop,
+  onRegenerate,
+  onEditMessage,
+  onSwitchBranch,
+  compare,
+  onPickCompare,
+  onCancelCompare,
   hasMore,
   isLoadingOlder,
   onLoadMore,
   onTrimOlder,
   toolProgress,
+  retryStatus,
 }: MessageListProps) {
+  // Branch changes would orphan a pending compare run, like a live stream
+  const branchLocked = isStreaming || !!compare;
   const containerRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
@@ -166,7 +222,7 @@ export default function MessageList({
         scrollToBottom();
       }
     }
-  }, [messages, scrollToBottom]);
+  }, [messages, compare, scrollToBottom]);
 
   // Auto-scroll when tool progress updates (separate effect to avoid
   // interference with message count tracking)
@@ -256,18 +312,28 @@ export default function MessageList({
             key={msg.id}
             message={msg}
             debugEntries={debugByMessage[msg.id]}
-            onApprove={() => onApproveToolCalls(msg.id)}
-            onDeny={() => onDenyToolCalls(msg.id)}
+            onApprove={(toolCallId, args) => onApproveToolCalls(msg.id, toolCallId, args)}
+            onDeny={(toolCallId, reason) => onDenyToolCalls(msg.id, toolCallId, reason)}
+            onContinueLoop={(rounds) => onContinueLoop(msg.id, rounds)}
+            // Branching is disabled mid-stream: the reply is bound to the current branch
+            onRegenerate={onRegenerate && !branchLocked ? () => onRegenerate(msg.id) : undefined}
+            onEdit={onEditMessage && !branchLocked ? (content) => onEditMessage(msg.id, content) : undefined}
+            branchNav={onSwitchBranch && (
+              <BranchNav message={msg} onSwitch={onSwitchBranch} disabled={branchLocked} />
+            )}
             toolProgress={toolProgress}
           />
         ))}
+        {compare && onPickCompare && onCancelCompare && (
+          <CompareColumns compare={compare} onPick={onPickCompare} onCancel={onCancelCompare} />
+        )}
         {isCompacting && (
           <div className="message message-compaction compacting-indicator">
             <span className="compacting-spinner" />
             Compacting context...
           </div>
         )}
-        {isStreaming && <StreamingIndicator />}
+        {isStreaming && <StreamingIndicator retry={retryStatus} />}
         <div ref={bottomRef} />
       </div>
     </div>
@@ -1,3 +1,19 @@
-export default function StreamingIndicator() {
-  return <div className="streaming-indicator"><span className="dot" /><span className="dot" /><span className="dot" /></div>;
+import type { RetryInfo } from "@vladbot/shared";
+
+interface StreamingIndicatorProps {
+  retry?: RetryInfo | null;
+}
+
+export default function StreamingIndicator({ retry }: StreamingIndicatorProps) {
+  return (
+    <div className="streaming-indicator">
+      <span className="dot" /><span className="dot" /><span className="dot" />
+      {retry && (
+        <span className="streaming-retry" title={retry.error.message}>
+          Retrying with {retry.model} (attempt {retry.attempt}/{retry.maxAttempts})
+          {retry.delayMs > 0 && ` in ${Math.ceil(retry.delayMs / 1000)}s`}
+        </span>
+      )}
+    </div>
+  );
 }
@@ -1,7 +1,13 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import Markdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import type { ToolCall, ToolResult } from "@vladbot/shared";
+import type {
+  ApprovalDecision,
+  ToolCall,
+  ToolCallApproval,
+  ToolCallPreview,
+  ToolResult,
+} from "@vladbot/shared";
 
 export type ToolCallStatus =
   | "pending"
@@ -15,6 +21,106 @@ interface ToolCallBubbleProps {
   result?: ToolResult;
   status: ToolCallStatus;
   progress?: { progress: number; total: number; message?: string };
+  /** Raw argument JSON streamed so far, while the model is still writing the call. */
+  partialArguments?: string;
+  /** What the approval policy decided for this call, and why. */
+  decision?: ApprovalDecision;
+  /** The user's verdict, once given. */
+  approval?: ToolCallApproval;
+  /** What the call would change, computed by the backend before approval. */
+  preview?: ToolCallPreview;
+  /** Set while the round waits for approval; `args` replaces the model's arguments. */
+  onApprove?: (args?: Record<string, unknown>) => void;
+  onDeny?: (reason?: string) => void;
+}
+
+const DECISION_LABELS: Record<ApprovalDecision["outcome"], string> = {
+  allow: "Allowed",
+  ask: "Needs approval",
+  deny: "Denied",
+};
+
+function fmtSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function diffLineClass(line: string): string {
+  if (line.startsWith("+++") || line.startsWith("---")) return "tool-preview-diff-file";
+  if (line.startsWith("@@")) return "tool-preview-diff-hunk";
+  if (line.startsWith("+")) return "tool-preview-diff-add";
+  if (line.startsWith("-")) return "tool-preview-diff-del";
+  return "";
+}
+
+function PreviewView({ preview }: { preview: ToolCallPreview }) {
+  switch (preview.kind) {
+    case "diff":
+      return (
+        <div className="tool-preview">
+          <div className="tool-preview-title">
+            {preview.newFile ? "Creates" : "Changes"} {preview.path}
+          </div>
+          {preview.diff ? (
+            <pre className="tool-preview-diff">
+              {preview.diff.split("\n").map((line, i) => (
+                <div key={i} className={diffLineClass(line)}>{line || " "}</div>
+              ))}
+            </pre>
+          ) : (
+            <div className="tool-preview-note">No changes to the file's content</div>
+          )}
+          {preview.truncated && <div className="tool-preview-note">Diff truncated</div>}
+        </div>
+      );
+    case "paths":
+      return (
+        <div className="tool-preview">
+          <div className="tool-preview-title">
+            {preview.action === "delete" ? "Deletes" : "Moves"} {preview.totalCount.toLocaleString()}
+            {preview.truncated ? "+" : ""} path{preview.totalCount === 1 ? "" : "s"} · {fmtSize(preview.totalSize)}
+          </div>
+          {preview.warning && <div className="tool-preview-warning">{preview.warning}</div>}
+          <table className="tool-preview-paths">
+            <tbody>
+              {preview.paths.map((p) => (
+                <tr key={p.path}>
+                  <td className="tool-preview-path">
+                    {p.path}{p.type === "directory" ? "/" : ""}
+                    {p.type === "symlink" && " (symlink)"}
+                    {p.destination && <> → {p.destination}</>}
+                  </td>
+                  <td className="tool-preview-size">{p.type === "directory" ? "" : fmtSize(p.size)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {preview.paths.length < preview.totalCount && (
+            <div className="tool-preview-note">
+              and {(preview.totalCount - preview.paths.length).toLocaleString()} more
+            </div>
+          )}
+          {preview.truncated && <div className="tool-preview-note">Not every path could be counted</div>}
+        </div>
+      );
+    case "permissions":
+      return (
+        <div className="tool-preview">
+          <div className="tool-preview-title">Permissions of {preview.path}</div>
+          <div className="tool-preview-perms">
+            <span className="tool-preview-diff-del">{preview.from}</span> →{" "}
+            <span className="tool-preview-diff-add">{preview.to}</span>
+          </div>
+        </div>
+      );
+    case "note":
+      return (
+        <div className="tool-preview">
+          <div className="tool-preview-note">{preview.text}</div>
+        </div>
+      );
+  }
 }
 
 interface ImageResult {
@@ -370,6 +476,12 @@ export default function ToolCallBubble({
   result,
   status,
   progress,
+  partialArguments,
+  decision,
+  approval,
+  preview,
+  onApprove,
+  onDeny,
 }: ToolCallBubbleProps) {
   const imageResult = useMemo(
     () => (result && !result.isError ? tryParseImageResult(result.output) : null),
@@ -399,19 +511,124 @@ export default function ToolCallBubble({
     }
   }, [status]);
 
+  // Reviewing a pending call: editing its arguments as JSON, or typing a denial reason
+  const [review, setReview] = useState<"edit" | "deny" | null>(null);
+  const [draft, setDraft] = useState("");
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const canReview = status === "pending" && !approval && onApprove && onDeny;
+
+  const openReview = (mode: "edit" | "deny") => {
+    setReview(mode);
+    setDraft(mode === "edit" ? JSON.stringify(toolCall.arguments, null, 2) : "");
+    setDraftError(null);
+  };
+
+  const approveEdited = () => {
+    let args: unknown;
+    try {
+      args = JSON.parse(draft);
+    } catch {
+      setDraftError("Arguments must be valid JSON");
+      return;
+    }
+    if (!args || typeof args !== "object" || Array.isArray(args)) {
+      setDraftError("Arguments must be a JSON object");
+      return;
+    }
+    setReview(null);
+    onApprove?.(args as Record<string, unknown>);
+  };
+
+  const confirmDeny = () => {
+    setReview(null);
+    onDeny?.(draft.trim() || undefined);
+  };
+
   return (
     <div className={`tool-call-bubble${status === "cancelled" ? " tool-call-cancelled" : ""}`}>
       <div className="tool-call-header">{toolCall.name}</div>
-      <div className="tool-call-args">
-        {Object.entries(toolCall.arguments).map(([key, value]) => (
-          <div key={key} className="tool-call-arg">
-            <span className="tool-call-arg-key">{key}:</span>{" "}
-            <span className="tool-call-arg-value">
-              {typeof value === "string" ? `"${value}"` : JSON.stringify(value)}
-            </span>
+      {partialArguments !== undefined ? (
+        <>
+          <pre className="tool-call-args-partial">{partialArguments}</pre>
+          <div className="tool-call-status-writing">Writing arguments…</div>
+        </>
+      ) : (
+        <div className="tool-call-args">
+          {Object.entries(toolCall.arguments).map(([key, value]) => (
+            <div key={key} className="tool-call-arg">
+              <span className="tool-call-arg-key">{key}:</span>{" "}
+              <span className="tool-call-arg-value">
+                {typeof value === "string" ? `"${value}"` : JSON.stringify(value)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {decision && (
+        <div className={`tool-call-decision tool-call-decision-${decision.outcome}`}>
+          {DECISION_LABELS[decision.outcome]} · {decision.reason}
+        </div>
+      )}
+
+      {preview && status === "pending" && <PreviewView preview={preview} />}
+
+      {approval && (
+        <div className={`tool-call-verdict tool-call-verdict-${approval.status}`}>
+          {approval.status === "denied"
+            ? `Denied by you${approval.reason ? ` · ${approval.reason}` : ""}`
+            : approval.originalArguments ? "Approved with edited arguments" : "Approved by you"}
+          {approval.originalArguments && (
+            <details className="tool-call-original-args">
+              <summary>Original arguments</summary>
+              <pre>{JSON.stringify(approval.originalArguments, null, 2)}</pre>
+            </details>
+          )}
+        </div>
+      )}
+
+      {canReview && review === "edit" && (
+        <div className="tool-call-review">
+          <textarea
+            className="tool-call-args-editor"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={Math.min(12, draft.split("\n").length + 1)}
+            spellCheck={false}
+          />
+          {draftError && <div className="tool-call-review-error">{draftError}</div>}
+          <div className="tool-calls-actions">
+            <button className="tool-call-approve" onClick={approveEdited}>Approve edited</button>
+            <button className="tool-call-review-cancel" onClick={() => setReview(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {canReview && review === "deny" && (
+        <div className="tool-call-review">
+          <input
+            type="text"
+            className="tool-call-deny-reason"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && confirmDeny()}
+            placeholder="Reason, sent to the model (optional)"
+            autoFocus
+          />
+          <div className="tool-calls-actions">
+            <button className="tool-call-deny" onClick={confirmDeny}>Deny</button>
+            <button className="tool-call-review-cancel" onClick={() => setReview(null)}>Cancel</button>
           </div>
-        ))}
-      </div>
+        </div>
+      )}
+
+      {canReview && review === null && (
+        <div className="tool-calls-actions">
+          <button className="tool-call-approve" onClick={() => onApprove?.()}>Approve</button>
+          <button className="tool-call-review-cancel" onClick={() => openReview("edit")}>Edit</button>
+          <button className="tool-call-deny" onClick={() => openReview("deny")}>Deny…</button>
+        </div>
+      )}
 
       {status === "waiting" && (
         <div className="tool-call-status-waiting">Waiting...</div>
@@ -431,7 +648,7 @@ export default function ToolCallBubble({
         </div>
       )}
 
-      {status === "cancelled" && (
+      {status === "cancelled" && approval?.status !== "denied" && (
         <div className="tool-call-status-cancelled">Cancelled by user</div>
       )}
 
@@ -441,7 +658,18 @@ export default function ToolCallBubble({
         const visionFormatted = !result.isError && !memoryFormatted && !browserFormatted ? tryFormatVisionResult(toolCall.name, result.output) : null;
         return (
           <details className="tool-call-output">
-            <summary>Output{result.isError ? " (error)" : ""}</summary>
+            <summary>
+              Output{result.isError ? " (error)" : ""}
+              {result.spilled && ` · collapsed, ${result.spilled.tokens.toLocaleString()} tokens`}
+            </summary>
+            {result.spilled && (
+              <div className="tool-call-spilled">
+                Over the {result.spilled.budget.toLocaleString()}-token output budget, so the model saw only the
+                preview below. It can page through all {result.spilled.lines.toLocaleString()} lines with the
+                tool_output tool (handle <code>{result.spilled.handle}</code>).{" "}
+                <a href={result.spilled.url} target="_blank" rel="noopener noreferrer">Full output</a>
+              </div>
+            )}
             {imageResult && imageSrc ? (
               <a
                 href={imageSrc}
@@ -0,0 +1,78 @@
+import type { ModelInfo } from "@vladbot/shared";
+import { formatModelField } from "@vladbot/shared";
+
+interface FallbackSelectorProps {
+  models: ModelInfo[];
+  selectedModel: ModelInfo | null;
+  /** Ordered "provider:modelId" entries. */
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+/** Per-session fallback chain: models tried in order when the session model keeps failing. */
+export default function FallbackSelector({
+  models,
+  selectedModel,
+  value,
+  onChange,
+}: FallbackSelectorProps) {
+  const nameOf = (field: string) =>
+    models.find((m) => formatModelField(m) === field)?.name ?? field;
+  const selectedField = selectedModel ? formatModelField(selectedModel) : "";
+  const available = models.filter((m) => {
+    const field = formatModelField(m);
+    return field !== selectedField && !value.includes(field);
+  });
+
+  return (
+    <details className="fallback-selector">
+      <summary
+        className="fallback-selector-summary"
+        title="Fallback models used when the selected model keeps failing"
+      >
+        ⤵ {value.length > 0 ? `Fallback (${value.length})` : "No fallback"}
+      </summary>
+      <div className="fallback-selector-panel">
+        {value.length === 0 && (
+          <div className="fallback-selector-empty">Errors are reported without switching models.</div>
+        )}
+        <ol className="fallback-selector-list">
+          {value.map((field, i) => (
+            <li key={field} className="fallback-selector-item">
+              <span>{nameOf(field)}</span>
+              <button
+                className="fallback-selector-btn"
+                onClick={() => onChange([...value.slice(0, i - 1), field, value[i - 1], ...value.slice(i + 1)])}
+                disabled={i === 0}
+                aria-label="Move up"
+              >
+                ↑
+              </button>
+              <button
+                className="fallback-selector-btn"
+                onClick={() => onChange(value.filter((f) => f !== field))}
+                aria-label="Remove"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ol>
+        {available.length > 0 && (
+          <select
+            className="fallback-selector-add"
+            value=""
+            onChange={(e) => e.target.value && onChange([...value, e.target.value])}
+          >
+            <option value="">+ Add fallback…</option>
+            {available.map((m) => (
+              <option key={formatModelField(m)} value={formatModelField(m)}>
+                {m.name} ({m.provider})
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -1,7 +1,10 @@
-import type { ModelInfo } from "@vladbot/shared";
+import type { LoopLimits, ModelInfo, SamplingParams } from "@vladbot/shared";
+import { VISION_MODEL_PROVIDERS, formatModelField } from "@vladbot/shared";
 import ModelSelector from "../ModelSelector/ModelSelector.js";
+import FallbackSelector from "./FallbackSelector.js";
+import SessionSettings from "./SessionSettings.js";
 
-export type View = "chat" | "memories" | "tools" | "settings";
+export type View = "chat" | "memories" | "tools" | "usage" | "audit" | "settings";
 
 interface HeaderProps {
   models: ModelInfo[];
@@ -14,23 +17,29 @@ interface HeaderProps {
   visionModel?: string;
   onVisionModelChange?: (value: string) => void;
   visionOverrideWarning?: boolean;
+  fallbackModels?: string[];
+  onFallbackModelsChange?: (value: string[]) => void;
+  thinkingBudget?: number;
+  onThinkingBudgetChange?: (value: number) => void;
+  systemPrompt?: string;
+  sampling?: SamplingParams;
+  loopLimits?: LoopLimits;
+  onGenerationSettingsSave?: (systemPrompt: string, sampling: SamplingParams, loopLimits: LoopLimits) => Promise<void>;
 }
 
 const NAV_ITEMS: { view: View; label: string }[] = [
   { view: "chat", label: "Chat" },
   { view: "memories", label: "Memories" },
   { view: "tools", label: "Tools" },
+  { view: "usage", label: "Usage" },
+  { view: "audit", label: "Audit" },
   { view: "settings", label: "Settings" },
 ];
 
-const ALL_VISION_OPTIONS = [
-  { value: "", label: "👁 No vision", provider: "" },
-  { value: "gemini:gemini-2.5-pro", label: "👁 Gemini 2.5 Pro", provider: "gemini" },
-  { value: "gemini:gemini-2.5-flash", label: "👁 Gemini 2.5 Flash", provider: "gemini" },
-  { value: "gemini:gemini-2.0-flash", label: "👁 Gemini 2.0 Flash", provider: "gemini" },
-  { value: "anthropic:claude-sonnet-4-20250514", label: "👁 Claude Sonnet 4", provider: "anthropic" },
-  { value: "anthropic:claude-3-5-haiku-20241022", label: "👁 Claude 3.5 Haiku", provider: "anthropic" },
-];
+const THINKING_BUDGETS = [0, 1024, 4096, 8192, 16384, 32768];
+
+const NO_SAMPLING: SamplingParams = {};
+const NO_LOOP_LIMITS: LoopLimits = {};
 
 export default function Header({
   models,
@@ -43,11 +52,22 @@ export default function Header({
   visionModel,
   onVisionModelChange,
   visionOverrideWarning,
+  fallbackModels,
+  onFallbackModelsChange,
+  thinkingBudget,
+  onThinkingBudgetChange,
+  systemPrompt,
+  sampling,
+  loopLimits,
+  onGenerationSettingsSave,
 }: HeaderProps) {
-  const availableProviders = new Set(models.map((m) => m.provider));
-  const visionOptions = ALL_VISION_OPTIONS.filter(
-    (o) => o.provider === "" || availableProviders.has(o.provider),
-  );
+  // `models` only contains models whose provider is configured on the server
+  const visionOptions = [
+    { value: "", label: "👁 No vision" },
+    ...models
+      .filter((m) => m.nativeVision && VISION_MODEL_PROVIDERS.includes(m.provider))
+      .map((m) => ({ value: formatModelField(m), label: `👁 ${m.name}` })),
+  ];
 
   return (
     <header className="app-header">
@@ -104,6 +124,38 @@ export default function Header({
             )}
           </div>
         )}
+        {onFallbackModelsChange && (
+          <FallbackSelector
+            models={models}
+            selectedModel={selectedModel}
+            value={fallbackModels ?? []}
+            onChange={onFallbackModelsChange}
+          />
+        )}
+        {onThinkingBudgetChange && (
+          <select
+            className="thinking-selector"
+            value={thinkingBudget ?? 0}
+            onChange={(e) => onThinkingBudgetChange(Number(e.target.value))}
+            title="Reasoning token budget (models with extended thinking)"
+          >
+            {[...new Set([...THINKING_BUDGETS, thinkingBudget ?? 0])]
+              .sort((a, b) => a - b)
+              .map((b) => (
+                <option key={b} value={b}>
+                  {b === 0 ? "💭 No thinking" : `💭 ${b / 1024}k thinking`}
+                </option>
+              ))}
+          </select>
+        )}
+        {onGenerationSettingsSave && (
+          <SessionSettings
+            systemPrompt={systemPrompt ?? ""}
+            sampling={sampling ?? NO_SAMPLING}
+            loopLimits={loopLimits ?? NO_LOOP_LIMITS}
+            onSave={onGenerationSettingsSave}
+          />
+        )}
       </div>
     </header>
   );
@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import type { LoopLimits, SamplingParams } from "@vladbot/shared";
+import {
+  formatSampling,
+  fromSamplingForm,
+  toSamplingForm,
+  type SamplingForm,
+} from "../Settings/samplingForm.js";
+
+interface SessionSettingsProps {
+  systemPrompt: string;
+  sampling: SamplingParams;
+  loopLimits: LoopLimits;
+  onSave: (systemPrompt: string, sampling: SamplingParams, loopLimits: LoopLimits) => Promise<void>;
+}
+
+/** Loop limit inputs as raw strings; an empty field means "global setting". */
+type LoopLimitsForm = Record<keyof LoopLimits, string>;
+
+const LOOP_LIMIT_KEYS: (keyof LoopLimits)[] = ["maxRounds", "maxSeconds", "maxTokens"];
+
+function toLoopLimitsForm(limits: LoopLimits): LoopLimitsForm {
+  return {
+    maxRounds: limits.maxRounds != null ? String(limits.maxRounds) : "",
+    maxSeconds: limits.maxSeconds != null ? String(limits.maxSeconds) : "",
+    maxTokens: limits.maxTokens != null ? String(limits.maxTokens) : "",
+  };
+}
+
+function fromLoopLimitsForm(form: LoopLimitsForm): LoopLimits {
+  const limits: LoopLimits = {};
+  for (const key of LOOP_LIMIT_KEYS) {
+    if (form[key].trim() !== "") limits[key] = Number(form[key]);
+  }
+  return limits;
+}
+
+/** Per-session system prompt override, sampling parameters and tool loop limits. */
+export default function SessionSettings({ systemPrompt, sampling, loopLimits, onSave }: SessionSettingsProps) {
+  const [prompt, setPrompt] = useState(systemPrompt);
+  const [form, setForm] = useState<SamplingForm>(() => toSamplingForm(sampling));
+  const [limitsForm, setLimitsForm] = useState<LoopLimitsForm>(() => toLoopLimitsForm(loopLimits));
+  const [busy, setBusy] = useState(false);
+
+  // Re-sync when the session changes or another client saves
+  useEffect(() => {
+    setPrompt(systemPrompt);
+    setForm(toSamplingForm(sampling));
+    setLimitsForm(toLoopLimitsForm(loopLimits));
+  }, [systemPrompt, sampling, loopLimits]);
+
+  const update = (key: keyof SamplingForm, value: string) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const updateLimit = (key: keyof LoopLimits, value: string) => {
+    setLimitsForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    setBusy(true);
+    try {
+      await onSave(prompt, fromSamplingForm(form), fromLoopLimitsForm(limitsForm));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const customized =
+    systemPrompt !== "" || formatSampling(sampling) !== "" || Object.keys(loopLimits).length > 0;
+
+  return (
+    <details className="session-settings">
+      <summary
+        className="session-settings-summary"
+        title={formatSampling(sampling) || "System prompt, sampling and tool loop limits for this chat"}
+      >
+        ⚙ {customized ? "Custom" : "Defaults"}
+      </summary>
+      <div className="session-settings-panel">
+        <label className="session-settings-field">
+          <span>System prompt</span>
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="Empty uses the global system prompt"
+            rows={5}
+          />
+        </label>
+        <div className="session-settings-row">
+          <label className="session-settings-field">
+            <span>Temperature</span>
+            <input
+              type="number"
+              value={form.temperature}
+              onChange={(e) => update("temperature", e.target.value)}
+              placeholder="Default"
+              min={0}
+              max={2}
+              step="any"
+            />
+          </label>
+          <label className="session-settings-field">
+            <span>Top P</span>
+            <input
+              type="number"
+              value={form.topP}
+              onChange={(e) => update("topP", e.target.value)}
+              placeholder="Default"
+              min={0}
+              max={1}
+              step="any"
+            />
+          </label>
+          <label className="session-settings-field">
+            <span>Max output</span>
+            <input
+              type="number"
+              value={form.maxOutputTokens}
+              onChange={(e) => update("maxOutputTokens", e.target.value)}
+              placeholder="Default"
+              min={1}
+            />
+          </label>
+        </div>
+        <div className="session-settings-row" title="When the tool loop runs without approval, it pauses for you at these limits. 0 turns a limit off.">
+          <label className="session-settings-field">
+            <span>Max rounds</span>
+            <input
+              type="number"
+              value={limitsForm.maxRounds}
+              onChange={(e) => updateLimit("maxRounds", e.target.value)}
+              placeholder="Global"
+              min={0}
+            />
+          </label>
+          <label className="session-settings-field">
+            <span>Time limit (s)</span>
+            <input
+              type="number"
+              value={limitsForm.maxSeconds}
+              onChange={(e) => updateLimit("maxSeconds", e.target.value)}
+              placeholder="Global"
+              min={0}
+            />
+          </label>
+          <label className="session-settings-field">
+            <span>Token budget</span>
+            <input
+              type="number"
+              value={limitsForm.maxTokens}
+              onChange={(e) => updateLimit("maxTokens", e.target.value)}
+              placeholder="Global"
+              min={0}
+            />
+          </label>
+        </div>
+        <button className="session-settings-save" onClick={handleSave} disabled={busy}>
+          {busy ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </details>
+  );
+}
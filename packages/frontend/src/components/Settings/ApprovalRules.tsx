@@ -0,0 +1,339 @@
+import { useState } from "react";
+import type { ApprovalOutcome, ApprovalRule, ArgumentMatcher, ToolDefinition } from "@vladbot/shared";
+import { useApprovalRules } from "../../hooks/useApprovalRules.js";
+import {
+  createApprovalRuleApi,
+  deleteApprovalRuleApi,
+  updateApprovalRuleApi,
+} from "../../services/api.js";
+
+interface ApprovalRulesProps {
+  tools: ToolDefinition[];
+  /** The chat whose own rules are listed alongside the global ones. */
+  session: { id: string; title: string } | null;
+}
+
+interface ApprovalRuleForm {
+  description: string;
+  /** Only chosen on create: a rule can't move between scopes. */
+  scope: "global" | "session";
+  tool: string;
+  operation: string;
+  args: ArgumentMatcher[];
+  outcome: ApprovalOutcome;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: ApprovalRuleForm = {
+  description: "",
+  scope: "global",
+  tool: "*",
+  operation: "*",
+  args: [],
+  outcome: "ask",
+  enabled: true,
+};
+
+const OUTCOME_LABELS: Record<ApprovalOutcome, string> = {
+  allow: "Allow",
+  ask: "Ask",
+  deny: "Deny",
+};
+
+function toForm(r: ApprovalRule): ApprovalRuleForm {
+  return {
+    description: r.description,
+    scope: r.sessionId ? "session" : "global",
+    tool: r.tool,
+    operation: r.operation,
+    args: r.args,
+    outcome: r.outcome,
+    enabled: r.enabled,
+  };
+}
+
+function formatMatcher(m: ArgumentMatcher): string {
+  const pattern = m.kind === "regex" ? `/${m.pattern}/` : m.pattern;
+  return `${m.param} ${m.negate ? "does not match" : "matches"} ${pattern}`;
+}
+
+function formatTarget(r: ApprovalRule): string {
+  const target = r.tool === "*" ? "any tool" : r.operation === "*" ? r.tool : `${r.tool}_${r.operation}`;
+  return [target, ...r.args.map(formatMatcher)].join(" · ");
+}
+
+export default function ApprovalRules({ tools, session }: ApprovalRulesProps) {
+  const { rules, refresh } = useApprovalRules(session?.id);
+  // null = no form open, "" = creating, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<ApprovalRuleForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const selectedTool = tools.find((t) => t.name === form.tool);
+  const operations = selectedTool ? Object.keys(selectedTool.operations) : [];
+  const paramNames = selectedTool
+    ? [...new Set(
+        Object.entries(selectedTool.operations)
+          .filter(([op]) => form.operation === "*" || op === form.operation)
+          .flatMap(([, def]) => Object.keys(def.params)),
+      )]
+    : [];
+
+  const openCreate = () => {
+    setForm(EMPTY_FORM);
+    setEditing("");
+    setError(null);
+  };
+
+  const openEdit = (r: ApprovalRule) => {
+    setForm(toForm(r));
+    setEditing(r.id);
+    setError(null);
+  };
+
+  const update = <K extends keyof ApprovalRuleForm>(key: K, value: ApprovalRuleForm[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const updateMatcher = (index: number, patch: Partial<ArgumentMatcher>) => {
+    setForm((prev) => ({
+      ...prev,
+      args: prev.args.map((m, i) => (i === index ? { ...m, ...patch } : m)),
+    }));
+  };
+
+  const addMatcher = () => {
+    setForm((prev) => ({
+      ...prev,
+      args: [...prev.args, { param: paramNames[0] ?? "", kind: "glob", pattern: "" }],
+    }));
+  };
+
+  const removeMatcher = (index: number) => {
+    setForm((prev) => ({ ...prev, args: prev.args.filter((_, i) => i !== index) }));
+  };
+
+  const handleSubmit = async () => {
+    setBusy(true);
+    setError(null);
+    const fields = {
+      description: form.description.trim(),
+      tool: form.tool,
+      operation: form.tool === "*" ? "*" : form.operation,
+      args: form.args.map((m) => ({ ...m, param: m.param.trim() })),
+      outcome: form.outcome,
+      enabled: form.enabled,
+    };
+    try {
+      if (editing === "") {
+        await createApprovalRuleApi({
+          ...fields,
+          sessionId: form.scope === "session" && session ? session.id : null,
+        });
+      } else if (editing) {
+        await updateApprovalRuleApi(editing, fields);
+      }
+      setEditing(null);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save rule");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleToggle = async (r: ApprovalRule) => {
+    try {
+      await updateApprovalRuleApi(r.id, { enabled: !r.enabled });
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update rule");
+    }
+  };
+
+  const handleDelete = async (r: ApprovalRule) => {
+    if (!confirm(`Delete rule "${r.description || formatTarget(r)}"?`)) return;
+    try {
+      await deleteApprovalRuleApi(r.id);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete rule");
+    }
+  };
+
+  const renderForm = () => (
+    <div className="model-registry-form">
+      <div className="model-registry-form-row">
+        <label className="settings-field">
+          <span className="settings-label">Description</span>
+          <input
+            type="text"
+            className="settings-input"
+            value={form.description}
+            onChange={(e) => update("description", e.target.value)}
+            placeholder="e.g. Never delete outside /tmp"
+          />
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Applies to</span>
+          <select
+            className="settings-select"
+            value={form.scope}
+            onChange={(e) => update("scope", e.target.value as ApprovalRuleForm["scope"])}
+            disabled={editing !== ""}
+          >
+            <option value="global">All chats</option>
+            {(session || form.scope === "session") && (
+              <option value="session">This chat{session ? ` (${session.title})` : ""}</option>
+            )}
+          </select>
+        </label>
+      </div>
+      <div className="model-registry-form-row">
+        <label className="settings-field">
+          <span className="settings-label">Tool</span>
+          <select
+            className="settings-select"
+            value={form.tool}
+            onChange={(e) => setForm((prev) => ({ ...prev, tool: e.target.value, operation: "*" }))}
+          >
+            <option value="*">Any tool</option>
+            {tools.map((t) => (
+              <option key={t.name} value={t.name}>{t.name}</option>
+            ))}
+            {form.tool !== "*" && !selectedTool && <option value={form.tool}>{form.tool}</option>}
+          </select>
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Operation</span>
+          <select
+            className="settings-select"
+            value={form.operation}
+            onChange={(e) => update("operation", e.target.value)}
+            disabled={form.tool === "*"}
+          >
+            <option value="*">Any operation</option>
+            {operations.map((op) => (
+              <option key={op} value={op}>{op}</option>
+            ))}
+            {form.operation !== "*" && !operations.includes(form.operation) && (
+              <option value={form.operation}>{form.operation}</option>
+            )}
+          </select>
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Outcome</span>
+          <select
+            className="settings-select"
+            value={form.outcome}
+            onChange={(e) => update("outcome", e.target.value as ApprovalOutcome)}
+          >
+            <option value="allow">Allow without asking</option>
+            <option value="ask">Ask for approval</option>
+            <option value="deny">Deny, even if approved</option>
+          </select>
+        </label>
+      </div>
+      <span className="settings-label">Argument conditions (all must match)</span>
+      {form.args.map((m, i) => (
+        <div key={i} className="model-registry-form-row approval-rule-matcher">
+          <input
+            type="text"
+            className="settings-input"
+            value={m.param}
+            onChange={(e) => updateMatcher(i, { param: e.target.value })}
+            placeholder="argument"
+            list="approval-rule-params"
+          />
+          <select
+            className="settings-select"
+            value={`${m.negate ? "not-" : ""}${m.kind}`}
+            onChange={(e) => {
+              const negate = e.target.value.startsWith("not-");
+              updateMatcher(i, { negate, kind: e.target.value.replace("not-", "") as ArgumentMatcher["kind"] });
+            }}
+          >
+            <option value="glob">matches path</option>
+            <option value="not-glob">does not match path</option>
+            <option value="regex">matches regex</option>
+            <option value="not-regex">does not match regex</option>
+          </select>
+          <input
+            type="text"
+            className="settings-input"
+            value={m.pattern}
+            onChange={(e) => updateMatcher(i, { pattern: e.target.value })}
+            placeholder={m.kind === "glob" ? "~/projects/**" : "\\b(rm|sudo)\\b"}
+          />
+          <button className="model-registry-btn" onClick={() => removeMatcher(i)}>Remove</button>
+        </div>
+      ))}
+      <datalist id="approval-rule-params">
+        {paramNames.map((p) => <option key={p} value={p} />)}
+      </datalist>
+      <div>
+        <button className="model-registry-btn" onClick={addMatcher}>+ Add condition</button>
+      </div>
+      <label className="settings-radio">
+        <input
+          type="checkbox"
+          checked={form.enabled}
+          onChange={(e) => update("enabled", e.target.checked)}
+        />
+        Enabled
+      </label>
+      <div className="model-registry-form-actions">
+        <button className="settings-save-btn" onClick={handleSubmit} disabled={busy}>
+          {busy ? "Saving..." : editing === "" ? "Add Rule" : "Save Rule"}
+        </button>
+        <button className="model-registry-btn" onClick={() => setEditing(null)} disabled={busy}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <section className="settings-section">
+      <h3 className="settings-section-title">Approval Rules</h3>
+      <span className="settings-hint">
+        Decide per tool call whether it runs, waits for approval, or is refused. When several rules match,
+        the strictest wins; calls no rule matches follow the chat's auto-approve toggle.
+      </span>
+      <div className="model-registry-list">
+        {rules.map((r) => {
+          if (editing === r.id) return <div key={r.id}>{renderForm()}</div>;
+          return (
+            <div key={r.id} className={`model-registry-item${r.enabled ? "" : " approval-rule-disabled"}`}>
+              <div className="model-registry-info">
+                <span className="model-registry-name">
+                  <span className={`approval-outcome approval-outcome-${r.outcome}`}>{OUTCOME_LABELS[r.outcome]}</span>
+                  {" "}{r.description || formatTarget(r)}
+                </span>
+                <span className="model-registry-meta">
+                  {r.sessionId ? "This chat" : "All chats"}
+                  {r.description && ` · ${formatTarget(r)}`}
+                  {!r.enabled && " · disabled"}
+                </span>
+              </div>
+              <div className="model-registry-actions">
+                <button className="model-registry-btn" onClick={() => handleToggle(r)}>
+                  {r.enabled ? "Disable" : "Enable"}
+                </button>
+                <button className="model-registry-btn" onClick={() => openEdit(r)}>Edit</button>
+                <button className="model-registry-btn model-registry-btn-danger" onClick={() => handleDelete(r)}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {editing === "" ? renderForm() : (
+        <button className="model-registry-btn" onClick={openCreate}>+ Add rule</button>
+      )}
+      {error && <div className="model-registry-error">{error}</div>}
+    </section>
+  );
+}
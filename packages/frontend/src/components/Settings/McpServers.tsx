@@ -0,0 +1,286 @@
+import { useState } from "react";
+import type { McpServer, McpTransport } from "@vladbot/shared";
+import { useMcpServers } from "../../hooks/useMcpServers.js";
+import {
+  createMcpServerApi,
+  deleteMcpServerApi,
+  reconnectMcpServerApi,
+  updateMcpServerApi,
+} from "../../services/api.js";
+
+/** Form state keeps list and map fields as editable text, one entry per line. */
+interface McpServerForm {
+  name: string;
+  transport: McpTransport;
+  command: string;
+  args: string;
+  env: string;
+  url: string;
+  headers: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: McpServerForm = {
+  name: "",
+  transport: "stdio",
+  command: "",
+  args: "",
+  env: "",
+  url: "",
+  headers: "",
+  enabled: true,
+};
+
+function formatPairs(pairs: Record<string, string>, separator: string): string {
+  return Object.entries(pairs).map(([k, v]) => `${k}${separator}${v}`).join("\n");
+}
+
+/** Parse "KEY=value" / "Header: value" lines; lines without the separator are skipped. */
+function parsePairs(text: string, separator: string): Record<string, string> {
+  const pairs: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const idx = line.indexOf(separator);
+    if (idx <= 0) continue;
+    pairs[line.slice(0, idx).trim()] = line.slice(idx + separator.length).trim();
+  }
+  return pairs;
+}
+
+function toForm(s: McpServer): McpServerForm {
+  return {
+    name: s.name,
+    transport: s.transport,
+    command: s.command,
+    args: s.args.join("\n"),
+    env: formatPairs(s.env, "="),
+    url: s.url,
+    headers: formatPairs(s.headers, ": "),
+    enabled: s.enabled,
+  };
+}
+
+function formatStatus(s: McpServer): string {
+  switch (s.status.state) {
+    case "connected":
+      return `connected · ${s.status.toolCount} tool${s.status.toolCount !== 1 ? "s" : ""}`;
+    case "disconnected":
+      return `disconnected${s.status.error ? `: ${s.status.error}` : ""} · retrying`;
+    default:
+      return s.status.state;
+  }
+}
+
+export default function McpServers() {
+  const { servers, refresh } = useMcpServers();
+  // null = no form open, "" = creating, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<McpServerForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const openCreate = () => {
+    setForm(EMPTY_FORM);
+    setEditing("");
+    setError(null);
+  };
+
+  const openEdit = (s: McpServer) => {
+    setForm(toForm(s));
+    setEditing(s.id);
+    setError(null);
+  };
+
+  const update = <K extends keyof McpServerForm>(key: K, value: McpServerForm[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = async () => {
+    setBusy(true);
+    setError(null);
+    const fields = {
+      name: form.name.trim(),
+      transport: form.transport,
+      command: form.command.trim(),
+      args: form.args.split("\n").map((a) => a.trim()).filter(Boolean),
+      env: parsePairs(form.env, "="),
+      url: form.url.trim(),
+      headers: parsePairs(form.headers, ":"),
+      enabled: form.enabled,
+    };
+    try {
+      if (editing === "") {
+        await createMcpServerApi(fields);
+      } else if (editing) {
+        await updateMcpServerApi(editing, fields);
+      }
+      setEditing(null);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save MCP server");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReconnect = async (s: McpServer) => {
+    try {
+      await reconnectMcpServerApi(s.id);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reconnect MCP server");
+    }
+  };
+
+  const handleDelete = async (s: McpServer) => {
+    if (!confirm(`Delete MCP server "${s.name}"?`)) return;
+    try {
+      await deleteMcpServerApi(s.id);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete MCP server");
+    }
+  };
+
+  const renderForm = () => (
+    <div className="model-registry-form">
+      <div className="model-registry-form-row">
+        <label className="settings-field">
+          <span className="settings-label">Name</span>
+          <input
+            type="text"
+            className="settings-input"
+            value={form.name}
+            onChange={(e) => update("name", e.target.value)}
+            placeholder="e.g. github"
+          />
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Transport</span>
+          <select
+            className="settings-select"
+            value={form.transport}
+            onChange={(e) => update("transport", e.target.value as McpTransport)}
+          >
+            <option value="stdio">stdio (subprocess)</option>
+            <option value="http">Streamable HTTP</option>
+          </select>
+        </label>
+      </div>
+      {form.transport === "stdio" ? (
+        <>
+          <label className="settings-field">
+            <span className="settings-label">Command</span>
+            <input
+              type="text"
+              className="settings-input"
+              value={form.command}
+              onChange={(e) => update("command", e.target.value)}
+              placeholder="e.g. npx"
+            />
+          </label>
+          <div className="model-registry-form-row">
+            <label className="settings-field">
+              <span className="settings-label">Arguments (one per line)</span>
+              <textarea
+                className="settings-textarea"
+                value={form.args}
+                onChange={(e) => update("args", e.target.value)}
+                placeholder={"-y\n@modelcontextprotocol/server-github"}
+                rows={3}
+              />
+            </label>
+            <label className="settings-field">
+              <span className="settings-label">Environment (KEY=value)</span>
+              <textarea
+                className="settings-textarea"
+                value={form.env}
+                onChange={(e) => update("env", e.target.value)}
+                rows={3}
+              />
+            </label>
+          </div>
+        </>
+      ) : (
+        <>
+          <label className="settings-field">
+            <span className="settings-label">URL</span>
+            <input
+              type="text"
+              className="settings-input"
+              value={form.url}
+              onChange={(e) => update("url", e.target.value)}
+              placeholder="https://example.com/mcp"
+            />
+          </label>
+          <label className="settings-field">
+            <span className="settings-label">Headers (Name: value)</span>
+            <textarea
+              className="settings-textarea"
+              value={form.headers}
+              onChange={(e) => update("headers", e.target.value)}
+              placeholder="Authorization: Bearer ..."
+              rows={3}
+            />
+          </label>
+        </>
+      )}
+      <label className="settings-radio">
+        <input
+          type="checkbox"
+          checked={form.enabled}
+          onChange={(e) => update("enabled", e.target.checked)}
+        />
+        Enabled
+      </label>
+      <div className="model-registry-form-actions">
+        <button className="settings-save-btn" onClick={handleSubmit} disabled={busy}>
+          {busy ? "Saving..." : editing === "" ? "Add Server" : "Save Server"}
+        </button>
+        <button className="model-registry-btn" onClick={() => setEditing(null)} disabled={busy}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <section className="settings-section">
+      <h3 className="settings-section-title">MCP Servers</h3>
+      <span className="settings-hint">
+        Model Context Protocol servers whose tools the agent can call as mcp_&lt;name&gt;_&lt;tool&gt;.
+        Servers reconnect on their own after a crash.
+      </span>
+      <div className="model-registry-list">
+        {servers.map((s) => {
+          if (editing === s.id) return <div key={s.id}>{renderForm()}</div>;
+          return (
+            <div key={s.id} className="model-registry-item">
+              <div className="model-registry-info">
+                <span className="model-registry-name">{s.name}</span>
+                <span className="model-registry-meta">
+                  {s.transport === "stdio" ? [s.command, ...s.args].join(" ") : s.url}
+                </span>
+                <span className={`model-registry-meta mcp-status mcp-status-${s.status.state}`}>
+                  {formatStatus(s)}
+                </span>
+              </div>
+              <div className="model-registry-actions">
+                {s.enabled && (
+                  <button className="model-registry-btn" onClick={() => handleReconnect(s)}>Reconnect</button>
+                )}
+                <button className="model-registry-btn" onClick={() => openEdit(s)}>Edit</button>
+                <button className="model-registry-btn model-registry-btn-danger" onClick={() => handleDelete(s)}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {editing === "" ? renderForm() : (
+        <button className="model-registry-btn" onClick={openCreate}>+ Add MCP server</button>
+      )}
+      {error && <div className="model-registry-error">{error}</div>}
+    </section>
+  );
+}
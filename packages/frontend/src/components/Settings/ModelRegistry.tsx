@@ -0,0 +1,253 @@
+import { useState } from "react";
+import type { ModelInfo } from "@vladbot/shared";
+import { formatModelField } from "@vladbot/shared";
+import { useModels } from "../../hooks/useModels.js";
+import { createModelApi, deleteModelApi, updateModelApi } from "../../services/api.js";
+
+const PROVIDERS = ["anthropic", "gemini", "deepseek", "openai-compatible"];
+
+/** Form state keeps raw input strings; empty optional numbers mean "unset". */
+interface ModelForm {
+  provider: string;
+  id: string;
+  name: string;
+  contextWindow: string;
+  nativeVision: boolean;
+  maxOutputTokens: string;
+  inputPrice: string;
+  outputPrice: string;
+}
+
+const EMPTY_FORM: ModelForm = {
+  provider: PROVIDERS[0],
+  id: "",
+  name: "",
+  contextWindow: "",
+  nativeVision: false,
+  maxOutputTokens: "",
+  inputPrice: "",
+  outputPrice: "",
+};
+
+function toForm(m: ModelInfo): ModelForm {
+  return {
+    provider: m.provider,
+    id: m.id,
+    name: m.name,
+    contextWindow: String(m.contextWindow),
+    nativeVision: m.nativeVision,
+    maxOutputTokens: m.maxOutputTokens != null ? String(m.maxOutputTokens) : "",
+    inputPrice: m.inputPrice != null ? String(m.inputPrice) : "",
+    outputPrice: m.outputPrice != null ? String(m.outputPrice) : "",
+  };
+}
+
+function optionalNumber(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+function formatPrice(m: ModelInfo): string {
+  if (m.inputPrice == null && m.outputPrice == null) return "—";
+  return `$${m.inputPrice ?? "?"} / $${m.outputPrice ?? "?"}`;
+}
+
+export default function ModelRegistry() {
+  const { models, refresh } = useModels(true);
+  // null = no form open, "" = creating, otherwise the "provider:id" being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<ModelForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const openCreate = () => {
+    setForm(EMPTY_FORM);
+    setEditing("");
+    setError(null);
+  };
+
+  const openEdit = (m: ModelInfo) => {
+    setForm(toForm(m));
+    setEditing(formatModelField(m));
+    setError(null);
+  };
+
+  const update = <K extends keyof ModelForm>(key: K, value: ModelForm[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = async () => {
+    setBusy(true);
+    setError(null);
+    const fields = {
+      name: form.name.trim(),
+      contextWindow: Number(form.contextWindow),
+      nativeVision: form.nativeVision,
+      maxOutputTokens: optionalNumber(form.maxOutputTokens),
+      inputPrice: optionalNumber(form.inputPrice),
+      outputPrice: optionalNumber(form.outputPrice),
+    };
+    try {
+      if (editing === "") {
+        await createModelApi({ provider: form.provider, id: form.id.trim(), ...fields });
+      } else {
+        await updateModelApi(form.provider, form.id, fields);
+      }
+      setEditing(null);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save model");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (m: ModelInfo) => {
+    if (!confirm(`Delete model "${m.name}"?`)) return;
+    try {
+      await deleteModelApi(m.provider, m.id);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete model");
+    }
+  };
+
+  const renderForm = () => (
+    <div className="model-registry-form">
+      {editing === "" && (
+        <div className="model-registry-form-row">
+          <label className="settings-field">
+            <span className="settings-label">Provider</span>
+            <select
+              className="settings-select"
+              value={form.provider}
+              onChange={(e) => update("provider", e.target.value)}
+            >
+              {PROVIDERS.map((p) => <option key={p} value={p}>{p}</option>)}
+            </select>
+          </label>
+          <label className="settings-field">
+            <span className="settings-label">Model ID</span>
+            <input
+              type="text"
+              className="settings-input"
+              value={form.id}
+              onChange={(e) => update("id", e.target.value)}
+              placeholder="e.g. llama3.1:8b"
+            />
+          </label>
+        </div>
+      )}
+      <div className="model-registry-form-row">
+        <label className="settings-field">
+          <span className="settings-label">Display Name</span>
+          <input
+            type="text"
+            className="settings-input"
+            value={form.name}
+            onChange={(e) => update("name", e.target.value)}
+          />
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Context Window</span>
+          <input
+            type="number"
+            className="settings-input"
+            value={form.contextWindow}
+            onChange={(e) => update("contextWindow", e.target.value)}
+            min={1}
+          />
+        </label>
+      </div>
+      <div className="model-registry-form-row">
+        <label className="settings-field">
+          <span className="settings-label">Max Output Tokens</span>
+          <input
+            type="number"
+            className="settings-input"
+            value={form.maxOutputTokens}
+            onChange={(e) => update("maxOutputTokens", e.target.value)}
+            placeholder="Provider default"
+            min={1}
+          />
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Input $ / 1M tokens</span>
+          <input
+            type="number"
+            className="settings-input"
+            value={form.inputPrice}
+            onChange={(e) => update("inputPrice", e.target.value)}
+            min={0}
+            step="any"
+          />
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Output $ / 1M tokens</span>
+          <input
+            type="number"
+            className="settings-input"
+            value={form.outputPrice}
+            onChange={(e) => update("outputPrice", e.target.value)}
+            min={0}
+            step="any"
+          />
+        </label>
+      </div>
+      <label className="settings-radio">
+        <input
+          type="checkbox"
+          checked={form.nativeVision}
+          onChange={(e) => update("nativeVision", e.target.checked)}
+        />
+        Accepts image input
+      </label>
+      <div className="model-registry-form-actions">
+        <button className="settings-save-btn" onClick={handleSubmit} disabled={busy}>
+          {busy ? "Saving..." : editing === "" ? "Add Model" : "Save Model"}
+        </button>
+        <button className="model-registry-btn" onClick={() => setEditing(null)} disabled={busy}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <section className="settings-section">
+      <h3 className="settings-section-title">Models</h3>
+      <span className="settings-hint">
+        Models available in the model selector. Changes apply immediately.
+      </span>
+      <div className="model-registry-list">
+        {models.map((m) => {
+          const key = formatModelField(m);
+          if (editing === key) return <div key={key}>{renderForm()}</div>;
+          return (
+            <div key={key} className="model-registry-item">
+              <div className="model-registry-info">
+                <span className="model-registry-name">
+                  {m.name}{m.nativeVision && " 👁"}
+                </span>
+                <span className="model-registry-meta">
+                  {key} · {m.contextWindow.toLocaleString()} ctx
+                  {m.maxOutputTokens != null && ` · ${m.maxOutputTokens.toLocaleString()} max out`}
+                  {` · ${formatPrice(m)}`}
+                </span>
+              </div>
+              <div className="model-registry-actions">
+                <button className="model-registry-btn" onClick={() => openEdit(m)}>Edit</button>
+                <button className="model-registry-btn model-registry-btn-danger" onClick={() => handleDelete(m)}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {editing === "" ? renderForm() : (
+        <button className="model-registry-btn" onClick={openCreate}>+ Add model</button>
+      )}
+      {error && <div className="model-registry-error">{error}</div>}
+    </section>
+  );
+}
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import type { Persona } from "@vladbot/shared";
+import { formatModelField } from "@vladbot/shared";
+import { useModels } from "../../hooks/useModels.js";
+import { usePersonas } from "../../hooks/usePersonas.js";
+import { createPersonaApi, deletePersonaApi, updatePersonaApi } from "../../services/api.js";
+import {
+  formatSampling,
+  fromSamplingForm,
+  toSamplingForm,
+  type SamplingForm,
+} from "./samplingForm.js";
+
+interface PersonaForm extends SamplingForm {
+  name: string;
+  systemPrompt: string;
+  model: string;
+}
+
+const EMPTY_FORM: PersonaForm = {
+  name: "",
+  systemPrompt: "",
+  model: "",
+  temperature: "",
+  topP: "",
+  maxOutputTokens: "",
+};
+
+function toForm(p: Persona): PersonaForm {
+  return {
+    name: p.name,
+    systemPrompt: p.systemPrompt,
+    model: p.model,
+    ...toSamplingForm(p.sampling),
+  };
+}
+
+export default function PersonaLibrary() {
+  const { personas, refresh } = usePersonas();
+  const { models } = useModels();
+  // null = no form open, "" = creating, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<PersonaForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const openCreate = () => {
+    setForm(EMPTY_FORM);
+    setEditing("");
+    setError(null);
+  };
+
+  const openEdit = (p: Persona) => {
+    setForm(toForm(p));
+    setEditing(p.id);
+    setError(null);
+  };
+
+  const update = <K extends keyof PersonaForm>(key: K, value: PersonaForm[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const modelName = (field: string) =>
+    models.find((m) => formatModelField(m) === field)?.name ?? field;
+
+  const handleSubmit = async () => {
+    setBusy(true);
+    setError(null);
+    const fields = {
+      name: form.name.trim(),
+      systemPrompt: form.systemPrompt,
+      model: form.model,
+      sampling: fromSamplingForm(form),
+    };
+    try {
+      if (editing === "") {
+        await createPersonaApi(fields);
+      } else if (editing) {
+        await updatePersonaApi(editing, fields);
+      }
+      setEditing(null);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save persona");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (p: Persona) => {
+    if (!confirm(`Delete persona "${p.name}"?`)) return;
+    try {
+      await deletePersonaApi(p.id);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete persona");
+    }
+  };
+
+  const renderForm = () => (
+    <div className="model-registry-form">
+      <div className="model-registry-form-row">
+        <label className="settings-field">
+          <span className="settings-label">Name</span>
+          <input
+            type="text"
+            className="settings-input"
+            value={form.name}
+            onChange={(e) => update("name", e.target.value)}
+          />
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Model</span>
+          <select
+            className="settings-select"
+            value={form.model}
+            onChange={(e) => update("model", e.target.value)}
+          >
+            <option value="">Default model</option>
+            {models.map((m) => (
+              <option key={formatModelField(m)} value={formatModelField(m)}>
+                {m.name} ({m.provider})
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <label className="settings-field">
+        <span className="settings-label">System Prompt</span>
+        <textarea
+          className="settings-textarea"
+          value={form.systemPrompt}
+          onChange={(e) => update("systemPrompt", e.target.value)}
+          placeholder="Empty uses the global system prompt"
+          rows={5}
+        />
+      </label>
+      <div className="model-registry-form-row">
+        <label className="settings-field">
+          <span className="settings-label">Temperature</span>
+          <input
+            type="number"
+            className="settings-input"
+            value={form.temperature}
+            onChange={(e) => update("temperature", e.target.value)}
+            placeholder="Provider default"
+            min={0}
+            max={2}
+            step="any"
+          />
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Top P</span>
+          <input
+            type="number"
+            className="settings-input"
+            value={form.topP}
+            onChange={(e) => update("topP", e.target.value)}
+            placeholder="Provider default"
+            min={0}
+            max={1}
+            step="any"
+          />
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Max Output Tokens</span>
+          <input
+            type="number"
+            className="settings-input"
+            value={form.maxOutputTokens}
+            onChange={(e) => update("maxOutputTokens", e.target.value)}
+            placeholder="Model default"
+            min={1}
+          />
+        </label>
+      </div>
+      <div className="model-registry-form-actions">
+        <button className="settings-save-btn" onClick={handleSubmit} disabled={busy}>
+          {busy ? "Saving..." : editing === "" ? "Add Persona" : "Save Persona"}
+        </button>
+        <button className="model-registry-btn" onClick={() => setEditing(null)} disabled={busy}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <section className="settings-section">
+      <h3 className="settings-section-title">Personas</h3>
+      <span className="settings-hint">
+        Presets of system prompt, model and sampling that new chats can start from.
+      </span>
+      <div className="model-registry-list">
+        {personas.map((p) => {
+          if (editing === p.id) return <div key={p.id}>{renderForm()}</div>;
+          const sampling = formatSampling(p.sampling);
+          return (
+            <div key={p.id} className="model-registry-item">
+              <div className="model-registry-info">
+                <span className="model-registry-name">{p.name}</span>
+                <span className="model-registry-meta">
+                  {p.model ? modelName(p.model) : "Default model"}
+                  {sampling && ` · ${sampling}`}
+                  {p.systemPrompt && " · custom prompt"}
+                </span>
+              </div>
+              <div className="model-registry-actions">
+                <button className="model-registry-btn" onClick={() => openEdit(p)}>Edit</button>
+                <button className="model-registry-btn model-registry-btn-danger" onClick={() => handleDelete(p)}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {editing === "" ? renderForm() : (
+        <button className="model-registry-btn" onClick={openCreate}>+ Add persona</button>
+      )}
+      {error && <div className="model-registry-error">{error}</div>}
+    </section>
+  );
+}
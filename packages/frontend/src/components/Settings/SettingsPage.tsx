@@ -1,24 +1,23 @@
 import { useEffect, useState } from "react";
-import type { AppSettings, ModelInfo } from "@vladbot/shared";
+import type { AppSettings, ModelInfo, ToolDefinition } from "@vladbot/shared";
+import { VISION_MODEL_PROVIDERS, formatModelField } from "@vladbot/shared";
 import { wsClient } from "../../services/wsClient.js";
+import ModelRegistry from "./ModelRegistry.js";
+import PersonaLibrary from "./PersonaLibrary.js";
+import McpServers from "./McpServers.js";
+import ApprovalRules from "./ApprovalRules.js";
 import "../../styles/settings.css";
 
 interface SettingsPageProps {
   settings: AppSettings | null;
   models: ModelInfo[];
   onSave: (partial: Partial<AppSettings>) => Promise<AppSettings>;
+  tools: ToolDefinition[];
+  /** The active chat, for chat-scoped approval rules. */
+  session: { id: string; title: string } | null;
 }
 
-const VISION_OPTIONS = [
-  { value: "", label: "Disabled" },
-  { value: "gemini:gemini-2.5-pro", label: "Gemini 2.5 Pro" },
-  { value: "gemini:gemini-2.5-flash", label: "Gemini 2.5 Flash" },
-  { value: "gemini:gemini-2.0-flash", label: "Gemini 2.0 Flash" },
-  { value: "anthropic:claude-sonnet-4-20250514", label: "Claude Sonnet 4" },
-  { value: "anthropic:claude-3-5-haiku-20241022", label: "Claude 3.5 Haiku" },
-];
-
-export default function SettingsPage({ settings, models, onSave }: SettingsPageProps) {
+export default function SettingsPage({ settings, models, onSave, tools, session }: SettingsPageProps) {
   const [form, setForm] = useState<Partial<AppSettings>>({});
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
@@ -48,6 +47,13 @@ export default function SettingsPage({ settings, models, onSave }: SettingsPageP
     }
   };
 
+  const visionOptions = [
+    { value: "", label: "Disabled" },
+    ...models
+      .filter((m) => m.nativeVision && VISION_MODEL_PROVIDERS.includes(m.provider))
+      .map((m) => ({ value: formatModelField(m), label: m.name })),
+  ];
+
   const update = (key: keyof AppSettings, value: string) => {
     setForm((prev) => ({ ...prev, [key]: value }));
   };
@@ -87,7 +93,7 @@ export default function SettingsPage({ settings, models, onSave }: SettingsPageP
             value={form.vision_model ?? ""}
             onChange={(e) => update("vision_model", e.target.value)}
           >
-            {VISION_OPTIONS.map((o) => (
+            {visionOptions.map((o) => (
               <option key={o.value} value={o.value}>{o.label}</option>
             ))}
           </select>
@@ -97,6 +103,14 @@ export default function SettingsPage({ settings, models, onSave }: SettingsPageP
         </label>
       </section>
 
+      <ModelRegistry />
+
+      <PersonaLibrary />
+
+      <McpServers />
+
+      <ApprovalRules tools={tools} session={session} />
+
       <section className="settings-section">
         <h3 className="settings-section-title">VNC & Coordinates</h3>
         <label className="settings-field">
@@ -223,6 +237,118 @@ export default function SettingsPage({ settings, models, onSave }: SettingsPageP
         </label>
       </section>
 
+      <section className="settings-section">
+        <h3 className="settings-section-title">Retries</h3>
+        <label className="settings-field">
+          <span className="settings-label">Attempts Per Model</span>
+          <input
+            type="number"
+            className="settings-input settings-input-short"
+            value={form.llm_retry_max_attempts ?? "3"}
+            onChange={(e) => update("llm_retry_max_attempts", e.target.value)}
+            min={1}
+            max={10}
+          />
+          <span className="settings-hint">
+            How often a rate-limited or failing model is tried before the session's fallback model takes over.
+          </span>
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Base Backoff (ms)</span>
+          <input
+            type="number"
+            className="settings-input settings-input-short"
+            value={form.llm_retry_base_delay_ms ?? "1000"}
+            onChange={(e) => update("llm_retry_base_delay_ms", e.target.value)}
+            min={0}
+          />
+          <span className="settings-hint">
+            Delay before the first retry, doubled on each further attempt. Retry-after hints from the provider take precedence.
+          </span>
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Max Backoff (ms)</span>
+          <input
+            type="number"
+            className="settings-input settings-input-short"
+            value={form.llm_retry_max_delay_ms ?? "30000"}
+            onChange={(e) => update("llm_retry_max_delay_ms", e.target.value)}
+            min={0}
+          />
+          <span className="settings-hint">
+            Longest wait between attempts. If the provider asks for a longer wait, the next fallback model is used instead.
+          </span>
+        </label>
+      </section>
+
+      <section className="settings-section">
+        <h3 className="settings-section-title">Tool Execution</h3>
+        <label className="settings-field">
+          <span className="settings-label">Parallel Read-Only Calls</span>
+          <input
+            type="number"
+            className="settings-input settings-input-short"
+            value={form.tool_concurrency ?? "4"}
+            onChange={(e) => update("tool_concurrency", e.target.value)}
+            min={1}
+            max={16}
+          />
+          <span className="settings-hint">
+            How many read-only tool calls (file reads, searches, memory lookups) from one response run at the same time. Calls that change something always run alone, in order.
+          </span>
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Tool Output Budget (tokens)</span>
+          <input
+            type="number"
+            className="settings-input settings-input-short"
+            value={form.tool_output_token_budget ?? "8000"}
+            onChange={(e) => update("tool_output_token_budget", e.target.value)}
+            min={0}
+          />
+          <span className="settings-hint">
+            Larger tool outputs are saved to a file. The model gets a preview and reads the rest on demand with the tool_output tool. 0 turns this off.
+          </span>
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Tool Loop Round Limit</span>
+          <input
+            type="number"
+            className="settings-input settings-input-short"
+            value={form.loop_max_rounds ?? "10"}
+            onChange={(e) => update("loop_max_rounds", e.target.value)}
+            min={0}
+          />
+          <span className="settings-hint">
+            Tool rounds one reply may run without approval before it pauses and asks you to continue or stop. Repeated identical calls, or screenshots that stop changing, pause it too. 0 means no limit.
+          </span>
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Tool Loop Time Limit (seconds)</span>
+          <input
+            type="number"
+            className="settings-input settings-input-short"
+            value={form.loop_max_seconds ?? "900"}
+            onChange={(e) => update("loop_max_seconds", e.target.value)}
+            min={0}
+          />
+          <span className="settings-hint">0 means no limit.</span>
+        </label>
+        <label className="settings-field">
+          <span className="settings-label">Tool Loop Token Budget</span>
+          <input
+            type="number"
+            className="settings-input settings-input-short"
+            value={form.loop_max_tokens ?? "0"}
+            onChange={(e) => update("loop_max_tokens", e.target.value)}
+            min={0}
+          />
+          <span className="settings-hint">
+            Input and output tokens one reply may use across its rounds. 0 means no limit. Each chat can override these three limits (header, ⚙).
+          </span>
+        </label>
+      </section>
+
       <section className="settings-section">
         <h3 className="settings-section-title">Connection</h3>
         <label className="settings-field">
@@ -0,0 +1,32 @@
+import type { SamplingParams } from "@vladbot/shared";
+
+/** Sampling inputs as raw strings; an empty field means "provider default". */
+export interface SamplingForm {
+  temperature: string;
+  topP: string;
+  maxOutputTokens: string;
+}
+
+export function toSamplingForm(sampling: SamplingParams): SamplingForm {
+  return {
+    temperature: sampling.temperature != null ? String(sampling.temperature) : "",
+    topP: sampling.topP != null ? String(sampling.topP) : "",
+    maxOutputTokens: sampling.maxOutputTokens != null ? String(sampling.maxOutputTokens) : "",
+  };
+}
+
+export function fromSamplingForm(form: SamplingForm): SamplingParams {
+  const sampling: SamplingParams = {};
+  if (form.temperature.trim() !== "") sampling.temperature = Number(form.temperature);
+  if (form.topP.trim() !== "") sampling.topP = Number(form.topP);
+  if (form.maxOutputTokens.trim() !== "") sampling.maxOutputTokens = Number(form.maxOutputTokens);
+  return sampling;
+}
+
+export function formatSampling(sampling: SamplingParams): string {
+  const parts: string[] = [];
+  if (sampling.temperature != null) parts.push(`temp ${sampling.temperature}`);
+  if (sampling.topP != null) parts.push(`top_p ${sampling.topP}`);
+  if (sampling.maxOutputTokens != null) parts.push(`${sampling.maxOutputTokens.toLocaleString()} max out`);
+  return parts.join(" · ");
+}
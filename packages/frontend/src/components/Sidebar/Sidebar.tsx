@@ -1,10 +1,11 @@
-import type { Session } from "@vladbot/shared";
+import type { Persona, Session } from "@vladbot/shared";
 
 interface SidebarProps {
   sessions: Session[];
   activeSessionId: string | null;
   onSelectSession: (id: string) => void;
-  onNewChat: () => void;
+  onNewChat: (personaId?: string) => void;
+  personas: Persona[];
   onDeleteSession: (id: string) => void;
   isOpen: boolean;
   onClose: () => void;
@@ -15,6 +16,7 @@ export default function Sidebar({
   activeSessionId,
   onSelectSession,
   onNewChat,
+  personas,
   onDeleteSession,
   isOpen,
   onClose,
@@ -51,9 +53,22 @@ export default function Sidebar({
           )}
         </div>
         <div className="sidebar-footer">
-          <button className="new-chat-btn" onClick={onNewChat}>
+          <button className="new-chat-btn" onClick={() => onNewChat()}>
             {"\uD83D\uDCAC"} New Chat
           </button>
+          {personas.length > 0 && (
+            <select
+              className="new-chat-persona"
+              value=""
+              onChange={(e) => e.target.value && onNewChat(e.target.value)}
+              aria-label="New chat from persona"
+            >
+              <option value="">New chat as…</option>
+              {personas.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          )}
         </div>
       </aside>
     </>
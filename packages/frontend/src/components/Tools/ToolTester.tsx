@@ -1,15 +1,19 @@
 import { useState, useCallback, useMemo, type FormEvent } from "react";
-import type { ToolDefinition, JsonSchemaProperty } from "@vladbot/shared";
+import type { ToolDefinition, ToolPluginStatus, JsonSchemaProperty } from "@vladbot/shared";
 import { executeTools } from "../../services/api.js";
 
 interface ToolTesterProps {
   tools: ToolDefinition[];
+  plugins: ToolPluginStatus[];
 }
 
-export default function ToolTester({ tools }: ToolTesterProps) {
-  const [selectedTool, setSelectedTool] = useState<ToolDefinition | null>(
-    tools[0] ?? null,
-  );
+export default function ToolTester({ tools, plugins }: ToolTesterProps) {
+  // Track the selection by name: the list refreshes live as MCP servers
+  // connect and disconnect and plugins reload, and a vanished tool falls
+  // back to the first one
+  const [selectedName, setSelectedName] = useState<string>(tools[0]?.name ?? "");
+  const selectedTool: ToolDefinition | null =
+    tools.find((t) => t.name === selectedName) ?? tools[0] ?? null;
   const [formValues, setFormValues] = useState<Record<string, string>>({});
   const [executing, setExecuting] = useState(false);
   const [result, setResult] = useState<string | null>(null);
@@ -36,13 +40,12 @@ export default function ToolTester({ tools }: ToolTesterProps) {
 
   const handleToolChange = useCallback(
     (name: string) => {
-      const tool = tools.find((t) => t.name === name) ?? null;
-      setSelectedTool(tool);
+      setSelectedName(name);
       setFormValues({});
       setResult(null);
       setIsError(false);
     },
-    [tools],
+    [],
   );
 
   const setField = useCallback((key: string, value: string) => {
@@ -116,7 +119,10 @@ export default function ToolTester({ tools }: ToolTesterProps) {
   if (tools.length === 0) {
     return (
       <div className="tool-tester">
-        <div className="tool-tester-empty">No tools available</div>
+        <div className="tool-tester-form">
+          <PluginList plugins={plugins} />
+          <div className="tool-tester-empty">No tools available</div>
+        </div>
       </div>
     );
   }
@@ -124,6 +130,7 @@ export default function ToolTester({ tools }: ToolTesterProps) {
   return (
     <div className="tool-tester">
       <form className="tool-tester-form" onSubmit={handleExecute}>
+        <PluginList plugins={plugins} />
         <div className="tool-tester-header">
           <label className="tool-param-label">
             Tool
@@ -149,7 +156,9 @@ export default function ToolTester({ tools }: ToolTesterProps) {
         </div>
 
         {selectedTool && (
-          <p className="tool-description">{selectedTool.description}</p>
+          <p className="tool-description">
+            {selectedTool.operations[selectedOp]?.description ?? selectedTool.description}
+          </p>
         )}
 
         {isMultiOp && (
@@ -215,6 +224,25 @@ export default function ToolTester({ tools }: ToolTesterProps) {
   );
 }
 
+function PluginList({ plugins }: { plugins: ToolPluginStatus[] }) {
+  if (plugins.length === 0) return null;
+  return (
+    <div className="tool-plugins">
+      <span className="tool-param-label">Plugins</span>
+      {plugins.map((p) => (
+        <div key={p.file} className={`tool-plugin tool-plugin-${p.state}`}>
+          <span className="tool-plugin-file">{p.file}</span>
+          {p.state === "loaded" ? (
+            <span className="tool-plugin-detail">{p.tools.join(", ")}</span>
+          ) : (
+            <span className="tool-plugin-detail">Failed to load: {p.error}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function ParamField({
   name,
   schema,
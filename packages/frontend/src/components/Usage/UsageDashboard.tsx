@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import type { UsageGroupBy, UsagePurpose, UsageReport, UsageTotals } from "@vladbot/shared";
+import { fetchUsageReportApi } from "../../services/api.js";
+import "../../styles/usage.css";
+
+const GROUPS: { value: UsageGroupBy; label: string }[] = [
+  { value: "day", label: "Day" },
+  { value: "session", label: "Session" },
+  { value: "model", label: "Model" },
+  { value: "purpose", label: "Purpose" },
+];
+
+const PURPOSE_LABELS: Record<UsagePurpose, string> = {
+  chat: "Chat",
+  session_name: "Session naming",
+  compaction: "Compaction",
+  browser: "Browser sub-LLM",
+  vision: "Vision",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function nextDay(day: string): string {
+  return isoDay(new Date(Date.parse(day) + DAY_MS));
+}
+
+function fmtTokens(n: number): string {
+  return n.toLocaleString();
+}
+
+function fmtCost(totals: UsageTotals): string {
+  const cost = `$${totals.cost.toFixed(totals.cost < 1 ? 4 : 2)}`;
+  return totals.unpricedCalls > 0 ? `${cost}*` : cost;
+}
+
+function rowLabel(report: UsageReport, label: string): string {
+  if (report.groupBy === "purpose") return PURPOSE_LABELS[label as UsagePurpose] ?? label;
+  return label;
+}
+
+export default function UsageDashboard() {
+  const [groupBy, setGroupBy] = useState<UsageGroupBy>("day");
+  // Inclusive day range in the UI; the API takes an exclusive end
+  const [from, setFrom] = useState(() => isoDay(new Date(Date.now() - 29 * DAY_MS)));
+  const [to, setTo] = useState(() => isoDay(new Date()));
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!from || !to) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchUsageReportApi(groupBy, from, nextDay(to))
+      .then((data) => {
+        if (!cancelled) setReport(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load usage");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [groupBy, from, to]);
+
+  const renderCells = (totals: UsageTotals) => (
+    <>
+      <td className="usage-num">{totals.calls.toLocaleString()}</td>
+      <td className="usage-num">{fmtTokens(totals.inputTokens)}</td>
+      <td className="usage-num">{fmtTokens(totals.cacheReadInputTokens)}</td>
+      <td className="usage-num">{fmtTokens(totals.outputTokens)}</td>
+      <td className="usage-num">{fmtCost(totals)}</td>
+    </>
+  );
+
+  return (
+    <div className="usage-page">
+      <div className="usage-content">
+        <h2 className="usage-title">Usage</h2>
+
+        <div className="usage-toolbar">
+          <div className="usage-groups">
+            {GROUPS.map(({ value, label }) => (
+              <button
+                key={value}
+                className={`usage-group-btn${groupBy === value ? " usage-group-btn-active" : ""}`}
+                onClick={() => setGroupBy(value)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <label className="usage-range">
+            From
+            <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </label>
+          <label className="usage-range">
+            To
+            <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </label>
+        </div>
+
+        {error && <div className="usage-error">{error}</div>}
+        {loading && !report && <div className="usage-empty">Loading...</div>}
+        {report && report.rows.length === 0 && !loading && (
+          <div className="usage-empty">No LLM calls in this range.</div>
+        )}
+        {report && report.rows.length > 0 && (
+          <table className={`usage-table${loading ? " usage-table-loading" : ""}`}>
+            <thead>
+              <tr>
+                <th>{GROUPS.find((g) => g.value === report.groupBy)?.label}</th>
+                <th className="usage-num">Calls</th>
+                <th className="usage-num">Input</th>
+                <th className="usage-num">Cached</th>
+                <th className="usage-num">Output</th>
+                <th className="usage-num">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.rows.map((row) => (
+                <tr key={row.key}>
+                  <td className="usage-label" title={row.key}>{rowLabel(report, row.label)}</td>
+                  {renderCells(row)}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td className="usage-label">Total</td>
+                {renderCells(report.total)}
+              </tr>
+            </tfoot>
+          </table>
+        )}
+        {report && report.total.unpricedCalls > 0 && (
+          <div className="usage-hint">
+            * {report.total.unpricedCalls} call(s) used models without pricing and are not included in the cost.
+            Set prices in Settings → Model registry.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ApprovalRule, SSEEvent } from "@vladbot/shared";
+import { fetchApprovalRules } from "../services/api.js";
+import { wsClient } from "../services/wsClient.js";
+
+/** Global approval rules plus those of `sessionId`, kept in sync across clients. */
+export function useApprovalRules(sessionId?: string) {
+  const [rules, setRules] = useState<ApprovalRule[]>([]);
+
+  const refresh = useCallback(() => {
+    return fetchApprovalRules(sessionId).then(setRules).catch(console.error);
+  }, [sessionId]);
+
+  useEffect(() => {
+    refresh();
+
+    const unsubPush = wsClient.onPush("__approval_rules__", (event: SSEEvent) => {
+      if (event.type === "approval_rules_changed") refresh();
+    });
+
+    const unsubConn = wsClient.onConnectionChange((connected) => {
+      if (connected) refresh();
+    });
+
+    return () => {
+      unsubPush();
+      unsubConn();
+    };
+  }, [refresh]);
+
+  return { rules, refresh };
+}
@@ -1,9 +1,16 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import type {
+  ApprovalChange,
   ChatMessage,
   ClassifiedError,
+  CompareRun,
+  PartialToolCall,
+  RetryInfo,
   SSEEvent,
+  TokenUsage,
   ToolCall,
+  ToolCallApproval,
+  ToolCallDelta,
   ToolResult,
 } from "@vladbot/shared";
 import type { DebugEntry } from "../services/api.js";
@@ -17,6 +24,13 @@ import {
   subscribeToStream,
   approveToolCallsApi,
   denyToolCallsApi,
+  continueLoopApi,
+  regenerateMessageApi,
+  editMessageApi,
+  switchBranchApi,
+  compareModelsApi,
+  pickCompareApi,
+  cancelCompareApi,
   watchSessionApi,
   unwatchSessionApi,
 } from "../services/api.js";
@@ -68,13 +82,16 @@ export function mergeMessages(local: ChatMessage[], db: ChatMessage[]): ChatMess
     // unnecessary re-renders. Otherwise take the richer DB version.
     if (
       localMsg.content === dbMsg.content &&
+      (localMsg.reasoning ?? "") === (dbMsg.reasoning ?? "") &&
       localMsg.role === dbMsg.role &&
       localMsg.approvalStatus === dbMsg.approvalStatus &&
+      approvalCount(localMsg) === approvalCount(dbMsg) &&
       (localMsg.toolCalls?.length ?? 0) === (dbMsg.toolCalls?.length ?? 0) &&
       (localMsg.toolResults?.length ?? 0) === (dbMsg.toolResults?.length ?? 0) &&
       (localMsg.images?.length ?? 0) === (dbMsg.images?.length ?? 0) &&
       (localMsg.tokenCount != null || dbMsg.tokenCount == null) &&
-      (localMsg.rawTokenCount != null || dbMsg.rawTokenCount == null)
+      (localMsg.rawTokenCount != null || dbMsg.rawTokenCount == null) &&
+      (localMsg.toolCallPreviews != null || dbMsg.toolCallPreviews == null)
     ) {
       return localMsg;
     }
@@ -84,6 +101,197 @@ export function mergeMessages(local: ChatMessage[], db: ChatMessage[]): ChatMess
   return olderLocal.length > 0 ? [...olderLocal, ...merged] : merged;
 }
 
+function approvalCount(m: ChatMessage): number {
+  return Object.keys(m.toolCallApprovals ?? {}).length;
+}
+
+/**
+ * Record a verdict locally before the server confirms it: for `toolCallId`,
+ * or for every call without one yet.
+ */
+export function withToolCallApproval(
+  m: ChatMessage,
+  approval: ToolCallApproval,
+  toolCallId?: string,
+): ChatMessage {
+  const ids = toolCallId
+    ? [toolCallId]
+    : (m.toolCalls ?? []).filter((tc) => !m.toolCallApprovals?.[tc.id]).map((tc) => tc.id);
+  return {
+    ...m,
+    toolCallApprovals: { ...Object.fromEntries(ids.map((id) => [id, approval])), ...m.toolCallApprovals },
+    toolStatuses: undefined,
+  };
+}
+
+/**
+ * Apply an approval change from the server. The backend's tool statuses
+ * are dropped so MessageBubble recomputes them from the new verdicts.
+ */
+export function applyApprovalChange(m: ChatMessage, change: ApprovalChange): ChatMessage {
+  return {
+    ...m,
+    approvalStatus: change.approvalStatus as ChatMessage["approvalStatus"],
+    toolCalls: change.toolCalls ?? m.toolCalls,
+    toolCallApprovals: change.toolCallApprovals ?? m.toolCallApprovals,
+    approvalDecisions: change.approvalDecisions ?? m.approvalDecisions,
+    toolStatuses: undefined,
+  };
+}
+
+/**
+ * Append streamed reasoning to the assistant message `assistantId`, creating
+ * it when thinking is the first data of the round. Without an ID the last
+ * assistant message is updated.
+ */
+function appendReasoning(
+  prev: ChatMessage[],
+  assistantId: string,
+  model: string,
+  text: string,
+): ChatMessage[] {
+  if (assistantId && !prev.some((m) => m.id === assistantId)) {
+    return [
+      ...prev,
+      { id: assistantId, role: "assistant" as const, content: "", reasoning: text, model, timestamp: Date.now() },
+    ];
+  }
+  return prev.map((m, i) =>
+    (assistantId ? m.id === assistantId : i === prev.length - 1 && m.role === "assistant")
+      ? { ...m, reasoning: (m.reasoning ?? "") + text }
+      : m,
+  );
+}
+
+/** Add a streamed argument chunk to the matching partial tool call. */
+function mergeToolCallDelta(
+  partials: PartialToolCall[] | undefined,
+  delta: ToolCallDelta,
+): PartialToolCall[] {
+  const list = partials ?? [];
+  return list.some((tc) => tc.id === delta.id)
+    ? list.map((tc) => (tc.id === delta.id ? { ...tc, arguments: tc.arguments + delta.delta } : tc))
+    : [...list, { id: delta.id, name: delta.name, arguments: delta.delta }];
+}
+
+/**
+ * Append streamed argument text to a partial tool call of the assistant
+ * message `assistantId`, creating the message when the call is the first
+ * data of the round. Without an ID the last assistant message is updated.
+ */
+export function appendToolCallDelta(
+  prev: ChatMessage[],
+  assistantId: string,
+  model: string,
+  delta: ToolCallDelta,
+): ChatMessage[] {
+  const apply = (m: ChatMessage): ChatMessage => ({
+    ...m,
+    partialToolCalls: mergeToolCallDelta(m.partialToolCalls, delta),
+  });
+  if (assistantId && !prev.some((m) => m.id === assistantId)) {
+    return [
+      ...prev,
+      apply({ id: assistantId, role: "assistant" as const, content: "", model, timestamp: Date.now() }),
+    ];
+  }
+  return prev.map((m, i) =>
+    (assistantId ? m.id === assistantId : i === prev.length - 1 && m.role === "assistant") ? apply(m) : m,
+  );
+}
+
+/** Partial tool calls still streaming once `toolCallId` has arrived complete. */
+export function dropPartialToolCall(
+  partials: PartialToolCall[] | undefined,
+  toolCallId: string,
+): PartialToolCall[] | undefined {
+  const rest = partials?.filter((tc) => tc.id !== toolCallId);
+  return rest?.length ? rest : undefined;
+}
+
+/** What the user can do about each kind of LLM failure. */
+const ERROR_HINTS: Partial<Record<ClassifiedError["code"], string>> = {
+  AUTH_ERROR: "Check the provider's API key in Settings.",
+  RATE_LIMIT: "The provider is rate limiting requests. Wait a moment and try again.",
+  OVERLOADED: "The provider is overloaded. Try again later or configure a fallback model in Settings.",
+  CONTEXT_LIMIT: "The conversation no longer fits the model's context window. Compact it or switch to a model with a larger context.",
+  CONTENT_FILTER: "The provider's content filter blocked this request. Rephrase the message and try again.",
+  TIMEOUT: "The provider did not answer in time. Try again.",
+  INVALID_REQUEST: "The provider rejected the request as invalid.",
+};
+
+/** Chat text for a failed LLM request: the provider message plus what to do next. */
+export function describeLLMError(error: ClassifiedError): string {
+  let text = `Error: ${error.message}`;
+  let hint = ERROR_HINTS[error.code];
+  if (hint && error.code === "RATE_LIMIT" && error.retryAfterMs) {
+    hint = `The provider is rate limiting requests. Try again in ${Math.ceil(error.retryAfterMs / 1000)}s.`;
+  }
+  if (hint) text += `\n\n${hint}`;
+  if (error.requestId) text += `\n\nRequest ID: ${error.requestId}`;
+  return text;
+}
+
+/** One model's reply in a compare run, streamed into its own column. */
+export interface CompareColumn {
+  candidateId: string;
+  /** "provider:modelId" */
+  model: string;
+  content: string;
+  reasoning: string;
+  done: boolean;
+  error?: ClassifiedError;
+  /** Set while the server retries this candidate; cleared by its next stream data. */
+  retry?: RetryInfo;
+}
+
+export interface CompareState {
+  compareId: string;
+  columns: CompareColumn[];
+}
+
+export function initCompareState(run: CompareRun): CompareState {
+  return {
+    compareId: run.compareId,
+    columns: run.candidates.map((c) => ({
+      candidateId: c.candidateId,
+      model: c.model,
+      content: "",
+      reasoning: "",
+      done: false,
+    })),
+  };
+}
+
+/** Apply one candidate's stream event to its column. */
+export function applyCompareEvent(
+  state: CompareState,
+  candidateId: string,
+  event: SSEEvent,
+): CompareState {
+  return {
+    ...state,
+    columns: state.columns.map((col) => {
+      if (col.candidateId !== candidateId) return col;
+      switch (event.type) {
+        case "token":
+          return { ...col, content: col.content + event.data, retry: undefined };
+        case "thinking":
+          return { ...col, reasoning: col.reasoning + event.data.text, retry: undefined };
+        case "retrying":
+          // The failed attempt's partial output is discarded server-side too
+          return { ...col, content: "", reasoning: "", retry: event.data };
+        case "done":
+          return { ...col, done: true, retry: undefined };
+        case "error":
+          return { ...col, done: true, error: event.data, retry: undefined };
+        default:
+          return col;
+      }
+    }),
+  };
+}
+
 /** Encapsulates all state for the currently streaming session.
  *  Only one session streams at a time — this replaces the old scattered
  *  streamingSessionRef, abortRef, and activeStreamRef. */
@@ -96,8 +304,10 @@ interface StreamState {
   activeStream: {
     assistantId: string;
     content: string;
+    reasoning?: string;
     model: string;
     toolCalls: ToolCall[];
+    partialToolCalls: PartialToolCall[];
   } | null;
 }
 
@@ -114,12 +324,16 @@ export function useChat(
   const [isStreaming, setIsStreaming] = useState(false);
   const [isCompacting, setIsCompacting] = useState(false);
   const [isLoadingSession, setIsLoadingSession] = useState(false);
-  const [tokenUsage, setTokenUsage] = useState<{ inputTokens: number; outputTokens: number } | null>(null);
+  const [tokenUsage, setTokenUsage] = useState<TokenUsage | null>(null);
   const [autoApprove, setAutoApproveState] = useState(false);
   const [compactionError, setCompactionError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const [isLoadingOlder, setIsLoadingOlder] = useState(false);
   const [toolProgress, setToolProgress] = useState<Record<string, { progress: number; total: number; message?: string }>>({});
+  /** Set while the backend retries a failed LLM call; cleared by the next stream data. */
+  const [retryStatus, setRetryStatus] = useState<RetryInfo | null>(null);
+  /** The session's compare run awaiting a pick, if any. */
+  const [compare, setCompare] = useState<CompareState | null>(null);
   const sessionIdRef = useRef<string | null>(null);
   const skipLoadRef = useRef(false);
   /** Synchronous guard against double-send (set true before first await). */
@@ -135,7 +349,7 @@ export function useChat(
   tokenUsageRef.current = tokenUsage;
 
   // Cache token usage per session so the broom shows correct values after switching
-  const tokenUsageCacheRef = useRef<Map<string, { inputTokens: number; outputTokens: number }>>(new Map());
+  const tokenUsageCacheRef = useRef<Map<string, TokenUsage>>(new Map());
 
 
   // Sync auto-approve from parent (useSettings). Updates flow in when settings
@@ -161,7 +375,7 @@ export function useChat(
       let assistantId = "";
       let assistantModel = "";
       return {
-        onSnapshot: (snap: { assistantId: string; content: string; model: string; toolCalls: ToolCall[] }) => {
+        onSnapshot: (snap: SnapshotData) => {
           if (staleCheck()) return;
           assistantId = snap.assistantId;
           assistantModel = snap.model;
@@ -172,26 +386,28 @@ export function useChat(
               // empty snapshot (happens when subscribing during tool execution —
               // the approve handler creates a stream with the original message's
               // ID but empty state).
-              const snapEmpty = !snap.content && snap.toolCalls.length === 0;
+              const snapEmpty = !snap.content && !snap.reasoning && snap.toolCalls.length === 0 && !snap.partialToolCalls?.length;
               const existingHasData = !!(existing.content || existing.toolCalls?.length);
               if (snapEmpty && existingHasData) return prev;
               return prev.map((m) =>
                 m.id === snap.assistantId
-                  ? { ...m, content: snap.content, toolCalls: snap.toolCalls.length > 0 ? snap.toolCalls : undefined }
+                  ? { ...m, content: snap.content, reasoning: snap.reasoning || undefined, toolCalls: snap.toolCalls.length > 0 ? snap.toolCalls : undefined, partialToolCalls: snap.partialToolCalls?.length ? snap.partialToolCalls : undefined }
                   : m,
               );
             }
             // Don't create empty placeholder — onToken/onToolCall will create on first data
-            if (!snap.content && snap.toolCalls.length === 0) return prev;
+            if (!snap.content && !snap.reasoning && snap.toolCalls.length === 0 && !snap.partialToolCalls?.length) return prev;
             return [
               ...prev,
               {
                 id: snap.assistantId,
                 role: "assistant" as const,
                 content: snap.content,
+                reasoning: snap.reasoning || undefined,
                 model: snap.model,
                 timestamp: Date.now(),
                 toolCalls: snap.toolCalls.length > 0 ? snap.toolCalls : undefined,
+                partialToolCalls: snap.partialToolCalls?.length ? snap.partialToolCalls : undefined,
               },
             ];
           });
@@ -227,13 +443,21 @@ export function useChat(
             );
           });
         },
+        onThinking: (text: string) => {
+          if (staleCheck()) return;
+          setMessages((prev) => appendReasoning(prev, assistantId, assistantModel, text));
+        },
+        onToolCallDelta: (delta: ToolCallDelta) => {
+          if (staleCheck()) return;
+          setMessages((prev) => appendToolCallDelta(prev, assistantId, assistantModel, delta));
+        },
         onToolCall: (toolCall: ToolCall) => {
           if (staleCheck()) return;
           setMessages((prev) => {
             if (assistantId && prev.some((m) => m.id === assistantId)) {
               return prev.map((m) =>
                 m.id === assistantId
-                  ? { ...m, toolCalls: [...(m.toolCalls ?? []), toolCall] }
+                  ? { ...m, toolCalls: [...(m.toolCalls ?? []), toolCall], partialToolCalls: dropPartialToolCall(m.partialToolCalls, toolCall.id) }
                   : m,
               );
             }
@@ -252,7 +476,7 @@ export function useChat(
             }
             return prev.map((m, i) =>
               i === prev.length - 1 && m.role === "assistant"
-                ? { ...m, toolCalls: [...(m.toolCalls ?? []), toolCall] }
+                ? { ...m, toolCalls: [...(m.toolCalls ?? []), toolCall], partialToolCalls: dropPartialToolCall(m.partialToolCalls, toolCall.id) }
                 : m,
             );
           });
@@ -327,7 +551,7 @@ export function useChat(
             if (lastMsg?.role === "assistant") {
               return prev.map((m, i) =>
                 i === prev.length - 1
-                  ? { ...m, content: m.content ? `${m.content}\n\nError: ${error.message}` : `Error: ${error.message}` }
+                  ? { ...m, content: m.content ? `${m.content}\n\n${describeLLMError(error)}` : describeLLMError(error) }
                   : m,
               );
             }
@@ -337,14 +561,14 @@ export function useChat(
               {
                 id: `err-${Date.now()}`,
                 role: "assistant" as const,
-                content: `Error: ${error.message}`,
+                content: describeLLMError(error),
                 timestamp: Date.now(),
               },
             ];
           });
           setIsStreaming(false);
         },
-        onUsage: (usage: { inputTokens: number; outputTokens: number }) => {
+        onUsage: (usage: TokenUsage) => {
           if (staleCheck()) return;
           setTokenUsage(usage);
           tokenUsageCacheRef.current.set(sid, usage);
@@ -369,6 +593,8 @@ export function useChat(
     // (e.g., switching back), show it.
     const streamingHere = streamStateRef.current?.sessionId === activeSessionId;
     setIsStreaming(!!streamingHere);
+    setRetryStatus(null);
+    setCompare(null);
 
     if (!activeSessionId) {
       setMessages([]);
@@ -427,6 +653,37 @@ export function useChat(
         return;
       }
 
+      // The active branch was replaced (regenerate, edit, branch switch):
+      // the server sends the new branch's latest page before any stream events.
+      if (event.type === "branch_changed") {
+        setMessages(event.data.messages);
+        setHasMore(event.data.hasMore);
+        setDebugLog(reconstructDebugLog(event.data.messages));
+        return;
+      }
+
+      // Compare runs are rendered from push events on every watching client
+      if (event.type === "compare_started") {
+        setCompare(initCompareState(event.data));
+        return;
+      }
+      if (event.type === "compare_event") {
+        const { compareId, candidateId, event: inner } = event.data;
+        setCompare((prev) =>
+          prev?.compareId === compareId ? applyCompareEvent(prev, candidateId, inner) : prev,
+        );
+        return;
+      }
+      if (event.type === "compare_resolved") {
+        const kept = event.data.message;
+        setCompare((prev) => (prev?.compareId === event.data.compareId ? null : prev));
+        if (kept) {
+          setMessages((prev) => (prev.some((m) => m.id === kept.id) ? prev : [...prev, kept]));
+          setDebugLog((prev) => [...prev, ...reconstructDebugLog([kept])]);
+        }
+        return;
+      }
+
       // Compaction events are always relevant, even during local streaming
       if (event.type === "compaction_started") {
         setIsCompacting(true);
@@ -461,35 +718,70 @@ export function useChat(
         return;
       }
 
+      // Retries are relevant for local and cross-client streams alike: the
+      // failed attempt's partial output is dropped and the new model shown.
+      if (event.type === "retrying") {
+        const { assistantId, model } = event.data;
+        setRetryStatus(event.data);
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.id === assistantId
+              ? { ...m, content: "", reasoning: undefined, toolCalls: undefined, partialToolCalls: undefined, model }
+              : m,
+          ),
+        );
+        if (pushAssistantId === assistantId) pushAssistantModel = model;
+        return;
+      }
+
+      // Every device shows the pause, whichever one started the turn
+      if (event.type === "loop_limit") {
+        const { messageId, ...loopLimit } = event.data;
+        setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, loopLimit } : m)));
+        return;
+      }
+      if (
+        event.type === "token" ||
+        event.type === "thinking" ||
+        event.type === "tool_call" ||
+        event.type === "tool_call_delta" ||
+        event.type === "done" ||
+        event.type === "error"
+      ) {
+        setRetryStatus(null);
+      }
+
       // Skip stream events when a local stream is handling them for THIS session
       if (streamStateRef.current?.sessionId === sid) return;
 
       switch (event.type) {
         case "snapshot": {
-          const snap = event.data as { assistantId: string; content: string; model: string; toolCalls: ToolCall[] };
+          const snap = event.data as SnapshotData;
           pushAssistantId = snap.assistantId;
           pushAssistantModel = snap.model;
           setMessages((prev) => {
             const existing = prev.find((m) => m.id === snap.assistantId);
             if (existing) {
-              if (!snap.content && snap.toolCalls.length === 0 && (existing.content || existing.toolCalls?.length)) return prev;
+              if (!snap.content && !snap.reasoning && snap.toolCalls.length === 0 && !snap.partialToolCalls?.length && (existing.content || existing.toolCalls?.length)) return prev;
               return prev.map((m) =>
                 m.id === snap.assistantId
-                  ? { ...m, content: snap.content, toolCalls: snap.toolCalls.length > 0 ? snap.toolCalls : undefined }
+                  ? { ...m, content: snap.content, reasoning: snap.reasoning || undefined, toolCalls: snap.toolCalls.length > 0 ? snap.toolCalls : undefined, partialToolCalls: snap.partialToolCalls?.length ? snap.partialToolCalls : undefined }
                   : m,
               );
             }
             // Don't create empty placeholder — token/tool_call will create on first data
-            if (!snap.content && snap.toolCalls.length === 0) return prev;
+            if (!snap.content && !snap.reasoning && snap.toolCalls.length === 0 && !snap.partialToolCalls?.length) return prev;
             return [
               ...prev,
               {
                 id: snap.assistantId,
                 role: "assistant" as const,
                 content: snap.content,
+                reasoning: snap.reasoning || undefined,
                 model: snap.model,
                 timestamp: Date.now(),
                 toolCalls: snap.toolCalls.length > 0 ? snap.toolCalls : undefined,
+                partialToolCalls: snap.partialToolCalls?.length ? snap.partialToolCalls : undefined,
               },
             ];
           });
@@ -526,12 +818,18 @@ export function useChat(
             );
           });
           break;
+        case "thinking":
+          setMessages((prev) => appendReasoning(prev, pushAssistantId, pushAssistantModel, event.data.text));
+          break;
+        case "tool_call_delta":
+          setMessages((prev) => appendToolCallDelta(prev, pushAssistantId, pushAssistantModel, event.data));
+          break;
         case "tool_call":
           setMessages((prev) => {
             if (pushAssistantId && prev.some((m) => m.id === pushAssistantId)) {
               return prev.map((m) =>
                 m.id === pushAssistantId
-                  ? { ...m, toolCalls: [...(m.toolCalls ?? []), event.data] }
+                  ? { ...m, toolCalls: [...(m.toolCalls ?? []), event.data], partialToolCalls: dropPartialToolCall(m.partialToolCalls, event.data.id) }
                   : m,
               );
             }
@@ -552,7 +850,7 @@ export function useChat(
             // Fallback: update last assistant message
             return prev.map((m, i) =>
               i === prev.length - 1 && m.role === "assistant"
-                ? { ...m, toolCalls: [...(m.toolCalls ?? []), event.data] }
+                ? { ...m, toolCalls: [...(m.toolCalls ?? []), event.data], partialToolCalls: dropPartialToolCall(m.partialToolCalls, event.data.id) }
                 : m,
             );
           });
@@ -598,7 +896,7 @@ export function useChat(
             if (lastMsg?.role === "assistant") {
               return prev.map((m, i) =>
                 i === prev.length - 1
-                  ? { ...m, content: m.content ? `${m.content}\n\nError: ${event.data.message}` : `Error: ${event.data.message}` }
+                  ? { ...m, content: m.content ? `${m.content}\n\n${describeLLMError(event.data)}` : describeLLMError(event.data) }
                   : m,
               );
             }
@@ -608,7 +906,7 @@ export function useChat(
               {
                 id: `err-${Date.now()}`,
                 role: "assistant" as const,
-                content: `Error: ${event.data.message}`,
+                content: describeLLMError(event.data),
                 timestamp: Date.now(),
               },
             ];
@@ -617,11 +915,7 @@ export function useChat(
           break;
         case "approval_changed":
           setMessages((prev) =>
-            prev.map((m) =>
-              m.id === event.data.messageId
-                ? { ...m, approvalStatus: event.data.approvalStatus as "approved" | "denied" }
-                : m,
-            ),
+            prev.map((m) => (m.id === event.data.messageId ? applyApprovalChange(m, event.data) : m)),
           );
           break;
       }
@@ -649,9 +943,11 @@ export function useChat(
                   id: ls.assistantId,
                   role: "assistant" as const,
                   content: ls.content,
+                  reasoning: ls.reasoning || undefined,
                   model: ls.model,
                   timestamp: Date.now(),
                   toolCalls: ls.toolCalls.length > 0 ? ls.toolCalls : undefined,
+                  partialToolCalls: ls.partialToolCalls.length > 0 ? ls.partialToolCalls : undefined,
                 },
               ];
             }
@@ -711,6 +1007,7 @@ export function useChat(
             content: "",
             model: "",
             toolCalls: [],
+            partialToolCalls: [],
           },
         };
       }
@@ -729,32 +1026,36 @@ export function useChat(
             if (as) {
               as.assistantId = snap.assistantId;
               as.content = snap.content;
+              as.reasoning = snap.reasoning ?? "";
               as.model = snap.model;
               as.toolCalls = [];
+              as.partialToolCalls = snap.partialToolCalls ?? [];
             }
             setMessages((prev) => {
               const existing = prev.find((m) => m.id === snap.assistantId);
               if (existing) {
-                const snapEmpty = !snap.content && snap.toolCalls.length === 0;
+                const snapEmpty = !snap.content && !snap.reasoning && snap.toolCalls.length === 0 && !snap.partialToolCalls?.length;
                 const existingHasData = !!(existing.content || existing.toolCalls?.length);
                 if (snapEmpty && existingHasData) return prev;
                 return prev.map((m) =>
                   m.id === snap.assistantId
-                    ? { ...m, content: snap.content, toolCalls: snap.toolCalls.length > 0 ? snap.toolCalls : undefined }
+                    ? { ...m, content: snap.content, reasoning: snap.reasoning || undefined, toolCalls: snap.toolCalls.length > 0 ? snap.toolCalls : undefined, partialToolCalls: snap.partialToolCalls?.length ? snap.partialToolCalls : undefined }
                     : m,
                 );
               }
               // Don't create empty placeholder — onToken/onToolCall will create on first data
-              if (!snap.content && snap.toolCalls.length === 0) return prev;
+              if (!snap.content && !snap.reasoning && snap.toolCalls.length === 0 && !snap.partialToolCalls?.length) return prev;
               return [
                 ...prev,
                 {
                   id: snap.assistantId,
                   role: "assistant" as const,
                   content: snap.content,
+                  reasoning: snap.reasoning || undefined,
                   model: snap.model,
                   timestamp: Date.now(),
                   toolCalls: snap.toolCalls.length > 0 ? snap.toolCalls : undefined,
+                  partialToolCalls: snap.partialToolCalls?.length ? snap.partialToolCalls : undefined,
                 },
               ];
             });
@@ -788,6 +1089,28 @@ export function useChat(
               ];
             });
           },
+          onThinking: (text) => {
+            if (streamStateRef.current?.aborted) return;
+            if (sessionIdRef.current !== sessionId) return;
+            const as = streamStateRef.current?.activeStream;
+            if (as?.assistantId === currentAssistantId) {
+              as.reasoning = (as.reasoning ?? "") + text;
+            }
+            setMessages((prev) =>
+              appendReasoning(prev, currentAssistantId, streamStateRef.current?.activeStream?.model ?? "", text),
+            );
+          },
+          onToolCallDelta: (delta) => {
+            if (streamStateRef.current?.aborted) return;
+            if (sessionIdRef.current !== sessionId) return;
+            const as = streamStateRef.current?.activeStream;
+            if (as?.assistantId === currentAssistantId) {
+              as.partialToolCalls = mergeToolCallDelta(as.partialToolCalls, delta);
+            }
+            setMessages((prev) =>
+              appendToolCallDelta(prev, currentAssistantId, streamStateRef.current?.activeStream?.model ?? "", delta),
+            );
+          },
           onToolCall: (toolCall) => {
             if (streamStateRef.current?.aborted) return;
             if (sessionIdRef.current !== sessionId) return;
@@ -795,12 +1118,13 @@ export function useChat(
             const as = streamStateRef.current?.activeStream;
             if (as?.assistantId === currentAssistantId) {
               as.toolCalls = [...collectedToolCalls];
+              as.partialToolCalls = dropPartialToolCall(as.partialToolCalls, toolCall.id) ?? [];
             }
             setMessages((prev) => {
               if (prev.some((m) => m.id === currentAssistantId)) {
                 return prev.map((m) =>
                   m.id === currentAssistantId
-                    ? { ...m, toolCalls: [...collectedToolCalls] }
+                    ? { ...m, toolCalls: [...collectedToolCalls], partialToolCalls: dropPartialToolCall(m.partialToolCalls, toolCall.id) }
                     : m,
                 );
               }
@@ -818,6 +1142,21 @@ export function useChat(
               ];
             });
           },
+          onRetrying: (info) => {
+            if (sessionIdRef.current !== sessionId) return;
+            // The session push listener resets the message; drop local buffers too
+            if (info.assistantId !== currentAssistantId) return;
+            fullContent = "";
+            collectedToolCalls = [];
+            const as = streamStateRef.current?.activeStream;
+            if (as?.assistantId === currentAssistantId) {
+              as.content = "";
+              as.reasoning = "";
+              as.model = info.model;
+              as.toolCalls = [];
+              as.partialToolCalls = [];
+            }
+          },
           onToolResult: (result) => {
             if (streamStateRef.current?.aborted) return;
             if (sessionIdRef.current !== sessionId) return;
@@ -872,7 +1211,7 @@ export function useChat(
               if (currentAssistantId && prev.some((m) => m.id === currentAssistantId)) {
                 return prev.map((m) =>
                   m.id === currentAssistantId
-                    ? { ...m, content: m.content ? `${m.content}\n\nError: ${error.message}` : `Error: ${error.message}` }
+                    ? { ...m, content: m.content ? `${m.content}\n\n${describeLLMError(error)}` : describeLLMError(error) }
                     : m,
                 );
               }
@@ -882,7 +1221,7 @@ export function useChat(
                 {
                   id: `err-${Date.now()}`,
                   role: "assistant" as const,
-                  content: `Error: ${error.message}`,
+                  content: describeLLMError(error),
                   timestamp: Date.now(),
                 },
               ];
@@ -939,7 +1278,7 @@ export function useChat(
   );
 
   const sendMessage = useCallback(
-    async (content: string, images?: string[]) => {
+    async (content: string, images?: string[], compareModels?: string[]) => {
       if (sendingRef.current) return;
       // Synchronous guard: prevent a second call from entering while
       // awaiting onEnsureSession / saveMessage (before React re-renders).
@@ -973,6 +1312,19 @@ export function useChat(
         }
 
         setMessages((prev) => [...prev, userMsg]);
+
+        // Compare mode: the candidates arrive as compare_* push events
+        if (compareModels) {
+          await compareModelsApi(sessionId, compareModels).catch((err) => {
+            const errMsg = err instanceof Error ? err.message : "Unknown error";
+            setMessages((prev) => [
+              ...prev,
+              { id: `err-${Date.now()}`, role: "assistant" as const, content: `Error: ${errMsg}`, timestamp: Date.now() },
+            ]);
+          });
+          return;
+        }
+
         setIsStreaming(true);
 
         // Backend generates assistantId and sends it via the snapshot event;
@@ -1069,25 +1421,24 @@ export function useChat(
     [activeSessionId],
   );
 
-  const approveToolCalls = useCallback(
-    (messageId: string) => {
-      const sessionId = activeSessionId ?? sessionIdRef.current;
-      if (!sessionId) return;
-
-      // Optimistically update local state
-      setMessages((prev) =>
-        prev.map((m) =>
-          m.id === messageId
-            ? { ...m, approvalStatus: "approved" as const }
-            : m,
-        ),
-      );
-      setIsStreaming(true);
-      streamStateRef.current = { sessionId, aborted: false, activeStream: null };
+  /**
+   * Wait for an approval request to settle and, when it starts the round,
+   * follow the tool execution stream the backend created for it.
+   */
+  const followApproval = useCallback(
+    (sessionId: string, messageId: string, request: Promise<ApprovalChange>) => {
+      let started = false;
+      request
+        .then(async (change) => {
+          setMessages((prev) =>
+            prev.map((m) => (m.id === messageId ? applyApprovalChange(m, change) : m)),
+          );
+          // Other calls of the round are still waiting for a verdict
+          if (change.approvalStatus !== "approved") return;
 
-      // Send approval first so the backend creates a fresh stream, then subscribe
-      approveToolCallsApi(sessionId, messageId)
-        .then(async () => {
+          started = true;
+          setIsStreaming(true);
+          streamStateRef.current = { sessionId, aborted: false, activeStream: null };
           const cbs = subscribeStreamCallbacks(sessionId, () => false);
           const connected = await subscribeToStream(sessionId, cbs);
           if (!connected) {
@@ -1108,6 +1459,7 @@ export function useChat(
             .catch(console.error);
         })
         .finally(() => {
+          if (!started) return;
           if (streamStateRef.current?.sessionId === sessionId) {
             streamStateRef.current = null;
           }
@@ -1116,20 +1468,50 @@ export function useChat(
           }
         });
     },
-    [activeSessionId, subscribeStreamCallbacks],
+    [subscribeStreamCallbacks],
+  );
+
+  const approveToolCalls = useCallback(
+    (messageId: string, toolCallId?: string, args?: Record<string, unknown>) => {
+      const sessionId = activeSessionId ?? sessionIdRef.current;
+      if (!sessionId) return;
+
+      // Optimistically update local state
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === messageId ? withToolCallApproval(m, { status: "approved" }, toolCallId) : m,
+        ),
+      );
+
+      // Send approval first so the backend creates a fresh stream, then subscribe
+      followApproval(sessionId, messageId, approveToolCallsApi(sessionId, messageId, toolCallId, args));
+    },
+    [activeSessionId, followApproval],
+  );
+
+  /** Resume a tool loop that paused at a limit, allowing `rounds` more rounds. */
+  const continueLoop = useCallback(
+    (messageId: string, rounds: number) => {
+      const sessionId = activeSessionId ?? sessionIdRef.current;
+      if (!sessionId) return;
+
+      setMessages((prev) =>
+        prev.map((m) => (m.id === messageId ? withToolCallApproval(m, { status: "approved" }) : m)),
+      );
+      followApproval(sessionId, messageId, continueLoopApi(sessionId, messageId, rounds));
+    },
+    [activeSessionId, followApproval],
   );
 
   const denyToolCalls = useCallback(
-    (messageId: string) => {
+    (messageId: string, toolCallId?: string, reason?: string) => {
       const sessionId = activeSessionId ?? sessionIdRef.current;
       if (!sessionId) return;
 
       // Optimistically update local state
       setMessages((prev) =>
         prev.map((m) =>
-          m.id === messageId
-            ? { ...m, approvalStatus: "denied" as const }
-            : m,
+          m.id === messageId ? withToolCallApproval(m, { status: "denied", reason }, toolCallId) : m,
         ),
       );
 
@@ -1142,8 +1524,14 @@ export function useChat(
           })
           .catch(console.error);
 
-      denyToolCallsApi(sessionId, messageId)
-        .then(reloadMessages)
+      denyToolCallsApi(sessionId, messageId, toolCallId, reason)
+        .then((change) => {
+          setMessages((prev) =>
+            prev.map((m) => (m.id === messageId ? applyApprovalChange(m, change) : m)),
+          );
+          // A round that ended without running anything has denial results to load
+          if (change.approvalStatus === "denied") return reloadMessages();
+        })
         .catch((err) => {
           console.error("Denial failed:", err);
           reloadMessages();
@@ -1152,6 +1540,32 @@ export function useChat(
     [activeSessionId],
   );
 
+  // Branch operations. The server pushes branch_changed and streams the new
+  // reply to every watcher, so the session push handler renders the result.
+  const regenerateMessage = useCallback((messageId: string) => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) return;
+    regenerateMessageApi(sessionId, messageId).catch((err) => {
+      console.error("Failed to regenerate message:", err);
+    });
+  }, []);
+
+  const editMessage = useCallback((messageId: string, content: string) => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) return;
+    editMessageApi(sessionId, messageId, content).catch((err) => {
+      console.error("Failed to edit message:", err);
+    });
+  }, []);
+
+  const switchBranch = useCallback((messageId: string) => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) return;
+    switchBranchApi(sessionId, messageId).catch((err) => {
+      console.error("Failed to switch branch:", err);
+    });
+  }, []);
+
   const trimToLatestPage = useCallback(() => {
     setMessages((prev) => {
       if (prev.length <= DEFAULT_PAGE_SIZE) return prev;
@@ -1183,10 +1597,16 @@ export function useChat(
   }, []);
 
   const cancelStream = useCallback(() => {
-    if (!streamStateRef.current) return;
     const sessionId = activeSessionId ?? sessionIdRef.current;
     if (!sessionId) return;
 
+    // Streams started on the server (regenerate, edit) have no local state;
+    // their done event arrives through the session push handler.
+    if (!streamStateRef.current) {
+      wsClient.request("messages.interrupt", { sessionId }).catch(console.error);
+      return;
+    }
+
     // Set aborted SYNCHRONOUSLY so streamTurn callbacks ignore further events.
     // Do NOT set isStreaming(false) or null streamStateRef here — sendMessage's
     // finally block handles both when streamChat resolves after receiving the
@@ -1214,6 +1634,26 @@ export function useChat(
       .catch(console.error);
   }, [activeSessionId]);
 
+  // Compare mode. The server pushes compare_resolved to every watcher,
+  // which appends the kept reply and closes the columns.
+  const compareId = compare?.compareId;
+
+  const pickCompareWinner = useCallback((candidateId: string) => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId || !compareId) return;
+    pickCompareApi(sessionId, compareId, candidateId).catch((err) => {
+      console.error("Failed to keep compare reply:", err);
+    });
+  }, [compareId]);
+
+  const cancelCompare = useCallback(() => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId || !compareId) return;
+    cancelCompareApi(sessionId, compareId).catch((err) => {
+      console.error("Failed to cancel compare:", err);
+    });
+  }, [compareId]);
+
   return {
     messages,
     debugLog,
@@ -1227,6 +1667,13 @@ export function useChat(
     clearMessages,
     approveToolCalls,
     denyToolCalls,
+    continueLoop,
+    regenerateMessage,
+    editMessage,
+    switchBranch,
+    compare,
+    pickCompareWinner,
+    cancelCompare,
     compactContext,
     compactionError,
     switchModel,
@@ -1236,5 +1683,6 @@ export function useChat(
     trimToLatestPage,
     cancelStream,
     toolProgress,
+    retryStatus,
   };
 }
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from "react";
+import type { McpServer, SSEEvent } from "@vladbot/shared";
+import { fetchMcpServers } from "../services/api.js";
+import { wsClient } from "../services/wsClient.js";
+
+/** Configured MCP servers with their live connection status. */
+export function useMcpServers() {
+  const [servers, setServers] = useState<McpServer[]>([]);
+
+  const refresh = useCallback(() => {
+    return fetchMcpServers().then(setServers).catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    const unsubPush = wsClient.onPush("__tools__", (event: SSEEvent) => {
+      if (event.type === "tools_changed") refresh();
+    });
+
+    const unsubConn = wsClient.onConnectionChange((connected) => {
+      if (connected) refresh();
+    });
+
+    return () => {
+      unsubPush();
+      unsubConn();
+    };
+  }, [refresh]);
+
+  return { servers, refresh };
+}
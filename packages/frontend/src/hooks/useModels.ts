@@ -1,17 +1,37 @@
-import { useEffect, useState } from "react";
-import type { ModelInfo } from "@vladbot/shared";
+import { useCallback, useEffect, useState } from "react";
+import type { ModelInfo, SSEEvent } from "@vladbot/shared";
 import { fetchModels } from "../services/api.js";
+import { wsClient } from "../services/wsClient.js";
 
-export function useModels() {
+/**
+ * Models from the server registry. By default only models whose provider is
+ * configured on the backend; pass `all` to include every registry entry.
+ */
+export function useModels(all = false) {
   const [models, setModels] = useState<ModelInfo[]>([]);
   const [loading, setLoading] = useState(true);
 
+  const refresh = useCallback(() => {
+    return fetchModels(all).then(setModels).catch(console.error);
+  }, [all]);
+
   useEffect(() => {
-    fetchModels()
-      .then(setModels)
-      .catch(console.error)
-      .finally(() => setLoading(false));
-  }, []);
+    refresh().finally(() => setLoading(false));
+
+    // Registry edits (from any client) invalidate the list
+    const unsubPush = wsClient.onPush("__models__", (event: SSEEvent) => {
+      if (event.type === "models_changed") refresh();
+    });
+
+    const unsubConn = wsClient.onConnectionChange((connected) => {
+      if (connected) refresh();
+    });
+
+    return () => {
+      unsubPush();
+      unsubConn();
+    };
+  }, [refresh]);
 
-  return { models, loading };
+  return { models, loading, refresh };
 }
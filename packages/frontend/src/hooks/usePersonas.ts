@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Persona, SSEEvent } from "@vladbot/shared";
+import { fetchPersonas } from "../services/api.js";
+import { wsClient } from "../services/wsClient.js";
+
+/** Persona presets from the server, kept in sync across clients. */
+export function usePersonas() {
+  const [personas, setPersonas] = useState<Persona[]>([]);
+
+  const refresh = useCallback(() => {
+    return fetchPersonas().then(setPersonas).catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    const unsubPush = wsClient.onPush("__personas__", (event: SSEEvent) => {
+      if (event.type === "personas_changed") refresh();
+    });
+
+    const unsubConn = wsClient.onConnectionChange((connected) => {
+      if (connected) refresh();
+    });
+
+    return () => {
+      unsubPush();
+      unsubConn();
+    };
+  }, [refresh]);
+
+  return { personas, refresh };
+}
@@ -73,8 +73,8 @@ export function useSessions() {
   }, []);
 
   const createNewSession = useCallback(
-    async (title?: string): Promise<string> => {
-      const session = await createSessionApi(title);
+    async (title?: string, personaId?: string): Promise<string> => {
+      const session = await createSessionApi(title, personaId);
       setSessions((prev) => [session, ...prev]);
       setActiveSessionId(session.id);
       saveLastActiveSession(session.id).catch(console.error);
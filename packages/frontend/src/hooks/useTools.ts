@@ -1,19 +1,43 @@
-import { useEffect, useState } from "react";
-import type { ToolDefinition } from "@vladbot/shared";
+import { useCallback, useEffect, useState } from "react";
+import type { SSEEvent, ToolDefinition, ToolPluginStatus } from "@vladbot/shared";
 import { fetchTools } from "../services/api.js";
+import { wsClient } from "../services/wsClient.js";
 
+/**
+ * Registered tool definitions and plugin statuses, refreshed when MCP servers
+ * add or drop tools and when plugins load, reload or fail.
+ */
 export function useTools() {
   const [toolDefinitions, setToolDefinitions] = useState<ToolDefinition[]>([]);
+  const [plugins, setPlugins] = useState<ToolPluginStatus[]>([]);
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    fetchTools()
+  const refresh = useCallback(() => {
+    return fetchTools()
       .then((data) => {
         setToolDefinitions(data.definitions);
+        setPlugins(data.plugins ?? []);
       })
       .catch(console.error)
       .finally(() => setLoading(false));
   }, []);
 
-  return { toolDefinitions, loading };
+  useEffect(() => {
+    refresh();
+
+    const unsubPush = wsClient.onPush("__tools__", (event: SSEEvent) => {
+      if (event.type === "tools_changed") refresh();
+    });
+
+    const unsubConn = wsClient.onConnectionChange((connected) => {
+      if (connected) refresh();
+    });
+
+    return () => {
+      unsubPush();
+      unsubConn();
+    };
+  }, [refresh]);
+
+  return { toolDefinitions, plugins, loading };
 }
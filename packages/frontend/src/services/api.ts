@@ -1,32 +1,144 @@
 import type {
   AppSettings,
+  ApprovalChange,
+  ApprovalRule,
   ChatMessage,
   ClassifiedError,
+  CompareRun,
+  LoopLimits,
+  McpServer,
+  McpServerConfig,
   Memory,
   MemoryCreateRequest,
   MemoryListResponse,
   MemoryStats,
   MemoryUpdateRequest,
   ModelInfo,
+  PartialToolCall,
+  Persona,
+  RetryInfo,
+  SamplingParams,
   Session,
   SessionWithMessages,
   SSEEvent,
+  TokenUsage,
   ToolCall,
+  ToolCallDelta,
   ToolDefinition,
   ToolExecuteRequest,
   ToolExecuteResponse,
+  ToolExecutionFilter,
+  ToolExecutionPage,
+  ToolPluginStatus,
   ToolResult,
+  UsageGroupBy,
+  UsageReport,
 } from "@vladbot/shared";
 import { wsClient } from "./wsClient.js";
 
-export async function fetchModels(): Promise<ModelInfo[]> {
-  return wsClient.request<ModelInfo[]>("models.list", {});
+export async function fetchModels(all = false): Promise<ModelInfo[]> {
+  return wsClient.request<ModelInfo[]>("models.list", all ? { all } : {});
+}
+
+// Model registry CRUD
+
+/** Optional numeric fields accept null to clear the stored value. */
+export type ModelFields = Omit<ModelInfo, "provider" | "id" | "maxOutputTokens" | "inputPrice" | "outputPrice"> & {
+  maxOutputTokens: number | null;
+  inputPrice: number | null;
+  outputPrice: number | null;
+};
+
+export async function createModelApi(
+  data: Pick<ModelInfo, "provider" | "id"> & ModelFields,
+): Promise<ModelInfo> {
+  return wsClient.request<ModelInfo>("models.create", data);
+}
+
+export async function updateModelApi(
+  provider: string,
+  id: string,
+  data: Partial<ModelFields>,
+): Promise<ModelInfo> {
+  return wsClient.request<ModelInfo>("models.update", { provider, id, ...data });
+}
+
+export async function deleteModelApi(provider: string, id: string): Promise<void> {
+  await wsClient.request("models.delete", { provider, id });
+}
+
+// Personas
+
+export type PersonaFields = Omit<Persona, "id" | "createdAt" | "updatedAt">;
+
+export async function fetchPersonas(): Promise<Persona[]> {
+  return wsClient.request<Persona[]>("personas.list", {});
+}
+
+export async function createPersonaApi(data: PersonaFields): Promise<Persona> {
+  return wsClient.request<Persona>("personas.create", data);
+}
+
+export async function updatePersonaApi(id: string, data: Partial<PersonaFields>): Promise<Persona> {
+  return wsClient.request<Persona>("personas.update", { id, ...data });
+}
+
+export async function deletePersonaApi(id: string): Promise<void> {
+  await wsClient.request("personas.delete", { id });
+}
+
+// MCP servers
+
+export type McpServerFields = Omit<McpServerConfig, "id" | "createdAt" | "updatedAt">;
+
+export async function fetchMcpServers(): Promise<McpServer[]> {
+  return wsClient.request<McpServer[]>("mcp.servers.list", {});
+}
+
+export async function createMcpServerApi(data: McpServerFields): Promise<McpServer> {
+  return wsClient.request<McpServer>("mcp.servers.create", data);
+}
+
+export async function updateMcpServerApi(id: string, data: Partial<McpServerFields>): Promise<McpServer> {
+  return wsClient.request<McpServer>("mcp.servers.update", { id, ...data });
+}
+
+export async function deleteMcpServerApi(id: string): Promise<void> {
+  await wsClient.request("mcp.servers.delete", { id });
+}
+
+export async function reconnectMcpServerApi(id: string): Promise<McpServer> {
+  return wsClient.request<McpServer>("mcp.servers.reconnect", { id });
+}
+
+// Approval rules
+
+export type ApprovalRuleFields = Omit<ApprovalRule, "id" | "createdAt" | "updatedAt">;
+
+export async function fetchApprovalRules(sessionId?: string): Promise<ApprovalRule[]> {
+  return wsClient.request<ApprovalRule[]>("approvalRules.list", sessionId ? { sessionId } : {});
+}
+
+export async function createApprovalRuleApi(data: ApprovalRuleFields): Promise<ApprovalRule> {
+  return wsClient.request<ApprovalRule>("approvalRules.create", data);
+}
+
+export async function updateApprovalRuleApi(
+  id: string,
+  data: Partial<Omit<ApprovalRuleFields, "sessionId">>,
+): Promise<ApprovalRule> {
+  return wsClient.request<ApprovalRule>("approvalRules.update", { id, ...data });
+}
+
+export async function deleteApprovalRuleApi(id: string): Promise<void> {
+  await wsClient.request("approvalRules.delete", { id });
 }
 
 export async function fetchTools(): Promise<{
   definitions: ToolDefinition[];
+  plugins: ToolPluginStatus[];
 }> {
-  return wsClient.request<{ definitions: ToolDefinition[] }>("tools.list", {});
+  return wsClient.request<{ definitions: ToolDefinition[]; plugins: ToolPluginStatus[] }>("tools.list", {});
 }
 
 export async function validateTools(
@@ -55,8 +167,8 @@ export async function fetchSessions(): Promise<Session[]> {
   return wsClient.request<Session[]>("sessions.list", {});
 }
 
-export async function createSessionApi(title?: string): Promise<Session> {
-  return wsClient.request<Session>("sessions.create", { title });
+export async function createSessionApi(title?: string, personaId?: string): Promise<Session> {
+  return wsClient.request<Session>("sessions.create", { title, personaId });
 }
 
 export async function fetchSession(id: string): Promise<SessionWithMessages> {
@@ -88,6 +200,29 @@ export async function updateSessionVisionModelApi(
   return wsClient.request<Session>("sessions.update", { id, visionModel });
 }
 
+export async function updateSessionFallbackModelsApi(
+  id: string,
+  fallbackModels: string[],
+): Promise<Session> {
+  return wsClient.request<Session>("sessions.update", { id, fallbackModels });
+}
+
+export async function updateSessionThinkingBudgetApi(
+  id: string,
+  thinkingBudget: number,
+): Promise<Session> {
+  return wsClient.request<Session>("sessions.update", { id, thinkingBudget });
+}
+
+export async function updateSessionGenerationApi(
+  id: string,
+  systemPrompt: string,
+  sampling: SamplingParams,
+  loopLimits: LoopLimits,
+): Promise<Session> {
+  return wsClient.request<Session>("sessions.update", { id, systemPrompt, sampling, loopLimits });
+}
+
 export function watchSessionApi(sessionId: string): Promise<void> {
   return wsClient.request("sessions.watch", { sessionId }).then(() => {});
 }
@@ -142,22 +277,27 @@ export interface DebugEntry {
 export interface SnapshotData {
   assistantId: string;
   content: string;
+  reasoning?: string;
   model: string;
   toolCalls: ToolCall[];
+  partialToolCalls?: PartialToolCall[];
 }
 
 export interface StreamCallbacks {
   onToken: (token: string) => void;
+  onThinking?: (text: string) => void;
   onToolCall: (toolCall: ToolCall) => void;
+  onToolCallDelta?: (delta: ToolCallDelta) => void;
   onToolResult?: (result: ToolResult) => void;
   onToolProgress?: (data: { toolCallId: string; toolName: string; progress: number; total: number; message?: string }) => void;
   onDone: (hasToolCalls: boolean) => void;
   onError: (error: ClassifiedError) => void;
   onDebug?: (entry: DebugEntry) => void;
-  onUsage?: (usage: { inputTokens: number; outputTokens: number }) => void;
+  onUsage?: (usage: TokenUsage) => void;
   onAutoApproved?: (messageId: string) => void;
   onSnapshot?: (data: SnapshotData) => void;
   onCompaction?: (message: ChatMessage) => void;
+  onRetrying?: (info: RetryInfo) => void;
 }
 
 /** Dispatch a push event to the appropriate stream callback. */
@@ -166,9 +306,15 @@ function dispatchStreamEvent(event: SSEEvent, callbacks: StreamCallbacks): void
     case "token":
       callbacks.onToken(event.data);
       break;
+    case "thinking":
+      if (event.data.text) callbacks.onThinking?.(event.data.text);
+      break;
     case "tool_call":
       callbacks.onToolCall(event.data);
       break;
+    case "tool_call_delta":
+      callbacks.onToolCallDelta?.(event.data);
+      break;
     case "done":
       callbacks.onDone(event.data.hasToolCalls);
       break;
@@ -200,6 +346,9 @@ function dispatchStreamEvent(event: SSEEvent, callbacks: StreamCallbacks): void
     case "compaction":
       callbacks.onCompaction?.(event.data);
       break;
+    case "retrying":
+      callbacks.onRetrying?.(event.data);
+      break;
   }
 }
 
@@ -345,6 +494,26 @@ export async function fetchMemoryStats(): Promise<MemoryStats> {
   return wsClient.request<MemoryStats>("memories.stats", {});
 }
 
+// Usage
+
+/** Aggregate LLM spend; `from`/`to` are ISO days, `to` exclusive. */
+export async function fetchUsageReportApi(
+  groupBy: UsageGroupBy,
+  from?: string,
+  to?: string,
+): Promise<UsageReport> {
+  return wsClient.request<UsageReport>("usage.report", { groupBy, from, to });
+}
+
+/** One page of the tool execution audit log, newest first. */
+export async function fetchToolExecutionsApi(
+  filter: ToolExecutionFilter,
+  limit: number,
+  offset = 0,
+): Promise<ToolExecutionPage> {
+  return wsClient.request<ToolExecutionPage>("audit.list", { ...filter, limit, offset });
+}
+
 // Settings
 
 export async function fetchSettings(): Promise<AppSettings> {
@@ -367,18 +536,69 @@ export async function updateSettings(
 export async function approveToolCallsApi(
   sessionId: string,
   messageId: string,
-): Promise<void> {
-  await wsClient.request("messages.approve", {
+  toolCallId?: string,
+  args?: Record<string, unknown>,
+): Promise<ApprovalChange> {
+  return wsClient.request<ApprovalChange>("messages.approve", {
     sessionId,
     messageId,
+    toolCallId,
+    arguments: args,
   });
 }
 
 export async function denyToolCallsApi(
   sessionId: string,
   messageId: string,
+  toolCallId?: string,
+  reason?: string,
+): Promise<ApprovalChange> {
+  return wsClient.request<ApprovalChange>("messages.deny", { sessionId, messageId, toolCallId, reason });
+}
+
+/** Run the round the tool loop paused at and allow `rounds` more before the next pause. */
+export async function continueLoopApi(
+  sessionId: string,
+  messageId: string,
+  rounds: number,
+): Promise<ApprovalChange> {
+  return wsClient.request<ApprovalChange>("messages.continueLoop", { sessionId, messageId, rounds });
+}
+
+// Branches: regenerate and edit start a sibling branch and stream its reply
+
+export async function regenerateMessageApi(sessionId: string, messageId: string): Promise<void> {
+  await wsClient.request("messages.regenerate", { sessionId, messageId });
+}
+
+export async function editMessageApi(
+  sessionId: string,
+  messageId: string,
+  content: string,
 ): Promise<void> {
-  await wsClient.request("messages.deny", { sessionId, messageId });
+  await wsClient.request("messages.edit", { sessionId, messageId, content });
+}
+
+export async function switchBranchApi(sessionId: string, messageId: string): Promise<void> {
+  await wsClient.request("messages.switchBranch", { sessionId, messageId });
+}
+
+// Compare mode
+
+export async function compareModelsApi(sessionId: string, models: string[]): Promise<CompareRun> {
+  return wsClient.request<CompareRun>("chat.compare", { sessionId, models });
+}
+
+export async function pickCompareApi(
+  sessionId: string,
+  compareId: string,
+  candidateId: string,
+): Promise<void> {
+  await wsClient.request("chat.compare.pick", { sessionId, compareId, candidateId });
+}
+
+export async function cancelCompareApi(sessionId: string, compareId: string): Promise<void> {
+  await wsClient.request("chat.compare.cancel", { sessionId, compareId });
 }
 
 // Last active session persistence
@@ -1,31 +1,53 @@
 import type { ModelInfo } from "./types.js";
 
+/**
+ * Built-in models. The backend seeds these into the `models` table on first
+ * start; after that the database registry is the source of truth.
+ */
 export const AVAILABLE_MODELS: ModelInfo[] = [
-  { id: "claude-sonnet-4-20250514", name: "Claude Sonnet 4", provider: "anthropic", contextWindow: 200_000, nativeVision: true },
-  { id: "claude-3-5-haiku-20241022", name: "Claude 3.5 Haiku", provider: "anthropic", contextWindow: 200_000, nativeVision: true },
-  { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", provider: "gemini", contextWindow: 1_048_576, nativeVision: true },
-  { id: "gemini-2.5-flash", name: "Gemini 2.5 Flash", provider: "gemini", contextWindow: 1_048_576, nativeVision: true },
-  { id: "gemini-2.0-flash", name: "Gemini 2.0 Flash", provider: "gemini", contextWindow: 1_048_576, nativeVision: true },
-  { id: "deepseek-chat", name: "DeepSeek V3", provider: "deepseek", contextWindow: 65_536, nativeVision: false },
-  { id: "deepseek-reasoner", name: "DeepSeek R1", provider: "deepseek", contextWindow: 65_536, nativeVision: false },
+  { id: "claude-sonnet-4-20250514", name: "Claude Sonnet 4", provider: "anthropic", contextWindow: 200_000, nativeVision: true, inputPrice: 3, outputPrice: 15 },
+  { id: "claude-3-5-haiku-20241022", name: "Claude 3.5 Haiku", provider: "anthropic", contextWindow: 200_000, nativeVision: true, inputPrice: 0.8, outputPrice: 4 },
+  { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", provider: "gemini", contextWindow: 1_048_576, nativeVision: true, inputPrice: 1.25, outputPrice: 10 },
+  { id: "gemini-2.5-flash", name: "Gemini 2.5 Flash", provider: "gemini", contextWindow: 1_048_576, nativeVision: true, inputPrice: 0.3, outputPrice: 2.5 },
+  { id: "gemini-2.0-flash", name: "Gemini 2.0 Flash", provider: "gemini", contextWindow: 1_048_576, nativeVision: true, inputPrice: 0.1, outputPrice: 0.4 },
+  { id: "deepseek-chat", name: "DeepSeek V3", provider: "deepseek", contextWindow: 65_536, nativeVision: false, inputPrice: 0.27, outputPrice: 1.1 },
+  { id: "deepseek-reasoner", name: "DeepSeek R1", provider: "deepseek", contextWindow: 65_536, nativeVision: false, inputPrice: 0.55, outputPrice: 2.19 },
 ];
 
 export const DEFAULT_MODEL = AVAILABLE_MODELS[0];
 
+/** Providers that can serve as the vision model for the vision_analyze tool. */
+export const VISION_MODEL_PROVIDERS: readonly string[] = ["gemini", "anthropic"];
+
+let registry: ModelInfo[] = [...AVAILABLE_MODELS];
+
+/** Current model registry (built-in list until the backend loads the DB). */
+export function getModels(): ModelInfo[] {
+  return registry;
+}
+
+/** Replace the model registry. Called by the backend after loading the DB. */
+export function setModels(models: ModelInfo[]): void {
+  registry = [...models];
+}
+
 /**
- * Look up a model by either its bare ID ("deepseek-chat") or
- * "provider:modelId" format ("deepseek:deepseek-chat").
+ * Look up a model in the registry by either "provider:modelId" format
+ * ("deepseek:deepseek-chat") or its bare ID ("deepseek-chat").
  * Handles both old and new stored formats.
  */
 export function findModel(modelField: string): ModelInfo | undefined {
-  // Try direct bare-ID match first
-  const direct = AVAILABLE_MODELS.find((m) => m.id === modelField);
+  // Exact "provider:modelId" match (model IDs may themselves contain ":")
+  const exact = registry.find((m) => formatModelField(m) === modelField);
+  if (exact) return exact;
+  // Bare-ID match
+  const direct = registry.find((m) => m.id === modelField);
   if (direct) return direct;
-  // Try "provider:modelId" format
+  // "provider:modelId" with a provider prefix that no longer matches
   const idx = modelField.indexOf(":");
   if (idx > 0) {
     const modelId = modelField.slice(idx + 1);
-    return AVAILABLE_MODELS.find((m) => m.id === modelId);
+    return registry.find((m) => m.id === modelId);
   }
   return undefined;
 }
@@ -12,8 +12,12 @@ export interface JsonSchemaProperty {
 
 // Per-operation parameter definition
 export interface OperationDef {
+  /** Overrides the tool's description for this operation. */
+  description?: string;
   params: Record<string, JsonSchemaProperty>;
   required?: string[];
+  /** No side effects: may run concurrently with other read-only calls. */
+  readOnly?: boolean;
 }
 
 // Tool definition (registration-time)
@@ -32,10 +36,39 @@ export interface ToolCall {
   arguments: Record<string, unknown>;
 }
 
+/** A tool call whose JSON arguments the model is still writing. */
+export interface PartialToolCall {
+  id: string;
+  name: string;
+  /** Argument JSON received so far; usually not parseable until the call completes. */
+  arguments: string;
+}
+
+/** A piece of a streaming tool call's argument JSON. */
+export interface ToolCallDelta {
+  id: string;
+  name: string;
+  delta: string;
+}
+
 export interface ToolResult {
   toolCallId: string;
   output: string;
   isError?: boolean;
+  /** Set when the output was over the token budget: `output` is then only a preview. */
+  spilled?: SpilledToolOutput;
+}
+
+/** A tool output too large for the context, stored as a session file. */
+export interface SpilledToolOutput {
+  /** Session file name; the model passes it to the tool_output tool as `handle`. */
+  handle: string;
+  /** URL of the full output, like image results. */
+  url: string;
+  tokens: number;
+  lines: number;
+  /** The token budget in effect when the output was spilled. */
+  budget: number;
 }
 
 // Wire format — what gets sent between frontend and backend
@@ -45,6 +78,11 @@ export interface MessagePart {
   images?: string[];
   toolCalls?: ToolCall[];
   toolResults?: ToolResult[];
+  /** Signed reasoning that must be sent back with the turn (Anthropic thinking with tool use). */
+  reasoning?: string;
+  reasoningSignature?: string;
+  /** Prompt-cache breakpoint: providers with explicit caching cache everything up to and including this message. */
+  cacheBreakpoint?: boolean;
 }
 
 // Frontend display model
@@ -57,7 +95,17 @@ export interface ChatMessage {
   timestamp: number;
   toolCalls?: ToolCall[];
   toolResults?: ToolResult[];
+  /** Model reasoning / thinking text streamed before the answer. */
+  reasoning?: string;
+  /** Provider signature for the reasoning; present when it must be echoed back in later requests. */
+  reasoningSignature?: string;
   approvalStatus?: "pending" | "approved" | "denied" | "cancelled";
+  /** Tool calls still being streamed. Display-only, never stored. */
+  partialToolCalls?: PartialToolCall[];
+  /** Previous message in the conversation tree. Unset for the first message of a branch root. */
+  parentId?: string;
+  /** IDs of this message and its alternative versions (regenerations, edits), oldest first. Only set when alternatives exist. */
+  siblingIds?: string[];
   llmRequest?: unknown;
   llmResponse?: unknown;
   /** Number of messages before this compaction to include verbatim in LLM context. Only set on compaction messages. */
@@ -66,39 +114,125 @@ export interface ChatMessage {
   tokenCount?: number;
   /** LLM-reported output_tokens for assistant messages. Reflects actual billing usage. */
   rawTokenCount?: number;
+  /** USD cost of the LLM call that produced this assistant message. Unset when the model has no pricing. */
+  cost?: number;
+  /** Approval policy outcome for each tool call, keyed by tool call ID. */
+  approvalDecisions?: Record<string, ApprovalDecision>;
+  /** What the user decided for each call of a pending round, keyed by tool call ID. */
+  toolCallApprovals?: Record<string, ToolCallApproval>;
+  /** Set when an auto-approved tool loop paused at this round instead of running it. */
+  loopLimit?: LoopLimitHit;
+  /** What the round's mutating calls would do, worked out while it waits for approval. Keyed by tool call ID. */
+  toolCallPreviews?: Record<string, ToolCallPreview>;
   /** Backend-computed tool execution statuses, keyed by tool call ID. */
   toolStatuses?: Record<string, "pending" | "executing" | "done" | "cancelled" | "waiting">;
   /** Backend-computed display type hint for rendering. */
   displayType?: "user" | "assistant" | "tool_result" | "context_summary";
 }
 
+export type LLMErrorCode =
+  | "CONTEXT_LIMIT"
+  | "RATE_LIMIT"
+  | "OVERLOADED"
+  | "TIMEOUT"
+  | "CONTENT_FILTER"
+  | "INVALID_REQUEST"
+  | "AUTH_ERROR"
+  | "PROVIDER_ERROR"
+  | "UNKNOWN";
+
 export interface ClassifiedError {
   message: string;
-  code: "CONTEXT_LIMIT" | "RATE_LIMIT" | "AUTH_ERROR" | "PROVIDER_ERROR" | "UNKNOWN";
+  code: LLMErrorCode;
   recoverable: boolean;
+  /** Provider that failed, when known. */
+  provider?: string;
+  /** HTTP status of the failed request. */
+  status?: number;
+  /** The provider's own error type (e.g. "overloaded_error", "RESOURCE_EXHAUSTED"). */
+  providerType?: string;
+  /** Server-requested wait before retrying. */
+  retryAfterMs?: number;
+  /** Provider request ID, for support tickets and logs. */
+  requestId?: string;
+}
+
+/**
+ * Token usage of an LLM call. `inputTokens` is the full prompt size including
+ * cached tokens; the cache fields break down how much of it was written to or
+ * served from the provider's prompt cache.
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens?: number;
+  cacheReadInputTokens?: number;
+}
+
+/** A failed LLM attempt is about to be retried, possibly on a fallback model. */
+export interface RetryInfo {
+  assistantId: string;
+  /** 1-based attempt number on `model`. */
+  attempt: number;
+  maxAttempts: number;
+  provider: string;
+  model: string;
+  /** How long the server waits before the attempt starts. */
+  delayMs: number;
+  error: ClassifiedError;
+}
+
+/** One model answering in a compare run. `candidateId` becomes the message ID if its reply is kept. */
+export interface CompareCandidate {
+  candidateId: string;
+  /** "provider:modelId" */
+  model: string;
+}
+
+/** The latest user message answered by several models side by side; the user keeps one reply. */
+export interface CompareRun {
+  compareId: string;
+  candidates: CompareCandidate[];
 }
 
 // SSE events (discriminated union)
 export type SSEEvent =
   | { type: "token"; data: string }
+  | { type: "thinking"; data: { text: string; signature?: string } }
   | { type: "tool_call"; data: ToolCall }
+  /** Argument text of a tool call being streamed; the complete call follows as `tool_call`. */
+  | { type: "tool_call_delta"; data: ToolCallDelta }
   | { type: "tool_result"; data: ToolResult }
   | { type: "done"; data: { hasToolCalls: boolean } }
   | { type: "error"; data: ClassifiedError }
   | { type: "debug"; data: { direction: "request"; body: unknown } }
-  | { type: "usage"; data: { inputTokens: number; outputTokens: number } }
-  | { type: "snapshot"; data: { assistantId: string; content: string; model: string; toolCalls: ToolCall[] } }
+  | { type: "usage"; data: TokenUsage }
+  | { type: "snapshot"; data: { assistantId: string; content: string; reasoning?: string; model: string; toolCalls: ToolCall[]; partialToolCalls?: PartialToolCall[] } }
+  | { type: "retrying"; data: RetryInfo }
   | { type: "auto_approved"; data: { messageId: string } }
+  /** The tool loop paused at `messageId`, which stays pending until the user continues or stops it. */
+  | { type: "loop_limit"; data: LoopLimitHit & { messageId: string } }
   | { type: "compaction_started"; data: { sessionId: string } }
   | { type: "compaction"; data: ChatMessage }
   | { type: "compaction_error"; data: { sessionId: string; error: string } }
   | { type: "new_message"; data: ChatMessage }
+  | { type: "branch_changed"; data: { messages: ChatMessage[]; hasMore: boolean } }
+  | { type: "compare_started"; data: CompareRun }
+  /** A stream event of one compare candidate. */
+  | { type: "compare_event"; data: { compareId: string; candidateId: string; event: SSEEvent } }
+  /** The run is over: `message` is the kept reply, null when the run was cancelled. */
+  | { type: "compare_resolved"; data: { compareId: string; message: ChatMessage | null } }
   | { type: "settings_changed"; data: AppSettings }
   | { type: "session_created"; data: Session }
   | { type: "session_deleted"; data: { id: string } }
   | { type: "session_updated"; data: Session }
   | { type: "memory_changed"; data: Record<string, never> }
-  | { type: "approval_changed"; data: { messageId: string; approvalStatus: string } }
+  | { type: "models_changed"; data: Record<string, never> }
+  | { type: "personas_changed"; data: Record<string, never> }
+  | { type: "approval_rules_changed"; data: Record<string, never> }
+  /** The tool registry or an MCP server's connection status changed. */
+  | { type: "tools_changed"; data: Record<string, never> }
+  | { type: "approval_changed"; data: ApprovalChange }
   | { type: "tool_progress"; data: { toolCallId: string; toolName: string; progress: number; total: number; message?: string } };
 
 // Request/Response types
@@ -122,9 +256,142 @@ export interface ModelInfo {
   provider: string;
   contextWindow: number;
   nativeVision: boolean;
+  /** Response token cap sent to the provider. Provider default when unset. */
+  maxOutputTokens?: number;
+  /** USD per million input tokens. */
+  inputPrice?: number;
+  /** USD per million output tokens. */
+  outputPrice?: number;
+}
+
+// Usage ledger types
+
+/** Why an LLM call was made. Everything except "chat" is a call the user never sees directly. */
+export type UsagePurpose = "chat" | "session_name" | "compaction" | "browser" | "vision";
+
+export type UsageGroupBy = "day" | "session" | "model" | "purpose";
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  /** USD. Calls to models without pricing contribute 0 and are counted in `unpricedCalls`. */
+  cost: number;
+  unpricedCalls: number;
+}
+
+export interface UsageReportRow extends UsageTotals {
+  /** Group key: ISO day, session ID ("" for calls without a session), "provider:modelId" or purpose. */
+  key: string;
+  label: string;
+}
+
+export interface UsageReport {
+  groupBy: UsageGroupBy;
+  /** Inclusive ISO date (YYYY-MM-DD). */
+  from: string;
+  /** Exclusive ISO date (YYYY-MM-DD). */
+  to: string;
+  rows: UsageReportRow[];
+  total: UsageTotals;
+}
+
+// Tool execution audit log
+
+/**
+ * How a tool call came to run: approved on a device, allowed by an approval
+ * rule or by the chat's auto-approve, or run directly from the Tools page.
+ */
+export type ToolApprovalKind = "user" | "rule" | "auto" | "direct";
+
+export interface ToolCallApprover {
+  kind: ToolApprovalKind;
+  /** The device for "user" and "direct", the rule's description for "rule". */
+  by?: string;
+  ruleId?: string;
+}
+
+export type ToolExecutionOutcome = "success" | "error" | "cancelled";
+
+export interface ToolExecution {
+  id: string;
+  /** Null once the session is deleted, or for calls run outside a session. */
+  sessionId: string | null;
+  sessionTitle: string | null;
+  messageId: string | null;
+  toolCallId: string;
+  tool: string;
+  operation: string;
+  arguments: Record<string, unknown>;
+  /** Epoch ms. */
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  outcome: ToolExecutionOutcome;
+  /** Bytes of output the tool returned, before oversized output was spilled to a file. */
+  outputBytes: number;
+  approval: ToolCallApprover;
+}
+
+export interface ToolExecutionFilter {
+  sessionId?: string;
+  tool?: string;
+  operation?: string;
+  outcome?: ToolExecutionOutcome;
+  approval?: ToolApprovalKind;
+  /** Case-insensitive text searched for in the arguments, e.g. part of a command or path. */
+  search?: string;
+  /** Inclusive ISO date (YYYY-MM-DD). */
+  from?: string;
+  /** Exclusive ISO date (YYYY-MM-DD). */
+  to?: string;
+}
+
+export interface ToolExecutionPage {
+  /** Newest first. */
+  executions: ToolExecution[];
+  /** Executions matching the filter, across all pages. */
+  total: number;
 }
 
 // Session types
+
+/** Sampling overrides sent with each request. Unset fields use the provider's defaults. */
+export interface SamplingParams {
+  temperature?: number;
+  topP?: number;
+  /** Overrides the model registry's maxOutputTokens. */
+  maxOutputTokens?: number;
+}
+
+/**
+ * Limits on one turn of the auto-approved tool loop, counted from the user's
+ * message (or from the last "continue"). Unset fields use the global
+ * settings; 0 turns a limit off.
+ */
+export interface LoopLimits {
+  /** Tool rounds. */
+  maxRounds?: number;
+  /** Wall-clock seconds. */
+  maxSeconds?: number;
+  /** Input plus output tokens across the turn's LLM calls. */
+  maxTokens?: number;
+}
+
+export type LoopLimitReason = "rounds" | "time" | "tokens" | "repetition";
+
+/** Why the tool loop paused, and how far the turn had got. */
+export interface LoopLimitHit {
+  reason: LoopLimitReason;
+  /** One sentence for the user, e.g. "Reached the limit of 10 tool rounds". */
+  detail: string;
+  rounds: number;
+  elapsedMs: number;
+  tokens: number;
+}
+
 export interface Session {
   id: string;
   title: string;
@@ -133,13 +400,182 @@ export interface Session {
   model: string;
   /** Stored as "provider:modelId" (e.g. "gemini:gemini-2.0-flash"). Empty string if not set. */
   visionModel: string;
+  /** Models ("provider:modelId") that take over, in order, when the session model keeps failing. */
+  fallbackModels: string[];
+  /** Reasoning token budget for models that support thinking. 0 disables thinking. */
+  thinkingBudget: number;
+  /** Replaces the global system prompt for this session. Empty string if not set. */
+  systemPrompt: string;
+  sampling: SamplingParams;
+  loopLimits: LoopLimits;
   createdAt: string;
   updatedAt: string;
 }
 
+/** Reusable session preset applied by sessions.create. */
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  /** "provider:modelId", or empty string to keep the default model. */
+  model: string;
+  sampling: SamplingParams;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type McpTransport = "stdio" | "http";
+
+/** An external Model Context Protocol server whose tools are mounted in vladbot. */
+export interface McpServerConfig {
+  id: string;
+  /** Tool name prefix: the server's tools are called `mcp_<name>_<tool>`. */
+  name: string;
+  transport: McpTransport;
+  /** stdio: executable to spawn, its arguments and extra environment. */
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  /** http: streamable HTTP endpoint and extra request headers. */
+  url: string;
+  headers: Record<string, string>;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type McpConnectionState = "connecting" | "connected" | "disconnected" | "disabled";
+
+export interface McpServerStatus {
+  state: McpConnectionState;
+  toolCount: number;
+  /** Why the last connection attempt failed or dropped. */
+  error?: string;
+}
+
+export interface McpServer extends McpServerConfig {
+  status: McpServerStatus;
+}
+
+/** A module in the tool plugin directory. */
+export interface ToolPluginStatus {
+  /** File name within the plugin directory. */
+  file: string;
+  state: "loaded" | "error";
+  /** Names of the tools the plugin registered. */
+  tools: string[];
+  /** Why the last load failed; the plugin's tools stay unregistered. */
+  error?: string;
+  /** When the plugin was last (re)loaded. */
+  loadedAt: string;
+}
+
+export type ApprovalOutcome = "allow" | "ask" | "deny";
+
+/** Matches one argument of a tool call. A missing argument is matched as "". */
+export interface ArgumentMatcher {
+  param: string;
+  /**
+   * glob: path pattern (`*`, `**`, `?`, leading `~`) matched against the
+   * argument resolved to an absolute path. regex: JavaScript regular
+   * expression, unanchored.
+   */
+  kind: "glob" | "regex";
+  pattern: string;
+  /** Match when the pattern does NOT match, e.g. "outside /tmp". */
+  negate?: boolean;
+}
+
+/** Decides whether matching tool calls run, wait for a human, or are refused. */
+export interface ApprovalRule {
+  id: string;
+  /** Null for a global rule, otherwise the session the rule is limited to. */
+  sessionId: string | null;
+  description: string;
+  /** Tool name or "*". */
+  tool: string;
+  /** Operation name or "*". */
+  operation: string;
+  /** All matchers must match. */
+  args: ArgumentMatcher[];
+  outcome: ApprovalOutcome;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ApprovalDecision {
+  outcome: ApprovalOutcome;
+  /** The rule that decided; unset when no rule matched and the session default applied. */
+  ruleId?: string;
+  /** Human-readable explanation shown next to the tool call. */
+  reason: string;
+}
+
+/** A path a delete or move would touch. */
+export interface PreviewPath {
+  path: string;
+  type: "file" | "directory" | "symlink" | "other";
+  /** Bytes; 0 for directories. */
+  size: number;
+  /** Where a move puts it. */
+  destination?: string;
+}
+
+/**
+ * What a mutating tool call would do, worked out before it is approved:
+ * the diff a write makes, the paths a delete or move touches, or the
+ * permission change of a chmod. A "note" explains why there is nothing to
+ * show, e.g. the call will fail.
+ */
+export type ToolCallPreview =
+  | {
+      kind: "diff";
+      path: string;
+      /** Unified diff; empty when the content doesn't change. */
+      diff: string;
+      newFile: boolean;
+      /** Only the first hunks are shown. */
+      truncated: boolean;
+    }
+  | {
+      kind: "paths";
+      action: "delete" | "move";
+      /** Listed entries, the top path first; at most a few hundred. */
+      paths: PreviewPath[];
+      totalCount: number;
+      totalSize: number;
+      /** The walk stopped early; the totals are a lower bound. */
+      truncated: boolean;
+      warning?: string;
+    }
+  | { kind: "permissions"; path: string; from: string; to: string }
+  | { kind: "note"; text: string };
+
+/** The user's verdict on one tool call. A round runs once every call has one. */
+export interface ToolCallApproval {
+  status: "approved" | "denied";
+  /** Returned to the LLM with a denial. */
+  reason?: string;
+  /** The model's arguments, when the user edited them before approving. */
+  originalArguments?: Record<string, unknown>;
+  /** The device that gave the verdict. */
+  device?: string;
+}
+
+/** A message's approval state after someone approved or denied (some of) its calls. */
+export interface ApprovalChange {
+  messageId: string;
+  approvalStatus: string;
+  toolCallApprovals?: Record<string, ToolCallApproval>;
+  /** Present when an edit changed a call's arguments. */
+  toolCalls?: ToolCall[];
+  approvalDecisions?: Record<string, ApprovalDecision>;
+}
+
 export interface SessionWithMessages extends Session {
   messages: ChatMessage[];
-  tokenUsage?: { inputTokens: number; outputTokens: number };
+  tokenUsage?: TokenUsage;
 }
 
 // Memory types
@@ -201,6 +637,14 @@ export interface AppSettings {
   system_prompt: string;
   context_compaction_threshold: string;
   compaction_verbatim_budget: string;
+  llm_retry_max_attempts: string;
+  llm_retry_base_delay_ms: string;
+  llm_retry_max_delay_ms: string;
+  tool_concurrency: string;
+  tool_output_token_budget: string;
+  loop_max_rounds: string;
+  loop_max_seconds: string;
+  loop_max_tokens: string;
 
   messages_page_size: string;
 }
@@ -1,9 +1,24 @@
 import type {
+  ApprovalChange,
+  ApprovalRule,
   ChatMessage,
+  CompareRun,
+  LoopLimits,
+  McpServer,
+  McpServerConfig,
   MemoryCreateRequest,
   MemoryUpdateRequest,
+  ModelInfo,
+  Persona,
+  SamplingParams,
   SSEEvent,
   ToolCall,
+  ToolDefinition,
+  ToolExecutionFilter,
+  ToolExecutionPage,
+  ToolPluginStatus,
+  UsageGroupBy,
+  UsageReport,
 } from "./types.js";
 
 // ---------------------------------------------------------------------------
@@ -44,8 +59,49 @@ export interface WsMethods {
   "config.retries": { payload: { count: number }; result: {} };
 
   // Models & Tools
-  "models.list": { payload: {}; result: unknown[] };
-  "tools.list": { payload: {}; result: { definitions: unknown[] } };
+  "models.list": { payload: { all?: boolean }; result: unknown[] };
+  "models.create": { payload: ModelInfo; result: ModelInfo };
+  "models.update": {
+    payload: { provider: string; id: string } & Partial<Omit<ModelInfo, "provider" | "id">>;
+    result: ModelInfo;
+  };
+  "models.delete": { payload: { provider: string; id: string }; result: {} };
+  "tools.list": { payload: {}; result: { definitions: ToolDefinition[]; plugins: ToolPluginStatus[] } };
+
+  // Personas
+  "personas.list": { payload: {}; result: Persona[] };
+  "personas.create": { payload: Omit<Persona, "id" | "createdAt" | "updatedAt">; result: Persona };
+  "personas.update": {
+    payload: { id: string } & Partial<Omit<Persona, "id" | "createdAt" | "updatedAt">>;
+    result: Persona;
+  };
+  "personas.delete": { payload: { id: string }; result: {} };
+
+  // MCP servers
+  "mcp.servers.list": { payload: {}; result: McpServer[] };
+  "mcp.servers.create": {
+    payload: Omit<McpServerConfig, "id" | "createdAt" | "updatedAt">;
+    result: McpServer;
+  };
+  "mcp.servers.update": {
+    payload: { id: string } & Partial<Omit<McpServerConfig, "id" | "createdAt" | "updatedAt">>;
+    result: McpServer;
+  };
+  "mcp.servers.delete": { payload: { id: string }; result: {} };
+  "mcp.servers.reconnect": { payload: { id: string }; result: McpServer };
+
+  // Approval rules
+  /** Global rules, plus the rules of `sessionId` when given. */
+  "approvalRules.list": { payload: { sessionId?: string }; result: ApprovalRule[] };
+  "approvalRules.create": {
+    payload: Omit<ApprovalRule, "id" | "createdAt" | "updatedAt">;
+    result: ApprovalRule;
+  };
+  "approvalRules.update": {
+    payload: { id: string } & Partial<Omit<ApprovalRule, "id" | "sessionId" | "createdAt" | "updatedAt">>;
+    result: ApprovalRule;
+  };
+  "approvalRules.delete": { payload: { id: string }; result: {} };
 
   // Chat
   "chat.stream": {
@@ -56,6 +112,18 @@ export interface WsMethods {
     payload: { sessionId: string };
     result: { active: boolean };
   };
+  "chat.compare": {
+    payload: { sessionId: string; models: string[] };
+    result: CompareRun;
+  };
+  "chat.compare.pick": {
+    payload: { sessionId: string; compareId: string; candidateId: string };
+    result: { message: ChatMessage };
+  };
+  "chat.compare.cancel": {
+    payload: { sessionId: string; compareId: string };
+    result: {};
+  };
   "chat.tools.validate": {
     payload: { toolCalls: ToolCall[] };
     result: { errors: unknown[] };
@@ -67,9 +135,22 @@ export interface WsMethods {
 
   // Sessions
   "sessions.list": { payload: {}; result: unknown[] };
-  "sessions.create": { payload: { title?: string; model?: string }; result: unknown };
+  "sessions.create": { payload: { title?: string; model?: string; personaId?: string }; result: unknown };
   "sessions.get": { payload: { id: string }; result: unknown };
-  "sessions.update": { payload: { id: string; title?: string; autoApprove?: boolean }; result: unknown };
+  "sessions.update": {
+    payload: {
+      id: string;
+      title?: string;
+      autoApprove?: boolean;
+      visionModel?: string;
+      fallbackModels?: string[];
+      thinkingBudget?: number;
+      systemPrompt?: string;
+      sampling?: SamplingParams;
+      loopLimits?: LoopLimits;
+    };
+    result: unknown;
+  };
   "sessions.delete": { payload: { id: string }; result: {} };
   "sessions.lastActive.get": { payload: {}; result: { sessionId: string | null } };
   "sessions.lastActive.set": { payload: { sessionId: string }; result: {} };
@@ -104,10 +185,31 @@ export interface WsMethods {
     payload: {
       sessionId: string;
       messageId: string;
+      /** Approve only this call; without it, every call not yet decided. */
+      toolCallId?: string;
+      /** Replacement arguments for `toolCallId`. */
+      arguments?: Record<string, unknown>;
     };
-    result: {};
+    result: ApprovalChange;
   };
   "messages.deny": {
+    payload: { sessionId: string; messageId: string; toolCallId?: string; reason?: string };
+    result: ApprovalChange;
+  };
+  /** Resume a round the tool loop paused at, allowing `rounds` more. */
+  "messages.continueLoop": {
+    payload: { sessionId: string; messageId: string; rounds: number };
+    result: ApprovalChange;
+  };
+  "messages.regenerate": {
+    payload: { sessionId: string; messageId: string };
+    result: { assistantId: string };
+  };
+  "messages.edit": {
+    payload: { sessionId: string; messageId: string; content: string };
+    result: { messageId: string; assistantId: string };
+  };
+  "messages.switchBranch": {
     payload: { sessionId: string; messageId: string };
     result: {};
   };
@@ -129,6 +231,18 @@ export interface WsMethods {
     payload: { settings: Record<string, string> };
     result: { settings: Record<string, string> };
   };
+
+  // Usage
+  "usage.report": {
+    payload: { groupBy: UsageGroupBy; from?: string; to?: string };
+    result: UsageReport;
+  };
+
+  // Audit
+  "audit.list": {
+    payload: ToolExecutionFilter & { limit?: number; offset?: number };
+    result: ToolExecutionPage;
+  };
 }
 
 export type WsMethodType = keyof WsMethods;
@@ -137,7 +251,10 @@ export type WsMethodType = keyof WsMethods;
 export const NON_RETRYABLE_TYPES: ReadonlySet<string> = new Set<WsMethodType>([
   "chat.stream",
   "chat.subscribe",
+  "chat.compare",
   "messages.approve",
+  "messages.regenerate",
+  "messages.edit",
 ]);
 
 /** Maximum retry count a client can request. */